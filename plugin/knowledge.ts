@@ -153,6 +153,13 @@ export const KnowledgePlugin: Plugin = async (ctx) => {
 				const params = new URLSearchParams();
 				for (const q of allQueries) params.append("q", q);
 				params.set("limit", "8"); // passive injection: up from 5 to reduce silent misses
+				// Token budget for the injected entries — same default as the server's
+				// ACTIVATION_PASSIVE_MAX_TOKENS (the plugin cannot read server config).
+				params.set("maxTokens", "2000");
+				// Working directory — the server boosts knowledge from the same project.
+				if (ctx.directory) params.set("cwd", ctx.directory);
+				// Session ID — the server skips entries already injected into this session.
+				if (input.sessionID) params.set("sessionId", input.sessionID);
 
 				const response = await fetch(
 					`${KNOWLEDGE_SERVER_URL}/activate?${params.toString()}`,
@@ -1,17 +1,36 @@
+import type { ProjectConfig } from "../config-file.js";
 import { config } from "../config.js";
 import { computeStrength } from "../consolidation/decay.js";
+import {
+	bestProjectMatch,
+	normalizeDirectory,
+} from "../consolidation/domain-router.js";
+import { ConsolidationLLM } from "../consolidation/llm.js";
+import { approxTokens } from "../daemon/readers/shared.js";
 import type { IKnowledgeStore } from "../db/index.js";
+import {
+	extractLexicalTerms,
+	isIdentifierLike,
+	textTerms,
+} from "../db/lexical.js";
 import { logger } from "../logger.js";
 import type {
+	ActivationFilters,
 	ActivationResult,
+	ActivationVia,
 	ContradictionAnnotation,
 	KnowledgeEntry,
+	RankFusion,
+	RerankOutcome,
+	TokenBudget,
 } from "../types.js";
 import {
 	EmbeddingClient,
 	cosineSimilarity,
 	formatEmbeddingText,
 } from "./embeddings.js";
+import { QueryExpander } from "./query-expansion.js";
+import { SessionMemory } from "./session-memory.js";
 
 /**
  * Split a prompt into activation cues for multi-topic retrieval.
@@ -46,9 +65,16 @@ export function splitIntoCues(prompt: string): string[] {
  * Activation engine — the core retrieval mechanism.
  *
  * Models associative activation from cognitive science:
- * - Input cues are embedded into the same vector space as knowledge entries
- * - Entries activate based on semantic similarity (not keyword match)
+ * - Input cues are embedded into the same vector space as knowledge entries,
+ *   optionally alongside an LLM-written hypothetical entry per cue (HyDE)
+ * - Entries activate based on semantic similarity, optionally fused with a
+ *   full-text ranking so exact identifiers still activate (hybrid retrieval)
  * - Activation strength is modulated by the entry's decay-adjusted strength
+ * - Entries from the caller's project (when a cwd is given) rank higher
+ * - An optional LLM pass re-ranks the top candidates and drops loose matches
+ * - Strongly activated entries pull in the entries they are supported by (one hop)
+ * - Within a session, entries already returned are not returned again
+ * - Callers can restrict activation by type, topic, store, confidence and status
  * - The same mechanism serves both passive (plugin-triggered) and active (agent-triggered) retrieval
  */
 export class ActivationEngine {
@@ -68,7 +94,27 @@ export class ActivationEngine {
 	 * are merged and re-ranked by similarity score.
 	 */
 	private readDbs: IKnowledgeStore[];
+	/**
+	 * Configured projects (config.jsonc `projects`) with pre-normalized paths.
+	 * Used to decide whether an entry's recorded directory and the caller's cwd
+	 * belong to the same project.
+	 */
+	private projects: Array<ProjectConfig & { normalizedPath: string }>;
+	/**
+	 * Config store ID of each read store — used by the `store` activation filter.
+	 * Stores without a known ID never match a store filter.
+	 */
+	private storeIds: Map<IKnowledgeStore, string>;
 	readonly embeddings: EmbeddingClient;
+	/** LLM client for the optional re-ranking pass (config.activation.rerank). */
+	readonly llm: ConsolidationLLM;
+	/**
+	 * Entry IDs already returned per session ID — activations that pass a
+	 * sessionId skip them. Shared by every caller of this engine (HTTP, MCP, hook).
+	 */
+	private sessions: SessionMemory;
+	/** Cached HyDE expansions of activation cues (config.activation.queryExpansion). */
+	private queryExpander: QueryExpander;
 
 	/**
 	 * @param writableDb   The primary writable store — receives access records.
@@ -76,16 +122,41 @@ export class ActivationEngine {
 	 *                     If omitted, defaults to [writableDb] (single-store mode).
 	 * @param writableDbs  All writable stores for embedding/re-embed operations.
 	 *                     If omitted, defaults to [writableDb] (single-store mode).
+	 * @param projects     Configured project path prefixes for cwd-scoped activation.
+	 *                     If omitted, projects are compared by exact directory.
+	 * @param storeEntries Read stores with their config IDs, for the `store` filter.
+	 *                     If omitted, store filters match nothing.
 	 */
 	constructor(
 		writableDb: IKnowledgeStore,
 		readDbs?: IKnowledgeStore[],
 		writableDbs?: IKnowledgeStore[],
+		projects: ProjectConfig[] = [],
+		storeEntries: Array<{ id: string; db: IKnowledgeStore }> = [],
 	) {
 		this.db = writableDb;
 		this.readDbs = readDbs ?? [writableDb];
 		this.writableDbs = writableDbs ?? [writableDb];
+		this.projects = projects.map((p) => ({
+			...p,
+			normalizedPath: normalizeDirectory(p.path),
+		}));
+		this.storeIds = new Map(storeEntries.map(({ id, db }) => [db, id]));
 		this.embeddings = new EmbeddingClient();
+		this.llm = new ConsolidationLLM();
+		this.sessions = new SessionMemory(config.activation.sessionTtlMs);
+		this.queryExpander = new QueryExpander(
+			this.llm,
+			config.activation.queryExpansionCacheSize,
+		);
+	}
+
+	/**
+	 * Config store ID of a read store, as matched by `store` filters — or
+	 * undefined when the store has no known ID.
+	 */
+	storeIdOf(db: IKnowledgeStore): string | undefined {
+		return this.storeIds.get(db);
 	}
 
 	/**
@@ -102,6 +173,60 @@ export class ActivationEngine {
 	 * deduplicated, filtered by threshold, and ranked — so a multi-topic message
 	 * retrieves relevant knowledge for every topic, not just the dominant one.
 	 *
+	 * With query expansion, the LLM writes a hypothetical entry for each query
+	 * and those are embedded alongside the queries — an entry's best similarity
+	 * across all vectors counts. Lexical search and re-ranking use the raw
+	 * queries only. Expansions are cached; failures fall back to the raw queries.
+	 *
+	 * When lexicalWeight > 0 and a read store implements searchLexical, the
+	 * queries also run through full-text search and the two rankings are
+	 * combined with reciprocal rank fusion (RRF). A lexical match missing from
+	 * the vector candidates still has to pass the similarity threshold, unless
+	 * it shares an identifier-like term with the query (one with a digit or an
+	 * underscore) — that is how an exact identifier with a weak embedding match
+	 * still activates, without one shared common word pulling in unrelated
+	 * entries.
+	 *
+	 * When a cwd is given, entries recorded in the same project get a ranking
+	 * boost (config.activation.projectBoost); with excludeOtherProjects, entries
+	 * recorded in a different project are dropped. Entries without a recorded
+	 * directory are never filtered.
+	 *
+	 * With MMR diversification, the top candidates are re-ordered by maximal
+	 * marginal relevance: each pick balances its ranking score against its
+	 * embedding similarity to the entries already picked (weighted by mmrLambda),
+	 * so near-duplicates of one fact do not fill every slot. It runs before
+	 * re-ranking, on the candidates the re-ranker (or the limit) will see.
+	 *
+	 * When re-ranking is enabled, the top candidates are sent to the rerank model
+	 * with the query; it drops loosely related entries and reorders the rest.
+	 * If the model misses its latency budget or fails, the retrieval order is kept.
+	 *
+	 * Graph expansion (opt-in: expand or ACTIVATION_EXPANSION=true) follows
+	 * `supports` relations one hop from strongly activated results, so a
+	 * synthesized principle surfaces alongside the concrete entries that justify
+	 * it. Expanded entries carry a decayed score and a `via` field naming the link.
+	 *
+	 * With maxTokens, the ranked entries are packed into an approximate token
+	 * budget: entries that do not fit are dropped, and the first one that
+	 * overflows is truncated when enough room is left to make it useful.
+	 *
+	 * Filters restrict every candidate source (vector, lexical, expansion).
+	 * Type, topic and minConfidence are pushed down into findSimilarEntries on
+	 * ANN-capable stores and applied during the full scan otherwise; `store`
+	 * limits the fan-out and `includeStatuses` replaces the default
+	 * active + conflicted status set.
+	 *
+	 * With explain, every returned entry carries its similarity to each cue
+	 * (`cues`), and the activation has no side effects: access is not recorded
+	 * and session memory is left untouched.
+	 *
+	 * Entries listed in excludeIds are never returned. With a sessionId, entries
+	 * already returned to that session are excluded too, and the entries returned
+	 * now are remembered for the session (config.activation.sessionTtlMs). The
+	 * exclusion happens before the limit is applied, so newly relevant entries
+	 * fill the freed slots.
+	 *
 	 * @param queries - One query string, or an array of query strings (segments + full message)
 	 * @returns Ranked knowledge entries above the similarity threshold, with staleness signals
 	 */
@@ -112,6 +237,32 @@ export class ActivationEngine {
 			limit?: number;
 			/** Min similarity threshold. Overrides config.activation.similarityThreshold. */
 			threshold?: number;
+			/** Lexical share of the RRF fusion (0 = vector only). Overrides config.activation.lexicalWeight. */
+			lexicalWeight?: number;
+			/** Caller's working directory — enables same-project boosting. */
+			cwd?: string;
+			/** Drop entries recorded in a different project than cwd. No effect without cwd. */
+			excludeOtherProjects?: boolean;
+			/** Diversify results by maximal marginal relevance. Overrides config.activation.mmr. */
+			mmr?: boolean;
+			/** MMR relevance weight in [0, 1]. Overrides config.activation.mmrLambda. */
+			mmrLambda?: number;
+			/** Run the LLM re-ranking pass. Overrides config.activation.rerank. */
+			rerank?: boolean;
+			/** Embed an LLM-written hypothetical entry per query. Overrides config.activation.queryExpansion. */
+			queryExpansion?: boolean;
+			/** Follow supports relations from strong results. Overrides config.activation.expansion. */
+			expand?: boolean;
+			/** Approximate token budget for the returned entries' content. */
+			maxTokens?: number;
+			/** Entry IDs to leave out of the result (e.g. already in the caller's context). */
+			excludeIds?: string[];
+			/** Conversation ID — skips entries already returned to the same session. */
+			sessionId?: string;
+			/** Restrict activation by type, topic, store, confidence and status. */
+			filters?: ActivationFilters;
+			/** Report per-cue similarities; read-only (no access recording, no session memory). */
+			explain?: boolean;
 		},
 	): Promise<ActivationResult> {
 		const queryList = (Array.isArray(queries) ? queries : [queries]).filter(
@@ -129,12 +280,42 @@ export class ActivationEngine {
 		const maxResults = options?.limit ?? config.activation.maxResults;
 		const similarityThreshold =
 			options?.threshold ?? config.activation.similarityThreshold;
-
-		// Embed all queries in a single batched API call
-		const queryEmbeddings = await this.embeddings.embedBatch(queryList);
+		const lexicalWeight =
+			options?.lexicalWeight ?? config.activation.lexicalWeight;
+		const filters = options?.filters ?? {};
+		const statuses = filters.includeStatuses;
+		// The store filter narrows the fan-out; every other filter applies per entry.
+		const readDbs = filters.store
+			? this.readDbs.filter((db) => {
+					const id = this.storeIdOf(db);
+					return id !== undefined && filters.store?.includes(id);
+				})
+			: this.readDbs;
+		// Stores without full-text support contribute vector candidates only.
+		const lexicalDbs =
+			lexicalWeight > 0
+				? readDbs.filter((db) => typeof db.searchLexical === "function")
+				: [];
+
+		// Embed all queries (and their expansions) in a single batched API call.
+		// Lexical search needs no embeddings, so it runs concurrently.
+		const queryExpansion =
+			options?.queryExpansion ?? config.activation.queryExpansion;
+		let expansions: string[] | undefined;
+		const embedQueries = async (): Promise<number[][]> => {
+			if (!queryExpansion) return this.embeddings.embedBatch(queryList);
+			expansions = await this.queryExpander.expand(
+				queryList,
+				config.activation.queryExpansionTimeoutMs,
+			);
+			return this.embeddings.embedBatch([...queryList, ...expansions]);
+		};
+		const [queryEmbeddings, lexicalHits] = await Promise.all([
+			embedQueries(),
+			this.searchLexical(lexicalDbs, queryList, maxResults, filters),
+		]);
 
 		const now = Date.now();
-		const DAY_MS = 1000 * 60 * 60 * 24;
 
 		// ── Candidate retrieval ────────────────────────────────────────────────────
 		// Two paths depending on whether the store supports DB-side ANN search:
@@ -155,16 +336,14 @@ export class ActivationEngine {
 		// Typed as KnowledgeEntry (not the narrower & { embedding: number[] }) so that
 		// source entries fetched via getSupportSourcesForIds() can be pushed later without
 		// a type error (those entries may have embedding undefined).
-		const scored: Array<{
+		let scored: Array<{
 			entry: KnowledgeEntry;
 			rawSimilarity: number;
 			similarity: number;
-			staleness: {
-				ageDays: number;
-				strength: number;
-				lastAccessedDaysAgo: number;
-				mayBeStale: boolean;
-			};
+			staleness: ActivationResult["entries"][number]["staleness"];
+			fusion?: RankFusion;
+			sameProject?: boolean;
+			via?: ActivationVia;
 		}> = [];
 
 		// Track IDs across stores to deduplicate (first-store-wins). Used only on Path B.
@@ -181,7 +360,7 @@ export class ActivationEngine {
 		//      embedding_vec column populated, HNSW index ready. This can be false
 		//      during a model-change re-embed window; without this check Path A
 		//      would silently return zero results instead of falling back to Path B.
-		const allStoresSupportAnn = this.readDbs.every(
+		const allStoresSupportAnn = readDbs.every(
 			(db) =>
 				typeof db.findSimilarEntries === "function" &&
 				(typeof db.isVectorSearchReady !== "function" || db.isVectorSearchReady()),
@@ -197,15 +376,21 @@ export class ActivationEngine {
 				Promise.all(
 					queryEmbeddings.map((qEmb) =>
 						Promise.all(
-							this.readDbs.map((db) =>
+							readDbs.map((db) =>
 								// biome-ignore lint/style/noNonNullAssertion: guarded by allStoresSupportAnn
-								db.findSimilarEntries!(qEmb, maxResults, similarityThreshold),
+								db.findSimilarEntries!(
+									qEmb,
+									maxResults,
+									similarityThreshold,
+									statuses,
+									filters,
+								),
 							),
 						),
 					),
 				),
 				Promise.all(
-					this.readDbs.map((db) =>
+					readDbs.map((db) =>
 						typeof db.getActiveEntryCount === "function"
 							? db.getActiveEntryCount()
 							: Promise.resolve(0),
@@ -234,23 +419,13 @@ export class ActivationEngine {
 			// Score each deduplicated candidate (bestSimilarityById already deduplicates
 			// by entry ID — no further seenIds check needed here).
 			for (const { entry, rawSimilarity } of bestSimilarityById.values()) {
-				const ageDays = (now - entry.createdAt) / DAY_MS;
-				const lastAccessedDaysAgo = (now - entry.lastAccessedAt) / DAY_MS;
-				const halfLife =
-					config.decay.typeHalfLife[entry.type] ||
-					config.decay.typeHalfLife.fact;
 				const liveStrength = computeStrength(entry, now);
 
 				scored.push({
 					entry,
 					rawSimilarity,
 					similarity: rawSimilarity * liveStrength,
-					staleness: {
-						ageDays: Math.round(ageDays),
-						strength: liveStrength,
-						lastAccessedDaysAgo: Math.round(lastAccessedDaysAgo),
-						mayBeStale: ageDays > halfLife && entry.accessCount < 3,
-					},
+					staleness: computeStaleness(entry, liveStrength, now),
 				});
 			}
 		} else {
@@ -259,19 +434,18 @@ export class ActivationEngine {
 			// Entries from different stores may have overlapping IDs if the same entry
 			// was synced to multiple stores — deduplicate by ID keeping the first occurrence.
 			const allEntriesPerStore = await Promise.all(
-				this.readDbs.map((db) => db.getActiveEntriesWithEmbeddings()),
+				readDbs.map((db) => db.getActiveEntriesWithEmbeddings(statuses)),
 			);
+			// No early return when this is empty — lexical hits may still activate
+			// entries that have no embedding yet.
 			const entries = allEntriesPerStore.flat().filter((e) => {
 				if (seenIds.has(e.id)) return false;
 				seenIds.add(e.id);
 				return true;
 			});
 
-			if (entries.length === 0) {
-				return { entries: [], query: primaryQuery, totalActive: 0 };
-			}
-
 			for (const entry of entries) {
+				if (!matchesFilters(entry, filters)) continue;
 				const rawSimilarity = Math.max(
 					...queryEmbeddings.map((qEmb) =>
 						cosineSimilarity(qEmb, entry.embedding),
@@ -279,11 +453,6 @@ export class ActivationEngine {
 				);
 				if (rawSimilarity < similarityThreshold) continue;
 
-				const ageDays = (now - entry.createdAt) / DAY_MS;
-				const lastAccessedDaysAgo = (now - entry.lastAccessedAt) / DAY_MS;
-				const halfLife =
-					config.decay.typeHalfLife[entry.type] ||
-					config.decay.typeHalfLife.fact;
 				const liveStrength = computeStrength(entry, now);
 
 				scored.push({
@@ -295,12 +464,7 @@ export class ActivationEngine {
 					// The staleness signals in the response let the LLM reason about reliability.
 					rawSimilarity,
 					similarity: rawSimilarity * liveStrength,
-					staleness: {
-						ageDays: Math.round(ageDays),
-						strength: liveStrength,
-						lastAccessedDaysAgo: Math.round(lastAccessedDaysAgo),
-						mayBeStale: ageDays > halfLife && entry.accessCount < 3,
-					},
+					staleness: computeStaleness(entry, liveStrength, now),
 				});
 			}
 		}
@@ -310,89 +474,186 @@ export class ActivationEngine {
 		// Path B: seenIds.size is exact (we loaded every entry).
 		const totalActive = allStoresSupportAnn ? annTotalActive : seenIds.size;
 
-		if (scored.length === 0) {
-			return { entries: [], query: primaryQuery, totalActive };
+		// ── Exclusions ─────────────────────────────────────────────────────────────
+		// Explicit excludeIds plus everything already returned to this session.
+		const excludedIds = new Set(options?.excludeIds ?? []);
+		if (options?.sessionId) {
+			for (const id of this.sessions.injected(options.sessionId)) {
+				excludedIds.add(id);
+			}
+		}
+		if (excludedIds.size > 0) {
+			scored = scored.filter(({ entry }) => !excludedIds.has(entry.id));
 		}
 
-		// Sort and cap.
-		scored.sort((a, b) => b.similarity - a.similarity);
-		scored.splice(maxResults);
+		// ── Project scoping ────────────────────────────────────────────────────────
+		// Applied to every candidate before fusion so vector ranks reflect the boost.
+		// Returns false for candidates that must be dropped (other project while
+		// excludeOtherProjects is set). Entries without a directory pass untouched.
+		const isSameProject = this.sameProjectMatcher(options?.cwd);
+		const excludeOtherProjects = options?.excludeOtherProjects ?? false;
+		const scopeToProject = (candidate: (typeof scored)[number]): boolean => {
+			const sameProject = isSameProject?.(candidate.entry);
+			if (sameProject === undefined) return true;
+			if (!sameProject && excludeOtherProjects) return false;
+			candidate.sameProject = sameProject;
+			if (sameProject) {
+				candidate.similarity *= 1 + config.activation.projectBoost;
+			}
+			return true;
+		};
+		if (isSameProject) scored = scored.filter(scopeToProject);
+
+		// ── Hybrid ranking: lexical candidates ─────────────────────────────────────
+		// Vector candidates are everything scored so far. Lexical hits that are not
+		// among them (below the similarity threshold, or outside Path A's ANN top-N)
+		// join as lexical-only candidates when they pass the threshold or share an
+		// identifier-like term with the queries. Their cosine similarity is still
+		// computed when an embedding is stored, so rawSimilarity stays meaningful.
+		const vectorCandidateCount = scored.length;
+		if (lexicalHits.length > 0) {
+			scored.sort((a, b) => b.similarity - a.similarity);
+			const vectorIds = new Set(scored.map(({ entry }) => entry.id));
+			const identifierTerms = [
+				...new Set(queryList.flatMap(extractLexicalTerms)),
+			].filter(isIdentifierLike);
+			for (const entry of lexicalHits) {
+				if (vectorIds.has(entry.id) || excludedIds.has(entry.id)) continue;
+				const embedding = entry.embedding;
+				const rawSimilarity = embedding
+					? Math.max(
+							...queryEmbeddings.map((qEmb) =>
+								cosineSimilarity(qEmb, embedding),
+							),
+						)
+					: 0;
+				if (rawSimilarity < similarityThreshold) {
+					const terms = textTerms(`${entry.content} ${entry.topics.join(" ")}`);
+					if (!identifierTerms.some((t) => terms.has(t))) continue;
+				}
+				const liveStrength = computeStrength(entry, now);
+				const candidate = {
+					entry,
+					rawSimilarity,
+					similarity: rawSimilarity * liveStrength,
+					staleness: computeStaleness(entry, liveStrength, now),
+				};
+				if (scopeToProject(candidate)) scored.push(candidate);
+			}
+		}
 
-		// Record access for activated entries (reinforces their strength)
-		for (const { entry } of scored) {
-			await this.db.recordAccess(entry.id);
+		if (scored.length === 0) {
+			return { entries: [], query: primaryQuery, totalActive, expansions };
 		}
 
-		// ── Relation-aware activation: pull in supports sources ───────────────────
-		// When a synthesized principle/pattern activates, surface its source entries
-		// alongside it. This lets the agent see both the abstraction and the
-		// concrete evidence it was distilled from.
-		//
-		// Design:
-		// - Collect IDs of activated synthesized entries (principle or pattern type)
-		// - Batch-fetch their supports source entries from the DB
-		// - For each source entry not already in the scored set, compute its score
-		//   as the synthesized entry's similarity × 0.9 (slightly lower to rank it
-		//   below the principle itself, but still nearby)
-		// - Add sources to the result (but do NOT exceed maxResults)
-		const synthesizedIds = scored
-			.filter(
-				({ entry }) => entry.type === "principle" || entry.type === "pattern",
-			)
-			.map(({ entry }) => entry.id);
+		// Sort and cap.
+		if (lexicalHits.length > 0) {
+			// Reciprocal rank fusion. `scored` is already in vector-rank order for
+			// its first vectorCandidateCount elements; lexical ranks follow the order
+			// of lexicalHits. A missing rank contributes nothing to the fused score.
+			// The sort is stable, so fused ties keep vector order.
+			const k = config.activation.rrfK;
+			const lexicalRankById = new Map(
+				lexicalHits.map((entry, i) => [entry.id, i + 1]),
+			);
+			for (let i = 0; i < scored.length; i++) {
+				const vectorRank = i < vectorCandidateCount ? i + 1 : null;
+				const lexicalRank = lexicalRankById.get(scored[i].entry.id) ?? null;
+				const score =
+					(vectorRank !== null ? (1 - lexicalWeight) / (k + vectorRank) : 0) +
+					(lexicalRank !== null ? lexicalWeight / (k + lexicalRank) : 0);
+				scored[i].fusion = { score, vectorRank, lexicalRank, lexicalWeight };
+			}
+			scored.sort((a, b) => (b.fusion?.score ?? 0) - (a.fusion?.score ?? 0));
+		} else {
+			scored.sort((a, b) => b.similarity - a.similarity);
+		}
 
-		const scoredIdSet = new Set(scored.map(({ entry }) => entry.id));
+		// ── MMR diversification ───────────────────────────────────────────────────
+		// Only the candidates that can still make the cut are re-ordered: the
+		// re-ranking window when re-ranking runs, otherwise the limit.
+		const rerankEnabled = options?.rerank ?? config.activation.rerank;
+		if (options?.mmr ?? config.activation.mmr) {
+			scored = diversifyByMMR(
+				scored,
+				rerankEnabled
+					? Math.max(config.activation.rerankCandidates, maxResults)
+					: maxResults,
+				options?.mmrLambda ?? config.activation.mmrLambda,
+			);
+		}
 
-		if (synthesizedIds.length > 0) {
-			// Fan out support sources lookup across all read stores and merge maps.
-			const sourceMaps = await Promise.all(
-				this.readDbs.map((db) => db.getSupportSourcesForIds(synthesizedIds)),
+		// ── LLM re-ranking ─────────────────────────────────────────────────────────
+		let rerank: RerankOutcome | undefined;
+		if (rerankEnabled) {
+			const reranked = await this.rerankCandidates(
+				primaryQuery,
+				scored,
+				maxResults,
 			);
-			const sourcesMap = mergeMaps(sourceMaps);
+			scored = reranked.candidates;
+			rerank = reranked.outcome;
+		}
+		scored.splice(maxResults);
 
-			// Snapshot the array before iterating — we push source entries into `scored`
-			// during the loop and don't want to visit newly-added entries (which could
-			// cascade if a source is itself a principle with its own supports relations).
-			const snapshot = [...scored];
-			for (const {
-				entry,
-				rawSimilarity,
-				similarity: synthSimilarity,
-			} of snapshot) {
-				if (entry.type !== "principle" && entry.type !== "pattern") continue;
-				const sources = sourcesMap.get(entry.id);
-				if (!sources) continue;
-
-				for (const source of sources) {
-					if (scoredIdSet.has(source.id)) continue; // already activated
-					if (scored.length >= maxResults) break;
-
-					const liveStrength = computeStrength(source, now);
-					const ageDays = (now - source.createdAt) / DAY_MS;
-					const lastAccessedDaysAgo = (now - source.lastAccessedAt) / DAY_MS;
-					const halfLife =
-						config.decay.typeHalfLife[source.type] ||
-						config.decay.typeHalfLife.fact;
-
-					// Use the synthesized entry's rawSimilarity as the source's signal.
-					// This ensures source entries rank slightly below their synthesized principle.
-					scored.push({
-						entry: source,
-						rawSimilarity,
-						similarity: synthSimilarity * 0.9 * liveStrength,
-						staleness: {
-							ageDays: Math.round(ageDays),
-							strength: liveStrength,
-							lastAccessedDaysAgo: Math.round(lastAccessedDaysAgo),
-							mayBeStale: ageDays > halfLife && source.accessCount < 3,
-						},
-					});
-					scoredIdSet.add(source.id);
-					await this.db.recordAccess(source.id);
+		// ── Graph expansion: one hop along supports relations ────────────────────
+		// Results with rawSimilarity ≥ expansionMinSimilarity pull in the entries
+		// linked to them by `supports` relations — for a synthesized principle or
+		// pattern, the concrete entries it was distilled from. This lets the agent
+		// see both the abstraction and the evidence behind it.
+		//
+		// Design:
+		// - Batch-fetch the supports sources of all seeds from every read store
+		// - Place each source right after the result that pulled it in, scored as
+		//   that result's similarity × expansionDecay × the source's own strength
+		//   (so it ranks just below its principle), with a `via` link
+		// - Add at most expansionMaxEntries, then re-cap at maxResults: expanded
+		//   entries displace the lowest-ranked results instead of growing the list
+		// - One hop only: expanded entries are never seeds themselves
+		if (options?.expand ?? config.activation.expansion) {
+			const minSimilarity = config.activation.expansionMinSimilarity;
+			const seedIds = scored
+				.filter(({ rawSimilarity }) => rawSimilarity >= minSimilarity)
+				.map(({ entry }) => entry.id);
+
+			if (seedIds.length > 0) {
+				// Fan out support sources lookup across all read stores and merge maps.
+				const sourceMaps = await Promise.all(
+					readDbs.map((db) => db.getSupportSourcesForIds(seedIds)),
+				);
+				const sourcesMap = mergeMaps(sourceMaps);
+
+				const scoredIdSet = new Set(scored.map(({ entry }) => entry.id));
+				const expanded: typeof scored = [];
+				let added = 0;
+				for (const result of scored) {
+					expanded.push(result);
+					if (result.rawSimilarity < minSimilarity) continue;
+					for (const source of sourcesMap.get(result.entry.id) ?? []) {
+						if (added >= config.activation.expansionMaxEntries) break;
+						if (scoredIdSet.has(source.id)) continue; // already activated
+						if (excludedIds.has(source.id)) continue;
+						if (!matchesFilters(source, filters)) continue;
+
+						const liveStrength = computeStrength(source, now);
+						// The source inherits the seed's rawSimilarity as its signal.
+						const candidate = {
+							entry: source,
+							rawSimilarity: result.rawSimilarity,
+							similarity:
+								result.similarity *
+								config.activation.expansionDecay *
+								liveStrength,
+							staleness: computeStaleness(source, liveStrength, now),
+							via: { entryId: result.entry.id, relation: "supports" as const },
+						};
+						if (!scopeToProject(candidate)) continue;
+						expanded.push(candidate);
+						scoredIdSet.add(source.id);
+						added++;
+					}
 				}
-
-				// Respect maxResults cap for the outer loop too.
-				if (scored.length >= maxResults) break;
+				scored = expanded.slice(0, maxResults);
 			}
 		}
 		// ─────────────────────────────────────────────────────────────────────────
@@ -411,7 +672,7 @@ export class ActivationEngine {
 
 		// Fan out contradiction pairs lookup across all read stores and merge.
 		const contradictMaps = await Promise.all(
-			this.readDbs.map((db) => db.getContradictPairsForIds(conflictedIds)),
+			readDbs.map((db) => db.getContradictPairsForIds(conflictedIds)),
 		);
 		const contradictPairs = mergeMaps(contradictMaps);
 
@@ -438,21 +699,214 @@ export class ActivationEngine {
 			});
 		}
 
+		// Cue labels line up with queryEmbeddings: the queries, then expansions.
+		const explainCues = options?.explain
+			? [
+					...queryList.map((cue) => ({ cue })),
+					...(expansions ?? []).map((cue) => ({ cue, expansion: true })),
+				]
+			: null;
+		const cueSimilarities = (embedding: number[] | undefined) =>
+			explainCues && embedding
+				? explainCues.map((cue, i) => ({
+						...cue,
+						similarity: cosineSimilarity(queryEmbeddings[i], embedding),
+					}))
+				: undefined;
+
+		let entries: ActivationResult["entries"] = scored.map(
+			({
+				entry,
+				rawSimilarity,
+				similarity,
+				staleness,
+				fusion,
+				sameProject,
+				via,
+			}) => ({
+				entry: { ...entry, embedding: undefined } as KnowledgeEntry,
+				similarity,
+				rawSimilarity,
+				staleness,
+				contradiction: contradictionMap.get(entry.id),
+				fusion,
+				sameProject,
+				via,
+				cues: cueSimilarities(entry.embedding),
+			}),
+		);
+
+		let budget: TokenBudget | undefined;
+		if (options?.maxTokens !== undefined) {
+			({ entries, budget } = packToTokenBudget(entries, options.maxTokens));
+		}
+
+		// Record access for the returned entries (reinforces their strength).
+		// Runs after packing so entries that did not fit are not reinforced.
+		// Explaining an activation is a diagnostic, not a recall — it leaves
+		// strengths and session memory alone.
+		if (!options?.explain) {
+			for (const { entry } of entries) {
+				await this.db.recordAccess(entry.id);
+			}
+			if (options?.sessionId) {
+				this.sessions.record(
+					options.sessionId,
+					entries.map(({ entry }) => entry.id),
+				);
+			}
+		}
+
 		return {
-			entries: scored.map(
-				({ entry, rawSimilarity, similarity, staleness }) => ({
-					entry: { ...entry, embedding: undefined } as KnowledgeEntry,
-					similarity,
-					rawSimilarity,
-					staleness,
-					contradiction: contradictionMap.get(entry.id),
-				}),
-			),
+			entries,
 			query: primaryQuery,
 			totalActive,
+			rerank,
+			budget,
+			expansions,
+		};
+	}
+
+	/**
+	 * Send the query and the top candidates to the rerank model and apply its
+	 * verdict: candidates it lists come first in its order, candidates it omits
+	 * are dropped. At least `maxResults` candidates are sent so a full result set
+	 * is always vetted; anything ranked below the window is discarded when the
+	 * verdict applies.
+	 *
+	 * Falls back to the given order (unchanged) when the model exceeds
+	 * config.activation.rerankTimeoutMs, fails, or returns an unparseable answer.
+	 */
+	private async rerankCandidates<T extends { entry: KnowledgeEntry }>(
+		query: string,
+		candidates: T[],
+		maxResults: number,
+	): Promise<{ candidates: T[]; outcome: RerankOutcome }> {
+		const { rerankCandidates, rerankTimeoutMs } = config.activation;
+		const window = candidates.slice(0, Math.max(rerankCandidates, maxResults));
+		const start = Date.now();
+
+		let order: number[] | null = null;
+		let failure: unknown = null;
+		try {
+			order = await this.llm.rerank(
+				query,
+				window.map(({ entry }) => entry),
+				rerankTimeoutMs,
+			);
+		} catch (e) {
+			failure = e;
+		}
+		const durationMs = Date.now() - start;
+
+		if (order === null) {
+			const status = durationMs >= rerankTimeoutMs ? "timeout" : "error";
+			logger.warn(
+				`[activation] Re-ranking ${status === "timeout" ? `exceeded ${rerankTimeoutMs}ms budget` : "failed"} — keeping retrieval order.${failure ? ` Error: ${failure instanceof Error ? failure.message : String(failure)}` : ""}`,
+			);
+			return {
+				candidates,
+				outcome: { status, candidates: window.length, dropped: 0, durationMs },
+			};
+		}
+
+		return {
+			candidates: order.map((i) => window[i]),
+			outcome: {
+				status: "applied",
+				candidates: window.length,
+				dropped: window.length - order.length,
+				durationMs,
+			},
 		};
 	}
 
+	/**
+	 * Build a predicate telling whether an entry was recorded in the same project
+	 * as `cwd`. Returns null without a cwd; the predicate returns undefined for
+	 * entries with no recorded directory (no project signal either way).
+	 */
+	private sameProjectMatcher(
+		cwd: string | undefined,
+	): ((entry: KnowledgeEntry) => boolean | undefined) | null {
+		const callerProject = cwd ? this.projectKey(cwd) : "";
+		if (!callerProject) return null;
+		return (entry) =>
+			entry.directory
+				? this.projectKey(entry.directory) === callerProject
+				: undefined;
+	}
+
+	/**
+	 * Project identity of a directory: the longest matching configured project
+	 * prefix (same resolution as DomainRouter), or the directory itself when no
+	 * project matches.
+	 */
+	private projectKey(directory: string): string {
+		const normalized = normalizeDirectory(directory);
+		return (
+			bestProjectMatch(this.projects, normalized)?.normalizedPath ?? normalized
+		);
+	}
+
+	/**
+	 * Run full-text search for every query against every lexical-capable store
+	 * and merge the hits into a single ranking. Backend scores are on different
+	 * scales (BM25 on SQLite, ts_rank_cd on Postgres), so results are merged by
+	 * rank: each entry keeps its best rank in any query's result list of any
+	 * store (first-store-wins on duplicate IDs), mirroring the max-over-cues
+	 * logic of the vector paths. Ties keep query, then store order. Type, topic
+	 * and minConfidence are pushed into the stores so their limit counts
+	 * matching entries only.
+	 */
+	private async searchLexical(
+		dbs: IKnowledgeStore[],
+		queries: string[],
+		limit: number,
+		filters: ActivationFilters,
+	): Promise<KnowledgeEntry[]> {
+		if (dbs.length === 0) return [];
+
+		const { type, topic, minConfidence } = filters;
+		const resultsPerQuery = await Promise.all(
+			queries.map((q) =>
+				Promise.all(
+					dbs.map((db) =>
+						// biome-ignore lint/style/noNonNullAssertion: dbs is pre-filtered on searchLexical
+						db.searchLexical!(q, limit, filters.includeStatuses, {
+							type,
+							topic,
+							minConfidence,
+						}),
+					),
+				),
+			),
+		);
+
+		const bestById = new Map<
+			string,
+			{ entry: KnowledgeEntry; rank: number; order: number }
+		>();
+		let order = 0;
+		for (const storeResultsPerQuery of resultsPerQuery) {
+			for (const storeResults of storeResultsPerQuery) {
+				storeResults.forEach(({ entry }, rank) => {
+					const existing = bestById.get(entry.id);
+					if (!existing) {
+						bestById.set(entry.id, { entry, rank, order: order++ });
+					} else if (rank < existing.rank) {
+						existing.rank = rank;
+					}
+				});
+			}
+		}
+
+		return [...bestById.values()]
+			.filter(({ entry }) => matchesFilters(entry, filters))
+			.sort((a, b) => a.rank - b.rank || a.order - b.order)
+			.map(({ entry }) => entry);
+	}
+
 	/**
 	 * Ensure all active and conflicted entries have embeddings.
 	 * Called during consolidation (new entries) or on startup (migration).
@@ -648,6 +1102,172 @@ export class ActivationEngine {
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
+/**
+ * Staleness signals for an activated entry, given its live (decay-adjusted) strength.
+ */
+function computeStaleness(
+	entry: KnowledgeEntry,
+	liveStrength: number,
+	now: number,
+): ActivationResult["entries"][number]["staleness"] {
+	const DAY_MS = 1000 * 60 * 60 * 24;
+	const ageDays = (now - entry.createdAt) / DAY_MS;
+	const lastAccessedDaysAgo = (now - entry.lastAccessedAt) / DAY_MS;
+	const halfLife =
+		config.decay.typeHalfLife[entry.type] || config.decay.typeHalfLife.fact;
+	return {
+		ageDays: Math.round(ageDays),
+		strength: liveStrength,
+		lastAccessedDaysAgo: Math.round(lastAccessedDaysAgo),
+		mayBeStale: ageDays > halfLife && entry.accessCount < 3,
+	};
+}
+
+/**
+ * Smallest remaining budget (approximate tokens) worth filling with a truncated
+ * entry. Below this, the overflowing entry is dropped instead — a few words cut
+ * from the middle of a sentence mislead more than they help.
+ */
+const MIN_TRUNCATED_TOKENS = 24;
+
+/**
+ * Pack ranked entries into an approximate token budget, in rank order.
+ *
+ * An entry's cost is its content plus, for conflicted entries, the inline
+ * contradiction annotation (which repeats the counterpart's content). Entries
+ * that fit are kept whole. The first entry that overflows is truncated to the
+ * remaining budget when at least MIN_TRUNCATED_TOKENS are left; otherwise it is
+ * dropped and packing continues — a shorter lower-ranked entry may still fit.
+ */
+function packToTokenBudget(
+	entries: ActivationResult["entries"],
+	maxTokens: number,
+): { entries: ActivationResult["entries"]; budget: TokenBudget } {
+	const packed: ActivationResult["entries"] = [];
+	let usedTokens = 0;
+	let truncatedEntries = 0;
+
+	for (const item of entries) {
+		const remaining = maxTokens - usedTokens;
+		const annotationTokens = item.contradiction
+			? approxTokens(
+					item.contradiction.conflictingContent + item.contradiction.caveat,
+				)
+			: 0;
+		const cost = approxTokens(item.entry.content) + annotationTokens;
+		if (cost <= remaining) {
+			packed.push(item);
+			usedTokens += cost;
+			continue;
+		}
+		const contentBudget = remaining - annotationTokens;
+		if (truncatedEntries === 0 && contentBudget >= MIN_TRUNCATED_TOKENS) {
+			// approxTokens counts 4 chars per token; keep one char for the ellipsis.
+			const content = `${item.entry.content.slice(0, contentBudget * 4 - 1).trimEnd()}…`;
+			packed.push({
+				...item,
+				entry: { ...item.entry, content },
+				truncated: true,
+			});
+			usedTokens += approxTokens(content) + annotationTokens;
+			truncatedEntries++;
+		}
+	}
+
+	return {
+		entries: packed,
+		budget: {
+			maxTokens,
+			usedTokens,
+			droppedEntries: entries.length - packed.length,
+			truncatedEntries,
+		},
+	};
+}
+
+/**
+ * Re-order ranked candidates by maximal marginal relevance (Carbonell &
+ * Goldstein, 1998). Greedily picks `count` candidates, each maximizing
+ *
+ *   lambda × relevance − (1 − lambda) × max cosine similarity to the picks so far
+ *
+ * where relevance is the candidate's ranking score (fused score, or similarity)
+ * divided by the top score, so both terms share a 0–1 scale. Candidates
+ * without an embedding (lexical-only hits) carry no redundancy penalty. The
+ * candidates not picked follow in their original order.
+ */
+function diversifyByMMR<
+	T extends { entry: KnowledgeEntry; similarity: number; fusion?: RankFusion },
+>(candidates: T[], count: number, lambda: number): T[] {
+	if (candidates.length <= 1 || lambda >= 1) return candidates;
+	const score = (c: T) => c.fusion?.score ?? c.similarity;
+	const topScore = Math.max(...candidates.map(score));
+	const relevance = candidates.map((c) =>
+		topScore > 0 ? score(c) / topScore : 0,
+	);
+
+	// Highest similarity of each candidate to any pick, updated incrementally.
+	const redundancy = candidates.map(() => 0);
+	const remaining = new Set(candidates.keys());
+	const picked: T[] = [];
+	while (picked.length < count && remaining.size > 0) {
+		let best = -1;
+		let bestValue = Number.NEGATIVE_INFINITY;
+		for (const i of remaining) {
+			const value = lambda * relevance[i] - (1 - lambda) * redundancy[i];
+			if (value > bestValue) {
+				best = i;
+				bestValue = value;
+			}
+		}
+		remaining.delete(best);
+		const pick = candidates[best];
+		picked.push(pick);
+
+		const pickEmbedding = pick.entry.embedding;
+		if (!pickEmbedding) continue;
+		for (const i of remaining) {
+			const embedding = candidates[i].entry.embedding;
+			if (!embedding) continue;
+			redundancy[i] = Math.max(
+				redundancy[i],
+				cosineSimilarity(pickEmbedding, embedding),
+			);
+		}
+	}
+
+	return [...picked, ...[...remaining].map((i) => candidates[i])];
+}
+
+/**
+ * Whether an entry passes the activation filters. Stores apply these filters
+ * themselves where they can (findSimilarEntries); this covers the full scan,
+ * lexical hits and expansion sources.
+ */
+function matchesFilters(
+	entry: KnowledgeEntry,
+	filters: ActivationFilters,
+): boolean {
+	if (filters.type && !filters.type.includes(entry.type)) return false;
+	if (filters.topic) {
+		const wanted = new Set(filters.topic.map((t) => t.toLowerCase()));
+		if (!entry.topics.some((t) => wanted.has(t.toLowerCase()))) return false;
+	}
+	if (
+		filters.minConfidence !== undefined &&
+		entry.confidence < filters.minConfidence
+	) {
+		return false;
+	}
+	if (
+		filters.includeStatuses &&
+		!filters.includeStatuses.includes(entry.status)
+	) {
+		return false;
+	}
+	return true;
+}
+
 /**
  * Merge an array of Maps into a single Map.
  * Earlier maps take precedence on key collisions (first-store-wins).
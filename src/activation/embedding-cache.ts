@@ -0,0 +1,93 @@
+import { createHash } from "node:crypto";
+import type { IServerStateDB } from "../db/interface.js";
+import { logger } from "../logger.js";
+
+/**
+ * Persistent embedding cache backed by state.db.
+ *
+ * Activation embeds every cue (and every line of a multi-line prompt) on each
+ * call, and the same prompts recur constantly. Entries are keyed by
+ * (model, dimensions, sha256 of the text), so a model or dimensions change
+ * never serves a stale vector. Least recently used rows are evicted once the
+ * table exceeds `maxEntries`.
+ *
+ * The cache is best-effort: a failing state DB logs a warning and falls
+ * through to the embedding API. Hit/miss counters are per process and
+ * reported by /status.
+ */
+export class EmbeddingCache {
+	private db: IServerStateDB;
+	private maxEntries: number;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(db: IServerStateDB, maxEntries: number) {
+		this.db = db;
+		this.maxEntries = maxEntries;
+	}
+
+	/** Cached embeddings for the given (distinct) texts, keyed by text — hits only. */
+	async lookup(
+		model: string,
+		dimensions: number | undefined,
+		texts: string[],
+	): Promise<Map<string, number[]>> {
+		const result = new Map<string, number[]>();
+		const hashes = texts.map(hashText);
+		try {
+			const cached = await this.db.getCachedEmbeddings(
+				model,
+				dimensions ?? 0,
+				hashes,
+			);
+			for (let i = 0; i < texts.length; i++) {
+				const embedding = cached.get(hashes[i]);
+				if (embedding) result.set(texts[i], embedding);
+			}
+		} catch (e) {
+			logger.warn(
+				`[embedding] Cache lookup failed — embedding without it. Error: ${e instanceof Error ? e.message : String(e)}`,
+			);
+		}
+		this.hits += result.size;
+		this.misses += texts.length - result.size;
+		return result;
+	}
+
+	/** Store freshly computed embeddings, keyed by text. */
+	async store(
+		model: string,
+		dimensions: number | undefined,
+		embeddings: Map<string, number[]>,
+	): Promise<void> {
+		const byHash = new Map<string, number[]>();
+		for (const [text, embedding] of embeddings) {
+			byHash.set(hashText(text), embedding);
+		}
+		try {
+			await this.db.putCachedEmbeddings(
+				model,
+				dimensions ?? 0,
+				byHash,
+				this.maxEntries,
+			);
+		} catch (e) {
+			logger.warn(
+				`[embedding] Cache write failed. Error: ${e instanceof Error ? e.message : String(e)}`,
+			);
+		}
+	}
+
+	/** Hit/miss counters since startup plus the current number of cached rows. */
+	async stats(): Promise<{ hits: number; misses: number; entries: number }> {
+		return {
+			hits: this.hits,
+			misses: this.misses,
+			entries: await this.db.countCachedEmbeddings(),
+		};
+	}
+}
+
+function hashText(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
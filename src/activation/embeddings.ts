@@ -1,5 +1,6 @@
 import { config } from "../config.js";
 import type { KnowledgeType } from "../types.js";
+import type { EmbeddingCache } from "./embedding-cache.js";
 
 /**
  * Embedding client.
@@ -11,12 +12,16 @@ import type { KnowledgeType } from "../types.js";
  *      (e.g. Ollama: EMBEDDING_BASE_URL=http://localhost:11434/v1)
  *   2. OPENAI_BASE_URL / OPENAI_API_KEY        — reuse OpenAI-compatible provider if set
  *   3. LLM_BASE_ENDPOINT / LLM_API_KEY         — unified proxy fallback (/openai/v1 appended)
+ *
+ * With a cache attached (useCache), embedBatch serves previously embedded
+ * texts from state.db and only sends the misses to the API.
  */
 export class EmbeddingClient {
 	private endpoint: string;
 	private apiKey: string;
 	private model: string;
 	private dimensions: number | undefined;
+	private cache: EmbeddingCache | null = null;
 
 	constructor() {
 		// Resolve endpoint and key using the priority chain.
@@ -44,6 +49,20 @@ export class EmbeddingClient {
 		this.dimensions = config.embedding.dimensions;
 	}
 
+	/** Attach a persistent cache; every later embed/embedBatch call uses it. */
+	useCache(cache: EmbeddingCache): void {
+		this.cache = cache;
+	}
+
+	/** Cache counters for /status, or null when no cache is attached. */
+	async cacheStats(): Promise<{
+		hits: number;
+		misses: number;
+		entries: number;
+	} | null> {
+		return this.cache ? this.cache.stats() : null;
+	}
+
 	/**
 	 * Generate an embedding for a single text.
 	 */
@@ -53,12 +72,30 @@ export class EmbeddingClient {
 	}
 
 	/**
-	 * Generate embeddings for multiple texts in a single API call.
-	 * The API may have limits on batch size — we chunk at 100.
+	 * Generate embeddings for multiple texts, in input order.
+	 * Cached texts are served from the cache; the rest go to the API.
 	 */
 	async embedBatch(texts: string[]): Promise<number[][]> {
 		if (texts.length === 0) return [];
+		if (!this.cache) return this.fetchEmbeddings(texts);
+
+		const unique = [...new Set(texts)];
+		const found = await this.cache.lookup(this.model, this.dimensions, unique);
+		const missing = unique.filter((t) => !found.has(t));
+		if (missing.length > 0) {
+			const fresh = await this.fetchEmbeddings(missing);
+			const computed = new Map(missing.map((t, i) => [t, fresh[i]]));
+			await this.cache.store(this.model, this.dimensions, computed);
+			for (const [text, embedding] of computed) found.set(text, embedding);
+		}
+		return texts.map((t) => found.get(t) as number[]);
+	}
 
+	/**
+	 * Call the embeddings API for multiple texts.
+	 * The API may have limits on batch size — we chunk at 100.
+	 */
+	private async fetchEmbeddings(texts: string[]): Promise<number[][]> {
 		const results: number[][] = [];
 		const chunkSize = 100;
 
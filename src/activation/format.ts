@@ -2,8 +2,19 @@
  * Shared formatting helpers for activated knowledge entry annotations.
  * Used by both the MCP tool (src/mcp/index.ts) and the passive plugin
  * (plugin/knowledge.ts) to keep tag strings consistent.
+ *
+ * The text renderers at the bottom back the MCP browsing tools, which are
+ * served twice — by the stdio proxy and by the /mcp endpoint — so both
+ * produce identical output.
  */
 
+import type {
+	ActivationResult,
+	KnowledgeEntry,
+	KnowledgeRelation,
+	RememberResult,
+} from "../types.js";
+
 /**
  * Returns a staleness annotation tag, or an empty string if not stale.
  * e.g. " [may be outdated — last accessed 47d ago]"
@@ -42,3 +53,194 @@ export function contradictionTagBlock(
 	if (!contradiction) return "";
 	return `\n   ⚠ CONFLICTED — conflicts with: "${contradiction.conflictingContent}"\n   Caveat: ${contradiction.caveat}`;
 }
+
+/**
+ * Returns a graph-expansion note, formatted as a block (MCP tool), naming the
+ * result that pulled the entry in by its 1-based position in `resultIds`.
+ * e.g. "\n   Via: supporting evidence for #2"
+ */
+export function viaTagBlock(
+	via: { entryId: string } | undefined,
+	resultIds: string[],
+): string {
+	if (!via) return "";
+	const position = resultIds.indexOf(via.entryId);
+	const target = position >= 0 ? `#${position + 1}` : via.entryId;
+	return `\n   Via: supporting evidence for ${target}`;
+}
+
+/** An entry as served over HTTP — the embedding is stripped. */
+type EntryView = Omit<KnowledgeEntry, "embedding">;
+
+/**
+ * Render one entry with its metadata and relations (get_entry MCP tool).
+ */
+export function formatEntryDetail(
+	entry: EntryView,
+	relations: KnowledgeRelation[],
+): string {
+	const lines = [
+		`## [${entry.type}] ${entry.id}`,
+		"",
+		entry.content,
+		"",
+		`Topics: ${entry.topics.join(", ")}`,
+		`Status: ${entry.status} | Confidence: ${entry.confidence} | Strength: ${entry.strength.toFixed(3)}`,
+		`Created: ${new Date(entry.createdAt).toISOString()} | Updated: ${new Date(entry.updatedAt).toISOString()}`,
+		`Source: ${entry.source}`,
+	];
+	if (entry.supersededBy) lines.push(`Superseded by: ${entry.supersededBy}`);
+	if (relations.length > 0) {
+		lines.push("", "Relations:");
+		for (const r of relations) {
+			lines.push(
+				r.sourceId === entry.id
+					? `- ${r.type} → ${r.targetId}`
+					: `- ${r.type} ← ${r.sourceId}`,
+			);
+		}
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Render one page of an entry listing (search_entries MCP tool).
+ * `nextCursor` is the cursor of the following page, or null on the last one.
+ */
+export function formatEntryList(
+	entries: EntryView[],
+	total: number,
+	nextCursor: string | null,
+): string {
+	if (entries.length === 0) {
+		return total > 0
+			? `No more entries (${total} matching).`
+			: "No entries match these filters.";
+	}
+	const formatted = entries
+		.map(
+			(e, i) =>
+				`${i + 1}. [${e.type}] ${e.content}\n` +
+				`   ID: ${e.id} | Status: ${e.status} | Topics: ${e.topics.join(", ")}`,
+		)
+		.join("\n\n");
+	const more = nextCursor
+		? `\n\nMore results: call again with cursor "${nextCursor}".`
+		: "";
+	return `## ${entries.length} of ${total} entries\n\n${formatted}${more}`;
+}
+
+/**
+ * Render topic counts, most used first (list_topics MCP tool).
+ */
+export function formatTopicList(
+	topics: Array<{ topic: string; count: number }>,
+): string {
+	if (topics.length === 0) return "No topics yet.";
+	return `## Topics (${topics.length})\n\n${topics
+		.map(({ topic, count }) => `- ${topic} (${count})`)
+		.join("\n")}`;
+}
+
+/**
+ * Render an activation (activate MCP tool): each entry with its annotations
+ * and scores, and a warning when conflicted entries are among the results.
+ */
+export function formatActivationResult(result: ActivationResult): string {
+	if (result.entries.length === 0) {
+		return "No relevant knowledge found for these cues.";
+	}
+
+	const resultIds = result.entries.map((r) => r.entry.id);
+	const formatted = result.entries
+		.map(
+			(r, i) =>
+				`${i + 1}. [${r.entry.type}] ${r.entry.content}${staleTag(r.staleness)}${contradictionTagBlock(r.contradiction)}${viaTagBlock(r.via, resultIds)}\n` +
+				`   Topics: ${r.entry.topics.join(", ")}\n` +
+				`   Confidence: ${r.entry.confidence} | Semantic match: ${r.rawSimilarity.toFixed(3)} | Score: ${r.similarity.toFixed(3)}`,
+		)
+		.join("\n\n");
+
+	const conflictCount = result.entries.filter((r) => r.contradiction).length;
+	const conflictNote =
+		conflictCount > 0
+			? ` — ${conflictCount} conflicted, do not act on those without clarifying which version is correct`
+			: "";
+
+	return `## Activated Knowledge (${result.entries.length} entries, ${result.totalActive} total active${conflictNote})\n\n${formatted}`;
+}
+
+/**
+ * Render why each entry activated (explain_activation MCP tool): the score
+ * components and the similarity to every cue, best cue first.
+ */
+export function formatActivationExplanation(result: ActivationResult): string {
+	if (result.entries.length === 0) {
+		return "Nothing activated for these cues — every entry fell below the similarity threshold or was filtered out.";
+	}
+	const formatted = result.entries
+		.map((r, i) => {
+			const lines = [
+				`${i + 1}. [${r.entry.type}] ${r.entry.content}`,
+				`   ID: ${r.entry.id}`,
+				`   Semantic match: ${r.rawSimilarity.toFixed(3)} × strength ${r.staleness.strength.toFixed(3)}` +
+					`${r.sameProject ? " × same-project boost" : ""} → score ${r.similarity.toFixed(3)}`,
+			];
+			if (r.fusion) {
+				lines.push(
+					`   Rank fusion: vector rank ${r.fusion.vectorRank ?? "—"}, lexical rank ${r.fusion.lexicalRank ?? "—"} → ${r.fusion.score.toFixed(4)}`,
+				);
+			}
+			if (r.via) {
+				lines.push(`   Pulled in via ${r.via.relation} from ${r.via.entryId}`);
+			}
+			const cues = [...(r.cues ?? [])].sort(
+				(a, b) => b.similarity - a.similarity,
+			);
+			for (const c of cues) {
+				lines.push(
+					`   ${c.similarity.toFixed(3)} ${c.expansion ? "expansion" : "cue"}: ${JSON.stringify(c.cue)}`,
+				);
+			}
+			if (!r.cues) lines.push("   (lexical match only — no embedding)");
+			return lines.join("\n");
+		})
+		.join("\n\n");
+	return `## Activation explained (${result.entries.length} entries, ${result.totalActive} total active)\n\n${formatted}`;
+}
+
+/**
+ * Render the outcome of a remember call (remember MCP tool).
+ */
+export function formatRememberResult(result: RememberResult): string {
+	const outcome = {
+		inserted: `Remembered as new entry ${result.entryId}.`,
+		merged: `Merged into existing entry ${result.entryId}.`,
+		kept: `Already known — existing entry ${result.entryId} says the same and was reinforced.`,
+	}[result.action];
+	if (result.conflictsDetected === 0) return outcome;
+	return `${outcome}\n\nContradiction check: ${result.conflictsDetected} conflict(s) detected, ${result.conflictsResolved} resolved. Unresolved conflicts are flagged for review.`;
+}
+
+/**
+ * Render a correction (correct MCP tool): the superseded entry and its replacement.
+ */
+export function formatCorrectResult(
+	supersededId: string,
+	replacement: EntryView,
+): string {
+	return `Entry ${supersededId} is now superseded by ${replacement.id}:\n\n[${replacement.type}] ${replacement.content}`;
+}
+
+/**
+ * Render a forget (forget MCP tool).
+ */
+export function formatForgetResult(
+	forgottenId: string,
+	restoredCounterpart: string | null,
+): string {
+	const restored = restoredCounterpart
+		? ` Its conflicting counterpart ${restoredCounterpart} is active again.`
+		: "";
+	return `Entry ${forgottenId} is forgotten and will no longer activate.${restored}`;
+}
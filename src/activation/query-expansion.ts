@@ -0,0 +1,70 @@
+import type { ConsolidationLLM } from "../consolidation/llm.js";
+import { logger } from "../logger.js";
+import { formatEmbeddingText } from "./embeddings.js";
+
+/**
+ * Query expansion for activation (HyDE — hypothetical document embeddings).
+ *
+ * Short cues ("deploy?") embed poorly: the vector of a two-word question sits
+ * far from the vectors of stored entries, which are embedded from
+ * formatEmbeddingText(type, content, topics). For each cue, the LLM writes the
+ * entry that would answer it; that entry is formatted the same way and
+ * embedded alongside the raw cue.
+ *
+ * Expansions are cached in memory per cue (least recently used evicted first),
+ * so repeated cues cost no LLM call. Failures are not cached — the next
+ * activation with the same cue tries again.
+ */
+export class QueryExpander {
+	private llm: ConsolidationLLM;
+	private capacity: number;
+	/** Normalized cue → expansion text. Map order doubles as LRU order. */
+	private cache = new Map<string, string>();
+
+	constructor(llm: ConsolidationLLM, capacity: number) {
+		this.llm = llm;
+		this.capacity = capacity;
+	}
+
+	/**
+	 * Expand every query concurrently. Returns the expansion texts in query
+	 * order, skipping queries whose expansion failed or timed out.
+	 */
+	async expand(queries: string[], timeoutMs: number): Promise<string[]> {
+		const expansions = await Promise.all(
+			queries.map((q) => this.expandOne(q, timeoutMs)),
+		);
+		return expansions.filter((e): e is string => e !== null);
+	}
+
+	private async expandOne(
+		query: string,
+		timeoutMs: number,
+	): Promise<string | null> {
+		const key = query.trim().toLowerCase();
+		const cached = this.cache.get(key);
+		if (cached !== undefined) {
+			// Re-insert to mark as most recently used.
+			this.cache.delete(key);
+			this.cache.set(key, cached);
+			return cached;
+		}
+
+		try {
+			const entry = await this.llm.expandQuery(query, timeoutMs);
+			if (!entry) return null;
+			const text = formatEmbeddingText(entry.type, entry.content, entry.topics);
+			this.cache.set(key, text);
+			if (this.cache.size > this.capacity) {
+				const oldest = this.cache.keys().next().value;
+				if (oldest !== undefined) this.cache.delete(oldest);
+			}
+			return text;
+		} catch (e) {
+			logger.warn(
+				`[activation] Query expansion failed — using the raw cue. Error: ${e instanceof Error ? e.message : String(e)}`,
+			);
+			return null;
+		}
+	}
+}
@@ -0,0 +1,44 @@
+/**
+ * Per-session memory of the entry IDs already returned by activation.
+ *
+ * A long agent session activates on every prompt, and most prompts in the same
+ * session touch the same topics — without this, the same entries would be
+ * injected again and again. Callers that pass a session ID get only entries
+ * not yet returned to that session.
+ *
+ * In-memory only: a server restart forgets every session, which at worst
+ * re-injects entries once. Sessions expire after `ttlMs` without activity
+ * (sliding window); expired sessions are evicted lazily on the next access.
+ */
+export class SessionMemory {
+	private sessions = new Map<string, { ids: Set<string>; expiresAt: number }>();
+	private ttlMs: number;
+
+	constructor(ttlMs: number) {
+		this.ttlMs = ttlMs;
+	}
+
+	/** Entry IDs already returned to the session (empty for unknown or expired sessions). */
+	injected(sessionId: string, now = Date.now()): ReadonlySet<string> {
+		this.evictExpired(now);
+		return this.sessions.get(sessionId)?.ids ?? new Set();
+	}
+
+	/** Remember entry IDs as returned to the session and extend its lifetime. */
+	record(sessionId: string, ids: Iterable<string>, now = Date.now()): void {
+		this.evictExpired(now);
+		let session = this.sessions.get(sessionId);
+		if (!session) {
+			session = { ids: new Set(), expiresAt: 0 };
+			this.sessions.set(sessionId, session);
+		}
+		for (const id of ids) session.ids.add(id);
+		session.expiresAt = now + this.ttlMs;
+	}
+
+	private evictExpired(now: number): void {
+		for (const [sessionId, session] of this.sessions) {
+			if (session.expiresAt <= now) this.sessions.delete(sessionId);
+		}
+	}
+}
@@ -0,0 +1,56 @@
+/**
+ * Startup check for how the HTTP server is exposed.
+ *
+ * On loopback the server is only reachable from this machine, so read
+ * endpoints may stay open. Binding to any other interface is allowed only when
+ * every route needs a token (KNOWLEDGE_REQUIRE_AUTH=true — /status and
+ * /openapi.json included) and tokens
+ * travel encrypted — either over the server's own TLS or, with
+ * KNOWLEDGE_ALLOW_PLAIN_HTTP=true, behind a proxy that terminates TLS.
+ */
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"];
+
+/** Whether `host` only accepts connections from this machine. */
+export function isLoopbackHost(host: string): boolean {
+	return LOOPBACK_HOSTS.includes(host);
+}
+
+export interface ExposureOptions {
+	host: string;
+	/** KNOWLEDGE_REQUIRE_AUTH — read, activation and status endpoints need a token. */
+	requireAuth: boolean;
+	/** Whether config.jsonc configures a TLS certificate. */
+	tls: boolean;
+	/** KNOWLEDGE_ALLOW_PLAIN_HTTP — TLS is terminated by a reverse proxy. */
+	allowPlainHttp: boolean;
+	/** config.jsonc corsOrigins. */
+	corsOrigins: string[];
+}
+
+/**
+ * Reasons the server must not start with these options, one message per
+ * problem. Empty when the combination is safe.
+ */
+export function unsafeExposureReasons(options: ExposureOptions): string[] {
+	const { host, requireAuth, tls, allowPlainHttp, corsOrigins } = options;
+	const reasons: string[] = [];
+	if (!isLoopbackHost(host)) {
+		if (!requireAuth) {
+			reasons.push(
+				`"host" is set to "${host}", which exposes the server on non-loopback interfaces while read endpoints need no token. Set KNOWLEDGE_REQUIRE_AUTH=true so every route requires one.`,
+			);
+		}
+		if (!tls && !allowPlainHttp) {
+			reasons.push(
+				`"host" is set to "${host}" without TLS, so tokens would cross the network in plain text. Set "tls" in config.jsonc, or KNOWLEDGE_ALLOW_PLAIN_HTTP=true if a reverse proxy terminates TLS.`,
+			);
+		}
+	}
+	if (corsOrigins.includes("*") && !requireAuth) {
+		reasons.push(
+			`"corsOrigins" allows any origin while read endpoints need no token, so any website could read the knowledge base. List specific origins or set KNOWLEDGE_REQUIRE_AUTH=true.`,
+		);
+	}
+	return reasons;
+}
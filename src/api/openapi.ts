@@ -0,0 +1,764 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+	activateInputSchema,
+	activateOutputSchema,
+	correctInputSchema,
+	forgetInputSchema,
+	rememberInputSchema,
+} from "../mcp/index.js";
+import { ENTRY_SORTS, KNOWLEDGE_STATUSES, KNOWLEDGE_TYPES } from "../types.js";
+import type { ApiTokenScope } from "../types.js";
+
+/**
+ * OpenAPI description of the HTTP API, served at GET /openapi.json.
+ *
+ * The request body schemas below are the ones the endpoints validate with, so
+ * the document cannot drift from what the server accepts. Each route in ROUTES
+ * lists its query parameters, body and responses as zod schemas; the document
+ * is built from them with zod-to-json-schema. Response schemas describe the
+ * shapes clients rely on — routes with loosely typed or diagnostic payloads
+ * (status, review, hooks) are documented as plain objects.
+ */
+
+/** Page size of GET /entries when no limit is given. */
+export const DEFAULT_ENTRIES_PAGE_SIZE = 50;
+
+/** Largest page GET /entries returns, whatever the requested limit. */
+export const MAX_ENTRIES_PAGE_SIZE = 500;
+
+/** Most operations one POST /entries/bulk request may carry. */
+export const MAX_BULK_OPERATIONS = 500;
+
+// -- Request bodies --
+
+/** POST /remember — same fields as the `remember` MCP tool. */
+export const rememberSchema = z.object(rememberInputSchema);
+
+/** POST /entries/:id/correct — the `correct` tool without the ID. */
+export const correctSchema = z.object(correctInputSchema).omit({ id: true });
+
+/** POST /entries/:id/forget — the `forget` tool without the ID. */
+export const forgetSchema = z.object(forgetInputSchema).omit({ id: true });
+
+/** POST /entries */
+export const createEntrySchema = z
+	.object(rememberInputSchema)
+	.pick({
+		type: true,
+		content: true,
+		topics: true,
+		confidence: true,
+		domain: true,
+	})
+	.extend({
+		reconsolidate: z
+			.boolean()
+			.optional()
+			.describe("Set false to insert without deduplication (default: true)."),
+	});
+
+const bulkEntryId = z.string().min(1);
+
+/** POST /entries/bulk */
+export const bulkEntriesSchema = z.object({
+	operations: z
+		.array(
+			z.discriminatedUnion("op", [
+				z.object({ op: z.literal("archive"), id: bulkEntryId }),
+				z.object({ op: z.literal("delete"), id: bulkEntryId }),
+				z.object({
+					op: z.literal("set-topics"),
+					id: bulkEntryId,
+					topics: z.array(z.string().min(1)).min(1).max(10),
+				}),
+				z.object({
+					op: z.literal("set-status"),
+					id: bulkEntryId,
+					status: z.enum(KNOWLEDGE_STATUSES),
+				}),
+				z.object({
+					op: z.literal("move-to-store"),
+					id: bulkEntryId,
+					store: z.string().min(1),
+				}),
+			]),
+		)
+		.min(1)
+		.max(MAX_BULK_OPERATIONS),
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe("Validate and report without writing anything."),
+});
+
+const PATCH_FIELDS = ["content", "topics", "confidence", "status"] as const;
+
+/**
+ * PATCH /entries/:id — any subset of the mutable fields. Unknown fields are
+ * ignored, but at least one updatable field must be present.
+ */
+export const patchEntrySchema = z
+	.object({
+		content: z
+			.string()
+			.regex(/\S/, "must be a non-empty string")
+			.optional()
+			.describe("New content. The embedding is recomputed."),
+		topics: z
+			.array(z.string())
+			.optional()
+			.describe("New topics. The embedding is recomputed."),
+		confidence: z.number().min(0).max(1).optional(),
+		status: z.enum(KNOWLEDGE_STATUSES).optional(),
+	})
+	.refine((body) => PATCH_FIELDS.some((f) => body[f] !== undefined), {
+		message: `No updatable fields provided. Allowed: ${PATCH_FIELDS.join(", ")}`,
+	});
+
+/** POST /entries/:id/resolve */
+export const resolveEntrySchema = z.discriminatedUnion("resolution", [
+	z
+		.object({ resolution: z.literal("supersede_this") })
+		.describe("This entry loses; its conflict counterpart wins."),
+	z
+		.object({ resolution: z.literal("supersede_other") })
+		.describe("This entry wins; its conflict counterpart is superseded."),
+	z
+		.object({
+			resolution: z.literal("merge"),
+			mergedContent: z
+				.string()
+				.regex(/\S/, "is required for merge resolution")
+				.describe("Replaces this entry's content."),
+		})
+		.describe(
+			"This entry's content is replaced; its counterpart is superseded.",
+		),
+	z
+		.object({ resolution: z.literal("delete") })
+		.describe("Hard-delete this entry and restore its counterpart to active."),
+]);
+
+// -- Responses --
+
+const errorSchema = z.object({ error: z.string() });
+
+/** A knowledge entry as the API returns it — without its embedding. */
+const entrySchema = z.object({
+	id: z.string(),
+	type: z.enum(KNOWLEDGE_TYPES),
+	content: z.string(),
+	topics: z.array(z.string()),
+	confidence: z.number(),
+	source: z.string(),
+	status: z.enum(KNOWLEDGE_STATUSES),
+	strength: z.number(),
+	createdAt: z.number().describe("Unix timestamp (ms)."),
+	updatedAt: z.number().describe("Unix timestamp (ms)."),
+	lastAccessedAt: z.number().describe("Unix timestamp (ms)."),
+	accessCount: z.number(),
+	observationCount: z.number(),
+	supersededBy: z.string().nullable(),
+	derivedFrom: z.array(z.string()),
+	isSynthesized: z.boolean(),
+	directory: z.string().nullable().optional(),
+});
+
+const entryResultSchema = z.object({ entry: entrySchema });
+
+const revisionSchema = z.object({
+	entryId: z.string(),
+	revision: z.number().int(),
+	type: z.enum(KNOWLEDGE_TYPES),
+	content: z.string(),
+	topics: z.array(z.string()),
+	status: z.enum(KNOWLEDGE_STATUSES),
+	actor: z.enum(["consolidation", "api", "review", "migration"]),
+	createdAt: z.number(),
+});
+
+const progressSchema = z.object({
+	chunksDone: z.number().int(),
+	chunksTotal: z.number().int(),
+	entriesCreated: z.number().int(),
+	entriesUpdated: z.number().int(),
+});
+
+const jobSchema = z.object({
+	id: z.string(),
+	status: z.enum(["running", "succeeded", "failed", "cancelled"]),
+	phase: z.enum([
+		"extract",
+		"reconsolidate",
+		"contradiction",
+		"decay",
+		"embed",
+		"synthesis",
+	]),
+	progress: progressSchema,
+	cancelRequested: z.boolean(),
+	result: z
+		.object({
+			sessionsProcessed: z.number(),
+			segmentsProcessed: z.number(),
+			entriesCreated: z.number(),
+			entriesUpdated: z.number(),
+			entriesArchived: z.number(),
+			conflictsDetected: z.number(),
+			conflictsResolved: z.number(),
+			duration: z.number(),
+		})
+		.nullable(),
+	synthesized: z.number().nullable(),
+	error: z.string().nullable(),
+	startedAt: z.number(),
+	finishedAt: z.number().nullable(),
+});
+
+/** A JSON object whose fields are not described. */
+const objectSchema = z.object({}).passthrough();
+
+// -- Routes --
+
+type HttpMethod = "get" | "post" | "patch" | "delete";
+
+interface RouteResponse {
+	description: string;
+	/** JSON body schema; omitted for responses described in prose only. */
+	schema?: z.ZodTypeAny;
+	/** Media type when the body is not JSON. */
+	contentType?: string;
+}
+
+/** One documented endpoint. Path parameters are written `{name}`. */
+export interface ApiRoute {
+	method: HttpMethod;
+	path: string;
+	summary: string;
+	/** Requires `Authorization: Bearer <token>` with this scope. */
+	scope?: ApiTokenScope;
+	query?: Record<string, z.ZodTypeAny>;
+	body?: z.ZodTypeAny;
+	responses: Record<number, RouteResponse>;
+}
+
+const unauthorized: RouteResponse = {
+	description: "Missing or unknown token",
+	schema: errorSchema,
+};
+const authRequired: RouteResponse = {
+	description: "No token while KNOWLEDGE_REQUIRE_AUTH=true",
+	schema: errorSchema,
+};
+const forbidden: RouteResponse = {
+	description: "Token lacks the scope or may not use the store",
+	schema: errorSchema,
+};
+const invalidBody: RouteResponse = {
+	description: "Invalid body",
+	schema: errorSchema,
+};
+const entryNotFound: RouteResponse = {
+	description: "Entry not found",
+	schema: errorSchema,
+};
+
+/** List query parameter — repeated (?x=a&x=b) or comma-separated. */
+function listParam(item: z.ZodTypeAny, description: string) {
+	return z.array(item).optional().describe(description);
+}
+
+/**
+ * GET /activate query parameters: the `activate` tool's inputs (cues as `q`)
+ * plus the HTTP-only options.
+ */
+const activateQuery: Record<string, z.ZodTypeAny> = {
+	q: z
+		.array(z.string())
+		.min(1)
+		.describe("Cue(s) to activate knowledge with. Repeat for multiple cues."),
+	limit: activateInputSchema.limit,
+	threshold: activateInputSchema.threshold,
+	cwd: z
+		.string()
+		.optional()
+		.describe("Caller's working directory; entries from it rank higher."),
+	excludeOtherProjects: z
+		.boolean()
+		.optional()
+		.describe("With cwd, drop entries from unrelated projects."),
+	maxTokens: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe("Approximate token budget for the returned entries."),
+	excludeIds: activateInputSchema.excludeIds,
+	sessionId: activateInputSchema.sessionId,
+	type: activateInputSchema.type,
+	topic: activateInputSchema.topic,
+	store: activateInputSchema.store,
+	minConfidence: activateInputSchema.minConfidence,
+	includeStatuses: activateInputSchema.includeStatuses,
+	explain: z
+		.boolean()
+		.optional()
+		.describe("Add per-cue similarities; does not record access."),
+};
+
+export const ROUTES: ApiRoute[] = [
+	{
+		method: "get",
+		path: "/activate",
+		summary: "Activate knowledge entries by cue",
+		query: activateQuery,
+		responses: {
+			401: authRequired,
+			200: {
+				description: "Activated entries",
+				schema: z.object(activateOutputSchema).passthrough(),
+			},
+			400: { description: "Invalid query", schema: errorSchema },
+		},
+	},
+	{
+		method: "post",
+		path: "/consolidate",
+		summary: "Start a consolidation job",
+		scope: "consolidate",
+		responses: {
+			202: { description: "Job started", schema: jobSchema },
+			401: unauthorized,
+			409: {
+				description: "A consolidation run holds the lock",
+				schema: errorSchema.extend({ jobId: z.string().optional() }),
+			},
+		},
+	},
+	{
+		method: "get",
+		path: "/jobs/{id}",
+		summary: "Phase, progress and result of a consolidation job",
+		scope: "consolidate",
+		responses: {
+			200: { description: "The job", schema: jobSchema },
+			401: unauthorized,
+			404: { description: "Job not found", schema: errorSchema },
+		},
+	},
+	{
+		method: "delete",
+		path: "/jobs/{id}",
+		summary: "Request cancellation of a consolidation job",
+		scope: "consolidate",
+		responses: {
+			202: { description: "Cancellation requested", schema: jobSchema },
+			401: unauthorized,
+			404: { description: "Job not found", schema: errorSchema },
+			409: { description: "Job already finished", schema: errorSchema },
+		},
+	},
+	{
+		method: "post",
+		path: "/remember",
+		summary:
+			"Store an agent-submitted entry (write-entries token when KNOWLEDGE_ADMIN_TOKEN is set)",
+		body: rememberSchema,
+		responses: {
+			200: {
+				description: "What happened to the entry",
+				schema: z.object({
+					action: z.enum(["inserted", "merged", "kept"]),
+					entryId: z.string(),
+					conflictsDetected: z.number(),
+					conflictsResolved: z.number(),
+				}),
+			},
+			400: invalidBody,
+			401: unauthorized,
+		},
+	},
+	{
+		method: "post",
+		path: "/reinitialize",
+		summary: "Wipe the knowledge DB and reset the consolidation cursor",
+		scope: "admin",
+		query: {
+			confirm: z.literal("yes").describe("Required."),
+		},
+		responses: {
+			200: { description: "Reinitialized", schema: objectSchema },
+			400: { description: "confirm=yes missing", schema: errorSchema },
+			401: unauthorized,
+		},
+	},
+	{
+		method: "get",
+		path: "/events",
+		summary: "Server-Sent Events stream of knowledge changes",
+		responses: {
+			401: authRequired,
+			200: {
+				description: "One SSE event per change, named after its type",
+				contentType: "text/event-stream",
+			},
+		},
+	},
+	{
+		method: "get",
+		path: "/review",
+		summary: "Entries needing attention",
+		responses: {
+			401: authRequired,
+			200: {
+				description: "Conflicted and stale entries",
+				schema: objectSchema,
+			},
+		},
+	},
+	{
+		method: "get",
+		path: "/status",
+		summary: "Server health and stats (config block with the admin scope)",
+		responses: {
+			401: authRequired,
+			200: { description: "Status", schema: objectSchema },
+		},
+	},
+	{
+		method: "get",
+		path: "/entries",
+		summary: "Page through entries",
+		query: {
+			status: z.enum(KNOWLEDGE_STATUSES).optional(),
+			type: z.enum(KNOWLEDGE_TYPES).optional(),
+			topic: listParam(z.string(), "Entries tagged with any of these topics."),
+			store: listParam(z.string(), "Entries in these stores."),
+			q: z.string().optional().describe("Case-insensitive content substring."),
+			sort: z.enum(ENTRY_SORTS).optional(),
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.max(MAX_ENTRIES_PAGE_SIZE)
+				.optional()
+				.describe(`Page size (default: ${DEFAULT_ENTRIES_PAGE_SIZE}).`),
+			cursor: z
+				.string()
+				.optional()
+				.describe("nextCursor of the previous page."),
+		},
+		responses: {
+			401: authRequired,
+			200: {
+				description: "One page of entries",
+				schema: z.object({
+					entries: z.array(entrySchema),
+					count: z.number().int(),
+					total: z.number().int(),
+					nextCursor: z.string().nullable(),
+				}),
+			},
+			400: { description: "Invalid query", schema: errorSchema },
+		},
+	},
+	{
+		method: "get",
+		path: "/topics",
+		summary: "Topics of active entries with entry counts",
+		responses: {
+			401: authRequired,
+			200: { description: "Topics", schema: objectSchema },
+		},
+	},
+	{
+		method: "post",
+		path: "/entries",
+		summary: "Create an entry (reconsolidated unless reconsolidate is false)",
+		scope: "write-entries",
+		body: createEntrySchema,
+		responses: {
+			200: {
+				description: "Merged into or kept as an existing entry",
+				schema: objectSchema,
+			},
+			201: { description: "Inserted", schema: objectSchema },
+			400: invalidBody,
+			401: unauthorized,
+		},
+	},
+	{
+		method: "post",
+		path: "/entries/bulk",
+		summary: "Apply a batch of entry operations",
+		scope: "write-entries",
+		body: bulkEntriesSchema,
+		responses: {
+			200: {
+				description: "A result per operation, in request order",
+				schema: z.object({
+					ok: z.boolean(),
+					dryRun: z.boolean(),
+					results: z.array(
+						z.object({
+							op: z.string(),
+							id: z.string(),
+							ok: z.boolean(),
+							store: z.string().optional(),
+							error: z.string().optional(),
+							restoredCounterpart: z.string().optional(),
+						}),
+					),
+				}),
+			},
+			400: invalidBody,
+			401: unauthorized,
+		},
+	},
+	{
+		method: "get",
+		path: "/entries/{id}",
+		summary: "Get an entry and its relations",
+		responses: {
+			401: authRequired,
+			200: {
+				description: "The entry",
+				schema: entryResultSchema.extend({ relations: z.array(objectSchema) }),
+			},
+			404: entryNotFound,
+		},
+	},
+	{
+		method: "get",
+		path: "/entries/{id}/history",
+		summary: "Revision history of an entry, oldest first",
+		responses: {
+			401: authRequired,
+			200: {
+				description: "Revisions",
+				schema: z.object({
+					entryId: z.string(),
+					revisions: z.array(revisionSchema),
+				}),
+			},
+			404: entryNotFound,
+		},
+	},
+	{
+		method: "post",
+		path: "/entries/{id}/revert/{revision}",
+		summary: "Restore an entry to a revision",
+		scope: "write-entries",
+		responses: {
+			200: {
+				description: "Reverted",
+				schema: entryResultSchema.extend({
+					ok: z.boolean(),
+					revertedTo: z.number().int(),
+				}),
+			},
+			400: { description: "Invalid revision", schema: errorSchema },
+			401: unauthorized,
+			403: {
+				description: "Entry is in a read-only store",
+				schema: errorSchema,
+			},
+			404: { description: "Entry or revision not found", schema: errorSchema },
+		},
+	},
+	{
+		method: "patch",
+		path: "/entries/{id}",
+		summary: "Update fields on an entry",
+		scope: "write-entries",
+		body: patchEntrySchema,
+		responses: {
+			200: { description: "The updated entry", schema: entryResultSchema },
+			400: invalidBody,
+			401: unauthorized,
+			404: entryNotFound,
+		},
+	},
+	{
+		method: "post",
+		path: "/entries/{id}/resolve",
+		summary: "Resolve a conflicted entry pair",
+		scope: "write-entries",
+		body: resolveEntrySchema,
+		responses: {
+			200: { description: "Resolved", schema: objectSchema },
+			400: {
+				description: "Invalid body, or the entry is not conflicted",
+				schema: errorSchema,
+			},
+			401: unauthorized,
+			404: entryNotFound,
+			422: {
+				description: "Counterpart missing or in another store",
+				schema: errorSchema,
+			},
+		},
+	},
+	{
+		method: "post",
+		path: "/entries/{id}/correct",
+		summary: "Supersede an entry with corrected content",
+		scope: "write-entries",
+		body: correctSchema,
+		responses: {
+			200: { description: "Corrected", schema: objectSchema },
+			400: invalidBody,
+			401: unauthorized,
+			404: entryNotFound,
+		},
+	},
+	{
+		method: "post",
+		path: "/entries/{id}/forget",
+		summary: "Tombstone an entry",
+		scope: "write-entries",
+		body: forgetSchema,
+		responses: {
+			200: { description: "Forgotten", schema: objectSchema },
+			400: invalidBody,
+			401: unauthorized,
+			404: entryNotFound,
+		},
+	},
+	{
+		method: "delete",
+		path: "/entries/{id}",
+		summary: "Hard-delete an entry",
+		scope: "write-entries",
+		responses: {
+			200: { description: "Deleted", schema: objectSchema },
+			401: unauthorized,
+			404: entryNotFound,
+		},
+	},
+	{
+		method: "post",
+		path: "/hooks/claude-code/user-prompt",
+		summary: "Claude Code UserPromptSubmit hook",
+		body: z.object({
+			prompt: z.string(),
+			session_id: z.string().optional(),
+			cwd: z.string().optional(),
+		}),
+		responses: {
+			200: {
+				description: "Hook output, or {} when nothing activated",
+				schema: objectSchema,
+			},
+		},
+	},
+	{
+		method: "post",
+		path: "/mcp",
+		summary: "MCP streamable-http endpoint (JSON-RPC)",
+		responses: {
+			200: { description: "JSON-RPC response", schema: objectSchema },
+			401: unauthorized,
+		},
+	},
+	{
+		method: "get",
+		path: "/openapi.json",
+		summary: "This document",
+		responses: {
+			401: authRequired,
+			200: { description: "OpenAPI 3.1 document", schema: objectSchema },
+		},
+	},
+];
+
+// -- Document --
+
+function jsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+	const { $schema: _, ...rest } = zodToJsonSchema(schema, {
+		$refStrategy: "none",
+		// Only strict objects reject unknown fields; the API strips them.
+		removeAdditionalStrategy: "strict",
+	}) as Record<string, unknown>;
+	return rest;
+}
+
+function parameters(route: ApiRoute): Record<string, unknown>[] {
+	const path = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+		name,
+		in: "path",
+		required: true,
+		schema: { type: "string" },
+	}));
+	const query = Object.entries(route.query ?? {}).map(([name, schema]) => {
+		const { description, ...paramSchema } = jsonSchema(
+			schema instanceof z.ZodOptional ? schema.unwrap() : schema,
+		);
+		return {
+			name,
+			in: "query",
+			required: !schema.isOptional(),
+			...(description !== undefined && { description }),
+			schema: paramSchema,
+		};
+	});
+	return [...path, ...query];
+}
+
+/** Build the OpenAPI 3.1 document for the routes in ROUTES. */
+export function buildOpenApiDocument(version: string): Record<string, unknown> {
+	const paths: Record<string, Record<string, unknown>> = {};
+	for (const route of ROUTES) {
+		const params = parameters(route);
+		paths[route.path] ??= {};
+		paths[route.path][route.method] = {
+			summary: route.summary,
+			...(params.length > 0 && { parameters: params }),
+			...(route.scope && {
+				description: `Requires a token with the ${route.scope} scope.`,
+				security: [{ apiToken: [] }],
+			}),
+			...(route.body && {
+				requestBody: {
+					required: true,
+					content: { "application/json": { schema: jsonSchema(route.body) } },
+				},
+			}),
+			responses: Object.fromEntries(
+				Object.entries({
+					...route.responses,
+					...((route.scope || route.responses[401]) && { 403: forbidden }),
+				}).map(([status, response]) => [
+					status,
+					{
+						description: response.description,
+						...((response.schema || response.contentType) && {
+							content: {
+								[response.contentType ?? "application/json"]: response.schema
+									? { schema: jsonSchema(response.schema) }
+									: {},
+							},
+						}),
+					},
+				]),
+			),
+		};
+	}
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: "knowledge-server",
+			version,
+			description:
+				"HTTP API of the knowledge server. Endpoints with a scope take the admin token or an API token with that scope as `Authorization: Bearer <token>`.",
+		},
+		paths,
+		components: {
+			securitySchemes: {
+				apiToken: { type: "http", scheme: "bearer" },
+			},
+		},
+	};
+}
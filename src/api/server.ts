@@ -1,57 +1,180 @@
 import { timingSafeEqual } from "node:crypto";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	McpServer,
+	ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
 import { Hono } from "hono";
 import type { Context } from "hono";
 import { bodyLimit } from "hono/body-limit";
+import { cors } from "hono/cors";
+import { streamSSE } from "hono/streaming";
+import type { z } from "zod";
 // @ts-ignore — Bun supports JSON imports natively; tsc may warn without resolveJsonModule
 import pkg from "../../package.json" with { type: "json" };
 import type { ActivationEngine } from "../activation/activate.js";
 import { splitIntoCues } from "../activation/activate.js";
+import { formatEmbeddingText } from "../activation/embeddings.js";
+import { hasScope, hashApiToken } from "../auth/api-tokens.js";
 import {
-	contradictionTagBlock,
 	contradictionTagInline,
+	formatActivationExplanation,
+	formatActivationResult,
+	formatCorrectResult,
+	formatEntryDetail,
+	formatEntryList,
+	formatForgetResult,
+	formatRememberResult,
+	formatTopicList,
 	staleTag,
 } from "../activation/format.js";
 import { config, REVIEW_STALE_STRENGTH_THRESHOLD } from "../config.js";
 import type { ConsolidationEngine } from "../consolidation/consolidate.js";
+import { ConsolidationJobs } from "../consolidation/jobs.js";
 import type { IKnowledgeStore } from "../db/index.js";
+import { emitResolutionEvents, knowledgeEvents } from "../events.js";
 import { KnowledgeService } from "../services/knowledge-service.js";
 import { logger } from "../logger.js";
-import { activateInputSchema } from "../mcp/index.js";
+import {
+	ACTIVATE_TOOL_DESCRIPTION,
+	activateInputSchema,
+	activateOutputSchema,
+	activationStructuredContent,
+	completeTopic,
+	CORRECT_TOOL_DESCRIPTION,
+	correctInputSchema,
+	DEFAULT_SEARCH_LIMIT,
+	cueLines,
+	ENTRY_RESOURCE_TEMPLATE,
+	entryResource,
+	explainActivationInputSchema,
+	FORGET_TOOL_DESCRIPTION,
+	forgetInputSchema,
+	getEntryInputSchema,
+	listTopicsInputSchema,
+	REMEMBER_TOOL_DESCRIPTION,
+	RESOURCE_LIST_LIMIT,
+	rememberInputSchema,
+	resourceVariable,
+	SEARCH_ENTRIES_TOOL_DESCRIPTION,
+	searchEntriesInputSchema,
+	TOPIC_RESOURCE_TEMPLATE,
+	TOPICS_RESOURCE_URI,
+	topicResource,
+} from "../mcp/index.js";
+import {
+	CONSOLIDATE_PROMPT_DESCRIPTION,
+	KNOWLEDGE_REVIEW_PROMPT_DESCRIPTION,
+	consolidatePrompt,
+	knowledgeReviewPrompt,
+} from "../mcp/prompts.js";
+import type { ReviewData } from "../mcp/prompts.js";
+import { ENTRY_SORTS, KNOWLEDGE_STATUSES, KNOWLEDGE_TYPES } from "../types.js";
 import type {
+	ActivationFilters,
+	AgentFeedback,
 	ActivationResult,
+	ApiTokenScope,
+	BulkEntryOperation,
+	BulkEntryResult,
+	EntryBatchWrite,
+	EntryCursor,
+	EntryListQuery,
+	EntrySort,
 	KnowledgeEntry,
 	KnowledgeStatus,
+	KnowledgeType,
+	RememberRequest,
+	RememberResult,
 } from "../types.js";
+import {
+	DEFAULT_ENTRIES_PAGE_SIZE,
+	MAX_ENTRIES_PAGE_SIZE,
+	buildOpenApiDocument,
+	bulkEntriesSchema,
+	correctSchema,
+	createEntrySchema,
+	forgetSchema,
+	patchEntrySchema,
+	rememberSchema,
+	resolveEntrySchema,
+} from "./openapi.js";
+
+/** Who a request acts as: the admin token or a named API token. */
+interface Principal {
+	/** Token name — "admin" for the admin token. */
+	name: string;
+	scopes: readonly ApiTokenScope[];
+	/** Store IDs the principal is restricted to; null for all stores. */
+	stores: string[] | null;
+}
+
+const ADMIN_PRINCIPAL: Principal = {
+	name: "admin",
+	scopes: ["admin"],
+	stores: null,
+};
+
+/** Requests to endpoints that are open without a token. */
+const ANONYMOUS: Principal = { name: "anonymous", scopes: [], stores: null };
+
+/** Minimum interval between last-used updates of a named token. */
+const TOKEN_TOUCH_INTERVAL_MS = 60_000;
+
+/** Interval between keep-alive comments on GET /events streams. */
+const EVENTS_HEARTBEAT_MS = 30_000;
 
 /**
  * HTTP API for the knowledge server.
  *
  * Endpoints:
  * - GET  /activate?q=...                   -- Activate knowledge entries by query (used by plugin)
- * - POST /consolidate                       -- Run consolidation cycle          [requires admin token]
- * - POST /reinitialize                      -- Wipe knowledge DB and reset cursor [requires admin token]
+ *                                              optional: limit, threshold, cwd, excludeOtherProjects,
+ *                                              maxTokens, excludeIds, sessionId, type, topic, store,
+ *                                              minConfidence, includeStatuses, explain
+ * - POST /consolidate                       -- Start a consolidation job        [consolidate]
+ * - GET  /jobs/:id                          -- Phase, progress and result of a job [consolidate]
+ * - DELETE /jobs/:id                        -- Request cancellation of a job   [consolidate]
+ * - POST /remember                          -- Store an agent-submitted entry  (auth as /mcp)
+ * - POST /reinitialize                      -- Wipe knowledge DB and reset cursor [admin]
  * - GET  /review                            -- List entries needing attention
+ * - GET  /events                            -- Server-Sent Events stream of knowledge changes
  * - GET  /status                            -- Server health and stats
- * - GET  /entries                           -- List all entries (with filters)
+ * - GET  /openapi.json                      -- OpenAPI 3.1 document of this API
+ * - GET  /entries                           -- Page through entries (filters, sort; limit/cursor)
+ * - GET  /topics                            -- Topics of active entries with entry counts
+ * - POST /entries                           -- Create an entry (reconsolidated) [write-entries]
+ * - POST /entries/bulk                      -- Apply a batch of entry operations [write-entries]
  * - GET  /entries/:id                       -- Get a specific entry
- * - PATCH /entries/:id                      -- Update fields on an entry       [requires admin token]
- * - POST /entries/:id/resolve               -- Resolve a conflicted entry pair [requires admin token]
- * - DELETE /entries/:id                     -- Hard-delete an entry            [requires admin token]
- * - POST /hooks/claude-code/user-prompt     -- Claude Code UserPromptSubmit hook (unauthenticated)
+ * - GET  /entries/:id/history               -- Revision history of an entry
+ * - POST /entries/:id/revert/:revision      -- Restore an entry to a revision  [write-entries]
+ * - PATCH /entries/:id                      -- Update fields on an entry       [write-entries]
+ * - POST /entries/:id/resolve               -- Resolve a conflicted entry pair [write-entries]
+ * - POST /entries/:id/correct               -- Supersede with corrected content [write-entries]
+ * - POST /entries/:id/forget                -- Tombstone an entry              [write-entries]
+ * - DELETE /entries/:id                     -- Hard-delete an entry            [write-entries]
+ * - POST /hooks/claude-code/user-prompt     -- Claude Code UserPromptSubmit hook (activate scope with KNOWLEDGE_REQUIRE_AUTH)
  * - ALL  /mcp                               -- MCP streamable-http endpoint (auth optional, see below)
  *
- * Admin token:
- * A random token is generated at startup and printed to the console once.
- * Pass it as `Authorization: Bearer <token>` on protected endpoints.
- * This guards against CSRF and other local-process abuse of destructive operations.
+ * Tokens:
+ * Bracketed endpoints need `Authorization: Bearer <token>` with that scope.
+ * The admin token — random per process and printed at startup, or
+ * KNOWLEDGE_ADMIN_TOKEN — has every scope. Named tokens from
+ * `knowledge-server token create` carry their own scopes and may be restricted
+ * to some stores; they only see and write entries in those stores. This guards
+ * against CSRF and other local-process abuse of destructive operations.
+ *
+ * With KNOWLEDGE_REQUIRE_AUTH=true the read endpoints (read scope), /activate
+ * and the hook (activate scope) need a token too; otherwise they are open.
+ * Where a token is optional, an unknown or revoked one is still refused (401).
  *
  * /mcp auth:
- * When KNOWLEDGE_ADMIN_TOKEN is set, the /mcp endpoint requires the same Bearer
- * token. When unset (random token per process), /mcp is unauthenticated — suitable
- * for local use where the server is only accessible on 127.0.0.1. For hosted/shared
- * deployments, always set KNOWLEDGE_ADMIN_TOKEN so remote MCP clients must authenticate.
+ * When KNOWLEDGE_ADMIN_TOKEN is set or KNOWLEDGE_REQUIRE_AUTH=true, the /mcp
+ * endpoint requires a token with the activate scope. Otherwise it is
+ * unauthenticated — suitable for local use where the server is only accessible
+ * on 127.0.0.1 — though a request carrying an unknown token still gets 401. For hosted/shared deployments, always set KNOWLEDGE_ADMIN_TOKEN
+ * so remote MCP clients must authenticate. The `correct` and `forget` tools
+ * always require the write-entries scope, even on loopback.
  */
 export function createApp(
 	db: IKnowledgeStore,
@@ -76,10 +199,27 @@ export function createApp(
 	 * so all domain stores are wiped atomically on reinitialize.
 	 */
 	writableDbs: IKnowledgeStore[] = [db],
+	/**
+	 * Browser origins allowed to call the API (config.jsonc corsOrigins), or
+	 * ["*"]. Defaults to none — no CORS headers are sent.
+	 */
+	corsOrigins: string[] = [],
 ): Hono {
 	const app = new Hono();
+	if (corsOrigins.length > 0) {
+		app.use(
+			"*",
+			cors({
+				origin: corsOrigins.includes("*") ? "*" : corsOrigins,
+				allowHeaders: ["Authorization", "Content-Type", "Mcp-Protocol-Version"],
+				allowMethods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
+				exposeHeaders: ["Location"],
+			}),
+		);
+	}
 	// Reuse ActivationEngine's EmbeddingClient to avoid a second model connection.
 	const service = new KnowledgeService(db, activation.embeddings);
+	const jobs = new ConsolidationJobs(consolidation);
 
 	// Pre-build a service instance for each readable store so PATCH /entries/:id
 	// can route writes to the correct store without per-request allocation.
@@ -90,111 +230,660 @@ export function createApp(
 		]),
 	);
 
+	const writeRequiredResult = toolError(
+		"This tool requires the admin token or an API token with the write-entries scope. Connect to /mcp with Authorization: Bearer <token>.",
+	);
+	const readRequiredResult = toolError(
+		"This tool requires an API token with the read scope.",
+	);
+	const activateRequiredResult = toolError(
+		"This tool requires an API token with the activate scope.",
+	);
+	const storeDeniedResult = toolError(
+		"This token may not write to the store this entry routes to.",
+	);
+
 	// -- /mcp streamable-http transport --
 	//
-	// One stateless transport instance shared across all requests. Stateless mode
-	// is appropriate here because every `activate` call is independent — there is
-	// no conversation state to maintain between MCP requests.
+	// Stateless: every request gets its own McpServer and transport (the SDK's
+	// stateless transport serves a single request). Stateless mode is appropriate
+	// here because every tool call is independent — there is no conversation
+	// state to maintain between MCP requests. (Per-conversation activation memory
+	// is keyed by the tool's sessionId argument instead.)
 	//
 	// For hosted deployments: set KNOWLEDGE_ADMIN_TOKEN and point MCP clients at
 	// https://your-server.com/mcp with `Authorization: Bearer <token>`.
 	// For local use: no token required (server binds to 127.0.0.1 only).
-	const mcpTransport = new WebStandardStreamableHTTPServerTransport({
-		sessionIdGenerator: undefined, // stateless
-	});
+	//
+	// `baseUrl` is the origin the client reached us at; prompts quote it in the
+	// HTTP endpoints they point the agent to. `principal` is null for requests
+	// without a token on an open /mcp; otherwise its scopes gate the
+	// tools and its store restriction narrows what they see.
+	function createMcpServer(
+		baseUrl: string,
+		principal: Principal | null,
+	): McpServer {
+		const mcpServer = new McpServer({
+			name: "knowledge-server",
+			version: pkg.version,
+		});
+		const can = (scope: ApiTokenScope) =>
+			principal === null || hasScope(principal.scopes, scope);
+		const stores = principal ? visibleStores(principal) : readDbs;
+		const restrict = (store: string[] | undefined) =>
+			principal ? storeFilter(principal, store) : store;
+		const readRequired = () => {
+			if (!can("read")) {
+				throw new Error("This resource requires the read scope.");
+			}
+		};
 
-	const mcpServer = new McpServer({
-		name: "knowledge-server",
-		version: pkg.version,
-	});
+		mcpServer.registerTool(
+			"activate",
+			{
+				description: ACTIVATE_TOOL_DESCRIPTION,
+				inputSchema: activateInputSchema,
+				outputSchema: activateOutputSchema,
+			},
+			async ({
+				cues,
+				limit,
+				threshold,
+				excludeIds,
+				sessionId,
+				type,
+				topic,
+				store,
+				minConfidence,
+				includeStatuses,
+			}) => {
+				if (!can("activate")) return activateRequiredResult;
+				try {
+					const result = await activation.activate(cues, {
+						limit,
+						threshold,
+						excludeIds,
+						sessionId,
+						filters: {
+							type,
+							topic,
+							store: restrict(store),
+							minConfidence,
+							includeStatuses,
+						},
+					});
+					const cueStr = Array.isArray(cues) ? cues.join(" | ") : cues;
+					logActivation("mcp", cueStr, result.entries);
 
-	mcpServer.tool(
-		"activate",
-		"Activate associated knowledge by providing cues. Returns knowledge entries that are semantically related to the provided cues. Use this when you need to recall what has been learned from prior sessions about a specific topic. Provide descriptive cues — topics, questions, or keywords — and receive relevant knowledge entries ranked by association strength.",
-		activateInputSchema,
-		async ({ cues, limit, threshold }) => {
-			try {
-				const result = await activation.activate(cues, { limit, threshold });
-				const cueStr = Array.isArray(cues) ? cues.join(" | ") : cues;
-				logActivation("mcp", cueStr, result.entries);
+					return {
+						content: [
+							{ type: "text" as const, text: formatActivationResult(result) },
+						],
+						structuredContent: activationStructuredContent(result),
+					};
+				} catch (e) {
+					logger.error("[mcp/activate] Error:", e);
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: `Error activating knowledge: ${e}`,
+							},
+						],
+						isError: true,
+					};
+				}
+			},
+		);
 
-				if (result.entries.length === 0) {
+		mcpServer.tool(
+			"get_entry",
+			"Fetch one knowledge entry by ID, with its status, provenance and relations (supports / contradicts / supersedes). Use it to inspect an entry referenced by an activation result or a relation.",
+			getEntryInputSchema,
+			async ({ id }) => {
+				if (!can("read")) return readRequiredResult;
+				try {
+					const found = await findEntry(id, stores);
+					if (!found) {
+						return {
+							content: [
+								{ type: "text" as const, text: `Entry ${id} not found.` },
+							],
+							isError: true,
+						};
+					}
+					const relations = await found.store.getRelationsFor(id);
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: formatEntryDetail(stripEmbedding(found.entry), relations),
+							},
+						],
+					};
+				} catch (e) {
+					logger.error("[mcp/get_entry] Error:", e);
+					return {
+						content: [
+							{ type: "text" as const, text: `Error fetching entry: ${e}` },
+						],
+						isError: true,
+					};
+				}
+			},
+		);
+
+		mcpServer.tool(
+			"list_topics",
+			"List the topics of active knowledge with the number of entries tagged with each, most used first. Use it to discover what the knowledge base covers before searching or activating.",
+			listTopicsInputSchema,
+			async ({ limit }) => {
+				if (!can("read")) return readRequiredResult;
+				try {
+					const topics = await listTopics(stores);
 					return {
 						content: [
 							{
 								type: "text" as const,
-								text: "No relevant knowledge found for these cues.",
+								text: formatTopicList(
+									limit !== undefined ? topics.slice(0, limit) : topics,
+								),
 							},
 						],
 					};
+				} catch (e) {
+					logger.error("[mcp/list_topics] Error:", e);
+					return {
+						content: [
+							{ type: "text" as const, text: `Error listing topics: ${e}` },
+						],
+						isError: true,
+					};
 				}
+			},
+		);
 
-				const formatted = result.entries
-					.map(
-						(r, i) =>
-							`${i + 1}. [${r.entry.type}] ${r.entry.content}${staleTag(r.staleness)}${contradictionTagBlock(r.contradiction)}\n` +
-							`   Topics: ${r.entry.topics.join(", ")}\n` +
-							`   Confidence: ${r.entry.confidence} | Semantic match: ${r.rawSimilarity.toFixed(3)} | Score: ${r.similarity.toFixed(3)}`,
-					)
-					.join("\n\n");
-
-				const conflictCount = result.entries.filter(
-					(r) => r.contradiction,
-				).length;
-				const conflictNote =
-					conflictCount > 0
-						? ` — ${conflictCount} conflicted, do not act on those without clarifying which version is correct`
-						: "";
+		mcpServer.tool(
+			"search_entries",
+			SEARCH_ENTRIES_TOOL_DESCRIPTION,
+			searchEntriesInputSchema,
+			async ({ query, type, status, topic, store, sort, limit, cursor }) => {
+				if (!can("read")) return readRequiredResult;
+				try {
+					const after = cursor ? decodeCursor(cursor) : undefined;
+					if (after === null) {
+						return {
+							content: [
+								{ type: "text" as const, text: `Invalid cursor: ${cursor}` },
+							],
+							isError: true,
+						};
+					}
+					const page = await listEntries({
+						status,
+						type,
+						topic: topic ? [topic] : undefined,
+						q: query,
+						store: restrict(store),
+						sort: sort ?? "updatedAt",
+						after,
+						limit: limit ?? DEFAULT_SEARCH_LIMIT,
+					});
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: formatEntryList(
+									page.entries.map(stripEmbedding),
+									page.total,
+									page.nextCursor ? encodeCursor(page.nextCursor) : null,
+								),
+							},
+						],
+					};
+				} catch (e) {
+					logger.error("[mcp/search_entries] Error:", e);
+					return {
+						content: [
+							{ type: "text" as const, text: `Error searching entries: ${e}` },
+						],
+						isError: true,
+					};
+				}
+			},
+		);
 
+		mcpServer.tool(
+			"explain_activation",
+			"Explain why entries activate for the given cues: for each result, its similarity to every cue, strength, rank fusion and graph links. Read-only — does not reinforce entries. Use it to debug unexpected or missing activations.",
+			explainActivationInputSchema,
+			async ({
+				cues,
+				limit,
+				threshold,
+				type,
+				topic,
+				store,
+				minConfidence,
+				includeStatuses,
+			}) => {
+				if (!can("activate")) return activateRequiredResult;
+				try {
+					const result = await activation.activate(cueLines(cues), {
+						limit,
+						threshold,
+						filters: {
+							type,
+							topic,
+							store: restrict(store),
+							minConfidence,
+							includeStatuses,
+						},
+						explain: true,
+					});
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: formatActivationExplanation(result),
+							},
+						],
+					};
+				} catch (e) {
+					logger.error("[mcp/explain_activation] Error:", e);
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: `Error explaining activation: ${e}`,
+							},
+						],
+						isError: true,
+					};
+				}
+			},
+		);
+
+		mcpServer.tool(
+			"remember",
+			REMEMBER_TOOL_DESCRIPTION,
+			rememberInputSchema,
+			async (request) => {
+				if (!can("write-entries")) return writeRequiredResult;
+				if (principal && !mayWriteTo(principal, request)) {
+					return storeDeniedResult;
+				}
+				try {
+					const result = await remember(request);
+					return {
+						content: [
+							{ type: "text" as const, text: formatRememberResult(result) },
+						],
+					};
+				} catch (e) {
+					logger.error("[mcp/remember] Error:", e);
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: `Error remembering knowledge: ${e}`,
+							},
+						],
+						isError: true,
+					};
+				}
+			},
+		);
+
+		mcpServer.tool(
+			"correct",
+			CORRECT_TOOL_DESCRIPTION,
+			correctInputSchema,
+			async ({ id, content, reason, sessionId }) => {
+				if (!principal || !hasScope(principal.scopes, "write-entries")) {
+					return writeRequiredResult;
+				}
+				try {
+					const result = await correctEntry(
+						id,
+						content,
+						{ reason, sessionId },
+						stores,
+					);
+					if (!result) {
+						return {
+							content: [
+								{ type: "text" as const, text: `Entry ${id} not found.` },
+							],
+							isError: true,
+						};
+					}
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: formatCorrectResult(id, result),
+							},
+						],
+					};
+				} catch (e) {
+					logger.error("[mcp/correct] Error:", e);
+					return {
+						content: [
+							{ type: "text" as const, text: `Error correcting entry: ${e}` },
+						],
+						isError: true,
+					};
+				}
+			},
+		);
+
+		mcpServer.tool(
+			"forget",
+			FORGET_TOOL_DESCRIPTION,
+			forgetInputSchema,
+			async ({ id, reason, sessionId }) => {
+				if (!principal || !hasScope(principal.scopes, "write-entries")) {
+					return writeRequiredResult;
+				}
+				try {
+					const result = await forgetEntry(id, { reason, sessionId }, stores);
+					if (!result) {
+						return {
+							content: [
+								{ type: "text" as const, text: `Entry ${id} not found.` },
+							],
+							isError: true,
+						};
+					}
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: formatForgetResult(id, result.restoredCounterpart),
+							},
+						],
+					};
+				} catch (e) {
+					logger.error("[mcp/forget] Error:", e);
+					return {
+						content: [
+							{ type: "text" as const, text: `Error forgetting entry: ${e}` },
+						],
+						isError: true,
+					};
+				}
+			},
+		);
+
+		// Resources and prompts let clients browse and attach knowledge without
+		// tool calls. Unlike tools, a failed read surfaces as a protocol error.
+		mcpServer.resource(
+			"entry",
+			new ResourceTemplate(ENTRY_RESOURCE_TEMPLATE, {
+				list: async () => {
+					readRequired();
+					const { entries } = await listEntries({
+						status: "active",
+						store: restrict(undefined),
+						sort: "updatedAt",
+						limit: RESOURCE_LIST_LIMIT,
+					});
+					return { resources: entries.map(entryResource) };
+				},
+			}),
+			{
+				description: "A knowledge entry with its metadata and relations.",
+				mimeType: "text/markdown",
+			},
+			async (uri, variables) => {
+				readRequired();
+				const id = resourceVariable(variables, "id");
+				const found = await findEntry(id, stores);
+				if (!found) throw new Error(`Entry not found: ${id}`);
+				const relations = await found.store.getRelationsFor(id);
 				return {
-					content: [
+					contents: [
 						{
-							type: "text" as const,
-							text: `## Activated Knowledge (${result.entries.length} entries, ${result.totalActive} total active${conflictNote})\n\n${formatted}`,
+							uri: uri.href,
+							mimeType: "text/markdown",
+							text: formatEntryDetail(found.entry, relations),
 						},
 					],
 				};
-			} catch (e) {
-				logger.error("[mcp/activate] Error:", e);
+			},
+		);
+
+		mcpServer.resource(
+			"topics",
+			TOPICS_RESOURCE_URI,
+			{
+				description: "Topics of active knowledge with entry counts.",
+				mimeType: "text/markdown",
+			},
+			async (uri) => {
+				readRequired();
 				return {
-					content: [
-						{ type: "text" as const, text: `Error activating knowledge: ${e}` },
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: "text/markdown",
+							text: formatTopicList(await listTopics(stores)),
+						},
 					],
-					isError: true,
 				};
-			}
-		},
-	);
+			},
+		);
 
-	// Connect McpServer to transport (async; safe to fire-and-forget here since
-	// connect() only sets up event listeners and does not block).
-	mcpServer.connect(mcpTransport).catch((e) => {
-		logger.error("[mcp] Failed to connect MCP server to transport:", e);
-	});
+		mcpServer.resource(
+			"topic",
+			new ResourceTemplate(TOPIC_RESOURCE_TEMPLATE, {
+				list: async () => {
+					readRequired();
+					return { resources: (await listTopics(stores)).map(topicResource) };
+				},
+				complete: {
+					topic: async (value) =>
+						can("read") ? completeTopic(await listTopics(stores), value) : [],
+				},
+			}),
+			{
+				description: "Active knowledge entries tagged with a topic.",
+				mimeType: "text/markdown",
+			},
+			async (uri, variables) => {
+				readRequired();
+				const { entries, total } = await listEntries({
+					status: "active",
+					topic: [resourceVariable(variables, "topic")],
+					store: restrict(undefined),
+					sort: "updatedAt",
+					limit: RESOURCE_LIST_LIMIT,
+				});
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: "text/markdown",
+							text: formatEntryList(entries, total, null),
+						},
+					],
+				};
+			},
+		);
+
+		mcpServer.prompt(
+			"knowledge-review",
+			KNOWLEDGE_REVIEW_PROMPT_DESCRIPTION,
+			async () => {
+				readRequired();
+				return {
+					messages: [
+						{
+							role: "user" as const,
+							content: {
+								type: "text" as const,
+								text: knowledgeReviewPrompt(await reviewData(stores), baseUrl),
+							},
+						},
+					],
+				};
+			},
+		);
+
+		mcpServer.prompt("consolidate", CONSOLIDATE_PROMPT_DESCRIPTION, () => ({
+			messages: [
+				{
+					role: "user" as const,
+					content: { type: "text" as const, text: consolidatePrompt(baseUrl) },
+				},
+			],
+		}));
+
+		return mcpServer;
+	}
 
 	// Route all methods on /mcp to the transport.
-	// Auth: required only when a stable admin token is configured (hosted mode).
-	// In local mode (random per-process token) /mcp is open — the server already
-	// binds to 127.0.0.1 so network access is not a concern.
+	// Auth: required when a stable admin token is configured (hosted mode) or
+	// KNOWLEDGE_REQUIRE_AUTH is set — the admin token or a token with the
+	// activate scope. Otherwise /mcp is open — the server binds to 127.0.0.1 so
+	// network access is not a concern — and a token, when sent, still unlocks
+	// correct/forget and applies its scopes and store restriction.
 	app.all("/mcp", async (c) => {
-		if (adminTokenIsStable && !requireAdminToken(c)) {
-			return c.json({ error: "Unauthorized" }, 401);
+		let principal: Principal | null;
+		if (agentAuthRequired) {
+			const auth = await authorize(c, "activate");
+			if (auth instanceof Response) return auth;
+			principal = auth;
+		} else {
+			principal = await authenticate(c);
+			// Only a request without a token is anonymous: an unknown or revoked
+			// one must not get more than the token it stands for had.
+			if (!principal && c.req.header("Authorization")) {
+				return c.json({ error: "Unauthorized" }, 401);
+			}
 		}
-		return mcpTransport.handleRequest(c.req.raw);
+		const transport = new WebStandardStreamableHTTPServerTransport({
+			sessionIdGenerator: undefined, // stateless
+		});
+		await createMcpServer(new URL(c.req.url).origin, principal).connect(
+			transport,
+		);
+		return transport.handleRequest(c.req.raw);
 	});
 
-	// -- Auth helper --
+	// -- Auth helpers --
+	//
+	// A request authenticates with the admin token (every scope, every store)
+	// or a named API token from state.db (`knowledge-server token create`).
+	// Write, consolidation and admin endpoints always need a token with the
+	// matching scope. Read and activation endpoints only do when
+	// KNOWLEDGE_REQUIRE_AUTH is set; /mcp and /remember also in hosted mode.
+
+	const readAuthRequired = config.requireAuth;
+	const agentAuthRequired = adminTokenIsStable || config.requireAuth;
 
 	// Pre-encode the expected token once so timingSafeEqual can compare buffers.
 	// "Bearer " + 48-char hex = a public constant length, so the early length
 	// check leaks nothing meaningful while keeping the comparison simple.
 	const expectedToken = Buffer.from(`Bearer ${adminToken}`);
 
-	function requireAdminToken(c: Context): boolean {
+	/** The principal a request's bearer token identifies, or null. */
+	async function authenticate(c: Context): Promise<Principal | null> {
 		const auth = c.req.header("Authorization") ?? "";
 		const provided = Buffer.from(auth);
-		if (provided.length !== expectedToken.length) return false;
-		return timingSafeEqual(provided, expectedToken);
+		if (
+			provided.length === expectedToken.length &&
+			timingSafeEqual(provided, expectedToken)
+		) {
+			return ADMIN_PRINCIPAL;
+		}
+		if (!auth.startsWith("Bearer ")) return null;
+		// Named tokens are looked up by hash, so the secret is never compared.
+		const token = await serverStateDb.getApiTokenByHash(
+			hashApiToken(auth.slice("Bearer ".length)),
+		);
+		if (!token) return null;
+		const now = Date.now();
+		if (
+			token.lastUsedAt === null ||
+			now - token.lastUsedAt > TOKEN_TOUCH_INTERVAL_MS
+		) {
+			serverStateDb.touchApiToken(token.id, now).catch((e) => {
+				logger.warn(
+					`[auth] Could not record use of token "${token.name}". Error: ${e instanceof Error ? e.message : String(e)}`,
+				);
+			});
+		}
+		return { name: token.name, scopes: token.scopes, stores: token.stores };
+	}
+
+	/**
+	 * Authorize a request for `scope`. Returns the principal, or the response
+	 * to send: 401 without a valid token, 403 when the token lacks the scope.
+	 * When `required` is false a request without a token runs as ANONYMOUS and
+	 * a valid token still applies its store restriction. An unknown or revoked
+	 * token gets 401 either way, so it never widens to anonymous access.
+	 */
+	async function authorize(
+		c: Context,
+		scope: ApiTokenScope,
+		required = true,
+	): Promise<Principal | Response> {
+		const principal = await authenticate(c);
+		if (!principal && (required || c.req.header("Authorization"))) {
+			return c.json({ error: "Unauthorized" }, 401);
+		}
+		if (!principal) return ANONYMOUS;
+		if (!required) return principal;
+		if (!hasScope(principal.scopes, scope)) {
+			return c.json(
+				{ error: `Token "${principal.name}" lacks the ${scope} scope` },
+				403,
+			);
+		}
+		return principal;
+	}
+
+	/** The read stores a principal may see. */
+	function visibleStores(principal: Principal): IKnowledgeStore[] {
+		const { stores } = principal;
+		if (!stores) return readDbs;
+		return readDbs.filter((s) => {
+			const id = activation.storeIdOf(s);
+			return id !== undefined && stores.includes(id);
+		});
+	}
+
+	/**
+	 * Narrow a store filter to the principal's stores. Unrestricted principals
+	 * get the filter back unchanged; restricted ones get their stores when no
+	 * filter was given.
+	 */
+	function storeFilter(
+		principal: Principal,
+		requested: string[] | undefined,
+	): string[] | undefined {
+		const { stores } = principal;
+		if (!stores) return requested;
+		return (requested ?? stores).filter((id) => stores.includes(id));
+	}
+
+	/**
+	 * Whether the principal may write to the store a remember / POST /entries
+	 * request routes to. Routing errors are left for the write to report.
+	 */
+	function mayWriteTo(principal: Principal, request: RememberRequest): boolean {
+		const { stores } = principal;
+		if (!stores) return true;
+		let target: IKnowledgeStore;
+		try {
+			target = consolidation.resolveRememberStore(request);
+		} catch {
+			return true;
+		}
+		const id = activation.storeIdOf(target);
+		return id !== undefined && stores.includes(id);
 	}
 
 	// -- Helpers --
@@ -241,9 +930,456 @@ export function createApp(
 		}
 	}
 
+	/** Reconsolidate an agent-submitted entry and log the outcome. */
+	async function remember(request: RememberRequest): Promise<RememberResult> {
+		const result = await consolidation.remember(request);
+		logger.log(
+			`[remember] ${result.action} ${result.entryId} ${JSON.stringify(request.content)}`,
+		);
+		return result;
+	}
+
+	/**
+	 * Supersede an entry with corrected content in the store that holds it.
+	 * Returns the replacement entry, or null when the entry is not in `stores`.
+	 */
+	async function correctEntry(
+		id: string,
+		content: string,
+		feedback: AgentFeedback,
+		stores: IKnowledgeStore[] = readDbs,
+	): Promise<KnowledgeEntry | null> {
+		const found = await findEntry(id, stores);
+		if (!found) return null;
+		const service =
+			serviceByStore.get(found.store) ??
+			new KnowledgeService(found.store, activation.embeddings);
+		const replacement = await service.correctEntry(id, content, feedback);
+		knowledgeEvents.emit({
+			type: "entry.created",
+			entryId: replacement.id,
+			entryType: replacement.type,
+			content: replacement.content,
+		});
+		emitResolutionEvents("supersede_old", replacement.id, id);
+		logger.log(
+			`[correct] ${id} superseded by ${replacement.id}${feedback.sessionId ? ` (session ${feedback.sessionId})` : ""}: ${JSON.stringify(content)}`,
+		);
+		return replacement;
+	}
+
+	/**
+	 * Tombstone an entry in the store that holds it.
+	 * Returns null when the entry is not in `stores`.
+	 */
+	async function forgetEntry(
+		id: string,
+		feedback: AgentFeedback,
+		stores: IKnowledgeStore[] = readDbs,
+	): Promise<{ restoredCounterpart: string | null } | null> {
+		const found = await findEntry(id, stores);
+		if (!found) return null;
+		const service =
+			serviceByStore.get(found.store) ??
+			new KnowledgeService(found.store, activation.embeddings);
+		const restoredCounterpart = await service.forgetEntry(id, feedback);
+		knowledgeEvents.emit({ type: "entry.updated", entryId: id });
+		if (restoredCounterpart) {
+			knowledgeEvents.emit({
+				type: "entry.updated",
+				entryId: restoredCounterpart,
+			});
+		}
+		logger.log(
+			`[forget] ${id}${feedback.sessionId ? ` (session ${feedback.sessionId})` : ""}${feedback.reason ? `: ${JSON.stringify(feedback.reason)}` : ""}`,
+		);
+		return { restoredCounterpart };
+	}
+
+	/**
+	 * The counterpart of a conflicted entry: the other side of its contradicts
+	 * relation. Deleting or archiving the entry must set the counterpart back to
+	 * active — otherwise it stays 'conflicted' with no partner to resolve
+	 * against. Null when the entry has no such relation; an error when the
+	 * counterpart lives in another store, where it cannot safely be restored.
+	 */
+	async function conflictCounterpart(
+		entry: KnowledgeEntry,
+		store: IKnowledgeStore,
+	): Promise<{ id: string } | { error: string } | null> {
+		if (entry.status !== "conflicted") return null;
+		const relations = await store.getRelationsFor(entry.id);
+		const conflictRel = relations.find((r) => r.type === "contradicts");
+		if (!conflictRel) return null;
+		const id =
+			conflictRel.sourceId === entry.id
+				? conflictRel.targetId
+				: conflictRel.sourceId;
+		// Guard against cross-store counterpart — same as /resolve endpoint.
+		if (!(await store.getEntry(id))) {
+			return {
+				error:
+					"Cross-store conflict: entry and counterpart live in different stores. Cannot safely restore counterpart.",
+			};
+		}
+		return { id };
+	}
+
+	/**
+	 * Apply POST /entries/bulk operations. Every operation is first checked
+	 * against its entry and store; the valid ones are then written in one
+	 * transaction per store, so a failing store fails only its own operations.
+	 * Deleting, archiving or re-statusing a conflicted entry restores its
+	 * counterpart in the same transaction, as DELETE /entries/:id does.
+	 * A move inserts a copy, with its revision history, in the target store's
+	 * transaction and deletes the original once that has committed; entries
+	 * with relations or in a conflict are refused, since relations cannot span
+	 * stores. With `dryRun` only the checks run. Results are in request order.
+	 * Entries and move targets outside `stores` are treated as unknown.
+	 */
+	async function bulkUpdateEntries(
+		operations: BulkEntryOperation[],
+		dryRun: boolean,
+		stores: IKnowledgeStore[] = readDbs,
+	): Promise<BulkEntryResult[]> {
+		const results: BulkEntryResult[] = [];
+		// Writes per store, with the index of the operation behind each write.
+		const batches = new Map<
+			IKnowledgeStore,
+			{ writes: EntryBatchWrite[]; indexes: number[] }
+		>();
+		const moves: Array<{ index: number; from: IKnowledgeStore }> = [];
+		const seen = new Set<string>();
+		// Counterparts to set back to active, queued until every operation has
+		// been checked, and the operations that made it into a batch.
+		const restores: Array<{
+			index: number;
+			store: IKnowledgeStore;
+			id: string;
+		}> = [];
+		const accepted = new Map<string, BulkEntryOperation>();
+
+		for (const [index, operation] of operations.entries()) {
+			const result: BulkEntryResult = {
+				op: operation.op,
+				id: operation.id,
+				ok: false,
+			};
+			results.push(result);
+			if (seen.has(operation.id)) {
+				result.error = "Entry already has an operation in this batch";
+				continue;
+			}
+			seen.add(operation.id);
+
+			const found = await findEntry(operation.id, stores);
+			if (!found) {
+				result.error = "Entry not found";
+				continue;
+			}
+			result.store = activation.storeIdOf(found.store);
+			if (!writableDbs.includes(found.store)) {
+				result.error = "Entry is in a read-only store";
+				continue;
+			}
+
+			let target = found.store;
+			if (operation.op === "move-to-store") {
+				const store = stores.find(
+					(s) => activation.storeIdOf(s) === operation.store,
+				);
+				if (!store) {
+					result.error = `Unknown store "${operation.store}"`;
+					continue;
+				}
+				if (!writableDbs.includes(store)) {
+					result.error = `Store "${operation.store}" is read-only`;
+					continue;
+				}
+				if (store === found.store) {
+					result.error = `Entry is already in store "${operation.store}"`;
+					continue;
+				}
+				if (found.entry.status === "conflicted") {
+					result.error = "Entry is conflicted; resolve it before moving";
+					continue;
+				}
+				if ((await found.store.getRelationsFor(found.entry.id)).length > 0) {
+					result.error =
+						"Entry has relations, which cannot be moved to another store";
+					continue;
+				}
+				target = store;
+			}
+
+			// Leaving 'conflicted' frees the counterpart (restored below).
+			const leavesConflict =
+				operation.op === "delete" ||
+				operation.op === "archive" ||
+				(operation.op === "set-status" && operation.status !== "conflicted");
+			if (leavesConflict) {
+				const conflict = await conflictCounterpart(found.entry, found.store);
+				if (conflict && "error" in conflict) {
+					result.error = conflict.error;
+					continue;
+				}
+				if (conflict && !dryRun) {
+					restores.push({ index, store: target, id: conflict.id });
+				}
+			}
+			if (dryRun) {
+				result.ok = true;
+				continue;
+			}
+
+			let write: EntryBatchWrite;
+			switch (operation.op) {
+				case "archive":
+					write = {
+						kind: "update",
+						id: operation.id,
+						updates: { status: "archived" },
+					};
+					break;
+				case "set-status":
+					write = {
+						kind: "update",
+						id: operation.id,
+						updates: { status: operation.status },
+					};
+					break;
+				case "delete":
+					write = { kind: "delete", id: operation.id };
+					break;
+				case "set-topics":
+					// Topics are part of the embedded text, so re-embed like PATCH does.
+					try {
+						const embedding = await activation.embeddings.embed(
+							formatEmbeddingText(
+								found.entry.type,
+								found.entry.content,
+								operation.topics,
+							),
+						);
+						write = {
+							kind: "update",
+							id: operation.id,
+							updates: { topics: operation.topics, embedding },
+						};
+					} catch (e) {
+						result.error = `Embedding failed: ${e instanceof Error ? e.message : String(e)}`;
+						continue;
+					}
+					break;
+				case "move-to-store":
+					write = {
+						kind: "insert",
+						entry: found.entry,
+						revisions: await found.store.getRevisions(found.entry.id),
+					};
+					moves.push({ index, from: found.store });
+					break;
+			}
+			const batch = batches.get(target) ?? { writes: [], indexes: [] };
+			batch.writes.push(write);
+			batch.indexes.push(index);
+			batches.set(target, batch);
+			accepted.set(operation.id, operation);
+		}
+
+		// A counterpart keeps its status only when its own accepted operation
+		// sets one; anything else (set-topics, a rejected op, no op) would leave
+		// it 'conflicted' without a partner.
+		for (const { index, store, id } of restores) {
+			const own = accepted.get(id);
+			if (
+				own?.op === "archive" ||
+				own?.op === "delete" ||
+				own?.op === "set-status"
+			) {
+				continue;
+			}
+			const batch = batches.get(store) ?? { writes: [], indexes: [] };
+			batch.writes.push({
+				kind: "update",
+				id,
+				updates: { status: "active" },
+			});
+			batch.indexes.push(index);
+			batches.set(store, batch);
+			results[index].restoredCounterpart = id;
+		}
+
+		for (const [store, batch] of batches) {
+			try {
+				await store.applyEntryBatch(batch.writes, "api");
+				for (const i of batch.indexes) results[i].ok = true;
+			} catch (e) {
+				logger.error("[bulk] Store transaction failed:", e);
+				for (const i of batch.indexes) {
+					results[i].error =
+						`Store transaction failed: ${e instanceof Error ? e.message : String(e)}`;
+				}
+			}
+		}
+
+		// Remove moved entries from their source stores, again one transaction
+		// per store. A failure here leaves the entry in both stores.
+		const removals = new Map<IKnowledgeStore, number[]>();
+		for (const { index, from } of moves) {
+			if (results[index].ok) {
+				removals.set(from, [...(removals.get(from) ?? []), index]);
+			}
+		}
+		for (const [store, indexes] of removals) {
+			try {
+				await store.applyEntryBatch(
+					indexes.map((i) => ({ kind: "delete", id: results[i].id })),
+					"api",
+				);
+			} catch (e) {
+				logger.error("[bulk] Removing moved entries failed:", e);
+				for (const i of indexes) {
+					results[i].ok = false;
+					results[i].error =
+						`Copied to the target store but not removed from this one: ${e instanceof Error ? e.message : String(e)}`;
+				}
+			}
+		}
+
+		if (!dryRun) {
+			for (const result of results) {
+				if (!result.ok) continue;
+				knowledgeEvents.emit({
+					type: result.op === "delete" ? "entry.deleted" : "entry.updated",
+					entryId: result.id,
+				});
+				if (result.restoredCounterpart) {
+					knowledgeEvents.emit({
+						type: "entry.updated",
+						entryId: result.restoredCounterpart,
+					});
+				}
+			}
+		}
+
+		logger.log(
+			`[bulk] ${results.filter((r) => r.ok).length}/${results.length} operations ${dryRun ? "valid (dry run)" : "applied"}`,
+		);
+		return results;
+	}
+
+	/**
+	 * Find an entry in any of `stores` (default: every read store), along with
+	 * the store that holds it.
+	 */
+	async function findEntry(
+		id: string,
+		stores: IKnowledgeStore[] = readDbs,
+	): Promise<{ entry: KnowledgeEntry; store: IKnowledgeStore } | null> {
+		for (const store of stores) {
+			const entry = await store.getEntry(id);
+			if (entry) return { entry, store };
+		}
+		return null;
+	}
+
+	/**
+	 * One page of a filtered entry listing across the read stores (or those
+	 * named by `store`) — backs GET /entries, the search_entries MCP tool and the
+	 * MCP entry resources. Each store returns its own page past the cursor; the
+	 * pages are merged in the same (sort key, id) order and cut to the limit.
+	 */
+	async function listEntries(
+		query: EntryListQuery & { store?: string[] },
+	): Promise<{
+		entries: KnowledgeEntry[];
+		total: number;
+		nextCursor: EntryCursor | null;
+	}> {
+		const { store, ...storeQuery } = query;
+		const stores = store
+			? readDbs.filter((s) => {
+					const id = activation.storeIdOf(s);
+					return id !== undefined && store.includes(id);
+				})
+			: readDbs;
+		// One extra entry per store tells whether another page follows.
+		const [pages, counts] = await Promise.all([
+			Promise.all(
+				stores.map((s) =>
+					s.listEntries({ ...storeQuery, limit: query.limit + 1 }),
+				),
+			),
+			Promise.all(stores.map((s) => s.countEntries(storeQuery))),
+		]);
+		const merged = pages.flat().sort((a, b) => {
+			const diff =
+				entrySortValue(b, query.sort) - entrySortValue(a, query.sort);
+			return diff !== 0 ? diff : a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+		});
+		const entries = merged.slice(0, query.limit);
+		const last = entries[entries.length - 1];
+		return {
+			entries,
+			total: counts.reduce((sum, n) => sum + n, 0),
+			nextCursor:
+				merged.length > query.limit && last
+					? { value: entrySortValue(last, query.sort), id: last.id }
+					: null,
+		};
+	}
+
+	/**
+	 * Entries needing attention across all read stores — backs GET /review and
+	 * the knowledge-review MCP prompt.
+	 */
+	async function reviewData(
+		stores: IKnowledgeStore[] = readDbs,
+	): Promise<ReviewData> {
+		// Fan out across the stores and merge results.
+		const allConflicted = (
+			await Promise.all(stores.map((s) => s.getEntriesByStatus("conflicted")))
+		).flat();
+		const allActive = (
+			await Promise.all(stores.map((s) => s.getActiveEntries()))
+		).flat();
+
+		// Find stale entries (active but low strength)
+		const stale = allActive
+			.filter((e) => e.strength < REVIEW_STALE_STRENGTH_THRESHOLD)
+			.sort((a, b) => a.strength - b.strength);
+
+		return {
+			conflicted: allConflicted.map(stripEmbedding),
+			stale: stale.map(stripEmbedding),
+		};
+	}
+
+	/** Topics of active and conflicted entries with entry counts, most used first. */
+	async function listTopics(
+		stores: IKnowledgeStore[] = readDbs,
+	): Promise<Array<{ topic: string; count: number }>> {
+		const entries = (
+			await Promise.all(stores.map((s) => s.getActiveAndConflictedEntries()))
+		).flat();
+		const counts = new Map<string, number>();
+		for (const entry of entries) {
+			for (const topic of new Set(entry.topics.map((t) => t.toLowerCase()))) {
+				counts.set(topic, (counts.get(topic) ?? 0) + 1);
+			}
+		}
+		return [...counts]
+			.map(([topic, count]) => ({ topic, count }))
+			.sort((a, b) => b.count - a.count || a.topic.localeCompare(b.topic));
+	}
+
 	// -- Activation --
 
 	app.get("/activate", async (c) => {
+		const principal = await authorize(c, "activate", readAuthRequired);
+		if (principal instanceof Response) return principal;
+
 		// Accept one or more `q` params (repeated: ?q=seg1&q=seg2&q=full).
 		// Single ?q=... still works — queries() returns a one-element array.
 		const queries = c.req.queries("q");
@@ -255,6 +1391,45 @@ export function createApp(
 		// Defaults come from config so the server admin controls the baseline.
 		const limitParam = c.req.query("limit");
 		const thresholdParam = c.req.query("threshold");
+		// Caller's working directory — entries from the same project rank higher,
+		// and excludeOtherProjects=true drops entries from unrelated projects.
+		const cwd = c.req.query("cwd") || undefined;
+		const excludeOtherProjects = c.req.query("excludeOtherProjects") === "true";
+		// Approximate token budget — packs the highest-ranked entries into it.
+		const maxTokensParam = c.req.query("maxTokens");
+		// Entries to leave out — repeated (?excludeIds=a&excludeIds=b) or
+		// comma-separated. With sessionId, entries already returned to that
+		// session are left out too.
+		const excludeIds = listQuery(c, "excludeIds");
+		const sessionId = c.req.query("sessionId") || undefined;
+		// explain=true adds per-cue similarities and skips access recording.
+		const explain = c.req.query("explain") === "true";
+		// Filters — list params are repeated or comma-separated like excludeIds.
+		const type = listQuery(c, "type");
+		const includeStatuses = listQuery(c, "includeStatuses");
+		const minConfidenceParam = c.req.query("minConfidence");
+		const invalidType = type?.find(
+			(t) => !(KNOWLEDGE_TYPES as readonly string[]).includes(t),
+		);
+		if (invalidType !== undefined) {
+			return c.json(
+				{
+					error: `Invalid type '${invalidType}'. Must be one of: ${KNOWLEDGE_TYPES.join(", ")}`,
+				},
+				400,
+			);
+		}
+		const invalidStatus = includeStatuses?.find(
+			(s) => !(KNOWLEDGE_STATUSES as readonly string[]).includes(s),
+		);
+		if (invalidStatus !== undefined) {
+			return c.json(
+				{
+					error: `Invalid status '${invalidStatus}'. Must be one of: ${KNOWLEDGE_STATUSES.join(", ")}`,
+				},
+				400,
+			);
+		}
 
 		const parsedLimit = limitParam
 			? Number.parseInt(limitParam, 10)
@@ -270,10 +1445,42 @@ export function createApp(
 			? Math.max(0, Math.min(1, parsedThreshold))
 			: undefined;
 
+		const parsedMaxTokens = maxTokensParam
+			? Number.parseInt(maxTokensParam, 10)
+			: Number.NaN;
+		const maxTokens = !Number.isNaN(parsedMaxTokens)
+			? Math.max(1, parsedMaxTokens)
+			: undefined;
+
+		const parsedMinConfidence = minConfidenceParam
+			? Number.parseFloat(minConfidenceParam)
+			: Number.NaN;
+		const minConfidence = !Number.isNaN(parsedMinConfidence)
+			? Math.max(0, Math.min(1, parsedMinConfidence))
+			: undefined;
+
+		const filters: ActivationFilters = {
+			type: type as KnowledgeType[] | undefined,
+			topic: listQuery(c, "topic"),
+			store: storeFilter(principal, listQuery(c, "store")),
+			minConfidence,
+			includeStatuses: includeStatuses as KnowledgeStatus[] | undefined,
+		};
+
 		try {
 			const result = await activation.activate(
 				queries.length === 1 ? queries[0] : queries,
-				{ limit, threshold },
+				{
+					limit,
+					threshold,
+					cwd,
+					excludeOtherProjects,
+					maxTokens,
+					excludeIds,
+					sessionId,
+					filters,
+					explain: explain || undefined,
+				},
 			);
 			logActivation("http", queries.join(" | "), result.entries);
 			return c.json(result);
@@ -285,32 +1492,91 @@ export function createApp(
 
 	// -- Consolidation --
 
+	// POST /consolidate — start a consolidation job and return it immediately
+	// (202). Poll GET /jobs/:id for progress. 409 while any run holds the lock;
+	// jobId is included when that run is a job.
 	app.post("/consolidate", async (c) => {
-		if (!requireAdminToken(c)) {
-			return c.json({ error: "Unauthorized" }, 401);
+		const principal = await authorize(c, "consolidate");
+		if (principal instanceof Response) return principal;
+
+		const job = jobs.start();
+		if (!job) {
+			const running = jobs.running();
+			return c.json(
+				{
+					error: "Consolidation already in progress",
+					...(running && { jobId: running.id }),
+				},
+				409,
+			);
+		}
+		c.header("Location", `/jobs/${job.id}`);
+		return c.json(job, 202);
+	});
+
+	app.get("/jobs/:id", async (c) => {
+		const principal = await authorize(c, "consolidate");
+		if (principal instanceof Response) return principal;
+		const job = jobs.get(c.req.param("id"));
+		if (!job) return c.json({ error: "Job not found" }, 404);
+		return c.json(job);
+	});
+
+	// DELETE /jobs/:id — request cooperative cancellation. The run stops before
+	// its next chunk; poll GET /jobs/:id until status is "cancelled".
+	app.delete("/jobs/:id", async (c) => {
+		const principal = await authorize(c, "consolidate");
+		if (principal instanceof Response) return principal;
+		const job = jobs.cancel(c.req.param("id"));
+		if (!job) return c.json({ error: "Job not found" }, 404);
+		if (job.status !== "running") {
+			return c.json({ error: `Job already ${job.status}` }, 409);
 		}
+		return c.json(job, 202);
+	});
+
+	// -- Remember --
 
-		if (!consolidation.tryLock()) {
-			return c.json({ error: "Consolidation already in progress" }, 409);
+	// POST /remember — store an agent-submitted entry immediately (stdio proxy's
+	// `remember` tool). Body: { type, content, topics, confidence?, cwd?, domain?,
+	// sessionId? }. Same auth as /mcp: open on loopback, a token with the
+	// write-entries scope when KNOWLEDGE_ADMIN_TOKEN is set or
+	// KNOWLEDGE_REQUIRE_AUTH=true.
+	app.post("/remember", bodyLimit({ maxSize: 64 * 1024 }), async (c) => {
+		const principal = await authorize(c, "write-entries", agentAuthRequired);
+		if (principal instanceof Response) return principal;
+
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Invalid JSON body" }, 400);
+		}
+		const parsed = rememberSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: invalidBodyMessage(parsed.error) }, 400);
+		}
+		if (!mayWriteTo(principal, parsed.data)) {
+			return c.json(storeDenied(principal), 403);
 		}
 
 		try {
-			const result = await consolidation.consolidate();
+			const result = await remember(parsed.data);
 			return c.json(result);
 		} catch (e) {
-			logger.error("[consolidate] Error:", e);
-			return c.json({ error: "Internal server error" }, 500);
-		} finally {
-			consolidation.unlock();
+			logger.error("[remember] Error:", e);
+			return c.json(
+				{ error: e instanceof Error ? e.message : "Internal server error" },
+				500,
+			);
 		}
 	});
 
 	// -- Re-initialization --
 
 	app.post("/reinitialize", async (c) => {
-		if (!requireAdminToken(c)) {
-			return c.json({ error: "Unauthorized" }, 401);
-		}
+		const principal = await authorize(c, "admin");
+		if (principal instanceof Response) return principal;
 
 		try {
 			const confirm = c.req.query("confirm");
@@ -345,27 +1611,49 @@ export function createApp(
 		}
 	});
 
-	// -- Review --
+	// -- Events --
 
-	app.get("/review", async (c) => {
-		// Fan out across all readable stores and merge results.
-		const allConflicted = (
-			await Promise.all(readDbs.map((s) => s.getEntriesByStatus("conflicted")))
-		).flat();
-		const allActive = (
-			await Promise.all(readDbs.map((s) => s.getActiveEntries()))
-		).flat();
+	// GET /events — Server-Sent Events stream of knowledge changes. Each SSE
+	// event is named after its type and carries the KnowledgeEvent as JSON.
+	// Events are not filtered per store, so store-restricted tokens get 403.
+	app.get("/events", async (c) => {
+		const principal = await authorize(c, "read", readAuthRequired);
+		if (principal instanceof Response) return principal;
+		if (principal.stores) {
+			return c.json(
+				{ error: `Token "${principal.name}" is restricted to stores` },
+				403,
+			);
+		}
+		return streamSSE(c, async (stream) => {
+			const unsubscribe = knowledgeEvents.subscribe((event, id) => {
+				void stream.writeSSE({
+					event: event.type,
+					id: String(id),
+					data: JSON.stringify(event),
+				});
+			});
+			// Comment lines keep idle connections open past the server's idleTimeout.
+			const heartbeat = setInterval(() => {
+				void stream.write(": heartbeat\n\n");
+			}, EVENTS_HEARTBEAT_MS);
+			await new Promise<void>((resolve) => stream.onAbort(resolve));
+			clearInterval(heartbeat);
+			unsubscribe();
+		});
+	});
 
-		// Find stale entries (active but low strength)
-		const stale = allActive
-			.filter((e) => e.strength < REVIEW_STALE_STRENGTH_THRESHOLD)
-			.sort((a, b) => a.strength - b.strength);
+	// -- Review --
 
+	app.get("/review", async (c) => {
+		const principal = await authorize(c, "read", readAuthRequired);
+		if (principal instanceof Response) return principal;
+		const { conflicted, stale } = await reviewData(visibleStores(principal));
 		return c.json({
-			conflicted: allConflicted.map(stripEmbedding),
-			stale: stale.map(stripEmbedding),
+			conflicted,
+			stale,
 			summary: {
-				conflictedCount: allConflicted.length,
+				conflictedCount: conflicted.length,
 				staleCount: stale.length,
 			},
 		});
@@ -374,8 +1662,15 @@ export function createApp(
 	// -- Status --
 
 	app.get("/status", async (c) => {
-		// Fan out stats across all stores and sum counts.
-		const allStats = await Promise.all(readDbs.map((s) => s.getStats()));
+		// Stats reveal the size and shape of the knowledge base, so /status is a
+		// read endpoint like the rest once KNOWLEDGE_REQUIRE_AUTH=true.
+		const caller = await authorize(c, "read", readAuthRequired);
+		if (caller instanceof Response) return caller;
+
+		// Fan out stats across the caller's stores and sum counts.
+		const allStats = await Promise.all(
+			visibleStores(caller).map((s) => s.getStats()),
+		);
 		const stats = allStats.reduce(
 			(acc, s) => ({
 				total: acc.total + s.total,
@@ -399,15 +1694,18 @@ export function createApp(
 
 		// No per-source cursors in daemon-only mode — pending_episodes is self-draining.
 
-		// Config block (model names, port) is gated behind the admin token.
-		// Unauthenticated callers (e.g. healthcheck scripts) still get version +
-		// knowledge stats, but don't learn which models / endpoint are in use.
-		// Intentional: non-blocking — unauthenticated callers still receive a 200
-		// with partial data; the config block is simply omitted.
-		const isAdmin = requireAdminToken(c);
+		// Config block (model names, port) is gated behind the admin scope.
+		// Without KNOWLEDGE_REQUIRE_AUTH, unauthenticated callers (e.g. healthcheck
+		// scripts) still get version + knowledge stats, but don't learn which
+		// models / endpoint are in use.
+		const isAdmin = hasScope(caller.scopes, "admin");
 
 		// Use primary store's embedding metadata (model is shared across all stores).
 		const embeddingMeta = await db.getEmbeddingMetadata();
+		// Best-effort — a state DB hiccup must not fail the health check.
+		const embeddingCache = await activation.embeddings
+			.cacheStats()
+			.catch(() => null);
 
 		return c.json({
 			status: "ok",
@@ -427,6 +1725,7 @@ export function createApp(
 						recordedAt: new Date(embeddingMeta.recordedAt).toISOString(),
 					}
 				: null,
+			embeddingCache,
 			...(unavailableStoreIds.size > 0 && {
 				unavailableStores: [...unavailableStoreIds],
 			}),
@@ -442,61 +1741,244 @@ export function createApp(
 		});
 	});
 
+	// -- OpenAPI --
+
+	// GET /openapi.json — OpenAPI 3.1 description of this API, built from the
+	// same zod schemas the endpoints validate request bodies with. Needs the
+	// read scope when KNOWLEDGE_REQUIRE_AUTH=true.
+	app.get("/openapi.json", async (c) => {
+		const principal = await authorize(c, "read", readAuthRequired);
+		if (principal instanceof Response) return principal;
+		return c.json(buildOpenApiDocument(pkg.version));
+	});
+
 	// -- Entries CRUD --
 
+	// GET /entries — one page of entries, most recently updated first (or by
+	// `sort`: strength, accessCount). Optional filters: status, type, topic and
+	// store (repeated or comma-separated), q (case-insensitive content
+	// substring). Pass the returned nextCursor as `cursor` for the next page;
+	// `total` is the match count across all pages.
 	app.get("/entries", async (c) => {
+		const principal = await authorize(c, "read", readAuthRequired);
+		if (principal instanceof Response) return principal;
 		const status = c.req.query("status") || undefined;
+		if (status && !KNOWLEDGE_STATUSES.includes(status as KnowledgeStatus)) {
+			return c.json({ error: `Invalid status: ${status}` }, 400);
+		}
 		const type = c.req.query("type") || undefined;
+		if (type && !KNOWLEDGE_TYPES.includes(type as KnowledgeType)) {
+			return c.json({ error: `Invalid type: ${type}` }, 400);
+		}
+		const sort = c.req.query("sort") || "updatedAt";
+		if (!ENTRY_SORTS.includes(sort as EntrySort)) {
+			return c.json(
+				{
+					error: `Invalid sort: ${sort}. Use one of ${ENTRY_SORTS.join(", ")}`,
+				},
+				400,
+			);
+		}
+		const cursorParam = c.req.query("cursor");
+		const after = cursorParam ? decodeCursor(cursorParam) : undefined;
+		if (after === null) {
+			return c.json({ error: "Invalid cursor" }, 400);
+		}
+		const limitParam = Number.parseInt(c.req.query("limit") ?? "", 10);
 
 		// Fan out across all stores — entries in secondary domain stores are included.
-		const allEntries = (
-			await Promise.all(readDbs.map((s) => s.getEntries({ status, type })))
-		).flat();
+		const { entries, total, nextCursor } = await listEntries({
+			status: status as KnowledgeStatus | undefined,
+			type: type as KnowledgeType | undefined,
+			topic: listQuery(c, "topic"),
+			q: c.req.query("q") || undefined,
+			store: storeFilter(principal, listQuery(c, "store")),
+			sort: sort as EntrySort,
+			after,
+			limit: Number.isNaN(limitParam)
+				? DEFAULT_ENTRIES_PAGE_SIZE
+				: Math.min(MAX_ENTRIES_PAGE_SIZE, Math.max(1, limitParam)),
+		});
 
 		return c.json({
-			entries: allEntries.map(stripEmbedding),
-			count: allEntries.length,
+			entries: entries.map(stripEmbedding),
+			count: entries.length,
+			total,
+			nextCursor: nextCursor ? encodeCursor(nextCursor) : null,
 		});
 	});
 
-	app.get("/entries/:id", async (c) => {
-		// Search across all stores — the entry may live in any domain store.
-		const id = c.req.param("id");
-		let entry: KnowledgeEntry | null = null;
-		let entryStore: IKnowledgeStore = db;
-		for (const store of readDbs) {
-			const found = await store.getEntry(id);
-			if (found) {
-				entry = found;
-				entryStore = store;
-				break;
+	// GET /topics — topics of active and conflicted entries with entry counts.
+	app.get("/topics", async (c) => {
+		const principal = await authorize(c, "read", readAuthRequired);
+		if (principal instanceof Response) return principal;
+		const topics = await listTopics(visibleStores(principal));
+		return c.json({ topics, count: topics.length });
+	});
+
+	// POST /entries — create an entry by hand. Body: { type, content, topics,
+	// confidence?, domain?, reconsolidate? }. Reconsolidation runs unless
+	// reconsolidate is false, so the response entry may be the existing entry the
+	// new one was merged into (action "merged") or that already covers it ("kept").
+	app.post("/entries", bodyLimit({ maxSize: 64 * 1024 }), async (c) => {
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
+		const parsed = createEntrySchema.safeParse(
+			await c.req.json().catch(() => null),
+		);
+		if (!parsed.success) {
+			return c.json({ error: invalidBodyMessage(parsed.error) }, 400);
+		}
+		if (!mayWriteTo(principal, parsed.data)) {
+			return c.json(storeDenied(principal), 403);
+		}
+
+		try {
+			const result = await consolidation.createEntry(parsed.data);
+			logger.log(
+				`[entries] Created by hand: ${result.action} ${result.entryId} ${JSON.stringify(parsed.data.content)}`,
+			);
+			const found = await findEntry(result.entryId);
+			if (!found) {
+				throw new Error(`Entry ${result.entryId} not found after write.`);
 			}
+			return c.json(
+				{
+					ok: true,
+					action: result.action,
+					entry: stripEmbedding(found.entry),
+					conflictsDetected: result.conflictsDetected,
+					conflictsResolved: result.conflictsResolved,
+				},
+				result.action === "inserted" ? 201 : 200,
+			);
+		} catch (e) {
+			logger.error("[entries] Create error:", e);
+			return c.json(
+				{ error: e instanceof Error ? e.message : "Internal server error" },
+				500,
+			);
 		}
-		if (!entry) {
+	});
+
+	// POST /entries/bulk — apply a batch of operations to entries, e.g. to clean
+	// up after a bad extraction run. Body: { operations, dryRun? } where each
+	// operation is { op: "archive" | "delete", id }, { op: "set-topics", id,
+	// topics }, { op: "set-status", id, status } or { op: "move-to-store", id,
+	// store }. Responds with a result per operation, in request order.
+	app.post("/entries/bulk", bodyLimit({ maxSize: 1024 * 1024 }), async (c) => {
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
+		const parsed = bulkEntriesSchema.safeParse(
+			await c.req.json().catch(() => null),
+		);
+		if (!parsed.success) {
+			return c.json({ error: invalidBodyMessage(parsed.error) }, 400);
+		}
+
+		const dryRun = parsed.data.dryRun ?? false;
+		try {
+			const results = await bulkUpdateEntries(
+				parsed.data.operations,
+				dryRun,
+				visibleStores(principal),
+			);
+			return c.json({ ok: results.every((r) => r.ok), dryRun, results });
+		} catch (e) {
+			logger.error("[bulk] Error:", e);
+			return c.json(
+				{ error: e instanceof Error ? e.message : "Internal server error" },
+				500,
+			);
+		}
+	});
+
+	app.get("/entries/:id", async (c) => {
+		const principal = await authorize(c, "read", readAuthRequired);
+		if (principal instanceof Response) return principal;
+		// Search across all stores — the entry may live in any domain store.
+		const found = await findEntry(c.req.param("id"), visibleStores(principal));
+		if (!found) {
 			return c.json({ error: "Entry not found" }, 404);
 		}
 
-		const relations = await entryStore.getRelationsFor(entry.id);
+		const relations = await found.store.getRelationsFor(found.entry.id);
 		return c.json({
-			entry: stripEmbedding(entry),
+			entry: stripEmbedding(found.entry),
 			relations,
 		});
 	});
 
+	// GET /entries/:id/history — every recorded state of the entry's type,
+	// content, topics and status, oldest first, with who made each change.
+	app.get("/entries/:id/history", async (c) => {
+		const principal = await authorize(c, "read", readAuthRequired);
+		if (principal instanceof Response) return principal;
+		const found = await findEntry(c.req.param("id"), visibleStores(principal));
+		if (!found) {
+			return c.json({ error: "Entry not found" }, 404);
+		}
+		const revisions = await found.store.getRevisions(found.entry.id);
+		return c.json({ entryId: found.entry.id, revisions });
+	});
+
+	// POST /entries/:id/revert/:revision — restore the entry's type, content,
+	// topics and status from a revision. The revert is recorded as a new
+	// revision, so it can itself be undone.
+	app.post("/entries/:id/revert/:revision", async (c) => {
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
+		const revision = Number(c.req.param("revision"));
+		if (!Number.isInteger(revision) || revision < 1) {
+			return c.json({ error: "revision must be a positive integer" }, 400);
+		}
+		const found = await findEntry(c.req.param("id"), visibleStores(principal));
+		if (!found) {
+			return c.json({ error: "Entry not found" }, 404);
+		}
+		if (!writableDbs.includes(found.store)) {
+			return c.json({ error: "Entry is in a read-only store" }, 403);
+		}
+
+		try {
+			const entryService = serviceByStore.get(found.store) ?? service;
+			const restored = await entryService.revertEntry(
+				found.entry.id,
+				revision,
+				"api",
+			);
+			if (!restored) {
+				return c.json({ error: "Revision not found" }, 404);
+			}
+			knowledgeEvents.emit({ type: "entry.updated", entryId: found.entry.id });
+			const updated = await found.store.getEntry(found.entry.id);
+			if (!updated) {
+				return c.json({ error: "Entry not found after revert" }, 500);
+			}
+			return c.json({
+				ok: true,
+				revertedTo: revision,
+				entry: stripEmbedding(updated),
+			});
+		} catch (e) {
+			logger.error("[entries/revert] Failed to revert entry:", e);
+			return c.json({ error: "Failed to revert entry" }, 500);
+		}
+	});
+
 	// PATCH /entries/:id — update mutable fields on any entry.
 	// Useful for human review: correcting content, changing type, marking stale entries active, etc.
 	// Accepts any subset of: content, topics, confidence, status.
 	// If content or topics change, re-compute the embedding immediately so activation
 	// and reconsolidation continue using a semantically correct vector.
 	app.patch("/entries/:id", async (c) => {
-		if (!requireAdminToken(c)) {
-			return c.json({ error: "Unauthorized" }, 401);
-		}
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
 
 		const id = c.req.param("id");
 		let entry: KnowledgeEntry | null = null;
 		let entryStore: IKnowledgeStore = db;
-		for (const store of readDbs) {
+		for (const store of visibleStores(principal)) {
 			const found = await store.getEntry(id);
 			if (found) {
 				entry = found;
@@ -508,78 +1990,25 @@ export function createApp(
 			return c.json({ error: "Entry not found" }, 404);
 		}
 
-		let body: Record<string, unknown>;
-		try {
-			body = await c.req.json();
-		} catch {
-			return c.json({ error: "Invalid JSON body" }, 400);
-		}
-
-		const allowed = ["content", "topics", "confidence", "status"] as const;
-		type AllowedField = (typeof allowed)[number];
-		const updates: Partial<KnowledgeEntry> = {};
-
-		for (const field of allowed) {
-			if (field in body) {
-				(updates as Record<AllowedField, unknown>)[field] = body[field];
-			}
-		}
-
-		if (Object.keys(updates).length === 0) {
-			return c.json(
-				{
-					error: `No updatable fields provided. Allowed: ${allowed.join(", ")}`,
-				},
-				400,
-			);
-		}
-
-		// Validate all fields before touching the DB.
-		if (updates.content !== undefined) {
-			if (typeof updates.content !== "string" || !updates.content.trim()) {
-				return c.json({ error: "content must be a non-empty string" }, 400);
-			}
-		}
-		if (updates.topics !== undefined) {
-			if (
-				!Array.isArray(updates.topics) ||
-				!(updates.topics as unknown[]).every((t) => typeof t === "string")
-			) {
-				return c.json({ error: "topics must be an array of strings" }, 400);
-			}
-		}
-		const validStatuses: KnowledgeStatus[] = [
-			"active",
-			"archived",
-			"superseded",
-			"conflicted",
-			"tombstoned",
-		];
-		if (
-			updates.status !== undefined &&
-			!validStatuses.includes(updates.status)
-		) {
-			return c.json(
-				{
-					error: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
-				},
-				400,
-			);
-		}
-		if (updates.confidence !== undefined) {
-			const c_ = updates.confidence as unknown;
-			if (typeof c_ !== "number" || c_ < 0 || c_ > 1) {
-				return c.json(
-					{ error: "confidence must be a number between 0 and 1" },
-					400,
-				);
-			}
+		const parsed = patchEntrySchema.safeParse(
+			await c.req.json().catch(() => null),
+		);
+		if (!parsed.success) {
+			return c.json({ error: invalidBodyMessage(parsed.error) }, 400);
 		}
+		const { content, topics, confidence, status } = parsed.data;
+		const updates: Partial<KnowledgeEntry> = {
+			...(content !== undefined && { content }),
+			...(topics !== undefined && { topics }),
+			...(confidence !== undefined && { confidence }),
+			...(status !== undefined && { status }),
+		};
 
 		try {
 			// Route the update to whichever store holds this entry.
 			const entryService = serviceByStore.get(entryStore) ?? service;
-			await entryService.updateEntry(entry.id, updates);
+			await entryService.updateEntry(entry.id, updates, "api");
+			knowledgeEvents.emit({ type: "entry.updated", entryId: entry.id });
 			const updated = await entryStore.getEntry(entry.id);
 			if (!updated) {
 				return c.json({ error: "Entry not found after update" }, 500);
@@ -591,6 +2020,50 @@ export function createApp(
 		}
 	});
 
+	// POST /entries/:id/correct — supersede an entry with corrected content
+	// (stdio proxy's `correct` tool). Body: { content, reason?, sessionId? }.
+	app.post("/entries/:id/correct", async (c) => {
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
+		const parsed = correctSchema.safeParse(
+			await c.req.json().catch(() => null),
+		);
+		if (!parsed.success) {
+			return c.json({ error: invalidBodyMessage(parsed.error) }, 400);
+		}
+
+		const id = c.req.param("id");
+		const { content, reason, sessionId } = parsed.data;
+		const entry = await correctEntry(
+			id,
+			content,
+			{ reason, sessionId },
+			visibleStores(principal),
+		);
+		if (!entry) {
+			return c.json({ error: "Entry not found" }, 404);
+		}
+		return c.json({ ok: true, entry, superseded: id });
+	});
+
+	// POST /entries/:id/forget — tombstone an entry reported as wrong
+	// (stdio proxy's `forget` tool). Body: { reason?, sessionId? }.
+	app.post("/entries/:id/forget", async (c) => {
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
+		const parsed = forgetSchema.safeParse(await c.req.json().catch(() => ({})));
+		if (!parsed.success) {
+			return c.json({ error: invalidBodyMessage(parsed.error) }, 400);
+		}
+
+		const id = c.req.param("id");
+		const result = await forgetEntry(id, parsed.data, visibleStores(principal));
+		if (!result) {
+			return c.json({ error: "Entry not found" }, 404);
+		}
+		return c.json({ ok: true, forgotten: id, ...result });
+	});
+
 	// POST /entries/:id/resolve — resolve a conflicted entry pair via one of three outcomes:
 	//   supersede_this  — the entry identified by :id is the loser; its conflict counterpart wins
 	//   supersede_other — the entry identified by :id wins; its conflict counterpart is superseded
@@ -600,14 +2073,13 @@ export function createApp(
 	// The entry must have status='conflicted'. Its counterpart is looked up automatically
 	// via the contradicts relation.
 	app.post("/entries/:id/resolve", async (c) => {
-		if (!requireAdminToken(c)) {
-			return c.json({ error: "Unauthorized" }, 401);
-		}
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
 
 		const resolveId = c.req.param("id");
 		let entry: KnowledgeEntry | null = null;
 		let entryStore: IKnowledgeStore = db;
-		for (const store of readDbs) {
+		for (const store of visibleStores(principal)) {
 			const found = await store.getEntry(resolveId);
 			if (found) {
 				entry = found;
@@ -625,28 +2097,14 @@ export function createApp(
 			);
 		}
 
-		let body: Record<string, unknown>;
-		try {
-			body = await c.req.json();
-		} catch {
-			return c.json({ error: "Invalid JSON body" }, 400);
-		}
-
-		const resolution = body.resolution as string;
-		const validResolutions = [
-			"supersede_this",
-			"supersede_other",
-			"merge",
-			"delete",
-		];
-		if (!validResolutions.includes(resolution)) {
-			return c.json(
-				{
-					error: `Invalid resolution. Must be one of: ${validResolutions.join(", ")}`,
-				},
-				400,
-			);
+		const parsed = resolveEntrySchema.safeParse(
+			await c.req.json().catch(() => null),
+		);
+		if (!parsed.success) {
+			return c.json({ error: invalidBodyMessage(parsed.error) }, 400);
 		}
+		const body = parsed.data;
+		const { resolution } = body;
 
 		// All resolutions need the counterpart. For 'delete', we also restore the counterpart
 		// to 'active' before deleting — otherwise it stays 'conflicted' forever with no partner.
@@ -676,9 +2134,15 @@ export function createApp(
 		if (resolution === "delete") {
 			// Restore the counterpart to active (deleteEntry cascades and removes the relation)
 			if (counterpartId) {
-				await entryStore.updateEntry(counterpartId, { status: "active" });
+				await entryStore.updateEntry(
+					counterpartId,
+					{ status: "active" },
+					"api",
+				);
+				knowledgeEvents.emit({ type: "entry.updated", entryId: counterpartId });
 			}
 			await entryStore.deleteEntry(entry.id);
+			knowledgeEvents.emit({ type: "entry.deleted", entryId: entry.id });
 			return c.json({
 				ok: true,
 				deleted: entry.id,
@@ -696,18 +2160,7 @@ export function createApp(
 			);
 		}
 
-		if (resolution === "merge") {
-			const mergedContent = body.mergedContent as string | undefined;
-			if (
-				!mergedContent ||
-				typeof mergedContent !== "string" ||
-				!mergedContent.trim()
-			) {
-				return c.json(
-					{ error: "mergedContent is required for merge resolution" },
-					400,
-				);
-			}
+		if (body.resolution === "merge") {
 			// In applyContradictionResolution: "merge" means newEntryId content gets mergedData,
 			// existingEntryId is superseded. We treat :id as the winner (newEntryId).
 			await entryStore.applyContradictionResolution(
@@ -715,12 +2168,14 @@ export function createApp(
 				entry.id,
 				counterpartId,
 				{
-					content: mergedContent,
+					content: body.mergedContent,
 					type: entry.type,
 					topics: entry.topics,
 					confidence: entry.confidence,
 				},
+				"api",
 			);
+			emitResolutionEvents("merge", entry.id, counterpartId);
 			return c.json({
 				ok: true,
 				resolution: "merge",
@@ -735,7 +2190,10 @@ export function createApp(
 				"supersede_new",
 				entry.id,
 				counterpartId,
+				undefined,
+				"api",
 			);
+			emitResolutionEvents("supersede_new", entry.id, counterpartId);
 			return c.json({
 				ok: true,
 				resolution: "supersede_this",
@@ -749,7 +2207,10 @@ export function createApp(
 			"supersede_old",
 			entry.id,
 			counterpartId,
+			undefined,
+			"api",
 		);
+		emitResolutionEvents("supersede_old", entry.id, counterpartId);
 		return c.json({
 			ok: true,
 			resolution: "supersede_other",
@@ -770,6 +2231,8 @@ export function createApp(
 	// - The server binds to 127.0.0.1 only — loopback is the security boundary
 	// - Claude Code hooks run as the local user, not a remote caller
 	// - Adding auth would require storing a token in ~/.claude/settings.json in plaintext
+	// With KNOWLEDGE_REQUIRE_AUTH=true it needs a token with the activate scope
+	// like GET /activate; callers without one get {}.
 	//
 	// On any error (bad body, activation failure, etc.) we return {} so Claude Code
 	// continues normally without the context — hook errors are always non-blocking.
@@ -785,13 +2248,25 @@ export function createApp(
 		"/hooks/claude-code/user-prompt",
 		bodyLimit({ maxSize: 1 * 1024 * 1024, onError: (c) => c.json({}) }),
 		async (c) => {
+			const principal = await authorize(c, "activate", readAuthRequired);
+			if (principal instanceof Response) return c.json({});
+
 			let prompt: string;
+			let cwd: string | undefined;
+			let sessionId: string | undefined;
 			try {
 				const body = (await c.req.json()) as Record<string, unknown>;
 				if (typeof body.prompt !== "string" || !body.prompt.trim()) {
 					return c.json({});
 				}
 				prompt = body.prompt;
+				// The session's working directory — boosts knowledge from the same project.
+				cwd = typeof body.cwd === "string" && body.cwd ? body.cwd : undefined;
+				// Entries already injected earlier in this session are not injected again.
+				sessionId =
+					typeof body.session_id === "string" && body.session_id
+						? body.session_id
+						: undefined;
 			} catch {
 				return c.json({});
 			}
@@ -800,7 +2275,13 @@ export function createApp(
 				// Split prompt into per-line cues + full prompt holistic cue,
 				// matching the same multi-cue strategy used by the OpenCode plugin.
 				const cues = splitIntoCues(prompt);
-				const result = await activation.activate(cues, { limit: 8 });
+				const result = await activation.activate(cues, {
+					limit: 8,
+					cwd,
+					maxTokens: config.activation.passiveMaxTokens || undefined,
+					sessionId,
+					...(principal.stores && { filters: { store: principal.stores } }),
+				});
 				logActivation("claude-code-hook", prompt, result.entries);
 
 				if (result.entries.length === 0) {
@@ -837,14 +2318,13 @@ export function createApp(
 	// Use for noise, junk extractions, or entries you simply don't want in the store.
 	// Irreversible. For soft removal prefer PATCH with status='superseded'.
 	app.delete("/entries/:id", async (c) => {
-		if (!requireAdminToken(c)) {
-			return c.json({ error: "Unauthorized" }, 401);
-		}
+		const principal = await authorize(c, "write-entries");
+		if (principal instanceof Response) return principal;
 
 		const deleteId = c.req.param("id");
 		let entry: KnowledgeEntry | null = null;
 		let entryStore: IKnowledgeStore = db;
-		for (const store of readDbs) {
+		for (const store of visibleStores(principal)) {
 			const found = await store.getEntry(deleteId);
 			if (found) {
 				entry = found;
@@ -860,38 +2340,73 @@ export function createApp(
 		// deleteEntry cascades and removes the contradicts relation, which would otherwise
 		// leave the counterpart stuck in 'conflicted' status with no resolvable partner.
 		let restoredCounterpart: string | null = null;
-		if (entry.status === "conflicted") {
-			const relations = await entryStore.getRelationsFor(entry.id);
-			const conflictRel = relations.find((r) => r.type === "contradicts");
-			if (conflictRel) {
-				restoredCounterpart =
-					conflictRel.sourceId === entry.id
-						? conflictRel.targetId
-						: conflictRel.sourceId;
-				// Guard against cross-store counterpart — same as /resolve endpoint.
-				// If the counterpart is in a different store we can't safely restore it here.
-				const counterpartInSameStore =
-					await entryStore.getEntry(restoredCounterpart);
-				if (!counterpartInSameStore) {
-					return c.json(
-						{
-							error:
-								"Cross-store conflict: entry and counterpart live in different stores. Cannot safely restore counterpart on delete.",
-						},
-						422,
-					);
-				}
-				await entryStore.updateEntry(restoredCounterpart, { status: "active" });
-			}
+		const counterpart = await conflictCounterpart(entry, entryStore);
+		if (counterpart && "error" in counterpart) {
+			return c.json({ error: counterpart.error }, 422);
+		}
+		if (counterpart) {
+			restoredCounterpart = counterpart.id;
+			await entryStore.updateEntry(
+				restoredCounterpart,
+				{ status: "active" },
+				"api",
+			);
+			knowledgeEvents.emit({
+				type: "entry.updated",
+				entryId: restoredCounterpart,
+			});
 		}
 
 		await entryStore.deleteEntry(entry.id);
+		knowledgeEvents.emit({ type: "entry.deleted", entryId: entry.id });
 		return c.json({ ok: true, deleted: entry.id, restoredCounterpart });
 	});
 
 	return app;
 }
 
+/** The value an entry is ordered by under a listEntries() sort key. */
+function entrySortValue(entry: KnowledgeEntry, sort: EntrySort): number {
+	return entry[sort];
+}
+
+/** Opaque GET /entries cursor: base64url of the position's JSON. */
+function encodeCursor(cursor: EntryCursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/** Parse a GET /entries cursor, or null if it is malformed. */
+function decodeCursor(raw: string): EntryCursor | null {
+	try {
+		const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+		return typeof parsed?.value === "number" && typeof parsed?.id === "string"
+			? { value: parsed.value, id: parsed.id }
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * First validation issue of a request body, e.g. "Invalid topics: Required".
+ */
+function invalidBodyMessage(error: z.ZodError): string {
+	const issue = error.issues[0];
+	return `Invalid ${issue.path.join(".") || "body"}: ${issue.message}`;
+}
+
+/**
+ * Read a list query parameter given repeated (?x=a&x=b) or comma-separated
+ * (?x=a,b). Returns undefined when absent or empty.
+ */
+function listQuery(c: Context, name: string): string[] | undefined {
+	const values = (c.req.queries(name) ?? [])
+		.flatMap((v) => v.split(","))
+		.map((v) => v.trim())
+		.filter(Boolean);
+	return values.length > 0 ? values : undefined;
+}
+
 /**
  * Strip the embedding vector from entries before sending over API.
  * Embeddings are large (3072 floats) and not useful to consumers.
@@ -902,3 +2417,13 @@ function stripEmbedding(
 	const { embedding: _embedding, ...rest } = entry;
 	return rest;
 }
+
+/** Error body for writes routed outside a token's stores. */
+function storeDenied(principal: Principal) {
+	return { error: `Token "${principal.name}" may not write to that store` };
+}
+
+/** An MCP tool result reporting an error. */
+function toolError(text: string) {
+	return { content: [{ type: "text" as const, text }], isError: true };
+}
@@ -0,0 +1,35 @@
+/**
+ * Named API tokens for the HTTP API.
+ *
+ * Besides the single admin token, the server accepts named tokens created with
+ * `knowledge-server token create`. Each carries scopes (see API_TOKEN_SCOPES)
+ * and optionally a list of stores it is restricted to. Only the SHA-256 hash
+ * of a token's secret is stored in state.db; the secret is printed once at
+ * creation and cannot be recovered.
+ *
+ * Secrets are `ks_` followed by 48 hex characters (24 random bytes), so they
+ * are easy to recognise in config files and secret scanners.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { ApiTokenScope } from "../types.js";
+
+const TOKEN_PREFIX = "ks_";
+
+/** A new random token secret. */
+export function generateApiToken(): string {
+	return `${TOKEN_PREFIX}${randomBytes(24).toString("hex")}`;
+}
+
+/** Hex SHA-256 of a token secret — the form stored and looked up in state.db. */
+export function hashApiToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+/** Whether `scopes` grant `scope`. The admin scope grants every scope. */
+export function hasScope(
+	scopes: readonly ApiTokenScope[],
+	scope: ApiTokenScope,
+): boolean {
+	return scopes.includes("admin") || scopes.includes(scope);
+}
@@ -1,4 +1,6 @@
 import { ActivationEngine } from "../activation/activate.js";
+import { EmbeddingCache } from "../activation/embedding-cache.js";
+import { config } from "../config.js";
 import { StoreRegistry } from "../db/store-registry.js";
 
 /**
@@ -6,6 +8,8 @@ import { StoreRegistry } from "../db/store-registry.js";
  *
  * Tests knowledge activation for a query — shows which entries would be
  * injected into a conversation for that query, with similarity scores.
+ * Activates from the current working directory, as the Claude Code hook does,
+ * so entries from the same project are boosted.
  */
 export async function runActivate(query: string): Promise<void> {
 	if (!query) {
@@ -18,10 +22,20 @@ export async function runActivate(query: string): Promise<void> {
 		registry.writableStore(),
 		registry.readStores(),
 		registry.writableStores(),
+		registry.projects,
+		registry.readStoreEntries(),
 	);
+	if (config.embedding.cacheMaxEntries > 0) {
+		activation.embeddings.useCache(
+			new EmbeddingCache(
+				registry.serverStateDb,
+				config.embedding.cacheMaxEntries,
+			),
+		);
+	}
 
 	try {
-		const result = await activation.activate(query);
+		const result = await activation.activate(query, { cwd: process.cwd() });
 
 		console.log(`Activation results for: "${query}"`);
 		console.log("───────────────────────────────────────");
@@ -36,10 +50,14 @@ export async function runActivate(query: string): Promise<void> {
 
 		for (const r of result.entries) {
 			console.log(`  [${r.entry.type}] ${r.entry.content}`);
+			const project =
+				r.sameProject === undefined
+					? ""
+					: `  |  project: ${r.sameProject ? "same" : "other"}`;
 			console.log(
 				`  topics: ${r.entry.topics.join(", ")}  |  ` +
 					`similarity: ${r.rawSimilarity.toFixed(3)}  |  ` +
-					`score: ${r.similarity.toFixed(3)}`,
+					`score: ${r.similarity.toFixed(3)}${project}`,
 			);
 			console.log("");
 		}
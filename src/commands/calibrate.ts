@@ -1,9 +1,12 @@
+import { EmbeddingCache } from "../activation/embedding-cache.js";
 import {
 	EmbeddingClient,
 	cosineSimilarity,
 	formatEmbeddingText,
 } from "../activation/embeddings.js";
 import { config } from "../config.js";
+import type { IServerStateDB } from "../db/interface.js";
+import { createServerStateDB } from "../db/state/factory.js";
 import type { KnowledgeType } from "../types.js";
 
 /**
@@ -321,6 +324,22 @@ export async function runCalibrate(): Promise<void> {
 
 	const client = new EmbeddingClient();
 
+	// Re-running calibration against the same model reuses cached embeddings.
+	// The cache is optional here — an unreachable state DB only costs API calls.
+	let stateDb: IServerStateDB | null = null;
+	if (config.embedding.cacheMaxEntries > 0) {
+		try {
+			stateDb = await createServerStateDB();
+			client.useCache(
+				new EmbeddingCache(stateDb, config.embedding.cacheMaxEntries),
+			);
+		} catch (e) {
+			console.warn(
+				`  Embedding cache unavailable: ${e instanceof Error ? e.message : String(e)}`,
+			);
+		}
+	}
+
 	// Build unique text list (some entries are reused across categories).
 	const textMap = new Map<string, number>(); // text → index
 	const texts: string[] = [];
@@ -363,7 +382,11 @@ export async function runCalibrate(): Promise<void> {
 		process.exit(1);
 	}
 
-	console.log(`  Embedded ${texts.length} unique texts.\n`);
+	const cacheStats = await client.cacheStats().catch(() => null);
+	await stateDb?.close();
+	console.log(
+		`  Embedded ${texts.length} unique texts${cacheStats ? ` (${cacheStats.hits} from cache)` : ""}.\n`,
+	);
 
 	// Compute similarities per category.
 	function computeSims(
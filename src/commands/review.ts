@@ -161,7 +161,11 @@ export async function runReview(args: string[]): Promise<void> {
 					case "a":
 					case "archive":
 						// status is non-semantic — entryService passes it through without re-embedding.
-						await entryService.updateEntry(entry.id, { status: "archived" });
+						await entryService.updateEntry(
+							entry.id,
+							{ status: "archived" },
+							"review",
+						);
 						console.log("  Archived.\n");
 						archived++;
 						handled = true;
@@ -177,9 +181,11 @@ export async function runReview(args: string[]): Promise<void> {
 						);
 						if (newContent.trim()) {
 							// entryService.updateEntry auto-re-embeds when content changes.
-							await entryService.updateEntry(entry.id, {
-								content: newContent.trim(),
-							});
+							await entryService.updateEntry(
+								entry.id,
+								{ content: newContent.trim() },
+								"review",
+							);
 							console.log("  Updated.\n");
 							edited++;
 						} else {
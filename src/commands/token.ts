@@ -0,0 +1,175 @@
+import { randomUUID } from "node:crypto";
+import { generateApiToken, hashApiToken } from "../auth/api-tokens.js";
+import { StoreRegistry } from "../db/store-registry.js";
+import { API_TOKEN_SCOPES } from "../types.js";
+import type { ApiToken, ApiTokenScope } from "../types.js";
+
+const USAGE = `Usage:
+  knowledge-server token create <name> --scope=<scopes> [--store=<ids>]
+  knowledge-server token list
+  knowledge-server token revoke <name>
+
+Scopes (comma-separated): ${API_TOKEN_SCOPES.join(", ")}`;
+
+/**
+ * `knowledge-server token create|list|revoke`
+ *
+ * Manages the named API tokens kept in state.db. Tokens take effect
+ * immediately — the server looks them up on every request, so it does not
+ * need a restart.
+ *
+ *   create <name> --scope=read,activate [--store=team,personal]
+ *     Creates a token and prints its secret once. --store restricts the token
+ *     to those stores (comma-separated config.jsonc store IDs); it cannot be
+ *     combined with the admin scope.
+ *   list
+ *     Lists tokens with their scopes, stores and when they were last used.
+ *   revoke <name>
+ *     Deletes the token. Requests using it fail from then on.
+ */
+export async function runToken(args: string[]): Promise<void> {
+	const [action, ...rest] = args;
+	const flag = (name: string) =>
+		rest.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+	const positional = rest.filter((a) => !a.startsWith("--"));
+
+	if (action === "create") {
+		const name = positional[0];
+		if (!name || !/^[\w.-]+$/.test(name)) {
+			console.error(
+				"token create needs a name (letters, digits, '.', '_' or '-').",
+			);
+			console.error(USAGE);
+			process.exit(1);
+		}
+		const scopes = splitList(flag("scope"));
+		const invalidScope = scopes.find(
+			(s) => !(API_TOKEN_SCOPES as readonly string[]).includes(s),
+		);
+		if (scopes.length === 0 || invalidScope !== undefined) {
+			console.error(
+				invalidScope !== undefined
+					? `Unknown scope: "${invalidScope}".`
+					: "token create needs --scope.",
+			);
+			console.error(USAGE);
+			process.exit(1);
+		}
+		const stores =
+			flag("store") !== undefined ? splitList(flag("store")) : null;
+		if (stores && scopes.includes("admin")) {
+			console.error(
+				"The admin scope covers every store and cannot be combined with --store.",
+			);
+			process.exit(1);
+		}
+
+		const registry = await StoreRegistry.create();
+		try {
+			if (stores) {
+				const known = new Set([
+					...registry.readStoreEntries().map((s) => s.id),
+					...registry.unavailableStoreIds,
+				]);
+				const unknown = stores.find((s) => !known.has(s));
+				if (unknown !== undefined) {
+					console.error(
+						`Unknown store: "${unknown}". Available stores: ${[...known].join(", ")}`,
+					);
+					// Not process.exit(): the finally block must still close the registry.
+					process.exitCode = 1;
+					return;
+				}
+			}
+			const existing = await registry.serverStateDb.listApiTokens();
+			if (existing.some((t) => t.name === name)) {
+				console.error(
+					`A token named "${name}" already exists. Revoke it first or choose another name.`,
+				);
+				process.exitCode = 1;
+				return;
+			}
+
+			const secret = generateApiToken();
+			const token: ApiToken = {
+				id: randomUUID(),
+				name,
+				scopes: [...new Set(scopes)] as ApiTokenScope[],
+				stores,
+				createdAt: Date.now(),
+				lastUsedAt: null,
+			};
+			await registry.serverStateDb.createApiToken(token, hashApiToken(secret));
+			console.log(`Created token "${name}" (${describeToken(token)}).`);
+			console.log("\nToken (shown once — store it now):");
+			console.log(`  ${secret}`);
+			console.log("\nSend it as: Authorization: Bearer <token>");
+		} finally {
+			await registry.close();
+		}
+		return;
+	}
+
+	if (action === "list") {
+		const registry = await StoreRegistry.create();
+		try {
+			const tokens = await registry.serverStateDb.listApiTokens();
+			if (tokens.length === 0) {
+				console.log(
+					"No API tokens. Create one with: knowledge-server token create",
+				);
+				return;
+			}
+			for (const token of tokens) {
+				const lastUsed = token.lastUsedAt
+					? new Date(token.lastUsedAt).toISOString()
+					: "never";
+				console.log(
+					`${token.name.padEnd(20)} ${describeToken(token)}  created ${new Date(token.createdAt).toISOString()}, last used ${lastUsed}`,
+				);
+			}
+		} finally {
+			await registry.close();
+		}
+		return;
+	}
+
+	if (action === "revoke") {
+		const name = positional[0];
+		if (!name) {
+			console.error("token revoke needs a name.");
+			console.error(USAGE);
+			process.exit(1);
+		}
+		const registry = await StoreRegistry.create();
+		try {
+			if (!(await registry.serverStateDb.revokeApiToken(name))) {
+				console.error(`No token named "${name}".`);
+				process.exitCode = 1;
+				return;
+			}
+			console.log(`Revoked token "${name}".`);
+		} finally {
+			await registry.close();
+		}
+		return;
+	}
+
+	console.error(
+		action ? `Unknown token command: "${action}".` : "Missing token command.",
+	);
+	console.error(USAGE);
+	process.exit(1);
+}
+
+function splitList(value: string | undefined): string[] {
+	return (value ?? "")
+		.split(",")
+		.map((v) => v.trim())
+		.filter(Boolean);
+}
+
+function describeToken(token: ApiToken): string {
+	const stores = token.stores ? token.stores.join(", ") : "all stores";
+	return `scopes: ${token.scopes.join(", ")}; ${stores}`;
+}
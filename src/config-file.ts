@@ -67,6 +67,43 @@ export interface ProjectConfig {
 	default_domain: string;
 }
 
+/** Events an outbound webhook can subscribe to. */
+export const WEBHOOK_EVENTS = [
+	"conflict.irresolvable",
+	"decision.created",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * Outbound webhook — an HTTP endpoint POSTed a JSON payload when one of its
+ * events happens (e.g. a Slack-style notifier).
+ */
+export interface WebhookConfig {
+	/** Unique identifier — used in logs, the delivery log and the secret env var. */
+	id: string;
+	/** http(s) URL that receives the POST. */
+	url: string;
+	/** Events delivered to this webhook (at least one). */
+	events: WebhookEvent[];
+	/**
+	 * HMAC-SHA256 signing secret. Can also be set via the WEBHOOK_<ID>_SECRET
+	 * environment variable, which takes precedence. Unsigned when neither is set.
+	 */
+	secret?: string;
+}
+
+/**
+ * TLS certificate and key for serving HTTPS. Paths may start with ~, which is
+ * expanded to the home directory.
+ */
+export interface TlsConfig {
+	/** PEM certificate (chain) file. */
+	cert: string;
+	/** PEM private key file. */
+	key: string;
+}
+
 /**
  * Parsed and validated config.jsonc file.
  */
@@ -124,6 +161,15 @@ export interface KnowledgeServerConfig {
 	 * Resolution order: DAEMON_AUTO_SPAWN env var → config.jsonc daemonAutoSpawn → true
 	 */
 	daemonAutoSpawn: boolean;
+	/** Outbound webhooks. Defaults to none. */
+	webhooks: WebhookConfig[];
+	/** Serve HTTPS with this certificate. Defaults to plain HTTP. */
+	tls: TlsConfig | null;
+	/**
+	 * Origins allowed to call the HTTP API from a browser (CORS), or ["*"] for
+	 * any origin. Defaults to none.
+	 */
+	corsOrigins: string[];
 }
 
 // ── Shared helpers ────────────────────────────────────────────────────────────
@@ -459,6 +505,69 @@ function validateConfigFile(
 		stateDb = { kind: "postgres", uri: stateDbUriEnv };
 	}
 
+	// webhooks — optional, defaults to empty
+	const webhooks: WebhookConfig[] = [];
+	if ("webhooks" in obj) {
+		if (!Array.isArray(obj.webhooks)) {
+			throw new Error(`config.jsonc "webhooks" must be an array`);
+		}
+		for (let i = 0; i < obj.webhooks.length; i++) {
+			webhooks.push(validateWebhook(obj.webhooks[i], i));
+		}
+		const webhookIds = webhooks.map((w) => w.id);
+		const webhookDupes = webhookIds.filter(
+			(id, i) => webhookIds.indexOf(id) !== i,
+		);
+		if (webhookDupes.length > 0) {
+			throw new Error(
+				`config.jsonc "webhooks" contains duplicate ids: ${[...new Set(webhookDupes)].join(", ")}`,
+			);
+		}
+	}
+
+	// tls — optional, both paths required when present
+	let tls: TlsConfig | null = null;
+	if ("tls" in obj) {
+		const raw = obj.tls as Record<string, unknown> | null;
+		if (
+			typeof raw !== "object" ||
+			raw === null ||
+			typeof raw.cert !== "string" ||
+			!raw.cert.trim() ||
+			typeof raw.key !== "string" ||
+			!raw.key.trim()
+		) {
+			throw new Error(
+				`config.jsonc "tls" must be an object with non-empty "cert" and "key" paths`,
+			);
+		}
+		tls = {
+			cert: raw.cert.trim().replace(/^~/, homedir()),
+			key: raw.key.trim().replace(/^~/, homedir()),
+		};
+	}
+
+	// corsOrigins — optional, defaults to none
+	let corsOrigins: string[] = [];
+	if ("corsOrigins" in obj) {
+		if (
+			!Array.isArray(obj.corsOrigins) ||
+			!obj.corsOrigins.every(
+				(o) => o === "*" || (typeof o === "string" && ORIGIN_PATTERN.test(o)),
+			)
+		) {
+			throw new Error(
+				`config.jsonc "corsOrigins" must be an array of origins like "https://app.example.com", or ["*"]`,
+			);
+		}
+		corsOrigins = [...new Set(obj.corsOrigins as string[])];
+		if (corsOrigins.includes("*") && corsOrigins.length > 1) {
+			throw new Error(
+				`config.jsonc "corsOrigins" cannot combine "*" with specific origins`,
+			);
+		}
+	}
+
 	return {
 		stores,
 		domains,
@@ -468,6 +577,51 @@ function validateConfigFile(
 		port,
 		host,
 		daemonAutoSpawn,
+		webhooks,
+		tls,
+		corsOrigins,
+	};
+}
+
+/** A browser origin: scheme, host and optional port — no path. */
+const ORIGIN_PATTERN = /^https?:\/\/[^/\s]+$/;
+
+function validateWebhook(raw: unknown, index: number): WebhookConfig {
+	const loc = `config.jsonc webhooks[${index}]`;
+	if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+		throw new Error(`${loc} must be an object`);
+	}
+	const w = raw as Record<string, unknown>;
+
+	if (typeof w.id !== "string" || !w.id.trim()) {
+		throw new Error(`${loc} must have a non-empty string "id"`);
+	}
+	if (!/^[a-z0-9_-]+$/.test(w.id)) {
+		throw new Error(
+			`${loc} id "${w.id}" is invalid — use only lowercase letters, digits, hyphens, and underscores`,
+		);
+	}
+	if (typeof w.url !== "string" || !/^https?:\/\/\S+$/.test(w.url)) {
+		throw new Error(`${loc} "url" must be an http(s) URL`);
+	}
+	if (
+		!Array.isArray(w.events) ||
+		w.events.length === 0 ||
+		!w.events.every((e) => (WEBHOOK_EVENTS as readonly unknown[]).includes(e))
+	) {
+		throw new Error(
+			`${loc} "events" must be a non-empty array of: ${WEBHOOK_EVENTS.join(", ")}`,
+		);
+	}
+	if (w.secret !== undefined && typeof w.secret !== "string") {
+		throw new Error(`${loc} "secret" must be a string if provided`);
+	}
+
+	return {
+		id: w.id as string,
+		url: w.url as string,
+		events: [...new Set(w.events as WebhookEvent[])],
+		...(w.secret !== undefined && { secret: w.secret as string }),
 	};
 }
 
@@ -636,6 +790,22 @@ export function resolvePostgresUri(store: StoreConfig): string {
 	);
 }
 
+/**
+ * Resolve the signing secret for a webhook.
+ *
+ * Priority:
+ *   1. WEBHOOK_<ID>_SECRET env var (uppercase ID, hyphens → underscores)
+ *   2. "secret" field in config.jsonc
+ *
+ * Returns undefined when neither is set — deliveries are then unsigned.
+ */
+export function resolveWebhookSecret(
+	webhook: WebhookConfig,
+): string | undefined {
+	const envKey = `WEBHOOK_${webhook.id.toUpperCase().replace(/-/g, "_")}_SECRET`;
+	return process.env[envKey] || webhook.secret;
+}
+
 /**
  * Resolve the effective SQLite path for a sqlite store.
  * Falls back to the default path if not specified.
@@ -687,4 +857,7 @@ export const DEFAULT_CONFIG: KnowledgeServerConfig = {
 	port: parsePortEnvVar(process.env.KNOWLEDGE_PORT, 3179),
 	host: process.env.KNOWLEDGE_HOST?.trim() || "127.0.0.1",
 	daemonAutoSpawn: process.env.DAEMON_AUTO_SPAWN !== "false",
+	webhooks: [],
+	tls: null,
+	corsOrigins: [],
 };
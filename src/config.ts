@@ -82,6 +82,13 @@ export const config = {
 	// instead of a random one generated at startup. Useful for scripted/automated use.
 	// Leave unset in production for better security (random token per process lifetime).
 	adminToken: process.env.KNOWLEDGE_ADMIN_TOKEN || null,
+	// Require a token (the admin token or a named API token with the right scope)
+	// on read and activation endpoints too — for shared deployments. Off by
+	// default so the plugin and hooks can query a local server without one.
+	requireAuth: process.env.KNOWLEDGE_REQUIRE_AUTH === "true",
+	// Serve plain HTTP on a non-loopback host — only behind a reverse proxy that
+	// terminates TLS. Without it, a non-loopback host needs config.jsonc "tls".
+	allowPlainHttp: process.env.KNOWLEDGE_ALLOW_PLAIN_HTTP === "true",
 
 	// Log file — all operational output is tee'd here in addition to stdout.
 	// Set KNOWLEDGE_LOG_PATH to override; set to "" to disable file logging.
@@ -175,6 +182,8 @@ export const config = {
 	//   mergeModel         — decideMerge near-duplicate comparison (structured, cheap)
 	//   contradictionModel — detect + resolve contradictions (nuanced, fires rarely)
 	//   synthesisModel     — cross-session principle synthesis (rare, high-quality)
+	//   rerankModel        — activation re-ranking (hot path, cheap and fast)
+	//   queryExpansionModel — hypothetical entries for activation cues (hot path)
 	llm: {
 		// Unified proxy fallback (backwards compatible)
 		baseEndpoint: process.env.LLM_BASE_ENDPOINT || "",
@@ -204,6 +213,13 @@ export const config = {
 			process.env.LLM_SYNTHESIS_MODEL ||
 			process.env.LLM_EXTRACTION_MODEL ||
 			"anthropic/claude-sonnet-4-6",
+		// Re-ranking runs on every activation when enabled — pick a fast model.
+		// Only used when ACTIVATION_RERANK=true.
+		rerankModel: process.env.LLM_RERANK_MODEL || "anthropic/claude-haiku-4-5",
+		// Query expansion also runs on the activation hot path (on cache misses).
+		// Only used when ACTIVATION_QUERY_EXPANSION=true.
+		queryExpansionModel:
+			process.env.LLM_QUERY_EXPANSION_MODEL || "anthropic/claude-haiku-4-5",
 		// Per-call timeout in milliseconds. Applied per attempt (not across all retries).
 		// Default: 5 minutes. Large contradiction batches (50+ candidates) can take
 		// 2–3 minutes for a complex Sonnet response; 5 minutes gives headroom while
@@ -243,6 +259,15 @@ export const config = {
 		dimensions: process.env.EMBEDDING_DIMENSIONS
 			? parseIntEnv(process.env.EMBEDDING_DIMENSIONS, 1, 1)
 			: undefined,
+		// Persistent embedding cache in state.db, keyed by (model, dimensions,
+		// text hash). Repeated activation cues and re-embedded entry texts are
+		// served from it instead of the API. Least recently used rows are evicted
+		// beyond this size; 0 disables the cache.
+		cacheMaxEntries: parseIntEnv(
+			process.env.EMBEDDING_CACHE_MAX_ENTRIES,
+			10000,
+			0,
+		),
 	},
 
 	// Decay parameters
@@ -347,6 +372,94 @@ export const config = {
 			process.env.ACTIVATION_SIMILARITY_THRESHOLD,
 			DEFAULT_ACTIVATION_SIMILARITY_THRESHOLD,
 		),
+		// Weight of the lexical (full-text) ranking in reciprocal rank fusion with
+		// the vector ranking; the vector ranking gets 1 − lexicalWeight. Lexical
+		// matches catch exact identifiers (field IDs, table names, env vars) whose
+		// embedding falls below similarityThreshold; below it, a lexical match must
+		// share an identifier-like term with the query. 0 disables lexical retrieval.
+		lexicalWeight: parseFloatEnv(process.env.ACTIVATION_LEXICAL_WEIGHT, 0.5),
+		// RRF smoothing constant k in 1 / (k + rank). 60 is the value from the
+		// original RRF paper; larger values flatten the gap between top ranks.
+		rrfK: parseIntEnv(process.env.ACTIVATION_RRF_K, 60, 1),
+		// Relative ranking boost for entries extracted in the caller's project when
+		// activate() is given a cwd: similarity × (1 + projectBoost). Projects are
+		// resolved from the config.jsonc `projects` path prefixes. 0 disables the boost
+		// (excludeOtherProjects filtering still works).
+		projectBoost: parseFloatEnv(process.env.ACTIVATION_PROJECT_BOOST, 0.2),
+		// Approximate token budget for passive injection (Claude Code hook). Entries
+		// are packed in rank order; lower-ranked ones are dropped or truncated once
+		// the budget is spent. 0 disables the budget (the entry limit still applies).
+		passiveMaxTokens: parseIntEnv(
+			process.env.ACTIVATION_PASSIVE_MAX_TOKENS,
+			2000,
+			0,
+		),
+		// LLM re-ranking pass after retrieval (llm.rerankModel): the top candidates
+		// are sent to the model, which drops loosely related entries and reorders
+		// the rest. Off by default — it adds an LLM round-trip to every activation.
+		rerank: process.env.ACTIVATION_RERANK === "true",
+		// Candidates sent to the re-ranker (at least `limit` are always sent).
+		rerankCandidates: parseIntEnv(
+			process.env.ACTIVATION_RERANK_CANDIDATES,
+			20,
+			1,
+		),
+		// Latency budget for the re-ranking call. On timeout or error, activation
+		// falls back to the retrieval order rather than failing.
+		rerankTimeoutMs: parseIntEnv(
+			process.env.ACTIVATION_RERANK_TIMEOUT_MS,
+			1500,
+			1,
+		),
+		// Query expansion (HyDE): an LLM (llm.queryExpansionModel) writes a
+		// hypothetical entry for each cue, embedded alongside the cue so the query
+		// vector sits in the same space as stored entries. Off by default — it adds
+		// an LLM round-trip to activations whose cues are not cached yet.
+		queryExpansion: process.env.ACTIVATION_QUERY_EXPANSION === "true",
+		// Latency budget per expansion call. On timeout or error the raw cue is
+		// used alone.
+		queryExpansionTimeoutMs: parseIntEnv(
+			process.env.ACTIVATION_QUERY_EXPANSION_TIMEOUT_MS,
+			1500,
+			1,
+		),
+		// Expansions kept in memory (least recently used evicted first).
+		queryExpansionCacheSize: parseIntEnv(
+			process.env.ACTIVATION_QUERY_EXPANSION_CACHE_SIZE,
+			500,
+			1,
+		),
+		// Maximal marginal relevance: re-orders the top candidates so each pick
+		// trades relevance against similarity to the entries already picked —
+		// near-duplicates that reconsolidation did not merge stop crowding out
+		// everything else. mmrLambda weighs relevance (1 = no diversification).
+		mmr: process.env.ACTIVATION_MMR === "true",
+		mmrLambda: parseFloatEnv(process.env.ACTIVATION_MMR_LAMBDA, 0.7),
+		// One-hop graph expansion: results with rawSimilarity ≥ expansionMinSimilarity
+		// pull in the entries linked to them by `supports` relations (the evidence a
+		// synthesized principle was distilled from), scored as the result's
+		// similarity × expansionDecay. Off unless ACTIVATION_EXPANSION=true (or a
+		// caller passes expand). At most expansionMaxEntries are added per
+		// activation; they displace the lowest-ranked results within the limit.
+		expansion: process.env.ACTIVATION_EXPANSION === "true",
+		expansionMinSimilarity: parseFloatEnv(
+			process.env.ACTIVATION_EXPANSION_MIN_SIMILARITY,
+			0.45,
+		),
+		expansionDecay: parseFloatEnv(process.env.ACTIVATION_EXPANSION_DECAY, 0.9),
+		expansionMaxEntries: parseIntEnv(
+			process.env.ACTIVATION_EXPANSION_MAX_ENTRIES,
+			3,
+			0,
+		),
+		// How long a session's already-returned entry IDs are remembered after its
+		// last activation. Activations with a sessionId (the Claude Code hook passes
+		// session_id) skip entries returned earlier in the same session.
+		sessionTtlMs: parseIntEnv(
+			process.env.ACTIVATION_SESSION_TTL_MS,
+			4 * 60 * 60 * 1000,
+			1,
+		),
 	},
 } as const;
 
@@ -497,7 +610,7 @@ export function validateConfig(): string[] {
 		);
 	}
 
-	// Note: loopback-host validation is done post-registry in index.ts because
+	// Note: host exposure validation is done post-registry in index.ts because
 	// the resolved host may come from config.jsonc (not just KNOWLEDGE_HOST env var),
 	// and the registry is created after validateConfig() runs.
 
@@ -626,6 +739,93 @@ export function validateConfig(): string[] {
 		1,
 		`Default is ${config.activation.similarityThreshold}.`,
 	);
+	// Inclusive at both ends — 0 is meaningful (vector-only ranking), so
+	// validateFloatRange's exclusive lower bound doesn't fit.
+	if (process.env.ACTIVATION_LEXICAL_WEIGHT !== undefined) {
+		const raw = Number.parseFloat(process.env.ACTIVATION_LEXICAL_WEIGHT);
+		if (Number.isNaN(raw) || raw < 0 || raw > 1) {
+			errors.push(
+				`ACTIVATION_LEXICAL_WEIGHT must be in [0, 1] (got "${process.env.ACTIVATION_LEXICAL_WEIGHT}"). 0 disables lexical retrieval. Default is ${config.activation.lexicalWeight}.`,
+			);
+		}
+	}
+	validateIntMin(
+		process.env.ACTIVATION_RRF_K,
+		"ACTIVATION_RRF_K",
+		1,
+		`Reciprocal rank fusion constant. Default is ${config.activation.rrfK}.`,
+	);
+	if (process.env.ACTIVATION_PROJECT_BOOST !== undefined) {
+		const raw = Number.parseFloat(process.env.ACTIVATION_PROJECT_BOOST);
+		if (Number.isNaN(raw) || raw < 0) {
+			errors.push(
+				`ACTIVATION_PROJECT_BOOST must be >= 0 (got "${process.env.ACTIVATION_PROJECT_BOOST}"). 0 disables the same-project boost. Default is ${config.activation.projectBoost}.`,
+			);
+		}
+	}
+	validateIntMin(
+		process.env.ACTIVATION_PASSIVE_MAX_TOKENS,
+		"ACTIVATION_PASSIVE_MAX_TOKENS",
+		0,
+		`Token budget for passive injection; 0 disables it. Default is ${config.activation.passiveMaxTokens}.`,
+	);
+	validateIntMin(
+		process.env.ACTIVATION_RERANK_CANDIDATES,
+		"ACTIVATION_RERANK_CANDIDATES",
+		1,
+		`Candidates sent to the re-ranking model. Default is ${config.activation.rerankCandidates}.`,
+	);
+	validateIntMin(
+		process.env.ACTIVATION_RERANK_TIMEOUT_MS,
+		"ACTIVATION_RERANK_TIMEOUT_MS",
+		1,
+		`Latency budget for re-ranking in ms. Default is ${config.activation.rerankTimeoutMs}.`,
+	);
+	validateIntMin(
+		process.env.ACTIVATION_QUERY_EXPANSION_TIMEOUT_MS,
+		"ACTIVATION_QUERY_EXPANSION_TIMEOUT_MS",
+		1,
+		`Latency budget for query expansion in ms. Default is ${config.activation.queryExpansionTimeoutMs}.`,
+	);
+	validateIntMin(
+		process.env.ACTIVATION_QUERY_EXPANSION_CACHE_SIZE,
+		"ACTIVATION_QUERY_EXPANSION_CACHE_SIZE",
+		1,
+		`Query expansions kept in memory. Default is ${config.activation.queryExpansionCacheSize}.`,
+	);
+	validateFloatRange(
+		process.env.ACTIVATION_MMR_LAMBDA,
+		"ACTIVATION_MMR_LAMBDA",
+		0,
+		1,
+		`Relevance weight for MMR diversification (1 = relevance only). Default is ${config.activation.mmrLambda}.`,
+	);
+	validateFloatRange(
+		process.env.ACTIVATION_EXPANSION_MIN_SIMILARITY,
+		"ACTIVATION_EXPANSION_MIN_SIMILARITY",
+		0,
+		1,
+		`Minimum rawSimilarity for a result to pull in its supporting entries. Default is ${config.activation.expansionMinSimilarity}.`,
+	);
+	validateFloatRange(
+		process.env.ACTIVATION_EXPANSION_DECAY,
+		"ACTIVATION_EXPANSION_DECAY",
+		0,
+		1,
+		`Score multiplier for entries added by graph expansion. Default is ${config.activation.expansionDecay}.`,
+	);
+	validateIntMin(
+		process.env.ACTIVATION_EXPANSION_MAX_ENTRIES,
+		"ACTIVATION_EXPANSION_MAX_ENTRIES",
+		0,
+		`Entries graph expansion may add per activation. Default is ${config.activation.expansionMaxEntries}.`,
+	);
+	validateIntMin(
+		process.env.ACTIVATION_SESSION_TTL_MS,
+		"ACTIVATION_SESSION_TTL_MS",
+		1,
+		`How long per-session activation memory is kept in ms. Default is ${config.activation.sessionTtlMs}.`,
+	);
 
 	validateFloatRange(
 		process.env.CLUSTER_ASSIGNMENT_THRESHOLD,
@@ -641,6 +841,13 @@ export function validateConfig(): string[] {
 		`Minimum cluster size before synthesis is attempted. Default is ${config.consolidation.clusterMinMembers}.`,
 	);
 
+	validateIntMin(
+		process.env.EMBEDDING_CACHE_MAX_ENTRIES,
+		"EMBEDDING_CACHE_MAX_ENTRIES",
+		0,
+		`Embeddings kept in the state.db cache; 0 disables it. Default is ${config.embedding.cacheMaxEntries}.`,
+	);
+
 	// Validate EMBEDDING_DIMENSIONS early — a non-positive or non-integer value would
 	// be clamped to 1 by parseIntEnv and forwarded to the API, causing a confusing 400.
 	// Note: check the raw env var, not config.embedding.dimensions — "0" is falsy so
@@ -2,12 +2,17 @@ import type { ActivationEngine } from "../activation/activate.js";
 import { config } from "../config.js";
 import type { IKnowledgeStore, IServerStateDB } from "../db/index.js";
 import type { DomainResolution, DomainRouter } from "./domain-router.js";
+import { knowledgeEvents } from "../events.js";
 import { logger } from "../logger.js";
 import type {
+	ConsolidationProgress,
 	ConsolidationResult,
+	CreateEntryRequest,
 	Episode,
 	IEpisodeReader,
 	KnowledgeEntry,
+	RememberRequest,
+	RememberResult,
 } from "../types.js";
 import { ContradictionScanner } from "./contradiction.js";
 import { computeStrength } from "./decay.js";
@@ -32,6 +37,18 @@ import { Reconsolidator } from "./reconsolidate.js";
  */
 const MAX_CHUNK_TOKENS = 150_000;
 
+/** Options for a single consolidate() run. */
+export interface ConsolidateOptions {
+	/**
+	 * Cooperative cancellation: checked between chunks. Once aborted, no further
+	 * chunks are processed; decay and embedding still run so the knowledge base
+	 * is left consistent, and unprocessed episodes stay pending for the next run.
+	 */
+	signal?: AbortSignal;
+	/** Called with a snapshot whenever the phase or progress counts change. */
+	onProgress?: (progress: ConsolidationProgress) => void;
+}
+
 /**
  * The consolidation engine — the heart of the knowledge system.
  *
@@ -75,6 +92,16 @@ export class ConsolidationEngine {
 	 */
 	private _lastTouchedStores = new Set<IKnowledgeStore>();
 
+	/**
+	 * Options and progress of the run in flight — set by consolidate() for the
+	 * duration of the run, null otherwise. Safe as instance state because the
+	 * in-process lock allows one run at a time.
+	 */
+	private _run: {
+		options: ConsolidateOptions;
+		progress: ConsolidationProgress;
+	} | null = null;
+
 	/**
 	 * Concurrency guard — only one consolidation run at a time, regardless of
 	 * whether it was triggered by the startup background loop or an API call.
@@ -107,6 +134,39 @@ export class ConsolidationEngine {
 		this._isConsolidating = false;
 	}
 
+	/**
+	 * Tail of each store's in-process write queue. The per-store DB advisory
+	 * lock only serializes processes: it is not reentrant (Postgres throws when
+	 * this process already holds it) and a no-op on SQLite. Writers in this
+	 * process therefore queue here before taking it — see withStoreQueue().
+	 */
+	private storeQueues = new Map<IKnowledgeStore, Promise<void>>();
+
+	/**
+	 * Run `fn` once every earlier writer queued on `store` in this process has
+	 * finished. Used around the DB advisory lock by consolidation and by
+	 * remember() / createEntry(), so concurrent remembers wait for each other
+	 * (and for a running consolidation of that store) instead of failing on
+	 * the lock or reconsolidating against stale entries.
+	 */
+	private async withStoreQueue<T>(
+		store: IKnowledgeStore,
+		fn: () => Promise<T>,
+	): Promise<T> {
+		const previous = this.storeQueues.get(store) ?? Promise.resolve();
+		const run = previous.then(fn);
+		const tail = run.then(
+			() => {},
+			() => {},
+		);
+		this.storeQueues.set(store, tail);
+		try {
+			return await run;
+		} finally {
+			if (this.storeQueues.get(store) === tail) this.storeQueues.delete(store);
+		}
+	}
+
 	/**
 	 * @param db            Primary knowledge DB (for knowledge reads/writes and legacy compat).
 	 * @param serverStateDb Server-local DB for staging tables (pending_episodes, etc.).
@@ -165,10 +225,12 @@ export class ConsolidationEngine {
 	 *
 	 * Layer 2 — Per-store DB advisory lock (`tryAcquireConsolidationLock`):
 	 *   Owned by consolidateExtractedToStore(). Acquired per store immediately
-	 *   before writing to it and released in a finally block. Uses the database
-	 *   OID as the lock key so it is config-name independent: any two processes
-	 *   pointing at the same physical database share the same lock automatically.
-	 *   Stores backed by different databases acquire independent locks and can
+	 *   before writing to it and released in a finally block. Taken behind the
+	 *   store's in-process write queue (`withStoreQueue`), which remember() and
+	 *   createEntry() share, so this process never requests it twice. Uses the
+	 *   database OID as the lock key so it is config-name independent: any two
+	 *   processes pointing at the same physical database share the same lock
+	 *   automatically. Stores backed by different databases acquire independent locks and can
 	 *   consolidate in parallel. Returns a skipped result for a store immediately
 	 *   if another process holds its lock — never waits.
 	 *
@@ -177,9 +239,52 @@ export class ConsolidationEngine {
 	 *   making concurrent synthesis runs safe (they produce near-duplicate entries
 	 *   that the next synthesis pass will cluster and merge). The in-process lock
 	 *   (Layer 1) ensures synthesis and consolidation never overlap on the same instance.
+	 *
+	 * `options` adds progress reporting and cooperative cancellation — used by
+	 * the consolidation jobs behind POST /consolidate (see jobs.ts).
+	 *
+	 * Emits consolidation.started, then consolidation.finished or
+	 * consolidation.failed, on the knowledge event bus.
 	 */
-	async consolidate(): Promise<ConsolidationResult> {
-		return await this._consolidate();
+	async consolidate(
+		options: ConsolidateOptions = {},
+	): Promise<ConsolidationResult> {
+		this._run = {
+			options,
+			progress: {
+				phase: "extract",
+				chunksDone: 0,
+				chunksTotal: 0,
+				entriesCreated: 0,
+				entriesUpdated: 0,
+			},
+		};
+		knowledgeEvents.emit({ type: "consolidation.started" });
+		try {
+			const result = await this._consolidate();
+			knowledgeEvents.emit({ type: "consolidation.finished", result });
+			return result;
+		} catch (e) {
+			knowledgeEvents.emit({
+				type: "consolidation.failed",
+				error: e instanceof Error ? e.message : String(e),
+			});
+			throw e;
+		} finally {
+			this._run = null;
+		}
+	}
+
+	/** Merge an update into the current run's progress and notify the listener. */
+	private reportProgress(update: Partial<ConsolidationProgress>): void {
+		if (!this._run) return;
+		Object.assign(this._run.progress, update);
+		this._run.options.onProgress?.({ ...this._run.progress });
+	}
+
+	/** Whether the current run has been asked to stop (checked between chunks). */
+	private get cancelRequested(): boolean {
+		return this._run?.options.signal?.aborted ?? false;
 	}
 
 	/**
@@ -216,6 +321,7 @@ export class ConsolidationEngine {
 
 		// Process each reader source independently with its own cursor.
 		for (const reader of this.readers) {
+			if (this.cancelRequested) break;
 			const sourceTotals = await this.consolidateSource(reader);
 			totalSessionsProcessed += sourceTotals.sessionsProcessed;
 			totalSegmentsProcessed += sourceTotals.segmentsProcessed;
@@ -242,12 +348,14 @@ export class ConsolidationEngine {
 			? new Set([this.db, ...this.domainRouter.allStores()])
 			: new Set([this.db]);
 		let archived = 0;
+		this.reportProgress({ phase: "decay" });
 		for (const store of decayStores) {
 			archived += await this.applyDecay(store);
 		}
 
 		// Generate embeddings for new entries across all writable stores.
 		// ensureEmbeddings() fans out internally to this.activation.writableDbs.
+		this.reportProgress({ phase: "embed" });
 		const embeddedCount = await this.activation.ensureEmbeddings();
 		logger.log(
 			`[consolidation] Generated embeddings for ${embeddedCount} entries.`,
@@ -436,8 +544,24 @@ export class ConsolidationEngine {
 				chunks.push(group.slice(i, i + chunkSize));
 			}
 		}
+		this.reportProgress({
+			chunksTotal: (this._run?.progress.chunksTotal ?? 0) + chunks.length,
+		});
+
+		// Sessions and episodes actually handed to processChunk — all of them
+		// unless the run is cancelled part-way.
+		const processedSessionIds = new Set<string>();
+		let processedEpisodes = 0;
+		let cancelled = false;
 
 		for (let ci = 0; ci < chunks.length; ci++) {
+			if (this.cancelRequested) {
+				logger.log(
+					`[consolidation/${reader.source}] Cancelled — skipping ${chunks.length - ci} remaining chunk(s). Their episodes stay pending.`,
+				);
+				cancelled = true;
+				break;
+			}
 			const chunk = chunks[ci];
 			const chunkLabel = `${ci + 1}/${chunks.length}`;
 			const episodeTitles = [...new Set(chunk.map((ep) => ep.sessionTitle))]
@@ -459,6 +583,29 @@ export class ConsolidationEngine {
 			totalConflictsDetected += counts.conflictsDetected;
 			totalConflictsResolved += counts.conflictsResolved;
 			for (const s of counts.touchedStores) sourceTouchedStores.add(s);
+			for (const ep of chunk) processedSessionIds.add(ep.sessionId);
+			processedEpisodes += chunk.length;
+			this.reportProgress({
+				chunksDone: (this._run?.progress.chunksDone ?? 0) + 1,
+				entriesCreated:
+					(this._run?.progress.entriesCreated ?? 0) + counts.created,
+				entriesUpdated:
+					(this._run?.progress.entriesUpdated ?? 0) + counts.updated,
+			});
+		}
+
+		// A cancelled run leaves pending_episodes untouched: recorded episodes are
+		// skipped on the next run via consolidated_episode, the rest are retried.
+		if (cancelled) {
+			return {
+				sessionsProcessed: processedSessionIds.size,
+				segmentsProcessed: processedEpisodes,
+				entriesCreated: totalCreated,
+				entriesUpdated: totalUpdated,
+				conflictsDetected: totalConflictsDetected,
+				conflictsResolved: totalConflictsResolved,
+				touchedStores: sourceTouchedStores,
+			};
 		}
 
 		// 7. Post-consolidation hook — PendingEpisodesReader deletes processed rows from
@@ -540,12 +687,21 @@ export class ConsolidationEngine {
 			};
 		}
 
+		this.reportProgress({ phase: "extract" });
 		const extracted = await this.extractFromChunk(
 			source,
 			chunk,
 			domainResolution,
 		);
 
+		// Record where the knowledge came from so activation can rank entries from
+		// the caller's project higher. Only stamped when every episode in the chunk
+		// shares one directory — a mixed chunk can't attribute entries to either.
+		const sourceDirectory = sharedDirectory(chunk);
+		if (sourceDirectory) {
+			for (const entry of extracted) entry.directory = sourceDirectory;
+		}
+
 		// ── Pass 2: Dispatch per store ───────────────────────────────────────────
 		// Group extracted entries by their resolved target store. Each entry may have
 		// been assigned a different domain by the LLM — group them now so we load
@@ -574,14 +730,17 @@ export class ConsolidationEngine {
 		// - Successful stores contribute their counts and are recorded.
 		// - Failed stores are logged; their episodes are NOT recorded as processed,
 		//   so they will be re-processed on the next consolidation run.
+		this.reportProgress({ phase: "reconsolidate" });
 		const settled = await Promise.allSettled(
 			[...storeGroups.entries()].map(([store, entriesForStore]) =>
-				this.consolidateExtractedToStore(
-					source,
-					store,
-					entriesForStore,
-					sessionIds,
-					chunkSessionTimestamp,
+				this.withStoreQueue(store, () =>
+					this.consolidateExtractedToStore(
+						source,
+						store,
+						entriesForStore,
+						sessionIds,
+						chunkSessionTimestamp,
+					),
 				).then((counts) => ({ store, counts })),
 			),
 		);
@@ -995,6 +1154,10 @@ export class ConsolidationEngine {
 								),
 							);
 							await store.mergeEntry(nearest.id, mergeUpdates, freshEmbedding);
+							knowledgeEvents.emit({
+								type: "entry.updated",
+								entryId: nearest.id,
+							});
 							logger.log(
 								`[consolidation/${source}] ${decision.action === "update" ? "Updated" : "Replaced"}: ${JSON.stringify(nearest.content)} → ${JSON.stringify(decision.content)}`,
 							);
@@ -1028,6 +1191,7 @@ export class ConsolidationEngine {
 
 			// Contradiction scan — within-store only by construction (all entries in this
 			// batch were routed to `store` by groupExtractedByStore). No filtering needed.
+			this.reportProgress({ phase: "contradiction" });
 			const contradictions = await this.contradictionScanner.scan(
 				store,
 				entriesMap,
@@ -1065,6 +1229,7 @@ export class ConsolidationEngine {
 					status: "archived",
 					strength: newStrength,
 				});
+				knowledgeEvents.emit({ type: "entry.updated", entryId: entry.id });
 				archived++;
 				logger.log(
 					`[decay] Archived: ${JSON.stringify(entry.content)} (strength: ${newStrength.toFixed(3)})`,
@@ -1083,6 +1248,7 @@ export class ConsolidationEngine {
 		for (const entry of archivedEntries) {
 			if (entry.updatedAt < tombstoneThreshold) {
 				await db.updateEntry(entry.id, { status: "tombstoned" });
+				knowledgeEvents.emit({ type: "entry.updated", entryId: entry.id });
 				logger.log(
 					`[decay] Tombstoned: ${JSON.stringify(entry.content)} (archived for ${config.decay.tombstoneAfterDays}+ days)`,
 				);
@@ -1121,6 +1287,185 @@ export class ConsolidationEngine {
 		return total;
 	}
 
+	/**
+	 * Store one entry submitted directly by an agent (MCP `remember` tool) —
+	 * the same path an extracted entry takes during consolidation, without
+	 * waiting for the next run.
+	 *
+	 * The target store follows domain routing: `request.domain` when it names a
+	 * configured domain, otherwise the default domain of the project containing
+	 * `request.cwd`. The entry is reconsolidated against that store's active
+	 * entries (insert, merge or keep) and the result goes through the
+	 * contradiction scan.
+	 *
+	 * Independent of the in-process consolidation lock so agents are not blocked
+	 * for the length of a run. Writes to the target store queue behind other
+	 * writers in this process (including a consolidation writing to it), and
+	 * the per-store DB advisory lock serializes them across processes. Throws
+	 * when the target store is unavailable or locked by another process.
+	 */
+	async remember(request: RememberRequest): Promise<RememberResult> {
+		return this.storeEntry(request, "remember", true);
+	}
+
+	/**
+	 * Store one entry written by an admin through the API (POST /entries). It is
+	 * routed and reconsolidated like remember(); with `reconsolidate: false` it
+	 * is embedded and inserted as-is instead, even next to a near-duplicate.
+	 * Either way it then goes through the contradiction scan.
+	 */
+	async createEntry(request: CreateEntryRequest): Promise<RememberResult> {
+		return this.storeEntry(request, "manual", request.reconsolidate ?? true);
+	}
+
+	/**
+	 * Shared path of remember() and createEntry(). `origin` labels the
+	 * entry's source and the log lines.
+	 */
+	private async storeEntry(
+		request: RememberRequest,
+		origin: "remember" | "manual",
+		reconsolidate: boolean,
+	): Promise<RememberResult> {
+		const store = this.resolveRememberStore(request);
+		return this.withStoreQueue(store, () =>
+			this.storeEntryLocked(store, request, origin, reconsolidate),
+		);
+	}
+
+	/** storeEntry() once this process's earlier writers to `store` are done. */
+	private async storeEntryLocked(
+		store: IKnowledgeStore,
+		request: RememberRequest,
+		origin: "remember" | "manual",
+		reconsolidate: boolean,
+	): Promise<RememberResult> {
+		if (!(await store.tryAcquireConsolidationLock())) {
+			throw new Error(
+				"Target store is locked by a consolidation run in another process — try again later.",
+			);
+		}
+
+		try {
+			const allEntries = await store.getActiveEntriesWithEmbeddings();
+			const entriesMap = new Map(allEntries.map((e) => [e.id, e]));
+			const now = Date.now();
+
+			const entry = {
+				type: clampKnowledgeType(request.type),
+				content: request.content,
+				topics: request.topics,
+				confidence: request.confidence ?? 0.8,
+				source: `${origin} ${new Date(now).toISOString().split("T")[0]}`,
+				directory: request.cwd || undefined,
+			};
+			const sessionIds = request.sessionId ? [request.sessionId] : [];
+
+			let outcome: Pick<RememberResult, "action" | "entryId"> | null = null;
+			if (!reconsolidate) {
+				const embedding = await this.activation.embeddings.embed(
+					formatEmbeddingText(entry.type, entry.content, entry.topics),
+				);
+				const inserted = await this.reconsolidator.insertNewEntry(
+					entry,
+					sessionIds,
+					embedding,
+					now,
+					store,
+					"api",
+				);
+				entriesMap.set(inserted.id, { ...inserted, embedding });
+				outcome = { action: "inserted", entryId: inserted.id };
+				logger.log(
+					`[${origin}] Insert (reconsolidation bypassed): ${JSON.stringify(entry.content)}`,
+				);
+			} else {
+				await this.reconsolidator.reconsolidate(
+					entry,
+					sessionIds,
+					entriesMap,
+					{
+						onInsert: (inserted) => {
+							if (inserted.embedding) {
+								entriesMap.set(
+									inserted.id,
+									inserted as KnowledgeEntry & { embedding: number[] },
+								);
+							}
+							outcome = { action: "inserted", entryId: inserted.id };
+						},
+						onUpdate: (id, updated, freshEmbedding) => {
+							const existing = entriesMap.get(id);
+							if (existing) {
+								entriesMap.set(id, {
+									...existing,
+									...updated,
+									embedding: freshEmbedding,
+								});
+							}
+							outcome = { action: "merged", entryId: id };
+						},
+						onKeep: (id) => {
+							outcome = { action: "kept", entryId: id };
+						},
+					},
+					now,
+					undefined,
+					origin,
+					store,
+					store,
+					"api",
+				);
+			}
+			if (!outcome) {
+				throw new Error("Reconsolidation finished without a decision.");
+			}
+			const { action, entryId }: Pick<RememberResult, "action" | "entryId"> =
+				outcome;
+
+			// A kept entry is unchanged — there is nothing new to scan.
+			const contradictions =
+				action === "kept"
+					? { detected: 0, resolved: 0 }
+					: await this.contradictionScanner.scan(
+							store,
+							entriesMap,
+							new Set([entryId]),
+						);
+
+			return {
+				action,
+				entryId,
+				conflictsDetected: contradictions.detected,
+				conflictsResolved: contradictions.resolved,
+			};
+		} finally {
+			await store.releaseConsolidationLock();
+		}
+	}
+
+	/**
+	 * Target store for a remembered entry: the requested domain's store, else the
+	 * default store for the caller's directory (see DomainRouter.resolve).
+	 */
+	resolveRememberStore(request: RememberRequest): IKnowledgeStore {
+		if (!this.domainRouter) return this.db;
+		if (request.domain) {
+			const store = this.domainRouter.resolveStore(request.domain);
+			if (store) return store;
+			logger.warn(
+				`[remember] Unknown domain "${request.domain}" — using the default domain for the directory.`,
+			);
+		}
+		const resolution = this.domainRouter.resolve(request.cwd ?? "");
+		if (resolution.storeUnavailable) {
+			throw new Error(
+				`Target store for domain "${resolution.domainId}" is unavailable.`,
+			);
+		}
+		return resolution.store;
+	}
+
 	close(): void {
 		for (const reader of this.readers) {
 			reader.close();
@@ -1130,6 +1475,21 @@ export class ConsolidationEngine {
 
 // ── Module helpers ────────────────────────────────────────────────────────────
 
+/**
+ * The directory shared by all episodes in a chunk, or undefined when the
+ * episodes disagree. Episodes without a directory are ignored — they carry no
+ * project signal either way.
+ */
+function sharedDirectory(episodes: Episode[]): string | undefined {
+	let shared: string | undefined;
+	for (const ep of episodes) {
+		if (!ep.directory) continue;
+		if (shared === undefined) shared = ep.directory;
+		else if (shared !== ep.directory) return undefined;
+	}
+	return shared;
+}
+
 /**
  * Group episodes by their resolved domain so episodes with different project
  * directories don't end up in the same chunk.
@@ -1,6 +1,7 @@
 import { cosineSimilarity } from "../activation/embeddings.js";
 import { config } from "../config.js";
 import type { IKnowledgeStore } from "../db/index.js";
+import { emitResolutionEvents } from "../events.js";
 import { logger } from "../logger.js";
 import type { KnowledgeEntry } from "../types.js";
 import type { ConsolidationLLM } from "./llm.js";
@@ -148,6 +149,12 @@ export class ContradictionScanner {
 					result.candidateId,
 					mergedData,
 				);
+				emitResolutionEvents(
+					result.resolution,
+					entry.id,
+					result.candidateId,
+					result.reason,
+				);
 
 				if (result.resolution !== "irresolvable") {
 					resolved++;
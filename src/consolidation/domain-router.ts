@@ -86,7 +86,7 @@ export class DomainRouter {
 		unavailableStoreIds: ReadonlySet<string> = new Set(),
 	) {
 		this.domains = config.domains;
-		// Pre-normalize project paths once at construction so bestProjectMatch
+		// Pre-normalize project paths once at construction so bestProjectMatch()
 		// doesn't re-normalize on every resolve() call.
 		// Note: ~ is already expanded by config-file.ts validateProject at load time.
 		this.projects = config.projects.map((p) => ({
@@ -133,10 +133,8 @@ export class DomainRouter {
 		}
 
 		// Find the best matching project (longest path prefix match).
-		const normalizedDir = directory
-			? normalize(directory.replace(/^~/, homedir()))
-			: "";
-		const matchedProject = this.bestProjectMatch(normalizedDir);
+		const normalizedDir = normalizeDirectory(directory);
+		const matchedProject = bestProjectMatch(this.projects, normalizedDir);
 
 		// Determine default domain: matched project's domain, or first domain as fallback.
 		const defaultDomainId =
@@ -192,34 +190,53 @@ export class DomainRouter {
 		if (!domain) return undefined;
 		return this.stores.get(domain.store);
 	}
+}
 
-	/**
-	 * Find the project whose path prefix best matches the given directory.
-	 * Longest match wins — more specific project paths take precedence.
-	 */
-	private bestProjectMatch(directory: string): ProjectConfig | null {
-		if (!directory) return null;
-
-		let best: ProjectConfig | null = null;
-		let bestLen = 0;
-
-		for (const project of this.projects) {
-			// Use pre-normalized path from constructor (avoids re-normalizing per call).
-			const projectPath = project.normalizedPath;
-			// Match if directory starts with the project path
-			// (add trailing separator to avoid partial directory name matches)
-			const prefix = projectPath.endsWith("/")
-				? projectPath
-				: `${projectPath}/`;
-			if (
-				(directory === projectPath || directory.startsWith(prefix)) &&
-				projectPath.length > bestLen
-			) {
-				best = project;
-				bestLen = projectPath.length;
-			}
-		}
+/**
+ * Expand a leading ~, normalize, and drop any trailing separator so
+ * "/repo" and "/repo/" compare equal. Returns "" for empty/undefined input
+ * (no path context).
+ */
+export function normalizeDirectory(
+	directory: string | null | undefined,
+): string {
+	if (!directory) return "";
+	return normalize(directory.replace(/^~/, homedir())).replace(/(.)\/+$/, "$1");
+}
 
-		return best;
+/**
+ * Find the project whose path prefix best matches the given directory.
+ * Longest match wins — more specific project paths take precedence.
+ *
+ * `directory` must already be normalized (see normalizeDirectory), and each
+ * project carries its pre-normalized path so callers that match repeatedly
+ * (DomainRouter, ActivationEngine) don't re-normalize per call.
+ *
+ * Shared by DomainRouter (consolidation routing) and ActivationEngine
+ * (project-scoped ranking) so both agree on which project a directory is in.
+ */
+export function bestProjectMatch<P extends { normalizedPath: string }>(
+	projects: P[],
+	directory: string,
+): P | null {
+	if (!directory) return null;
+
+	let best: P | null = null;
+	let bestLen = 0;
+
+	for (const project of projects) {
+		const projectPath = project.normalizedPath;
+		// Match if directory starts with the project path
+		// (add trailing separator to avoid partial directory name matches)
+		const prefix = projectPath.endsWith("/") ? projectPath : `${projectPath}/`;
+		if (
+			(directory === projectPath || directory.startsWith(prefix)) &&
+			projectPath.length > bestLen
+		) {
+			best = project;
+			bestLen = projectPath.length;
+		}
 	}
+
+	return best;
 }
@@ -0,0 +1,167 @@
+import { randomUUID } from "node:crypto";
+import { logger } from "../logger.js";
+import type {
+	ConsolidationPhase,
+	ConsolidationProgress,
+	ConsolidationResult,
+} from "../types.js";
+import type { ConsolidationEngine } from "./consolidate.js";
+
+/**
+ * Consolidation jobs — runs started by POST /consolidate.
+ *
+ * A job holds the engine's in-process lock for its whole run: one consolidate()
+ * batch followed by a KB synthesis pass, the same sequence as the server's
+ * drain loop. The request returns as soon as the job is started; callers poll
+ * GET /jobs/:id for the phase, progress counts and final result.
+ *
+ * Cancellation is cooperative. DELETE /jobs/:id aborts the run's signal; the
+ * engine stops before its next chunk, finishes decay and embedding, and the
+ * job skips synthesis and ends as "cancelled".
+ *
+ * Jobs live in memory only — they are lost on restart. The most recent
+ * MAX_FINISHED_JOBS finished jobs are kept for polling.
+ */
+
+const MAX_FINISHED_JOBS = 20;
+
+export type ConsolidationJobStatus =
+	| "running"
+	| "succeeded"
+	| "failed"
+	| "cancelled";
+
+/** A consolidation job, as returned by the /consolidate and /jobs endpoints. */
+export interface ConsolidationJob {
+	id: string;
+	status: ConsolidationJobStatus;
+	/** Current (or last reached) pipeline phase. */
+	phase: ConsolidationPhase;
+	progress: Omit<ConsolidationProgress, "phase">;
+	cancelRequested: boolean;
+	/** The consolidate() result — null until that step finishes. */
+	result: ConsolidationResult | null;
+	/** Principles produced by the synthesis pass — null until it runs. */
+	synthesized: number | null;
+	error: string | null;
+	startedAt: number; // unix timestamp ms
+	finishedAt: number | null; // unix timestamp ms
+}
+
+export class ConsolidationJobs {
+	private consolidation: ConsolidationEngine;
+	/** All retained jobs, oldest first (Map preserves insertion order). */
+	private jobs = new Map<string, ConsolidationJob>();
+	/** Abort controllers of running jobs. */
+	private controllers = new Map<string, AbortController>();
+
+	constructor(consolidation: ConsolidationEngine) {
+		this.consolidation = consolidation;
+	}
+
+	/**
+	 * Start a job in the background. Returns null when the consolidation lock
+	 * is held — by another job, the startup/poll drain, or a CLI run.
+	 */
+	start(): ConsolidationJob | null {
+		if (!this.consolidation.tryLock()) return null;
+
+		const job: ConsolidationJob = {
+			id: randomUUID(),
+			status: "running",
+			phase: "extract",
+			progress: {
+				chunksDone: 0,
+				chunksTotal: 0,
+				entriesCreated: 0,
+				entriesUpdated: 0,
+			},
+			cancelRequested: false,
+			result: null,
+			synthesized: null,
+			error: null,
+			startedAt: Date.now(),
+			finishedAt: null,
+		};
+		const controller = new AbortController();
+		this.jobs.set(job.id, job);
+		this.controllers.set(job.id, controller);
+		this.prune();
+
+		logger.log(`[jobs] Consolidation job ${job.id} started.`);
+		void this.run(job, controller.signal);
+		return snapshot(job);
+	}
+
+	get(id: string): ConsolidationJob | null {
+		const job = this.jobs.get(id);
+		return job ? snapshot(job) : null;
+	}
+
+	/** The job currently running, if one was started through this instance. */
+	running(): ConsolidationJob | null {
+		for (const job of this.jobs.values()) {
+			if (job.status === "running") return snapshot(job);
+		}
+		return null;
+	}
+
+	/**
+	 * Request cancellation of a running job. Returns the job (unchanged if it
+	 * has already finished), or null for an unknown ID.
+	 */
+	cancel(id: string): ConsolidationJob | null {
+		const job = this.jobs.get(id);
+		if (!job) return null;
+		const controller = this.controllers.get(id);
+		if (controller && !job.cancelRequested) {
+			job.cancelRequested = true;
+			controller.abort();
+			logger.log(`[jobs] Cancellation requested for job ${id}.`);
+		}
+		return snapshot(job);
+	}
+
+	private async run(job: ConsolidationJob, signal: AbortSignal): Promise<void> {
+		try {
+			job.result = await this.consolidation.consolidate({
+				signal,
+				onProgress: ({ phase, ...progress }) => {
+					job.phase = phase;
+					job.progress = progress;
+				},
+			});
+			if (!signal.aborted) {
+				job.phase = "synthesis";
+				job.synthesized = await this.consolidation.runSynthesis();
+			}
+			job.status = signal.aborted ? "cancelled" : "succeeded";
+		} catch (e) {
+			logger.error(`[jobs] Consolidation job ${job.id} failed:`, e);
+			job.status = "failed";
+			job.error = e instanceof Error ? e.message : String(e);
+		} finally {
+			this.consolidation.unlock();
+			this.controllers.delete(job.id);
+			job.finishedAt = Date.now();
+			logger.log(`[jobs] Consolidation job ${job.id} ${job.status}.`);
+		}
+	}
+
+	/** Drop the oldest finished jobs beyond MAX_FINISHED_JOBS. */
+	private prune(): void {
+		const finished = [...this.jobs.values()].filter(
+			(j) => j.status !== "running",
+		);
+		for (const job of finished.slice(
+			0,
+			Math.max(0, finished.length - MAX_FINISHED_JOBS),
+		)) {
+			this.jobs.delete(job.id);
+		}
+	}
+}
+
+function snapshot(job: ConsolidationJob): ConsolidationJob {
+	return structuredClone(job);
+}
@@ -22,12 +22,13 @@ import {
  * - Which provider SDK to use (Anthropic, Google, OpenAI-compatible)
  * - Which base URL suffix on the unified endpoint
  *
- * Four independent model slots (all configurable via env vars):
+ * Five independent model slots (all configurable via env vars):
  * - extractionModel   — episode → knowledge extraction   (LLM_EXTRACTION_MODEL)
  * - mergeModel        — near-duplicate merge decision     (LLM_MERGE_MODEL)
  * - contradictionModel — contradiction detect + resolve   (LLM_CONTRADICTION_MODEL)
  * - synthesisModel    — cross-session principle synthesis (LLM_SYNTHESIS_MODEL,
  *                       defaults to LLM_EXTRACTION_MODEL or claude-sonnet-4-6)
+ * - rerankModel       — activation re-ranking             (LLM_RERANK_MODEL)
  */
 
 /**
@@ -182,6 +183,9 @@ function createModel(modelString: string) {
  *   stall doesn't fail the whole consolidation chunk.
  * - On final failure after all retries, throws so the chunk-level error handler
  *   in consolidate.ts can decide whether to skip or abort the run.
+ *
+ * Latency-sensitive callers (activation re-ranking) pass `limits` to replace the
+ * consolidation-oriented timeout and retry budget.
  */
 /**
  * Unwrap the Vercel AI SDK's error chain to surface the actual HTTP status
@@ -214,8 +218,11 @@ async function complete(
 	systemPrompt: string,
 	userPrompt: string,
 	maxTokens = 8192,
+	limits?: { timeoutMs?: number; maxRetries?: number },
 ): Promise<string> {
-	const { timeoutMs, maxRetries, retryBaseDelayMs } = config.llm;
+	const timeoutMs = limits?.timeoutMs ?? config.llm.timeoutMs;
+	const maxRetries = limits?.maxRetries ?? config.llm.maxRetries;
+	const { retryBaseDelayMs } = config.llm;
 	const maxAttempts = 1 + maxRetries;
 
 	let lastError: unknown;
@@ -944,6 +951,127 @@ Respond with a JSON array (one result per candidate, same order):
 				),
 		);
 	}
+
+	/**
+	 * Re-rank activation candidates for a query.
+	 * Uses the rerank model (cheap, fast — runs on the activation hot path).
+	 *
+	 * Returns 0-based indices into `candidates` of the entries judged relevant,
+	 * most relevant first; omitted candidates are irrelevant. Returns null when
+	 * the response cannot be parsed. Throws when the call fails or exceeds
+	 * `timeoutMs` — there are no retries, the caller falls back instead.
+	 */
+	async rerank(
+		query: string,
+		candidates: Array<{ type: string; content: string; topics: string[] }>,
+		timeoutMs: number,
+	): Promise<number[] | null> {
+		if (candidates.length === 0) return [];
+
+		// Content values are wrapped in XML tags to prevent prompt injection —
+		// a crafted entry cannot escape its container and alter the instruction structure.
+		const candidateList = candidates
+			.map(
+				(c, i) =>
+					`[${i + 1}] type: ${c.type} | topics: ${c.topics.join(", ")}
+content: <candidate_content>${c.content}</candidate_content>`,
+			)
+			.join("\n\n");
+
+		const systemPrompt = `You are a relevance filter for a knowledge base. You will be shown a user QUERY and numbered CANDIDATE knowledge entries retrieved for it by vector search.
+
+Decide which candidates would actually help answer or act on the query, and order them from most to least useful.
+
+Rules:
+- Drop candidates that only share vocabulary or a broad topic with the query.
+- Keep candidates that state a fact, decision, or procedure the query depends on.
+- When unsure, keep the candidate but rank it lower.
+
+Respond ONLY with a JSON array of candidate numbers, most relevant first. No markdown, no explanation. Respond with [] if none are relevant.`;
+
+		const userPrompt = `QUERY: <query>${query}</query>
+
+CANDIDATES:
+${candidateList}
+
+Respond with a JSON array of candidate numbers, e.g. [3, 1].`;
+
+		const response = await complete(
+			config.llm.rerankModel,
+			systemPrompt,
+			userPrompt,
+			1024,
+			{ timeoutMs, maxRetries: 0 },
+		);
+
+		const parsed = parseJSON<unknown[]>(response, true);
+		if (!Array.isArray(parsed)) {
+			logger.warn("[llm] rerank parse failure:", response.slice(0, 200));
+			return null;
+		}
+		// Keep the first mention of each valid candidate number; ignore anything else.
+		const indices = new Set<number>();
+		for (const n of parsed) {
+			if (typeof n === "number" && Number.isInteger(n)) {
+				if (n >= 1 && n <= candidates.length) indices.add(n - 1);
+			}
+		}
+		return [...indices];
+	}
+
+	/**
+	 * Write a hypothetical knowledge entry that would answer an activation cue
+	 * (HyDE). Embedding this entry alongside the raw cue places the query in the
+	 * same vector space as stored entries — short cues like "deploy?" embed
+	 * poorly on their own.
+	 *
+	 * Returns null when the response cannot be parsed. Throws when the call
+	 * fails or exceeds `timeoutMs` — there are no retries, the caller falls back
+	 * to the raw cue instead.
+	 */
+	async expandQuery(
+		query: string,
+		timeoutMs: number,
+	): Promise<{
+		type: KnowledgeType;
+		content: string;
+		topics: string[];
+	} | null> {
+		const systemPrompt = `You help search a knowledge base of entries learned from past work sessions. Each entry is one self-contained statement with a type (fact, principle, pattern, decision or procedure) and a few short topic tags.
+
+Given a search QUERY, write the single entry that would best answer it, as if it already existed in the knowledge base. Invent plausible specifics where needed — the entry is only used to find similar real entries, never shown to anyone.
+
+Respond ONLY with a JSON object: {"type": "...", "content": "...", "topics": ["...", "..."]}. No markdown, no explanation.`;
+
+		const userPrompt = `QUERY: <query>${query}</query>`;
+
+		const response = await complete(
+			config.llm.queryExpansionModel,
+			systemPrompt,
+			userPrompt,
+			512,
+			{ timeoutMs, maxRetries: 0 },
+		);
+
+		const parsed = parseJSON<{
+			type?: unknown;
+			content?: unknown;
+			topics?: unknown;
+		}>(response, false);
+		if (!parsed || typeof parsed.content !== "string" || !parsed.content) {
+			logger.warn("[llm] expandQuery parse failure:", response.slice(0, 200));
+			return null;
+		}
+		return {
+			type: clampKnowledgeType(
+				typeof parsed.type === "string" ? parsed.type : "fact",
+			),
+			content: parsed.content,
+			topics: Array.isArray(parsed.topics)
+				? parsed.topics.filter((t): t is string => typeof t === "string")
+				: [],
+		};
+	}
 }
 
 export interface ExtractedKnowledge {
@@ -960,6 +1088,12 @@ export interface ExtractedKnowledge {
 	domain?: string;
 	/** Set to true when this entry was produced by synthesis rather than LLM extraction from an episode. */
 	isSynthesized?: boolean;
+	/**
+	 * Working directory shared by the episodes this entry was extracted from.
+	 * Stamped by ConsolidationEngine after extraction (not produced by the LLM);
+	 * absent when the chunk's episodes came from different directories.
+	 */
+	directory?: string;
 }
 
 export type MergeDecision =
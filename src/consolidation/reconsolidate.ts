@@ -6,9 +6,10 @@ import {
 } from "../activation/embeddings.js";
 import { config } from "../config.js";
 import type { IKnowledgeStore } from "../db/index.js";
+import { knowledgeEvents } from "../events.js";
 import { logger } from "../logger.js";
 import { clampKnowledgeType } from "../types.js";
-import type { KnowledgeEntry } from "../types.js";
+import type { KnowledgeEntry, RevisionActor } from "../types.js";
 import { computeStrength } from "./decay.js";
 import type { ConsolidationLLM, ExtractedKnowledge } from "./llm.js";
 
@@ -99,7 +100,7 @@ export class Reconsolidator {
 				updated: Partial<KnowledgeEntry>,
 				freshEmbedding: number[],
 			) => void | Promise<void>;
-			onKeep: () => void | Promise<void>;
+			onKeep: (id: string) => void | Promise<void>;
 		},
 		/**
 		 * Timestamp of the source session (unix ms, capped at Date.now()).
@@ -126,9 +127,14 @@ export class Reconsolidator {
 		/**
 		 * Log prefix used in all logger calls from this invocation.
 		 * Defaults to "consolidation". Pass "synthesis" when called from runKBSynthesis
-		 * so synthesis-time reconsolidation doesn't appear as consolidation activity in logs.
+		 * (or "remember" / "manual" from ConsolidationEngine.remember / createEntry) so that reconsolidation
+		 * doesn't appear as consolidation activity in logs.
 		 */
-		logPrefix: "consolidation" | "synthesis" = "consolidation",
+		logPrefix:
+			| "consolidation"
+			| "synthesis"
+			| "remember"
+			| "manual" = "consolidation",
 		/**
 		 * Target database for NEW entry inserts (domain routing).
 		 *
@@ -150,6 +156,11 @@ export class Reconsolidator {
 		 * Defaults to this.db when not supplied (backwards-compatible).
 		 */
 		mergeDb?: IKnowledgeStore,
+		/**
+		 * Recorded on the revisions this call writes. "api" for entries stored
+		 * through remember / POST /entries.
+		 */
+		actor: RevisionActor = "consolidation",
 	): Promise<void> {
 		// insertDb: where NEW entries land (domain-routed or default writable store).
 		const insertDb = targetDb ?? this.db;
@@ -187,6 +198,7 @@ export class Reconsolidator {
 				entryEmbedding,
 				sessionTimestamp,
 				insertDb,
+				actor,
 			);
 			await callbacks.onInsert(inserted);
 			logger.log(
@@ -231,7 +243,7 @@ export class Reconsolidator {
 				logger.log(
 					`[${logPrefix}] Keep existing (reinforced): ${JSON.stringify(nearestEntry.content)}`,
 				);
-				await callbacks.onKeep();
+				await callbacks.onKeep(nearestEntry.id);
 				break;
 			}
 
@@ -262,7 +274,12 @@ export class Reconsolidator {
 					nearestEntry.id,
 					mergeUpdates,
 					freshEmbedding,
+					actor,
 				);
+				knowledgeEvents.emit({
+					type: "entry.updated",
+					entryId: nearestEntry.id,
+				});
 				logger.log(
 					`[${logPrefix}] ${decision.action === "update" ? "Updated" : "Replaced"}: ${JSON.stringify(nearestEntry.content)} → ${JSON.stringify(decision.content)}`,
 				);
@@ -277,6 +294,7 @@ export class Reconsolidator {
 					entryEmbedding,
 					sessionTimestamp,
 					insertDb,
+					actor,
 				);
 				logger.log(
 					`[${logPrefix}] Insert (distinct despite similarity): ${JSON.stringify(entry.content)}`,
@@ -595,6 +613,12 @@ export class Reconsolidator {
 								}
 								synthesized++;
 								clusterReconsolidated++;
+								knowledgeEvents.emit({
+									type: "synthesis.produced",
+									entryId: inserted.id,
+									clusterId: cluster.id,
+									sourceIds: validatedSourceIds,
+								});
 								logger.log(
 									`[synthesis] Inserted synthesized entry ${inserted.id} with ${validatedSourceIds.length} supports relations.`,
 								);
@@ -613,6 +637,12 @@ export class Reconsolidator {
 								}
 								synthesized++;
 								clusterReconsolidated++;
+								knowledgeEvents.emit({
+									type: "synthesis.produced",
+									entryId: id,
+									clusterId: cluster.id,
+									sourceIds: validatedSourceIds,
+								});
 								logger.log(
 									`[synthesis] Refined existing principle ${id} via synthesis.`,
 								);
@@ -672,6 +702,7 @@ export class Reconsolidator {
 	 * formatEmbeddingText(type, content, topics)). If omitted, embed() is called.
 	 * sessionTimestamp: unix ms of source session — entries get the session's
 	 * timestamp rather than now() so decay is applied correctly.
+	 * actor: recorded on the entry's first revision.
 	 */
 	async insertNewEntry(
 		entry: ExtractedKnowledge,
@@ -679,6 +710,7 @@ export class Reconsolidator {
 		embedding?: number[],
 		sessionTimestamp?: number,
 		targetDb?: IKnowledgeStore,
+		actor: RevisionActor = "consolidation",
 	): Promise<KnowledgeEntry & { embedding?: number[] }> {
 		const writeDb = targetDb ?? this.db;
 		const now = Date.now();
@@ -720,13 +752,20 @@ export class Reconsolidator {
 			observationCount: 1,
 			supersededBy: null,
 			derivedFrom: sessionIds,
+			directory: entry.directory ?? null,
 			embedding,
 		};
 		// Overwrite placeholder with the real computed value now that all entry fields are set.
 		// Pass `now` as the reference time for age computation so daysSinceAccess reflects
 		// real elapsed time from the session date to the current moment.
 		newEntry.strength = computeStrength(newEntry, now);
-		await writeDb.insertEntry(newEntry);
+		await writeDb.insertEntry(newEntry, actor);
+		knowledgeEvents.emit({
+			type: "entry.created",
+			entryId: newEntry.id,
+			entryType: newEntry.type,
+			content: newEntry.content,
+		});
 		return newEntry;
 	}
 }
@@ -1,10 +1,17 @@
 import type {
+	ApiToken,
 	ConsolidationState,
+	EntryBatchWrite,
+	EntryFilters,
+	EntryListQuery,
+	EntryRevision,
 	KnowledgeEntry,
 	KnowledgeRelation,
 	KnowledgeStatus,
 	PendingEpisode,
 	ProcessedRange,
+	RevisionActor,
+	WebhookDelivery,
 } from "../types.js";
 
 /**
@@ -19,6 +26,7 @@ import type {
  *   - pending_episodes  — daemon writes here; server consolidation drains it
  *   - consolidated_episode — idempotency log for consolidation
  *   - consolidation_state — global counters and last-run timestamp
+ *   - embedding_cache   — LRU cache of embeddings for repeated texts
  *
  * Does NOT hold daemon_cursor — that lives in DaemonDB (always local SQLite,
  * per-machine). Separating cursor from staging allows the daemon to write
@@ -95,6 +103,64 @@ export interface IServerStateDB {
 
 	updateConsolidationState(state: Partial<ConsolidationState>): Promise<void>;
 
+	// ── Embedding Cache ───────────────────────────────────────────────────────
+
+	/**
+	 * Look up cached embeddings by text hash for one model/dimensions pair.
+	 * Returns hash → embedding for the hits only, and marks them as recently
+	 * used. `dimensions` is 0 when the model's default dimensions are used.
+	 */
+	getCachedEmbeddings(
+		model: string,
+		dimensions: number,
+		textHashes: string[],
+	): Promise<Map<string, number[]>>;
+
+	/**
+	 * Store embeddings (text hash → embedding) for one model/dimensions pair,
+	 * then evict the least recently used rows beyond `maxEntries`.
+	 */
+	putCachedEmbeddings(
+		model: string,
+		dimensions: number,
+		embeddings: Map<string, number[]>,
+		maxEntries: number,
+	): Promise<void>;
+
+	/** Number of rows in the embedding cache, across all models. */
+	countCachedEmbeddings(): Promise<number>;
+
+	// ── Webhook Deliveries ────────────────────────────────────────────────────
+
+	/**
+	 * Insert or update a webhook delivery log row (keyed by delivery ID).
+	 * Called after every attempt, so the row reflects the latest outcome.
+	 */
+	recordWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+
+	/** The most recent webhook deliveries, newest first. */
+	getWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
+
+	// ── API Tokens ────────────────────────────────────────────────────────────
+
+	/**
+	 * Store a new named API token with the hex SHA-256 hash of its secret.
+	 * Throws when a token with the same name already exists.
+	 */
+	createApiToken(token: ApiToken, tokenHash: string): Promise<void>;
+
+	/** The token whose secret hashes to `tokenHash`, or null. */
+	getApiTokenByHash(tokenHash: string): Promise<ApiToken | null>;
+
+	/** All API tokens, oldest first. */
+	listApiTokens(): Promise<ApiToken[]>;
+
+	/** Delete the token with this name. Returns false when there is none. */
+	revokeApiToken(name: string): Promise<boolean>;
+
+	/** Record when a token was last used to authenticate. */
+	touchApiToken(id: string, usedAt: number): Promise<void>;
+
 	/**
 	 * Wipe staging data: pending_episodes, consolidated_episode, and reset
 	 * consolidation_state counters.
@@ -121,9 +187,14 @@ export interface IServerStateDB {
  */
 export interface IKnowledgeStore {
 	// ── Entry CRUD ──
+	//
+	// Writes that change an entry's type, content, topics or status also record
+	// an entry revision (see getRevisions) in the same transaction, attributed
+	// to `actor` — "consolidation" when omitted.
 
 	insertEntry(
 		entry: Omit<KnowledgeEntry, "embedding"> & { embedding?: number[] },
+		actor?: RevisionActor,
 	): Promise<void>;
 
 	/**
@@ -135,15 +206,23 @@ export interface IKnowledgeStore {
 	 * Use `KnowledgeService.updateEntry` instead — it automatically re-embeds when
 	 * semantic fields change, keeping the stored vector in sync.
 	 */
-	updateEntry(id: string, updates: Partial<KnowledgeEntry>): Promise<void>;
+	updateEntry(
+		id: string,
+		updates: Partial<KnowledgeEntry>,
+		actor?: RevisionActor,
+	): Promise<void>;
 
 	getEntry(id: string): Promise<KnowledgeEntry | null>;
 
 	getActiveEntries(): Promise<KnowledgeEntry[]>;
 
-	getActiveEntriesWithEmbeddings(): Promise<
-		Array<KnowledgeEntry & { embedding: number[] }>
-	>;
+	/**
+	 * Entries with an embedding, strongest first. statuses defaults to
+	 * ['active', 'conflicted']; activation passes its includeStatuses filter.
+	 */
+	getActiveEntriesWithEmbeddings(
+		statuses?: KnowledgeStatus[],
+	): Promise<Array<KnowledgeEntry & { embedding: number[] }>>;
 
 	getOneEntryWithEmbedding(): Promise<
 		(KnowledgeEntry & { embedding: number[] }) | null
@@ -160,6 +239,17 @@ export interface IKnowledgeStore {
 		type?: string;
 	}): Promise<KnowledgeEntry[]>;
 
+	/**
+	 * One page of entries matching the query, in (sort key, id) descending
+	 * order, starting after `query.after`. Filters run in the database.
+	 */
+	listEntries(query: EntryListQuery): Promise<KnowledgeEntry[]>;
+
+	/** Number of entries matching the query's filters (sort and paging ignored). */
+	countEntries(
+		query: Omit<EntryListQuery, "sort" | "after" | "limit">,
+	): Promise<number>;
+
 	recordAccess(id: string): Promise<void>;
 
 	reinforceObservation(id: string): Promise<void>;
@@ -205,10 +295,28 @@ export interface IKnowledgeStore {
 			topics: string[];
 			confidence: number;
 		},
+		actor?: RevisionActor,
 	): Promise<void>;
 
 	deleteEntry(id: string): Promise<boolean>;
 
+	/**
+	 * Apply the writes in order in one transaction — either all of them land or
+	 * none do. Backs POST /entries/bulk.
+	 */
+	applyEntryBatch(
+		writes: EntryBatchWrite[],
+		actor?: RevisionActor,
+	): Promise<void>;
+
+	// ── Revisions ──
+
+	/**
+	 * Revision history of an entry, oldest first. Empty when the entry does not
+	 * exist. Deleting an entry deletes its history.
+	 */
+	getRevisions(entryId: string): Promise<EntryRevision[]>;
+
 	// ── Relations ──
 
 	insertRelation(relation: KnowledgeRelation): Promise<void>;
@@ -233,6 +341,7 @@ export interface IKnowledgeStore {
 			additionalSources: string[];
 		},
 		embedding?: number[],
+		actor?: RevisionActor,
 	): Promise<void>;
 
 	/**
@@ -325,16 +434,52 @@ export interface IKnowledgeStore {
 	 * PostgresKnowledgeDB when the pgvector extension is available.
 	 *
 	 * Always check isVectorSearchReady() first — returns [] when not ready.
+	 *
+	 * `filters` (type, topic, minConfidence) are applied in the same query, so
+	 * the `limit` nearest entries are the nearest entries that match them.
 	 */
 	findSimilarEntries?(
 		queryVector: number[],
 		limit: number,
 		threshold: number,
 		statuses?: KnowledgeStatus[],
+		filters?: EntryFilters,
 	): Promise<
 		Array<{ entry: KnowledgeEntry & { embedding: number[] }; similarity: number }>
 	>;
 
+	// ── Lexical Search (optional) ───────────────────────────────────────────
+	//
+	// Full-text search over entry content and topics, used by ActivationEngine
+	// for hybrid retrieval: lexical and vector rankings are combined with
+	// reciprocal rank fusion so exact identifiers (field IDs, table names, env
+	// var names) activate even when their embedding similarity is low.
+	//
+	// Query terms come from extractLexicalTerms() (src/db/lexical.ts) and are
+	// OR-ed. `score` is backend-specific (negated BM25 on SQLite FTS5,
+	// ts_rank_cd on Postgres) — higher is better, but only the ordering is
+	// meaningful, so callers merge results from several stores by rank.
+	// Returned entries include their embedding when one is stored so callers
+	// can still compute a cosine similarity.
+
+	/**
+	 * Return up to `limit` entries matching `query`, best match first.
+	 * Returns [] when the query has no searchable terms.
+	 *
+	 * statuses defaults to ['active', 'conflicted'] (same as findSimilarEntries).
+	 * Entry filters (type, topic, minConfidence) are applied before the limit,
+	 * as in findSimilarEntries.
+	 *
+	 * Optional — implemented by KnowledgeDB (FTS5) and PostgresKnowledgeDB
+	 * (tsvector GIN index). When absent, activation is vector-only for that store.
+	 */
+	searchLexical?(
+		query: string,
+		limit: number,
+		statuses?: KnowledgeStatus[],
+		filters?: EntryFilters,
+	): Promise<Array<{ entry: KnowledgeEntry; score: number }>>;
+
 	// ── Consolidation Lock ──────────────────────────────────────────────────
 	// Per-store advisory lock that prevents concurrent consolidation runs across
 	// different processes targeting the same physical database.
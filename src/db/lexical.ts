@@ -0,0 +1,115 @@
+/**
+ * Query-term extraction for full-text (lexical) search.
+ *
+ * Shared by the SQLite (FTS5) and Postgres (tsvector) implementations of
+ * IKnowledgeStore.searchLexical so both backends match on the same terms.
+ * Each backend formats the terms into its own query syntax. The substring
+ * pattern for filtered entry listings (listEntries) lives here too.
+ *
+ * Terms are OR-ed by the backends — a prompt rarely contains every word of
+ * the entry it should recall. Stopwords are dropped because under OR
+ * semantics they would match nearly every entry and add noise to the
+ * lexical ranking.
+ */
+
+const STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"but",
+	"by",
+	"can",
+	"do",
+	"does",
+	"for",
+	"from",
+	"how",
+	"i",
+	"if",
+	"in",
+	"into",
+	"is",
+	"it",
+	"its",
+	"me",
+	"my",
+	"no",
+	"not",
+	"of",
+	"on",
+	"or",
+	"our",
+	"so",
+	"that",
+	"the",
+	"their",
+	"then",
+	"there",
+	"these",
+	"this",
+	"to",
+	"us",
+	"was",
+	"we",
+	"what",
+	"when",
+	"where",
+	"which",
+	"who",
+	"why",
+	"will",
+	"with",
+	"you",
+	"your",
+]);
+
+/** Cap on terms per query — keeps generated MATCH / tsquery strings bounded. */
+const MAX_TERMS = 32;
+
+/**
+ * Split a query into lowercase search terms.
+ *
+ * Underscores are kept inside terms so identifiers like `customfield_10234`
+ * or `DATABASE_URL` survive as one term; backends treat them as phrases of
+ * their sub-tokens. Single characters and stopwords are dropped.
+ */
+export function extractLexicalTerms(query: string): string[] {
+	const terms = tokenize(query).filter(
+		(t) => t.length >= 2 && !STOPWORDS.has(t),
+	);
+	return [...new Set(terms)].slice(0, MAX_TERMS);
+}
+
+/**
+ * Whether a term looks like an identifier — it contains a digit or an
+ * underscore (`customfield_10234`, `DATABASE_URL`, `PROJ-1234`'s `1234`).
+ * Such terms are specific enough that one shared term is a real match;
+ * an ordinary word shared by two texts is not.
+ */
+export function isIdentifierLike(term: string): boolean {
+	return /[\d_]/.test(term);
+}
+
+/** The lowercase terms of `text`, split the same way as query terms. */
+export function textTerms(text: string): Set<string> {
+	return new Set(tokenize(text));
+}
+
+function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}_]+/u)
+		.map((t) => t.replace(/^_+|_+$/g, ""));
+}
+
+/**
+ * LIKE pattern matching `text` anywhere in a column, for substring search.
+ * `%`, `_` and backslash are escaped — use with `ESCAPE '\'`.
+ */
+export function containsPattern(text: string): string {
+	return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
@@ -3,18 +3,29 @@ import postgres from "postgres";
 import { logger } from "../../logger.js";
 import { clampKnowledgeType } from "../../types.js";
 import type {
+	EntryBatchWrite,
+	EntryFilters,
+	EntryListQuery,
+	EntryRevision,
+	EntrySort,
 	KnowledgeEntry,
 	KnowledgeRelation,
 	KnowledgeStatus,
+	RevisionActor,
 } from "../../types.js";
 import type { IKnowledgeStore } from "../interface.js";
+import { containsPattern, extractLexicalTerms } from "../lexical.js";
 import {
 	bufferToFloats,
 	floatsToBuffer,
 	floatsToVectorLiteral,
 } from "./embedding-codec.js";
 import { PG_MIGRATIONS } from "./migrations.js";
-import { PG_CREATE_TABLES, SCHEMA_VERSION } from "./schema.js";
+import {
+	PG_CREATE_TABLES,
+	PG_ENTRY_TSVECTOR,
+	SCHEMA_VERSION,
+} from "./schema.js";
 
 /**
  * TypeScript's `Omit` on interfaces strips call signatures.
@@ -45,6 +56,7 @@ interface RawEntryRow {
 	superseded_by: string | null;
 	derived_from: string[] | string;
 	is_synthesized: number | string;
+	directory: string | null;
 	embedding: Buffer | Uint8Array | null;
 }
 
@@ -56,6 +68,59 @@ function toNum(val: number | string): number {
 	return typeof val === "string" ? Number(val) : val;
 }
 
+/** Column each listEntries() sort key orders by. */
+const ENTRY_SORT_COLUMNS: Record<EntrySort, string> = {
+	updatedAt: "updated_at",
+	strength: "strength",
+	accessCount: "access_count",
+};
+
+/** WHERE conditions ($1-numbered) for the filters of an entry listing. */
+function entryListConditions(
+	query: Omit<EntryListQuery, "sort" | "after" | "limit">,
+): { conditions: string[]; values: unknown[] } {
+	const conditions: string[] = [];
+	const values: unknown[] = [];
+
+	if (query.status) {
+		values.push(query.status);
+		conditions.push(`status = $${values.length}`);
+	}
+	if (query.type) {
+		values.push(query.type);
+		conditions.push(`type = $${values.length}`);
+	}
+	if (query.topic && query.topic.length > 0) {
+		values.push(query.topic.map((t) => t.toLowerCase()));
+		conditions.push(
+			`EXISTS (SELECT 1 FROM jsonb_array_elements_text(topics) AS t(topic) WHERE lower(t.topic) = ANY($${values.length}::text[]))`,
+		);
+	}
+	if (query.q) {
+		values.push(containsPattern(query.q));
+		conditions.push(`content ILIKE $${values.length} ESCAPE '\\'`);
+	}
+	return { conditions, values };
+}
+
+/**
+ * Build an OR tsquery string from extractLexicalTerms() output, or null when
+ * there are no terms. Terms contain only letters, digits and underscores, so
+ * quoting each sub-token as a lexeme cannot produce tsquery syntax errors.
+ */
+function toOrTsquery(terms: string[]): string | null {
+	const clauses = terms
+		.map((t) =>
+			t
+				.split("_")
+				.filter((part) => part.length > 0)
+				.map((part) => `'${part}'`)
+				.join(" <-> "),
+		)
+		.filter((c) => c.length > 0);
+	return clauses.length > 0 ? clauses.map((c) => `(${c})`).join(" | ") : null;
+}
+
 /**
  * PostgreSQL database layer for the knowledge graph.
  *
@@ -266,6 +331,7 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 					await sql`DROP TABLE IF EXISTS knowledge_cluster_member CASCADE`;
 					await sql`DROP TABLE IF EXISTS knowledge_cluster CASCADE`;
 					await sql`DROP TABLE IF EXISTS knowledge_relation CASCADE`;
+					await sql`DROP TABLE IF EXISTS entry_revision CASCADE`;
 					await sql`DROP TABLE IF EXISTS knowledge_entry CASCADE`;
 					await sql`DROP TABLE IF EXISTS embedding_metadata CASCADE`;
 					// Drop staging tables that may exist from pre-v14 Postgres schemas.
@@ -517,6 +583,7 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 			supersededBy: row.superseded_by,
 			derivedFrom: Array.isArray(derivedFrom) ? derivedFrom : [],
 			isSynthesized: toNum(row.is_synthesized) === 1,
+			directory: row.directory ?? null,
 			embedding,
 		};
 	}
@@ -525,6 +592,28 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 
 	async insertEntry(
 		entry: Omit<KnowledgeEntry, "embedding"> & { embedding?: number[] },
+		actor: RevisionActor = "consolidation",
+	): Promise<void> {
+		await this.sql.begin((sql: TxSql) =>
+			this.insertEntryWith(sql, entry, actor),
+		);
+	}
+
+	async updateEntry(
+		id: string,
+		updates: Partial<KnowledgeEntry>,
+		actor: RevisionActor = "consolidation",
+	): Promise<void> {
+		await this.sql.begin((sql: TxSql) =>
+			this.updateEntryWith(sql, id, updates, actor),
+		);
+	}
+
+	/** Insert an entry and its first revision. Call inside a transaction. */
+	private async insertEntryWith(
+		sql: TxSql,
+		entry: Omit<KnowledgeEntry, "embedding"> & { embedding?: number[] },
+		actor: RevisionActor,
 	): Promise<void> {
 		const embeddingBuf = entry.embedding
 			? floatsToBuffer(entry.embedding)
@@ -539,14 +628,14 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 		// embedding_metadata to be set first). Referencing a non-existent column
 		// in the column list causes an immediate SQL error regardless of the value.
 		if (this.pgvectorReady && embeddingVec !== null) {
-			await this.sql.unsafe(
+			await sql.unsafe(
 				`INSERT INTO knowledge_entry
 				(id, type, content, topics, confidence, source, status, strength,
 				 created_at, updated_at, last_accessed_at, access_count, observation_count,
-				 superseded_by, derived_from, is_synthesized, embedding, embedding_vec)
+				 superseded_by, derived_from, is_synthesized, directory, embedding, embedding_vec)
 				VALUES (
 					$1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9, $10, $11, $12, $13,
-					$14, $15::jsonb, $16, $17, $18::vector
+					$14, $15::jsonb, $16, $17, $18, $19::vector
 				)`,
 				[
 					entry.id, entry.type, entry.content,
@@ -555,19 +644,19 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 					entry.strength, entry.createdAt, entry.updatedAt,
 					entry.lastAccessedAt, entry.accessCount, entry.observationCount,
 					entry.supersededBy, this.sql.json(entry.derivedFrom),
-					entry.isSynthesized ? 1 : 0, embeddingBuf,
-					embeddingVec,
+					entry.isSynthesized ? 1 : 0, entry.directory ?? null,
+					embeddingBuf, embeddingVec,
 				] as postgres.ParameterOrJSON<never>[],
 			);
 		} else {
-			await this.sql.unsafe(
+			await sql.unsafe(
 				`INSERT INTO knowledge_entry
 				(id, type, content, topics, confidence, source, status, strength,
 				 created_at, updated_at, last_accessed_at, access_count, observation_count,
-				 superseded_by, derived_from, is_synthesized, embedding)
+				 superseded_by, derived_from, is_synthesized, directory, embedding)
 				VALUES (
 					$1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9, $10, $11, $12, $13,
-					$14, $15::jsonb, $16, $17
+					$14, $15::jsonb, $16, $17, $18
 				)`,
 				[
 					entry.id, entry.type, entry.content,
@@ -576,21 +665,30 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 					entry.strength, entry.createdAt, entry.updatedAt,
 					entry.lastAccessedAt, entry.accessCount, entry.observationCount,
 					entry.supersededBy, this.sql.json(entry.derivedFrom),
-					entry.isSynthesized ? 1 : 0, embeddingBuf,
+					entry.isSynthesized ? 1 : 0, entry.directory ?? null,
+					embeddingBuf,
 				] as postgres.ParameterOrJSON<never>[],
 			);
 		}
+		await this.recordRevisionWith(sql, entry.id, actor);
 	}
 
-	async updateEntry(
+	/** Update an entry, recording a revision when needed. Call inside a transaction. */
+	private async updateEntryWith(
+		sql: TxSql,
 		id: string,
 		updates: Partial<KnowledgeEntry>,
+		actor: RevisionActor,
 	): Promise<void> {
 		// Build SET clause dynamically. We use sql.unsafe for the dynamic query.
 		const setClauses: string[] = [];
 		const values: unknown[] = [];
 		let idx = 1;
 
+		if (updates.type !== undefined) {
+			setClauses.push(`type = $${idx++}`);
+			values.push(updates.type);
+		}
 		if (updates.content !== undefined) {
 			setClauses.push(`content = $${idx++}`);
 			values.push(updates.content);
@@ -607,6 +705,10 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 			setClauses.push(`status = $${idx++}`);
 			values.push(updates.status);
 		}
+		if (updates.source !== undefined) {
+			setClauses.push(`source = $${idx++}`);
+			values.push(updates.source);
+		}
 		if (updates.strength !== undefined) {
 			setClauses.push(`strength = $${idx++}`);
 			values.push(updates.strength);
@@ -635,10 +737,19 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 
 		values.push(id);
 
-		await this.sql.unsafe(
+		await sql.unsafe(
 			`UPDATE knowledge_entry SET ${setClauses.join(", ")} WHERE id = $${idx}`,
 			values as postgres.ParameterOrJSON<never>[],
 		);
+
+		if (
+			updates.type !== undefined ||
+			updates.content !== undefined ||
+			updates.topics !== undefined ||
+			updates.status !== undefined
+		) {
+			await this.recordRevisionWith(sql, id, actor);
+		}
 	}
 
 	async getEntry(id: string): Promise<KnowledgeEntry | null> {
@@ -656,12 +767,12 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 		return (rows as unknown as RawEntryRow[]).map((r) => this.rowToEntry(r));
 	}
 
-	async getActiveEntriesWithEmbeddings(): Promise<
-		Array<KnowledgeEntry & { embedding: number[] }>
-	> {
+	async getActiveEntriesWithEmbeddings(
+		statuses: KnowledgeStatus[] = ["active", "conflicted"],
+	): Promise<Array<KnowledgeEntry & { embedding: number[] }>> {
 		const rows = await this.sql`
 			SELECT * FROM knowledge_entry
-			WHERE status IN ('active', 'conflicted') AND embedding IS NOT NULL
+			WHERE status = ANY(${statuses}::text[]) AND embedding IS NOT NULL
 			ORDER BY strength DESC
 		`;
 		return (rows as unknown as RawEntryRow[])
@@ -736,6 +847,46 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 		return (rows as unknown as RawEntryRow[]).map((r) => this.rowToEntry(r));
 	}
 
+	/**
+	 * One page of a filtered entry listing. Keyset pagination on
+	 * (sort column, id) keeps deep pages as cheap as the first. IDs compare
+	 * bytewise (COLLATE "C") so the order matches SQLite's and the server's
+	 * merge across stores.
+	 */
+	async listEntries(query: EntryListQuery): Promise<KnowledgeEntry[]> {
+		const { conditions, values } = entryListConditions(query);
+		const column = ENTRY_SORT_COLUMNS[query.sort];
+		if (query.after) {
+			const v = values.length + 1;
+			conditions.push(
+				`(${column} < $${v} OR (${column} = $${v} AND id COLLATE "C" < $${v + 1}))`,
+			);
+			values.push(query.after.value, query.after.id);
+		}
+		values.push(query.limit);
+
+		const where =
+			conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+		const rows = await this.sql.unsafe(
+			`SELECT * FROM knowledge_entry ${where} ORDER BY ${column} DESC, id COLLATE "C" DESC LIMIT $${values.length}`,
+			values as postgres.ParameterOrJSON<never>[],
+		);
+		return (rows as unknown as RawEntryRow[]).map((r) => this.rowToEntry(r));
+	}
+
+	async countEntries(
+		query: Omit<EntryListQuery, "sort" | "after" | "limit">,
+	): Promise<number> {
+		const { conditions, values } = entryListConditions(query);
+		const where =
+			conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+		const [row] = await this.sql.unsafe(
+			`SELECT COUNT(*) AS count FROM knowledge_entry ${where}`,
+			values as postgres.ParameterOrJSON<never>[],
+		);
+		return toNum(row.count);
+	}
+
 	async recordAccess(id: string): Promise<void> {
 		const now = Date.now();
 		await this.sql`
@@ -809,10 +960,18 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 			topics: string[];
 			confidence: number;
 		},
+		actor: RevisionActor = "consolidation",
 	): Promise<void> {
 		const now = Date.now();
 
 		await this.sql.begin(async (sql: TxSql) => {
+			// Every entry whose status or content the resolution may change.
+			const touched = [
+				newEntryId,
+				existingEntryId,
+				await this.findConflictCounterpart(sql, newEntryId),
+				await this.findConflictCounterpart(sql, existingEntryId),
+			];
 			switch (resolution) {
 				case "supersede_old": {
 					const loserPartner = await this.findConflictCounterpart(
@@ -965,6 +1124,9 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 					`;
 					break;
 			}
+			for (const id of touched) {
+				if (id) await this.recordRevisionWith(sql, id, actor);
+			}
 		});
 	}
 
@@ -1002,15 +1164,118 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 	}
 
 	async deleteEntry(id: string): Promise<boolean> {
-		return await this.sql.begin(async (sql: TxSql) => {
+		return await this.sql.begin((sql: TxSql) => this.deleteEntryWith(sql, id));
+	}
+
+	/** Delete an entry, its relations and its history. Call inside a transaction. */
+	private async deleteEntryWith(sql: TxSql, id: string): Promise<boolean> {
+		await sql`
+			DELETE FROM knowledge_relation WHERE source_id = ${id} OR target_id = ${id}
+		`;
+		await sql`DELETE FROM entry_revision WHERE entry_id = ${id}`;
+		const result = await sql`
+			DELETE FROM knowledge_entry WHERE id = ${id}
+		`;
+		return result.count > 0;
+	}
+
+	async applyEntryBatch(
+		writes: EntryBatchWrite[],
+		actor: RevisionActor = "consolidation",
+	): Promise<void> {
+		await this.sql.begin(async (sql: TxSql) => {
+			for (const write of writes) {
+				switch (write.kind) {
+					case "insert":
+						await this.insertEntryWith(sql, write.entry, actor);
+						if (write.revisions) {
+							await this.replaceRevisionsWith(
+								sql,
+								write.entry.id,
+								write.revisions,
+							);
+						}
+						break;
+					case "update":
+						await this.updateEntryWith(sql, write.id, write.updates, actor);
+						break;
+					case "delete":
+						await this.deleteEntryWith(sql, write.id);
+						break;
+				}
+			}
+		});
+	}
+
+	// ── Revisions ──
+
+	async getRevisions(entryId: string): Promise<EntryRevision[]> {
+		const rows = await this.sql`
+			SELECT * FROM entry_revision WHERE entry_id = ${entryId} ORDER BY revision
+		`;
+		return rows.map((row: Record<string, unknown>) => ({
+			entryId: row.entry_id as string,
+			revision: toNum(row.revision as number | string),
+			type: row.type as EntryRevision["type"],
+			content: row.content as string,
+			topics:
+				typeof row.topics === "string"
+					? JSON.parse(row.topics)
+					: (row.topics as string[]),
+			status: row.status as EntryRevision["status"],
+			actor: row.actor as RevisionActor,
+			createdAt: toNum(row.created_at as number | string),
+		}));
+	}
+
+	/**
+	 * Append a revision with the entry's current type, content, topics and
+	 * status — unless they match its latest revision, so callers can record
+	 * after any write. Call inside a transaction.
+	 */
+	private async recordRevisionWith(
+		sql: TxSql,
+		id: string,
+		actor: RevisionActor,
+	): Promise<void> {
+		await sql`
+			INSERT INTO entry_revision
+			(entry_id, revision, type, content, topics, status, actor, created_at)
+			SELECT e.id, COALESCE(l.revision, 0) + 1, e.type, e.content, e.topics,
+			       e.status, ${actor}, ${Date.now()}
+			FROM knowledge_entry e
+			LEFT JOIN LATERAL (
+				SELECT * FROM entry_revision r
+				WHERE r.entry_id = e.id
+				ORDER BY r.revision DESC
+				LIMIT 1
+			) l ON true
+			WHERE e.id = ${id}
+			  AND (l.revision IS NULL
+			       OR (l.type, l.content, l.topics, l.status)
+			          IS DISTINCT FROM (e.type, e.content, e.topics, e.status))
+			ON CONFLICT DO NOTHING
+		`;
+	}
+
+	/**
+	 * Replace an entry's history with `revisions` (carried over from another
+	 * store). Call inside a transaction.
+	 */
+	private async replaceRevisionsWith(
+		sql: TxSql,
+		id: string,
+		revisions: EntryRevision[],
+	): Promise<void> {
+		await sql`DELETE FROM entry_revision WHERE entry_id = ${id}`;
+		for (const r of revisions) {
 			await sql`
-				DELETE FROM knowledge_relation WHERE source_id = ${id} OR target_id = ${id}
-			`;
-			const result = await sql`
-				DELETE FROM knowledge_entry WHERE id = ${id}
+				INSERT INTO entry_revision
+				(entry_id, revision, type, content, topics, status, actor, created_at)
+				VALUES (${id}, ${r.revision}, ${r.type}, ${r.content},
+				        ${this.sql.json(r.topics)}, ${r.status}, ${r.actor}, ${r.createdAt})
 			`;
-			return result.count > 0;
-		});
+		}
 	}
 
 	// ── Relations ──
@@ -1102,6 +1367,7 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 			additionalSources: string[];
 		},
 		embedding?: number[],
+		actor: RevisionActor = "consolidation",
 	): Promise<void> {
 		const existing = await this.getEntry(id);
 		if (!existing) return;
@@ -1117,79 +1383,82 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 				: null;
 		const now = Date.now();
 
-		// Three-way branch on pgvectorReady + whether an embedding was provided:
-		//   A) pgvectorReady + embedding provided → set both BYTEA and vector columns
-		//   B) pgvectorReady + no embedding       → null both columns (keeps them in sync)
-		//   C) !pgvectorReady                     → omit embedding_vec (column absent)
-		if (this.pgvectorReady && embeddingVec !== null) {
-			// Case A: write new embedding to both columns.
-			await this.sql.unsafe(
-				`UPDATE knowledge_entry
-				SET content = $1, type = $2,
-				    topics = $3::jsonb,
-				    confidence = $4,
-				    derived_from = $5::jsonb,
-				    updated_at = $6, last_accessed_at = $6,
-				    observation_count = observation_count + 1,
-				    embedding = $7,
-				    embedding_vec = $8::vector
-				WHERE id = $9`,
-				[
-					updates.content, safeType,
-					this.sql.json(updates.topics),
-					updates.confidence,
-					this.sql.json(mergedSources),
-					now, embeddingBuf,
-					embeddingVec,
-					id,
-				] as postgres.ParameterOrJSON<never>[],
-			);
-		} else if (this.pgvectorReady) {
-			// Case B: no embedding provided but column exists — null both to keep in sync.
-			// Without this, embedding (BYTEA) → NULL but embedding_vec retains its old
-			// value, causing ANN queries to return stale results until ensureEmbeddings runs.
-			await this.sql.unsafe(
-				`UPDATE knowledge_entry
-				SET content = $1, type = $2,
-				    topics = $3::jsonb,
-				    confidence = $4,
-				    derived_from = $5::jsonb,
-				    updated_at = $6, last_accessed_at = $6,
-				    observation_count = observation_count + 1,
-				    embedding = $7,
-				    embedding_vec = NULL
-				WHERE id = $8`,
-				[
-					updates.content, safeType,
-					this.sql.json(updates.topics),
-					updates.confidence,
-					this.sql.json(mergedSources),
-					now, embeddingBuf,
-					id,
-				] as postgres.ParameterOrJSON<never>[],
-			);
-		} else {
-			// Case C: embedding_vec column doesn't exist yet — omit it entirely.
-			await this.sql.unsafe(
-				`UPDATE knowledge_entry
-				SET content = $1, type = $2,
-				    topics = $3::jsonb,
-				    confidence = $4,
-				    derived_from = $5::jsonb,
-				    updated_at = $6, last_accessed_at = $6,
-				    observation_count = observation_count + 1,
-				    embedding = $7
-				WHERE id = $8`,
-				[
-					updates.content, safeType,
-					this.sql.json(updates.topics),
-					updates.confidence,
-					this.sql.json(mergedSources),
-					now, embeddingBuf,
-					id,
-				] as postgres.ParameterOrJSON<never>[],
-			);
-		}
+		await this.sql.begin(async (sql: TxSql) => {
+			// Three-way branch on pgvectorReady + whether an embedding was provided:
+			//   A) pgvectorReady + embedding provided → set both BYTEA and vector columns
+			//   B) pgvectorReady + no embedding       → null both columns (keeps them in sync)
+			//   C) !pgvectorReady                     → omit embedding_vec (column absent)
+			if (this.pgvectorReady && embeddingVec !== null) {
+				// Case A: write new embedding to both columns.
+				await sql.unsafe(
+					`UPDATE knowledge_entry
+					SET content = $1, type = $2,
+					    topics = $3::jsonb,
+					    confidence = $4,
+					    derived_from = $5::jsonb,
+					    updated_at = $6, last_accessed_at = $6,
+					    observation_count = observation_count + 1,
+					    embedding = $7,
+					    embedding_vec = $8::vector
+					WHERE id = $9`,
+					[
+						updates.content, safeType,
+						this.sql.json(updates.topics),
+						updates.confidence,
+						this.sql.json(mergedSources),
+						now, embeddingBuf,
+						embeddingVec,
+						id,
+					] as postgres.ParameterOrJSON<never>[],
+				);
+			} else if (this.pgvectorReady) {
+				// Case B: no embedding provided but column exists — null both to keep in sync.
+				// Without this, embedding (BYTEA) → NULL but embedding_vec retains its old
+				// value, causing ANN queries to return stale results until ensureEmbeddings runs.
+				await sql.unsafe(
+					`UPDATE knowledge_entry
+					SET content = $1, type = $2,
+					    topics = $3::jsonb,
+					    confidence = $4,
+					    derived_from = $5::jsonb,
+					    updated_at = $6, last_accessed_at = $6,
+					    observation_count = observation_count + 1,
+					    embedding = $7,
+					    embedding_vec = NULL
+					WHERE id = $8`,
+					[
+						updates.content, safeType,
+						this.sql.json(updates.topics),
+						updates.confidence,
+						this.sql.json(mergedSources),
+						now, embeddingBuf,
+						id,
+					] as postgres.ParameterOrJSON<never>[],
+				);
+			} else {
+				// Case C: embedding_vec column doesn't exist yet — omit it entirely.
+				await sql.unsafe(
+					`UPDATE knowledge_entry
+					SET content = $1, type = $2,
+					    topics = $3::jsonb,
+					    confidence = $4,
+					    derived_from = $5::jsonb,
+					    updated_at = $6, last_accessed_at = $6,
+					    observation_count = observation_count + 1,
+					    embedding = $7
+					WHERE id = $8`,
+					[
+						updates.content, safeType,
+						this.sql.json(updates.topics),
+						updates.confidence,
+						this.sql.json(mergedSources),
+						now, embeddingBuf,
+						id,
+					] as postgres.ParameterOrJSON<never>[],
+				);
+			}
+			await this.recordRevisionWith(sql, id, actor);
+		});
 	}
 
 	async reinitialize(): Promise<void> {
@@ -1197,6 +1466,7 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 			await sql`DELETE FROM knowledge_cluster_member`;
 			await sql`DELETE FROM knowledge_cluster`;
 			await sql`DELETE FROM knowledge_relation`;
+			await sql`DELETE FROM entry_revision`;
 			await sql`DELETE FROM knowledge_entry`;
 			await sql`DELETE FROM embedding_metadata`;
 		});
@@ -1425,6 +1695,7 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 		limit: number,
 		threshold: number,
 		statuses: KnowledgeStatus[] = ["active", "conflicted"],
+		filters: EntryFilters = {},
 	): Promise<
 		Array<{ entry: KnowledgeEntry & { embedding: number[] }; similarity: number }>
 	> {
@@ -1438,8 +1709,15 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 		const maxDist = 1 - threshold; // distance <= maxDist ↔ similarity >= threshold
 		// Keep ANN candidate selection index-friendly by avoiding status filtering
 		// in the ANN step. We over-sample candidates, then apply status + exact
-		// threshold/rerank in the outer query.
-		const annCandidates = Math.max(limit * 16, 200);
+		// threshold/rerank in the outer query. Entry filters (type, topic,
+		// minConfidence) are applied in the outer query too; NULL parameters
+		// disable them. Selective filters over-sample further so the nearest
+		// matching entries are not crowded out of the candidate set.
+		const hasEntryFilters =
+			filters.type !== undefined ||
+			filters.topic !== undefined ||
+			filters.minConfidence !== undefined;
+		const annCandidates = Math.max(limit * (hasEntryFilters ? 64 : 16), 200);
 		const rows = await this.sql.unsafe(
 			`WITH candidate_ids AS (
 			   SELECT id
@@ -1453,6 +1731,12 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 			 JOIN candidate_ids c ON c.id = ke.id
 			 WHERE ke.status = ANY($3::text[])
 			   AND ke.embedding_vec <=> $4::vector <= $5
+			   AND ($7::text[] IS NULL OR ke.type = ANY($7::text[]))
+			   AND ($8::text[] IS NULL OR EXISTS (
+			     SELECT 1 FROM jsonb_array_elements_text(ke.topics) AS t(topic)
+			     WHERE lower(t.topic) = ANY($8::text[])
+			   ))
+			   AND ($9::double precision IS NULL OR ke.confidence >= $9)
 			 ORDER BY ke.embedding_vec <=> $4::vector
 			 LIMIT $6`,
 			[
@@ -1462,6 +1746,9 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 				vectorLiteral,
 				maxDist,
 				limit,
+				filters.type ?? null,
+				filters.topic?.map((t) => t.toLowerCase()) ?? null,
+				filters.minConfidence ?? null,
 			] as postgres.ParameterOrJSON<never>[],
 		);
 
@@ -1549,6 +1836,55 @@ export class PostgresKnowledgeDB implements IKnowledgeStore {
 			);
 	}
 
+	// ── Lexical Search ──
+
+	/**
+	 * Full-text search over content + topics using the idx_entry_fts GIN index.
+	 *
+	 * Terms are OR-ed. A term containing underscores (e.g. `customfield_10234`)
+	 * becomes a phrase of its sub-tokens, since the 'simple' parser splits on
+	 * underscores. score is ts_rank_cd — higher means more relevant.
+	 */
+	async searchLexical(
+		query: string,
+		limit: number,
+		statuses: KnowledgeStatus[] = ["active", "conflicted"],
+		filters: EntryFilters = {},
+	): Promise<Array<{ entry: KnowledgeEntry; score: number }>> {
+		const tsquery = toOrTsquery(extractLexicalTerms(query));
+		if (!tsquery) return [];
+
+		const rows = await this.sql.unsafe(
+			`SELECT *, ts_rank_cd(${PG_ENTRY_TSVECTOR}, to_tsquery('simple', $1)) AS lexical_score
+			 FROM knowledge_entry
+			 WHERE ${PG_ENTRY_TSVECTOR} @@ to_tsquery('simple', $1)
+			   AND status = ANY($2::text[])
+			   AND ($4::text[] IS NULL OR type = ANY($4::text[]))
+			   AND ($5::text[] IS NULL OR EXISTS (
+			     SELECT 1 FROM jsonb_array_elements_text(topics) AS t(topic)
+			     WHERE lower(t.topic) = ANY($5::text[])
+			   ))
+			   AND ($6::double precision IS NULL OR confidence >= $6)
+			 ORDER BY lexical_score DESC
+			 LIMIT $3`,
+			[
+				tsquery,
+				statuses,
+				limit,
+				filters.type ?? null,
+				filters.topic?.map((t) => t.toLowerCase()) ?? null,
+				filters.minConfidence ?? null,
+			] as postgres.ParameterOrJSON<never>[],
+		);
+
+		return (rows as unknown as (RawEntryRow & { lexical_score: number })[]).map(
+			(r) => ({
+				entry: this.rowToEntry(r),
+				score: Number(r.lexical_score),
+			}),
+		);
+	}
+
 	// ── Consolidation Lock ────────────────────────────────────────────────────
 
 	async tryAcquireConsolidationLock(): Promise<boolean> {
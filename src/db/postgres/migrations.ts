@@ -3,6 +3,7 @@ import {
 	bufferToFloats,
 	floatsToVectorLiteral,
 } from "./embedding-codec.js";
+import { PG_ENTRY_TSVECTOR } from "./schema.js";
 
 // biome-ignore lint: TS limitation with Omit stripping call signatures from postgres Sql
 type TxSql = any;
@@ -533,4 +534,65 @@ export const PG_MIGRATIONS: Array<{
 			}
 		},
 	},
+	{
+		version: 18,
+		label: "add full-text GIN index for hybrid activation",
+		up: async (sql: TxSql) => {
+			// Expression index — no new column, so no backfill is needed and
+			// writes keep the index current without triggers.
+			await sql.unsafe(
+				`CREATE INDEX IF NOT EXISTS idx_entry_fts ON knowledge_entry USING GIN (${PG_ENTRY_TSVECTOR})`,
+			);
+		},
+	},
+	{
+		version: 19,
+		label: "add directory column to knowledge_entry",
+		up: async (sql: TxSql) => {
+			const cols = await sql`
+				SELECT column_name FROM information_schema.columns
+				WHERE table_name = 'knowledge_entry'
+				  AND column_name = 'directory'
+			`;
+			if (cols.length === 0) {
+				await sql`ALTER TABLE knowledge_entry ADD COLUMN directory TEXT`;
+			}
+		},
+	},
+	{
+		version: 20,
+		label: "add entry_revision history table",
+		up: async (sql: TxSql) => {
+			await sql`
+				CREATE TABLE IF NOT EXISTS entry_revision (
+					entry_id TEXT NOT NULL REFERENCES knowledge_entry(id) ON DELETE CASCADE,
+					revision INTEGER NOT NULL,
+					type TEXT NOT NULL,
+					content TEXT NOT NULL,
+					topics JSONB NOT NULL DEFAULT '[]',
+					status TEXT NOT NULL,
+					actor TEXT NOT NULL,
+					created_at BIGINT NOT NULL,
+					PRIMARY KEY (entry_id, revision)
+				)
+			`;
+			// Baseline: the current state of every entry is its first revision.
+			await sql`
+				INSERT INTO entry_revision
+				(entry_id, revision, type, content, topics, status, actor, created_at)
+				SELECT id, 1, type, content, topics, status, 'migration', ${Date.now()}
+				FROM knowledge_entry
+				ON CONFLICT DO NOTHING
+			`;
+		},
+	},
+	{
+		version: 21,
+		label: "FTS rowid mapping — no-op for Postgres (SQLite-only table)",
+		up: async (_sql: TxSql) => {
+			// v21 adds knowledge_entry_fts_rowid so the SQLite FTS5 triggers can
+			// delete by rowid. The Postgres full-text index is an expression
+			// index maintained by the database itself; nothing to change here.
+		},
+	},
 ];
@@ -23,6 +23,17 @@
 
 export { SCHEMA_VERSION } from "../sqlite/schema.js";
 
+/**
+ * Full-text document expression for knowledge_entry (v18).
+ *
+ * Used verbatim by both the GIN expression index and searchLexical() — Postgres
+ * only uses an expression index when the query repeats the exact expression.
+ * The 'simple' configuration (no stemming, no stopwords) keeps identifiers
+ * such as table names and env var names intact; jsonb_to_tsvector indexes only
+ * the string values of the topics array.
+ */
+export const PG_ENTRY_TSVECTOR = `(to_tsvector('simple', content) || jsonb_to_tsvector('simple', topics, '["string"]'))`;
+
 export const PG_CREATE_TABLES = `
   -- Schema version tracking
   CREATE TABLE IF NOT EXISTS schema_version (
@@ -51,6 +62,7 @@ export const PG_CREATE_TABLES = `
     superseded_by TEXT,
     derived_from JSONB NOT NULL DEFAULT '[]',
     is_synthesized INTEGER NOT NULL DEFAULT 0,
+    directory TEXT,
 
     -- Embedding (float32 array stored as bytea)
     embedding BYTEA
@@ -63,6 +75,7 @@ export const PG_CREATE_TABLES = `
   CREATE INDEX IF NOT EXISTS idx_entry_strength ON knowledge_entry(strength);
   CREATE INDEX IF NOT EXISTS idx_entry_created ON knowledge_entry(created_at);
   CREATE INDEX IF NOT EXISTS idx_entry_accessed ON knowledge_entry(last_accessed_at);
+  CREATE INDEX IF NOT EXISTS idx_entry_fts ON knowledge_entry USING GIN (${PG_ENTRY_TSVECTOR});
 
   -- Relationships between entries
   CREATE TABLE IF NOT EXISTS knowledge_relation (
@@ -102,6 +115,19 @@ export const PG_CREATE_TABLES = `
   CREATE INDEX IF NOT EXISTS idx_cluster_membership_changed ON knowledge_cluster(last_membership_changed_at);
   CREATE INDEX IF NOT EXISTS idx_cluster_member_entry ON knowledge_cluster_member(entry_id);
 
+  -- Entry revisions — the entry's type, content, topics and status after each change.
+  CREATE TABLE IF NOT EXISTS entry_revision (
+    entry_id TEXT NOT NULL REFERENCES knowledge_entry(id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    content TEXT NOT NULL,
+    topics JSONB NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    created_at BIGINT NOT NULL,
+    PRIMARY KEY (entry_id, revision)
+  );
+
   -- Embedding metadata — singleton row tracking the model and dimensions.
   CREATE TABLE IF NOT EXISTS embedding_metadata (
     id INTEGER PRIMARY KEY DEFAULT 1 CHECK(id = 1),
@@ -7,11 +7,18 @@ import { DEFAULT_SQLITE_PATH } from "../../config-file.js";
 import { logger } from "../../logger.js";
 import { clampKnowledgeType } from "../../types.js";
 import type {
+	EntryBatchWrite,
+	EntryFilters,
+	EntryListQuery,
+	EntryRevision,
+	EntrySort,
 	KnowledgeEntry,
 	KnowledgeRelation,
 	KnowledgeStatus,
+	RevisionActor,
 } from "../../types.js";
 import type { IKnowledgeStore } from "../interface.js";
+import { containsPattern, extractLexicalTerms } from "../lexical.js";
 import { MIGRATIONS } from "./migrations.js";
 import {
 	CREATE_TABLES,
@@ -119,7 +126,12 @@ export class KnowledgeDB implements IKnowledgeStore {
 				this.db.exec("DROP TABLE IF EXISTS knowledge_cluster_member");
 				this.db.exec("DROP TABLE IF EXISTS knowledge_cluster");
 				this.db.exec("DROP TABLE IF EXISTS knowledge_relation");
+				this.db.exec("DROP TABLE IF EXISTS entry_revision");
 				this.db.exec("DROP TABLE IF EXISTS knowledge_entry");
+				// Triggers go with knowledge_entry; the FTS table would survive and
+				// keep rows for entries that no longer exist.
+				this.db.exec("DROP TABLE IF EXISTS knowledge_entry_fts");
+				this.db.exec("DROP TABLE IF EXISTS knowledge_entry_fts_rowid");
 				this.db.exec("DROP TABLE IF EXISTS embedding_metadata");
 				this.db.exec("DROP TABLE IF EXISTS schema_version");
 				// Note: consolidated_episode, consolidation_state, pending_episodes,
@@ -155,7 +167,24 @@ export class KnowledgeDB implements IKnowledgeStore {
 
 	async insertEntry(
 		entry: Omit<KnowledgeEntry, "embedding"> & { embedding?: number[] },
+		actor: RevisionActor = "consolidation",
 	): Promise<void> {
+		this.db.transaction(() => this.runInsertEntry(entry, actor))();
+	}
+
+	async updateEntry(
+		id: string,
+		updates: Partial<KnowledgeEntry>,
+		actor: RevisionActor = "consolidation",
+	): Promise<void> {
+		this.db.transaction(() => this.runUpdateEntry(id, updates, actor))();
+	}
+
+	/** Insert an entry and its first revision. Call inside a transaction. */
+	private runInsertEntry(
+		entry: Omit<KnowledgeEntry, "embedding"> & { embedding?: number[] },
+		actor: RevisionActor,
+	): void {
 		const embeddingBlob = entry.embedding
 			? new Uint8Array(new Float32Array(entry.embedding).buffer)
 			: null;
@@ -165,8 +194,8 @@ export class KnowledgeDB implements IKnowledgeStore {
 				`INSERT INTO knowledge_entry 
          (id, type, content, topics, confidence, source, status, strength,
           created_at, updated_at, last_accessed_at, access_count, observation_count,
-          superseded_by, derived_from, is_synthesized, embedding)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          superseded_by, derived_from, is_synthesized, directory, embedding)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 			)
 			.run(
 				entry.id,
@@ -185,17 +214,25 @@ export class KnowledgeDB implements IKnowledgeStore {
 				entry.supersededBy,
 				JSON.stringify(entry.derivedFrom),
 				entry.isSynthesized ? 1 : 0,
+				entry.directory ?? null,
 				embeddingBlob,
 			);
+		this.runRecordRevision(entry.id, actor);
 	}
 
-	async updateEntry(
+	/** Update an entry, recording a revision when needed. Call inside a transaction. */
+	private runUpdateEntry(
 		id: string,
 		updates: Partial<KnowledgeEntry>,
-	): Promise<void> {
+		actor: RevisionActor,
+	): void {
 		const fields: string[] = [];
 		const values: SQLQueryBindings[] = [];
 
+		if (updates.type !== undefined) {
+			fields.push("type = ?");
+			values.push(updates.type);
+		}
 		if (updates.content !== undefined) {
 			fields.push("content = ?");
 			values.push(updates.content);
@@ -212,6 +249,10 @@ export class KnowledgeDB implements IKnowledgeStore {
 			fields.push("status = ?");
 			values.push(updates.status);
 		}
+		if (updates.source !== undefined) {
+			fields.push("source = ?");
+			values.push(updates.source);
+		}
 		if (updates.strength !== undefined) {
 			fields.push("strength = ?");
 			values.push(updates.strength);
@@ -238,6 +279,15 @@ export class KnowledgeDB implements IKnowledgeStore {
 		this.db
 			.prepare(`UPDATE knowledge_entry SET ${fields.join(", ")} WHERE id = ?`)
 			.run(...values);
+
+		if (
+			updates.type !== undefined ||
+			updates.content !== undefined ||
+			updates.topics !== undefined ||
+			updates.status !== undefined
+		) {
+			this.runRecordRevision(id, actor);
+		}
 	}
 
 	async getEntry(id: string): Promise<KnowledgeEntry | null> {
@@ -263,14 +313,14 @@ export class KnowledgeDB implements IKnowledgeStore {
 	 * Conflicted entries are included so they can be surfaced to the agent with a caveat
 	 * annotation, and so the contradiction scan can attempt to re-resolve them.
 	 */
-	async getActiveEntriesWithEmbeddings(): Promise<
-		Array<KnowledgeEntry & { embedding: number[] }>
-	> {
+	async getActiveEntriesWithEmbeddings(
+		statuses: KnowledgeStatus[] = ["active", "conflicted"],
+	): Promise<Array<KnowledgeEntry & { embedding: number[] }>> {
 		const rows = this.db
 			.prepare(
-				"SELECT * FROM knowledge_entry WHERE status IN ('active', 'conflicted') AND embedding IS NOT NULL ORDER BY strength DESC",
+				"SELECT * FROM knowledge_entry WHERE status IN (SELECT value FROM json_each(?)) AND embedding IS NOT NULL ORDER BY strength DESC",
 			)
-			.all() as RawEntryRow[];
+			.all(JSON.stringify(statuses)) as RawEntryRow[];
 
 		return rows
 			.map((r) => this.rowToEntry(r))
@@ -371,6 +421,68 @@ export class KnowledgeDB implements IKnowledgeStore {
 		return rows.map((r) => this.rowToEntry(r));
 	}
 
+	/**
+	 * One page of a filtered entry listing. Keyset pagination on
+	 * (sort column, id) keeps deep pages as cheap as the first.
+	 */
+	async listEntries(query: EntryListQuery): Promise<KnowledgeEntry[]> {
+		const { conditions, values } = this.entryListConditions(query);
+		const column = ENTRY_SORT_COLUMNS[query.sort];
+		if (query.after) {
+			conditions.push(`(${column} < ? OR (${column} = ? AND id < ?))`);
+			values.push(query.after.value, query.after.value, query.after.id);
+		}
+
+		const where =
+			conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+		const rows = this.db
+			.prepare(
+				`SELECT * FROM knowledge_entry ${where} ORDER BY ${column} DESC, id DESC LIMIT ?`,
+			)
+			.all(...values, query.limit) as RawEntryRow[];
+
+		return rows.map((r) => this.rowToEntry(r));
+	}
+
+	async countEntries(
+		query: Omit<EntryListQuery, "sort" | "after" | "limit">,
+	): Promise<number> {
+		const { conditions, values } = this.entryListConditions(query);
+		const where =
+			conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+		const row = this.db
+			.prepare(`SELECT COUNT(*) AS count FROM knowledge_entry ${where}`)
+			.get(...values) as { count: number };
+		return row.count;
+	}
+
+	private entryListConditions(
+		query: Omit<EntryListQuery, "sort" | "after" | "limit">,
+	): { conditions: string[]; values: SQLQueryBindings[] } {
+		const conditions: string[] = [];
+		const values: SQLQueryBindings[] = [];
+
+		if (query.status) {
+			conditions.push("status = ?");
+			values.push(query.status);
+		}
+		if (query.type) {
+			conditions.push("type = ?");
+			values.push(query.type);
+		}
+		if (query.topic && query.topic.length > 0) {
+			conditions.push(
+				`EXISTS (SELECT 1 FROM json_each(topics) t WHERE lower(t.value) IN (${query.topic.map(() => "?").join(", ")}))`,
+			);
+			values.push(...query.topic.map((t) => t.toLowerCase()));
+		}
+		if (query.q) {
+			conditions.push("content LIKE ? ESCAPE '\\'");
+			values.push(containsPattern(query.q));
+		}
+		return { conditions, values };
+	}
+
 	/**
 	 * Record an access (bump access_count and last_accessed_at).
 	 * Retrieval-only signal — never called during consolidation.
@@ -498,10 +610,18 @@ export class KnowledgeDB implements IKnowledgeStore {
 			topics: string[];
 			confidence: number;
 		},
+		actor: RevisionActor = "consolidation",
 	): Promise<void> {
 		const now = Date.now();
 
 		this.db.transaction(() => {
+			// Every entry whose status or content the resolution may change.
+			const touched = [
+				newEntryId,
+				existingEntryId,
+				this.findConflictCounterpart(newEntryId),
+				this.findConflictCounterpart(existingEntryId),
+			];
 			switch (resolution) {
 				case "supersede_old": {
 					// Resolve any prior conflicts on BOTH entries BEFORE status changes.
@@ -686,6 +806,9 @@ export class KnowledgeDB implements IKnowledgeStore {
 						.run(now, newEntryId, existingEntryId);
 					break;
 			}
+			for (const id of touched) {
+				if (id) this.runRecordRevision(id, actor);
+			}
 		})();
 	}
 
@@ -749,19 +872,145 @@ export class KnowledgeDB implements IKnowledgeStore {
 	async deleteEntry(id: string): Promise<boolean> {
 		let deleted = false;
 		this.db.transaction(() => {
-			this.db
-				.prepare(
-					"DELETE FROM knowledge_relation WHERE source_id = ? OR target_id = ?",
-				)
-				.run(id, id);
-			const result = this.db
-				.prepare("DELETE FROM knowledge_entry WHERE id = ?")
-				.run(id);
-			deleted = result.changes > 0;
+			deleted = this.runDeleteEntry(id);
 		})();
 		return deleted;
 	}
 
+	/** Delete an entry, its relations and its history. Call inside a transaction. */
+	private runDeleteEntry(id: string): boolean {
+		this.db
+			.prepare(
+				"DELETE FROM knowledge_relation WHERE source_id = ? OR target_id = ?",
+			)
+			.run(id, id);
+		this.db.prepare("DELETE FROM entry_revision WHERE entry_id = ?").run(id);
+		const result = this.db
+			.prepare("DELETE FROM knowledge_entry WHERE id = ?")
+			.run(id);
+		return result.changes > 0;
+	}
+
+	/**
+	 * Apply the writes in order in one transaction. bun:sqlite transactions are
+	 * synchronous, so the writes use the synchronous run* helpers.
+	 */
+	async applyEntryBatch(
+		writes: EntryBatchWrite[],
+		actor: RevisionActor = "consolidation",
+	): Promise<void> {
+		this.db.transaction(() => {
+			for (const write of writes) {
+				switch (write.kind) {
+					case "insert":
+						this.runInsertEntry(write.entry, actor);
+						if (write.revisions) {
+							this.runReplaceRevisions(write.entry.id, write.revisions);
+						}
+						break;
+					case "update":
+						this.runUpdateEntry(write.id, write.updates, actor);
+						break;
+					case "delete":
+						this.runDeleteEntry(write.id);
+						break;
+				}
+			}
+		})();
+	}
+
+	// ── Revisions ──
+
+	async getRevisions(entryId: string): Promise<EntryRevision[]> {
+		const rows = this.db
+			.prepare(
+				"SELECT * FROM entry_revision WHERE entry_id = ? ORDER BY revision",
+			)
+			.all(entryId) as RawRevisionRow[];
+		return rows.map((row) => ({
+			entryId: row.entry_id,
+			revision: row.revision,
+			type: row.type as EntryRevision["type"],
+			content: row.content,
+			topics: JSON.parse(row.topics),
+			status: row.status as EntryRevision["status"],
+			actor: row.actor as RevisionActor,
+			createdAt: row.created_at,
+		}));
+	}
+
+	/**
+	 * Append a revision with the entry's current type, content, topics and
+	 * status — unless they match its latest revision, so callers can record
+	 * after any write. Call inside a transaction.
+	 */
+	private runRecordRevision(id: string, actor: RevisionActor): void {
+		const current = this.db
+			.prepare(
+				"SELECT type, content, topics, status FROM knowledge_entry WHERE id = ?",
+			)
+			.get(id) as Omit<
+			RawRevisionRow,
+			"entry_id" | "revision" | "actor" | "created_at"
+		> | null;
+		if (!current) return;
+		const latest = this.db
+			.prepare(
+				"SELECT * FROM entry_revision WHERE entry_id = ? ORDER BY revision DESC LIMIT 1",
+			)
+			.get(id) as RawRevisionRow | null;
+		if (
+			latest &&
+			latest.type === current.type &&
+			latest.content === current.content &&
+			latest.topics === current.topics &&
+			latest.status === current.status
+		) {
+			return;
+		}
+		this.db
+			.prepare(
+				`INSERT INTO entry_revision
+         (entry_id, revision, type, content, topics, status, actor, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.run(
+				id,
+				(latest?.revision ?? 0) + 1,
+				current.type,
+				current.content,
+				current.topics,
+				current.status,
+				actor,
+				Date.now(),
+			);
+	}
+
+	/**
+	 * Replace an entry's history with `revisions` (carried over from another
+	 * store). Call inside a transaction.
+	 */
+	private runReplaceRevisions(id: string, revisions: EntryRevision[]): void {
+		this.db.prepare("DELETE FROM entry_revision WHERE entry_id = ?").run(id);
+		const insert = this.db.prepare(
+			`INSERT INTO entry_revision
+       (entry_id, revision, type, content, topics, status, actor, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+		);
+		for (const r of revisions) {
+			insert.run(
+				id,
+				r.revision,
+				r.type,
+				r.content,
+				JSON.stringify(r.topics),
+				r.status,
+				r.actor,
+				r.createdAt,
+			);
+		}
+	}
+
 	// ── Relations ──
 
 	async insertRelation(relation: KnowledgeRelation): Promise<void> {
@@ -877,6 +1126,63 @@ export class KnowledgeDB implements IKnowledgeStore {
 		return result;
 	}
 
+	// ── Lexical Search ──
+
+	/**
+	 * BM25 full-text search over knowledge_entry_fts (content + topics).
+	 * Terms are OR-ed; each is quoted as an FTS5 phrase so identifiers with
+	 * underscores or digits never hit FTS5 query-syntax errors.
+	 * score is the negated bm25() value, so higher means more relevant.
+	 */
+	async searchLexical(
+		query: string,
+		limit: number,
+		statuses: KnowledgeStatus[] = ["active", "conflicted"],
+		filters: EntryFilters = {},
+	): Promise<Array<{ entry: KnowledgeEntry; score: number }>> {
+		const terms = extractLexicalTerms(query);
+		if (terms.length === 0) return [];
+		const matchExpr = terms.map((t) => `"${t}"`).join(" OR ");
+
+		// Entry filters go into the query so LIMIT counts matching entries only.
+		const conditions: string[] = [];
+		const values: SQLQueryBindings[] = [];
+		if (filters.type) {
+			conditions.push(`ke.type IN (${filters.type.map(() => "?").join(", ")})`);
+			values.push(...filters.type);
+		}
+		if (filters.topic) {
+			conditions.push(
+				`EXISTS (SELECT 1 FROM json_each(ke.topics) t WHERE lower(t.value) IN (${filters.topic.map(() => "?").join(", ")}))`,
+			);
+			values.push(...filters.topic.map((t) => t.toLowerCase()));
+		}
+		if (filters.minConfidence !== undefined) {
+			conditions.push("ke.confidence >= ?");
+			values.push(filters.minConfidence);
+		}
+
+		const rows = this.db
+			.prepare(
+				`SELECT ke.*, bm25(knowledge_entry_fts) AS bm25_score
+         FROM knowledge_entry_fts
+         JOIN knowledge_entry ke ON ke.id = knowledge_entry_fts.entry_id
+         WHERE knowledge_entry_fts MATCH ?
+           AND ke.status IN (SELECT value FROM json_each(?))
+           ${conditions.map((c) => `AND ${c}`).join("\n           ")}
+         ORDER BY bm25_score
+         LIMIT ?`,
+			)
+			.all(matchExpr, JSON.stringify(statuses), ...values, limit) as Array<
+			RawEntryRow & { bm25_score: number }
+		>;
+
+		return rows.map((r) => ({
+			entry: this.rowToEntry(r),
+			score: -r.bm25_score,
+		}));
+	}
+
 	// ── Helpers ──
 
 	private rowToEntry(row: RawEntryRow): KnowledgeEntry {
@@ -908,6 +1214,7 @@ export class KnowledgeDB implements IKnowledgeStore {
 			supersededBy: row.superseded_by,
 			derivedFrom: JSON.parse(row.derived_from),
 			isSynthesized: row.is_synthesized === 1,
+			directory: row.directory ?? null,
 			embedding,
 		};
 	}
@@ -932,6 +1239,7 @@ export class KnowledgeDB implements IKnowledgeStore {
 			additionalSources: string[]; // session IDs from the new episode
 		},
 		embedding?: number[],
+		actor: RevisionActor = "consolidation",
 	): Promise<void> {
 		const existing = await this.getEntry(id);
 		if (!existing) return;
@@ -947,26 +1255,29 @@ export class KnowledgeDB implements IKnowledgeStore {
 			: null;
 
 		const now = Date.now();
-		this.db
-			.prepare(
-				`UPDATE knowledge_entry
-         SET content = ?, type = ?, topics = ?, confidence = ?,
-             derived_from = ?, updated_at = ?, last_accessed_at = ?,
-             observation_count = observation_count + 1,
-             embedding = ?
-         WHERE id = ?`,
-			)
-			.run(
-				updates.content,
-				safeType,
-				JSON.stringify(updates.topics),
-				updates.confidence,
-				JSON.stringify(mergedSources),
-				now,
-				now,
-				embeddingBlob,
-				id,
-			);
+		this.db.transaction(() => {
+			this.db
+				.prepare(
+					`UPDATE knowledge_entry
+           SET content = ?, type = ?, topics = ?, confidence = ?,
+               derived_from = ?, updated_at = ?, last_accessed_at = ?,
+               observation_count = observation_count + 1,
+               embedding = ?
+           WHERE id = ?`,
+				)
+				.run(
+					updates.content,
+					safeType,
+					JSON.stringify(updates.topics),
+					updates.confidence,
+					JSON.stringify(mergedSources),
+					now,
+					now,
+					embeddingBlob,
+					id,
+				);
+			this.runRecordRevision(id, actor);
+		})();
 	}
 
 	/**
@@ -983,6 +1294,7 @@ export class KnowledgeDB implements IKnowledgeStore {
 			this.db.exec("DELETE FROM knowledge_cluster_member");
 			this.db.exec("DELETE FROM knowledge_cluster");
 			this.db.exec("DELETE FROM knowledge_relation");
+			this.db.exec("DELETE FROM entry_revision");
 			this.db.exec("DELETE FROM knowledge_entry");
 			this.db.exec("DELETE FROM embedding_metadata");
 		})();
@@ -1265,6 +1577,13 @@ export class KnowledgeDB implements IKnowledgeStore {
 	}
 }
 
+/** Column each listEntries() sort key orders by. */
+const ENTRY_SORT_COLUMNS: Record<EntrySort, string> = {
+	updatedAt: "updated_at",
+	strength: "strength",
+	accessCount: "access_count",
+};
+
 /**
  * Convert a SQLite BLOB (Uint8Array of raw float32 bytes) to a number[] array.
  * Used when reading centroid columns from knowledge_cluster rows.
@@ -1298,5 +1617,17 @@ interface RawEntryRow {
 	superseded_by: string | null;
 	derived_from: string;
 	is_synthesized: number;
+	directory: string | null;
 	embedding: Uint8Array | null;
 }
+
+interface RawRevisionRow {
+	entry_id: string;
+	revision: number;
+	type: string;
+	content: string;
+	topics: string;
+	status: string;
+	actor: string;
+	created_at: number;
+}
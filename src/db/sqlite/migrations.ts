@@ -324,4 +324,127 @@ export const MIGRATIONS: Array<{
 			// SQLite stores require no schema changes.
 		},
 	},
+	{
+		version: 18,
+		label: "add knowledge_entry_fts full-text index for hybrid activation",
+		up: (db) => {
+			const cols = db
+				.prepare("PRAGMA table_info(knowledge_entry)")
+				.all() as Array<{ name: string }>;
+			if (cols.length === 0) return; // table doesn't exist — CREATE_TABLES builds the index on a fresh DB
+			db.exec(`
+				CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_entry_fts USING fts5(
+					entry_id UNINDEXED,
+					content,
+					topics,
+					tokenize = 'unicode61'
+				);
+				CREATE TRIGGER IF NOT EXISTS knowledge_entry_fts_insert AFTER INSERT ON knowledge_entry BEGIN
+					INSERT INTO knowledge_entry_fts (entry_id, content, topics) VALUES (new.id, new.content, new.topics);
+				END;
+				CREATE TRIGGER IF NOT EXISTS knowledge_entry_fts_update AFTER UPDATE OF content, topics ON knowledge_entry BEGIN
+					DELETE FROM knowledge_entry_fts WHERE entry_id = old.id;
+					INSERT INTO knowledge_entry_fts (entry_id, content, topics) VALUES (new.id, new.content, new.topics);
+				END;
+				CREATE TRIGGER IF NOT EXISTS knowledge_entry_fts_delete AFTER DELETE ON knowledge_entry BEGIN
+					DELETE FROM knowledge_entry_fts WHERE entry_id = old.id;
+				END;
+			`);
+			// Backfill from scratch so a re-run never duplicates rows.
+			db.exec("DELETE FROM knowledge_entry_fts");
+			db.exec(
+				"INSERT INTO knowledge_entry_fts (entry_id, content, topics) SELECT id, content, topics FROM knowledge_entry",
+			);
+		},
+	},
+	{
+		version: 19,
+		label: "add directory column to knowledge_entry",
+		up: (db) => {
+			// Existing entries keep directory = NULL — their originating session
+			// directory was not recorded. Activation treats them as project-neutral.
+			const cols = db
+				.prepare("PRAGMA table_info(knowledge_entry)")
+				.all() as Array<{ name: string }>;
+			if (cols.length === 0) return; // table doesn't exist — CREATE_TABLES adds the column on a fresh DB
+			if (!cols.some((c) => c.name === "directory")) {
+				db.exec("ALTER TABLE knowledge_entry ADD COLUMN directory TEXT");
+			}
+		},
+	},
+	{
+		version: 20,
+		label: "add entry_revision history table",
+		up: (db) => {
+			const cols = db
+				.prepare("PRAGMA table_info(knowledge_entry)")
+				.all() as Array<{ name: string }>;
+			if (cols.length === 0) return; // table doesn't exist — CREATE_TABLES builds entry_revision on a fresh DB
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS entry_revision (
+					entry_id TEXT NOT NULL REFERENCES knowledge_entry(id) ON DELETE CASCADE,
+					revision INTEGER NOT NULL,
+					type TEXT NOT NULL,
+					content TEXT NOT NULL,
+					topics TEXT NOT NULL DEFAULT '[]',
+					status TEXT NOT NULL,
+					actor TEXT NOT NULL,
+					created_at INTEGER NOT NULL,
+					PRIMARY KEY (entry_id, revision)
+				);
+			`);
+			// Baseline: the current state of every entry is its first revision.
+			db.prepare(
+				`INSERT OR IGNORE INTO entry_revision
+				 (entry_id, revision, type, content, topics, status, actor, created_at)
+				 SELECT id, 1, type, content, topics, status, 'migration', ?
+				 FROM knowledge_entry`,
+			).run(Date.now());
+		},
+	},
+	{
+		version: 21,
+		label: "map knowledge_entry_fts rowids so the FTS triggers delete by rowid",
+		up: (db) => {
+			const cols = db
+				.prepare("PRAGMA table_info(knowledge_entry)")
+				.all() as Array<{ name: string }>;
+			if (cols.length === 0) return; // table doesn't exist — CREATE_TABLES builds the mapping on a fresh DB
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS knowledge_entry_fts_rowid (
+					fts_rowid INTEGER PRIMARY KEY,
+					entry_id TEXT NOT NULL UNIQUE
+				);
+				DROP TRIGGER IF EXISTS knowledge_entry_fts_insert;
+				DROP TRIGGER IF EXISTS knowledge_entry_fts_update;
+				DROP TRIGGER IF EXISTS knowledge_entry_fts_delete;
+				CREATE TRIGGER knowledge_entry_fts_insert AFTER INSERT ON knowledge_entry BEGIN
+					INSERT INTO knowledge_entry_fts_rowid (entry_id) VALUES (new.id);
+					INSERT INTO knowledge_entry_fts (rowid, entry_id, content, topics)
+						VALUES ((SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = new.id), new.id, new.content, new.topics);
+				END;
+				CREATE TRIGGER knowledge_entry_fts_update AFTER UPDATE OF content, topics ON knowledge_entry BEGIN
+					DELETE FROM knowledge_entry_fts WHERE rowid = (SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = old.id);
+					INSERT INTO knowledge_entry_fts (rowid, entry_id, content, topics)
+						VALUES ((SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = old.id), new.id, new.content, new.topics);
+				END;
+				CREATE TRIGGER knowledge_entry_fts_delete AFTER DELETE ON knowledge_entry BEGIN
+					DELETE FROM knowledge_entry_fts WHERE rowid = (SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = old.id);
+					DELETE FROM knowledge_entry_fts_rowid WHERE entry_id = old.id;
+				END;
+			`);
+			// Rebuild so every FTS row sits at its mapped rowid.
+			db.exec("DELETE FROM knowledge_entry_fts");
+			db.exec("DELETE FROM knowledge_entry_fts_rowid");
+			db.exec(
+				"INSERT INTO knowledge_entry_fts_rowid (entry_id) SELECT id FROM knowledge_entry",
+			);
+			db.exec(
+				`INSERT INTO knowledge_entry_fts (rowid, entry_id, content, topics)
+				 SELECT m.fts_rowid, ke.id, ke.content, ke.topics
+				 FROM knowledge_entry ke
+				 JOIN knowledge_entry_fts_rowid m ON m.entry_id = ke.id`,
+			);
+		},
+	},
 ];
@@ -90,7 +90,45 @@
  *   present but unpopulated and/or missing ANN indexes (legacy rollout edge case).
  * - v17 applies the repair migration on Postgres; SQLite remains a no-op.
  */
-export const SCHEMA_VERSION = 17;
+/**
+ * v18: Full-text search for hybrid activation.
+ * - New FTS5 virtual table knowledge_entry_fts (entry_id UNINDEXED, content, topics),
+ *   kept in sync with knowledge_entry by AFTER INSERT / UPDATE OF content, topics /
+ *   DELETE triggers. Stores its own copy of the text rather than using external
+ *   content, because knowledge_entry has a TEXT primary key and its implicit rowid
+ *   is not stable across VACUUM.
+ * - Postgres: expression GIN index over to_tsvector('simple', content || topics).
+ * - MIGRATION: v17 → v18 is additive: CREATE VIRTUAL TABLE + triggers + backfill.
+ */
+/**
+ * v19: Originating directory on knowledge entries (project-scoped activation).
+ * - knowledge_entry gains nullable `directory TEXT` — the working directory of
+ *   the session(s) the entry was extracted from. NULL when unknown or when the
+ *   source episodes came from different directories.
+ * - Activation resolves it against config.jsonc `projects` to boost entries from
+ *   the caller's project and optionally filter out other projects.
+ * - MIGRATION: v18 → v19 is additive: ALTER TABLE ADD COLUMN (existing rows stay NULL).
+ */
+/**
+ * v20: Entry revision history.
+ * - New table entry_revision (entry_id, revision, type, content, topics, status,
+ *   actor, created_at): a snapshot of the entry after each change to its type,
+ *   content, topics or status, written by the store in the same transaction.
+ *   Backs GET /entries/:id/history and POST /entries/:id/revert/:revision.
+ * - MIGRATION: v19 → v20 is additive: CREATE TABLE + a baseline revision 1
+ *   (actor 'migration') for every existing entry.
+ */
+/**
+ * v21: Rowid mapping for the FTS5 index.
+ * - New table knowledge_entry_fts_rowid (fts_rowid INTEGER PRIMARY KEY, entry_id
+ *   UNIQUE). The FTS triggers look up an entry's FTS rowid here and delete by
+ *   rowid; deleting by the UNINDEXED entry_id column was a full scan of the
+ *   index on every update and delete.
+ * - Postgres: no change (its full-text index is an expression index).
+ * - MIGRATION: v20 → v21 is additive: CREATE TABLE, recreate the three
+ *   triggers, and rebuild knowledge_entry_fts with mapped rowids.
+ */
+export const SCHEMA_VERSION = 21;
 
 /**
  * Expected columns for each table, derived from the DDL below.
@@ -121,6 +159,7 @@ export const EXPECTED_TABLE_COLUMNS: Readonly<
 		"superseded_by",
 		"derived_from",
 		"is_synthesized",
+		"directory",
 		"embedding",
 	],
 	knowledge_relation: ["id", "source_id", "target_id", "type", "created_at"],
@@ -134,6 +173,17 @@ export const EXPECTED_TABLE_COLUMNS: Readonly<
 	],
 	knowledge_cluster_member: ["cluster_id", "entry_id", "joined_at"],
 	embedding_metadata: ["id", "model", "dimensions", "recorded_at"],
+	entry_revision: [
+		"entry_id",
+		"revision",
+		"type",
+		"content",
+		"topics",
+		"status",
+		"actor",
+		"created_at",
+	],
+	knowledge_entry_fts_rowid: ["fts_rowid", "entry_id"],
 	// Note: consolidation_state, consolidated_episode, pending_episodes, daemon_cursor
 	// have moved to state.db (ServerStateDB) in v13+. They are no longer created
 	// in knowledge.db — omitting them here prevents false-positive drift warnings
@@ -168,6 +218,7 @@ export const CREATE_TABLES = `
     superseded_by TEXT,
     derived_from TEXT NOT NULL DEFAULT '[]',  -- JSON array of session/entry IDs
     is_synthesized INTEGER NOT NULL DEFAULT 0, -- 1 when produced by the synthesis pass
+    directory TEXT,                           -- originating session working directory (NULL = unknown/mixed)
 
     -- Embedding (float32 array stored as blob)
     embedding BLOB
@@ -181,6 +232,40 @@ export const CREATE_TABLES = `
   CREATE INDEX IF NOT EXISTS idx_entry_created ON knowledge_entry(created_at);
   CREATE INDEX IF NOT EXISTS idx_entry_accessed ON knowledge_entry(last_accessed_at);
 
+  -- Full-text index over content and topics (BM25 lexical leg of hybrid activation).
+  -- Not listed in EXPECTED_TABLE_COLUMNS: FTS5 virtual tables and their shadow
+  -- tables are managed by SQLite itself.
+  CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_entry_fts USING fts5(
+    entry_id UNINDEXED,
+    content,
+    topics,
+    tokenize = 'unicode61'
+  );
+
+  -- entry_id → FTS rowid, so the triggers below delete by rowid instead of
+  -- scanning the UNINDEXED entry_id column.
+  CREATE TABLE IF NOT EXISTS knowledge_entry_fts_rowid (
+    fts_rowid INTEGER PRIMARY KEY,
+    entry_id TEXT NOT NULL UNIQUE
+  );
+
+  CREATE TRIGGER IF NOT EXISTS knowledge_entry_fts_insert AFTER INSERT ON knowledge_entry BEGIN
+    INSERT INTO knowledge_entry_fts_rowid (entry_id) VALUES (new.id);
+    INSERT INTO knowledge_entry_fts (rowid, entry_id, content, topics)
+      VALUES ((SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = new.id), new.id, new.content, new.topics);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS knowledge_entry_fts_update AFTER UPDATE OF content, topics ON knowledge_entry BEGIN
+    DELETE FROM knowledge_entry_fts WHERE rowid = (SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = old.id);
+    INSERT INTO knowledge_entry_fts (rowid, entry_id, content, topics)
+      VALUES ((SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = old.id), new.id, new.content, new.topics);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS knowledge_entry_fts_delete AFTER DELETE ON knowledge_entry BEGIN
+    DELETE FROM knowledge_entry_fts WHERE rowid = (SELECT fts_rowid FROM knowledge_entry_fts_rowid WHERE entry_id = old.id);
+    DELETE FROM knowledge_entry_fts_rowid WHERE entry_id = old.id;
+  END;
+
   -- Relationships between entries
   CREATE TABLE IF NOT EXISTS knowledge_relation (
     id TEXT PRIMARY KEY,
@@ -221,6 +306,20 @@ export const CREATE_TABLES = `
   CREATE INDEX IF NOT EXISTS idx_cluster_membership_changed ON knowledge_cluster(last_membership_changed_at);
   CREATE INDEX IF NOT EXISTS idx_cluster_member_entry ON knowledge_cluster_member(entry_id);
 
+  -- Entry revisions — the entry's type, content, topics and status after each
+  -- change, numbered from 1 per entry. actor: consolidation, api, review, migration.
+  CREATE TABLE IF NOT EXISTS entry_revision (
+    entry_id TEXT NOT NULL REFERENCES knowledge_entry(id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    content TEXT NOT NULL,
+    topics TEXT NOT NULL DEFAULT '[]',  -- JSON array of strings
+    status TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (entry_id, revision)
+  );
+
   -- Embedding metadata — singleton row tracking the model and dimensions used
   -- to produce the current embeddings. Compared against the configured model at
   -- startup; a mismatch triggers a full re-embed of all entries.
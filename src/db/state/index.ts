@@ -5,9 +5,11 @@ import { dirname, join } from "node:path";
 import type { IServerStateDB } from "../interface.js";
 import { logger } from "../../logger.js";
 import type {
+	ApiToken,
 	ConsolidationState,
 	PendingEpisode,
 	ProcessedRange,
+	WebhookDelivery,
 } from "../../types.js";
 import {
 	SERVER_LOCAL_CREATE_TABLES,
@@ -34,6 +36,9 @@ export const DEFAULT_SERVER_STATE_PATH = join(
  *   - pending_episodes: daemon writes, server drains
  *   - consolidated_episode: idempotency log
  *   - consolidation_state: global server counters
+ *   - embedding_cache: LRU cache of embeddings for repeated texts
+ *   - webhook_delivery: log of outbound webhook deliveries
+ *   - api_token: named API tokens (hashed)
  *
  * daemon_cursor lives in DaemonDB (src/db/daemon/index.ts), not here.
  *
@@ -339,6 +344,202 @@ export class ServerStateDB implements IServerStateDB {
 			.run(...values);
 	}
 
+	// ── Embedding Cache ───────────────────────────────────────────────────────
+
+	async getCachedEmbeddings(
+		model: string,
+		dimensions: number,
+		textHashes: string[],
+	): Promise<Map<string, number[]>> {
+		if (textHashes.length === 0) return new Map();
+		const hashesJson = JSON.stringify(textHashes);
+		const rows = this.db
+			.prepare(
+				`SELECT text_hash, embedding FROM embedding_cache
+         WHERE model = ? AND dimensions = ?
+           AND text_hash IN (SELECT value FROM json_each(?))`,
+			)
+			.all(model, dimensions, hashesJson) as Array<{
+			text_hash: string;
+			embedding: Uint8Array;
+		}>;
+		if (rows.length > 0) {
+			this.db
+				.prepare(
+					`UPDATE embedding_cache SET last_used_at = ?
+           WHERE model = ? AND dimensions = ?
+             AND text_hash IN (SELECT value FROM json_each(?))`,
+				)
+				.run(Date.now(), model, dimensions, hashesJson);
+		}
+
+		const result = new Map<string, number[]>();
+		for (const row of rows) {
+			const float32 = new Float32Array(
+				row.embedding.buffer,
+				row.embedding.byteOffset,
+				row.embedding.byteLength / 4,
+			);
+			result.set(row.text_hash, Array.from(float32));
+		}
+		return result;
+	}
+
+	async putCachedEmbeddings(
+		model: string,
+		dimensions: number,
+		embeddings: Map<string, number[]>,
+		maxEntries: number,
+	): Promise<void> {
+		if (embeddings.size === 0) return;
+		const now = Date.now();
+		const insert = this.db.prepare(
+			`INSERT INTO embedding_cache (model, dimensions, text_hash, embedding, last_used_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (model, dimensions, text_hash)
+       DO UPDATE SET embedding = excluded.embedding, last_used_at = excluded.last_used_at`,
+		);
+		this.db.transaction(() => {
+			for (const [textHash, embedding] of embeddings) {
+				insert.run(
+					model,
+					dimensions,
+					textHash,
+					new Uint8Array(new Float32Array(embedding).buffer),
+					now,
+				);
+			}
+			// Evict least recently used rows beyond the cap (across all models —
+			// rows for a model no longer in use age out naturally).
+			this.db
+				.prepare(
+					`DELETE FROM embedding_cache WHERE rowid IN (
+             SELECT rowid FROM embedding_cache
+             ORDER BY last_used_at DESC
+             LIMIT -1 OFFSET ?
+           )`,
+				)
+				.run(maxEntries);
+		})();
+	}
+
+	async countCachedEmbeddings(): Promise<number> {
+		const row = this.db
+			.prepare("SELECT COUNT(*) as n FROM embedding_cache")
+			.get() as { n: number } | undefined;
+		return row?.n ?? 0;
+	}
+
+	// ── Webhook Deliveries ────────────────────────────────────────────────────
+
+	async recordWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+		this.db
+			.prepare(
+				`INSERT INTO webhook_delivery
+         (id, webhook_id, event, payload, status, attempts,
+          last_status_code, last_error, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           attempts = excluded.attempts,
+           last_status_code = excluded.last_status_code,
+           last_error = excluded.last_error,
+           updated_at = excluded.updated_at`,
+			)
+			.run(
+				delivery.id,
+				delivery.webhookId,
+				delivery.event,
+				delivery.payload,
+				delivery.status,
+				delivery.attempts,
+				delivery.lastStatusCode,
+				delivery.lastError,
+				delivery.createdAt,
+				delivery.updatedAt,
+			);
+	}
+
+	async getWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+		const rows = this.db
+			.prepare(
+				`SELECT * FROM webhook_delivery
+         ORDER BY created_at DESC, rowid DESC
+         LIMIT ?`,
+			)
+			.all(limit) as Array<{
+			id: string;
+			webhook_id: string;
+			event: string;
+			payload: string;
+			status: WebhookDelivery["status"];
+			attempts: number;
+			last_status_code: number | null;
+			last_error: string | null;
+			created_at: number;
+			updated_at: number;
+		}>;
+		return rows.map((r) => ({
+			id: r.id,
+			webhookId: r.webhook_id,
+			event: r.event,
+			payload: r.payload,
+			status: r.status,
+			attempts: r.attempts,
+			lastStatusCode: r.last_status_code,
+			lastError: r.last_error,
+			createdAt: r.created_at,
+			updatedAt: r.updated_at,
+		}));
+	}
+
+	// ── API Tokens ────────────────────────────────────────────────────────────
+
+	async createApiToken(token: ApiToken, tokenHash: string): Promise<void> {
+		this.db
+			.prepare(
+				`INSERT INTO api_token
+         (id, name, token_hash, scopes, stores, created_at, last_used_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.run(
+				token.id,
+				token.name,
+				tokenHash,
+				JSON.stringify(token.scopes),
+				token.stores ? JSON.stringify(token.stores) : null,
+				token.createdAt,
+				token.lastUsedAt,
+			);
+	}
+
+	async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+		const row = this.db
+			.prepare("SELECT * FROM api_token WHERE token_hash = ?")
+			.get(tokenHash) as ApiTokenRow | null;
+		return row ? rowToApiToken(row) : null;
+	}
+
+	async listApiTokens(): Promise<ApiToken[]> {
+		const rows = this.db
+			.prepare("SELECT * FROM api_token ORDER BY created_at, name")
+			.all() as ApiTokenRow[];
+		return rows.map(rowToApiToken);
+	}
+
+	async revokeApiToken(name: string): Promise<boolean> {
+		const result = this.db
+			.prepare("DELETE FROM api_token WHERE name = ?")
+			.run(name);
+		return result.changes > 0;
+	}
+
+	async touchApiToken(id: string, usedAt: number): Promise<void> {
+		this.db
+			.prepare("UPDATE api_token SET last_used_at = ? WHERE id = ?")
+			.run(usedAt, id);
+	}
+
 	/**
 	 * Wipe all staging data: pending_episodes, consolidated_episode, and reset
 	 * consolidation_state counters. Called when reinitializing the knowledge store.
@@ -362,3 +563,24 @@ export class ServerStateDB implements IServerStateDB {
 		this.db.close();
 	}
 }
+
+interface ApiTokenRow {
+	id: string;
+	name: string;
+	token_hash: string;
+	scopes: string;
+	stores: string | null;
+	created_at: number;
+	last_used_at: number | null;
+}
+
+function rowToApiToken(row: ApiTokenRow): ApiToken {
+	return {
+		id: row.id,
+		name: row.name,
+		scopes: JSON.parse(row.scopes),
+		stores: row.stores ? JSON.parse(row.stores) : null,
+		createdAt: row.created_at,
+		lastUsedAt: row.last_used_at,
+	};
+}
@@ -1,16 +1,19 @@
 import postgres from "postgres";
 import { logger } from "../../logger.js";
 import type {
+	ApiToken,
 	ConsolidationState,
 	PendingEpisode,
 	ProcessedRange,
+	WebhookDelivery,
 } from "../../types.js";
 import type { IServerStateDB } from "../interface.js";
+import { bufferToFloats, floatsToBuffer } from "../postgres/embedding-codec.js";
 
 // biome-ignore lint: TS limitation with Omit stripping call signatures
 type TxSql = any;
 
-const STATE_SCHEMA_VERSION = 1;
+const STATE_SCHEMA_VERSION = 4;
 
 const PG_CREATE_STATE_TABLES = `
   CREATE TABLE IF NOT EXISTS state_schema_version (
@@ -68,6 +71,47 @@ const PG_CREATE_STATE_TABLES = `
     (id, last_consolidated_at, total_sessions_processed, total_entries_created, total_entries_updated)
   VALUES (1, 0, 0, 0, 0)
   ON CONFLICT (id) DO NOTHING;
+
+  -- v2: embedding cache. dimensions is 0 for the model's default dimensions.
+  CREATE TABLE IF NOT EXISTS embedding_cache (
+    model        TEXT    NOT NULL,
+    dimensions   INTEGER NOT NULL,
+    text_hash    TEXT    NOT NULL,
+    embedding    BYTEA   NOT NULL,
+    last_used_at BIGINT  NOT NULL,
+    PRIMARY KEY (model, dimensions, text_hash)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used
+    ON embedding_cache(last_used_at);
+
+  -- v3: webhook delivery log, one row per delivery updated after each attempt.
+  CREATE TABLE IF NOT EXISTS webhook_delivery (
+    id               TEXT    PRIMARY KEY,
+    webhook_id       TEXT    NOT NULL,
+    event            TEXT    NOT NULL,
+    payload          TEXT    NOT NULL,
+    status           TEXT    NOT NULL CHECK(status IN ('pending', 'delivered', 'failed')),
+    attempts         INTEGER NOT NULL DEFAULT 0,
+    last_status_code INTEGER,
+    last_error       TEXT,
+    created_at       BIGINT  NOT NULL,
+    updated_at       BIGINT  NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_webhook_delivery_created
+    ON webhook_delivery(created_at);
+
+  -- v4: named API tokens. token_hash is the hex SHA-256 of the secret.
+  CREATE TABLE IF NOT EXISTS api_token (
+    id           TEXT    PRIMARY KEY,
+    name         TEXT    NOT NULL UNIQUE,
+    token_hash   TEXT    NOT NULL UNIQUE,
+    scopes       JSONB   NOT NULL,
+    stores       JSONB,
+    created_at   BIGINT  NOT NULL,
+    last_used_at BIGINT
+  );
 `;
 
 /**
@@ -130,7 +174,9 @@ export class PostgresServerStateDB implements IServerStateDB {
 			// 42P01 = undefined_table: fresh DB, schema not yet created.
 		}
 
-		if (v === null) {
+		// Older schemas are upgraded by re-running the same DDL — every statement
+		// is additive and idempotent, so existing rows are untouched.
+		if (v === null || v < STATE_SCHEMA_VERSION) {
 			// Note: sql.unsafe() uses the simple query protocol and does not support
 			// true DDL atomicity even inside a transaction. DDL auto-commits individually.
 			// Safety relies on idempotency: CREATE TABLE IF NOT EXISTS and
@@ -142,7 +188,11 @@ export class PostgresServerStateDB implements IServerStateDB {
 				VALUES (${STATE_SCHEMA_VERSION}, ${Date.now()})
 				ON CONFLICT DO NOTHING
 			`;
-			logger.log("[pg-state-db] Initialized Postgres state DB (fresh schema).");
+			logger.log(
+				v === null
+					? "[pg-state-db] Initialized Postgres state DB (fresh schema)."
+					: `[pg-state-db] Upgraded Postgres state DB from v${v} to v${STATE_SCHEMA_VERSION}.`,
+			);
 		} else {
 			logger.log(`[pg-state-db] Postgres state DB at schema v${v}.`);
 		}
@@ -334,6 +384,157 @@ export class PostgresServerStateDB implements IServerStateDB {
 		`;
 	}
 
+	// ── Embedding Cache ───────────────────────────────────────────────────────
+
+	async getCachedEmbeddings(
+		model: string,
+		dimensions: number,
+		textHashes: string[],
+	): Promise<Map<string, number[]>> {
+		if (textHashes.length === 0) return new Map();
+		await this.initialize();
+		// Mark hits as recently used and read them back in one statement.
+		const rows = await this.sql`
+			UPDATE embedding_cache SET last_used_at = ${Date.now()}
+			WHERE model = ${model} AND dimensions = ${dimensions}
+			  AND text_hash = ANY(${this.sql.array(textHashes)})
+			RETURNING text_hash, embedding
+		`;
+		const result = new Map<string, number[]>();
+		for (const r of rows) {
+			result.set(r.text_hash as string, bufferToFloats(r.embedding as Buffer));
+		}
+		return result;
+	}
+
+	async putCachedEmbeddings(
+		model: string,
+		dimensions: number,
+		embeddings: Map<string, number[]>,
+		maxEntries: number,
+	): Promise<void> {
+		if (embeddings.size === 0) return;
+		await this.initialize();
+		const now = Date.now();
+		await this.sql.begin(async (sql: TxSql) => {
+			for (const [textHash, embedding] of embeddings) {
+				await sql`
+					INSERT INTO embedding_cache (model, dimensions, text_hash, embedding, last_used_at)
+					VALUES (${model}, ${dimensions}, ${textHash}, ${floatsToBuffer(embedding)}, ${now})
+					ON CONFLICT (model, dimensions, text_hash)
+					DO UPDATE SET embedding = EXCLUDED.embedding, last_used_at = EXCLUDED.last_used_at
+				`;
+			}
+			// Evict least recently used rows beyond the cap (across all models).
+			await sql`
+				DELETE FROM embedding_cache
+				WHERE (model, dimensions, text_hash) IN (
+					SELECT model, dimensions, text_hash FROM embedding_cache
+					ORDER BY last_used_at DESC
+					OFFSET ${maxEntries}
+				)
+			`;
+		});
+	}
+
+	async countCachedEmbeddings(): Promise<number> {
+		await this.initialize();
+		const result = await this.sql`SELECT COUNT(*) as n FROM embedding_cache`;
+		return Number((result[0] as { n: number }).n);
+	}
+
+	// ── Webhook Deliveries ────────────────────────────────────────────────────
+
+	async recordWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+		await this.initialize();
+		await this.sql`
+			INSERT INTO webhook_delivery
+			(id, webhook_id, event, payload, status, attempts,
+			 last_status_code, last_error, created_at, updated_at)
+			VALUES (
+				${delivery.id}, ${delivery.webhookId}, ${delivery.event},
+				${delivery.payload}, ${delivery.status}, ${delivery.attempts},
+				${delivery.lastStatusCode}, ${delivery.lastError},
+				${delivery.createdAt}, ${delivery.updatedAt}
+			)
+			ON CONFLICT (id) DO UPDATE SET
+				status           = EXCLUDED.status,
+				attempts         = EXCLUDED.attempts,
+				last_status_code = EXCLUDED.last_status_code,
+				last_error       = EXCLUDED.last_error,
+				updated_at       = EXCLUDED.updated_at
+		`;
+	}
+
+	async getWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+		await this.initialize();
+		const rows = await this.sql`
+			SELECT * FROM webhook_delivery
+			ORDER BY created_at DESC, id DESC
+			LIMIT ${limit}
+		`;
+		return rows.map((r) => ({
+			id: r.id as string,
+			webhookId: r.webhook_id as string,
+			event: r.event as string,
+			payload: r.payload as string,
+			status: r.status as WebhookDelivery["status"],
+			attempts: Number(r.attempts),
+			lastStatusCode:
+				r.last_status_code === null ? null : Number(r.last_status_code),
+			lastError: (r.last_error as string | null) ?? null,
+			createdAt: Number(r.created_at),
+			updatedAt: Number(r.updated_at),
+		}));
+	}
+
+	// ── API Tokens ────────────────────────────────────────────────────────────
+
+	async createApiToken(token: ApiToken, tokenHash: string): Promise<void> {
+		await this.initialize();
+		await this.sql`
+			INSERT INTO api_token
+			(id, name, token_hash, scopes, stores, created_at, last_used_at)
+			VALUES (
+				${token.id}, ${token.name}, ${tokenHash},
+				${this.sql.json(token.scopes)},
+				${token.stores ? this.sql.json(token.stores) : null},
+				${token.createdAt}, ${token.lastUsedAt}
+			)
+		`;
+	}
+
+	async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+		await this.initialize();
+		const rows = await this.sql`
+			SELECT * FROM api_token WHERE token_hash = ${tokenHash}
+		`;
+		return rows.length > 0 ? pgRowToApiToken(rows[0]) : null;
+	}
+
+	async listApiTokens(): Promise<ApiToken[]> {
+		await this.initialize();
+		const rows = await this.sql`
+			SELECT * FROM api_token ORDER BY created_at, name
+		`;
+		return rows.map(pgRowToApiToken);
+	}
+
+	async revokeApiToken(name: string): Promise<boolean> {
+		await this.initialize();
+		const result = await this.sql`
+			DELETE FROM api_token WHERE name = ${name}
+		`;
+		return result.count > 0;
+	}
+
+	async touchApiToken(id: string, usedAt: number): Promise<void> {
+		await this.initialize();
+		await this.sql`
+			UPDATE api_token SET last_used_at = ${usedAt} WHERE id = ${id}
+		`;
+	}
+
 	// ── Reinitialize ──────────────────────────────────────────────────────────
 
 	async reinitialize(): Promise<void> {
@@ -363,3 +564,15 @@ export class PostgresServerStateDB implements IServerStateDB {
 		await this.sql.end();
 	}
 }
+
+function pgRowToApiToken(r: postgres.Row): ApiToken {
+	const parse = (v: unknown) => (typeof v === "string" ? JSON.parse(v) : v);
+	return {
+		id: r.id as string,
+		name: r.name as string,
+		scopes: parse(r.scopes),
+		stores: r.stores === null ? null : parse(r.stores),
+		createdAt: Number(r.created_at),
+		lastUsedAt: r.last_used_at === null ? null : Number(r.last_used_at),
+	};
+}
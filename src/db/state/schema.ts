@@ -8,6 +8,9 @@
  *   - pending_episodes: daemon writes, server drains
  *   - consolidated_episode: idempotency log for consolidation
  *   - consolidation_state: global server counters
+ *   - embedding_cache: LRU cache of embeddings keyed by (model, dimensions, text hash)
+ *   - webhook_delivery: log of outbound webhook deliveries and their attempts
+ *   - api_token: named API tokens (hashed) with their scopes and stores
  *
  * Does NOT hold daemon_cursor — that lives in daemon.db (DaemonDB), always
  * local SQLite per-machine. See src/db/daemon/index.ts.
@@ -17,7 +20,7 @@
  *   the staging tables are copied from knowledge.db to state.db automatically.
  */
 
-export const SERVER_LOCAL_SCHEMA_VERSION = 1;
+export const SERVER_LOCAL_SCHEMA_VERSION = 4;
 
 // Schema is always additive (CREATE TABLE IF NOT EXISTS), so column-manifest
 // drift detection is not used for state.db. See KnowledgeDB (knowledge.db)
@@ -88,4 +91,50 @@ export const SERVER_LOCAL_CREATE_TABLES = `
   INSERT OR IGNORE INTO consolidation_state
     (id, last_consolidated_at, total_sessions_processed, total_entries_created, total_entries_updated)
   VALUES (1, 0, 0, 0, 0);
+
+  -- Embedding cache (v2): embeddings of previously embedded texts, so repeated
+  -- activation cues and re-embedded entries skip the embedding API.
+  -- dimensions is 0 when the model's default dimensions are used.
+  -- Rows beyond EMBEDDING_CACHE_MAX_ENTRIES are evicted by last_used_at.
+  CREATE TABLE IF NOT EXISTS embedding_cache (
+    model        TEXT    NOT NULL,
+    dimensions   INTEGER NOT NULL,
+    text_hash    TEXT    NOT NULL,
+    embedding    BLOB    NOT NULL,
+    last_used_at INTEGER NOT NULL,
+    PRIMARY KEY (model, dimensions, text_hash)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used
+    ON embedding_cache(last_used_at);
+
+  -- Webhook delivery log (v3): one row per delivery, updated after each attempt.
+  -- payload is the exact JSON body that was signed and sent.
+  CREATE TABLE IF NOT EXISTS webhook_delivery (
+    id               TEXT    PRIMARY KEY,
+    webhook_id       TEXT    NOT NULL,
+    event            TEXT    NOT NULL,
+    payload          TEXT    NOT NULL,
+    status           TEXT    NOT NULL CHECK(status IN ('pending', 'delivered', 'failed')),
+    attempts         INTEGER NOT NULL DEFAULT 0,
+    last_status_code INTEGER,
+    last_error       TEXT,
+    created_at       INTEGER NOT NULL,
+    updated_at       INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_webhook_delivery_created
+    ON webhook_delivery(created_at);
+
+  -- Named API tokens (v4). token_hash is the hex SHA-256 of the secret;
+  -- scopes and stores are JSON arrays (stores NULL = all stores).
+  CREATE TABLE IF NOT EXISTS api_token (
+    id           TEXT    PRIMARY KEY,
+    name         TEXT    NOT NULL UNIQUE,
+    token_hash   TEXT    NOT NULL UNIQUE,
+    scopes       TEXT    NOT NULL,
+    stores       TEXT,
+    created_at   INTEGER NOT NULL,
+    last_used_at INTEGER
+  );
 `;
@@ -5,7 +5,13 @@ import {
 	resolvePostgresUri,
 	resolveSqlitePath,
 } from "../config-file.js";
-import type { KnowledgeServerConfig, StoreConfig } from "../config-file.js";
+import type {
+	KnowledgeServerConfig,
+	ProjectConfig,
+	StoreConfig,
+	TlsConfig,
+	WebhookConfig,
+} from "../config-file.js";
 import { DomainRouter } from "../consolidation/domain-router.js";
 import { logger } from "../logger.js";
 import { KnowledgeDB } from "./sqlite/index.js";
@@ -43,6 +49,8 @@ export class StoreRegistry {
 	readonly serverStateDb: IServerStateDB;
 	/** Domain router for consolidation routing. Null when no domains are configured. */
 	readonly domainRouter: DomainRouter | null;
+	/** Configured project path prefixes — used by activation for cwd-scoped ranking. */
+	readonly projects: ProjectConfig[];
 	/**
 	 * Store IDs that failed to connect at startup and are currently unavailable.
 	 * Consolidation skips episodes destined for these stores; they are retried
@@ -57,6 +65,12 @@ export class StoreRegistry {
 	readonly host: string;
 	/** Resolved from DAEMON_AUTO_SPAWN env → config.jsonc daemonAutoSpawn → true. */
 	readonly daemonAutoSpawn: boolean;
+	/** Outbound webhooks from config.jsonc. */
+	readonly webhooks: WebhookConfig[];
+	/** TLS certificate from config.jsonc; null serves plain HTTP. */
+	readonly tls: TlsConfig | null;
+	/** Browser origins allowed by CORS, from config.jsonc. */
+	readonly corsOrigins: string[];
 
 	private constructor(
 		stores: Map<string, IKnowledgeStore>,
@@ -83,10 +97,14 @@ export class StoreRegistry {
 			config.domains.length > 0
 				? new DomainRouter(config, stores, writable, unavailableIds)
 				: null;
+		this.projects = config.projects;
 		this.userId = config.userId;
 		this.port = config.port;
 		this.host = config.host;
 		this.daemonAutoSpawn = config.daemonAutoSpawn;
+		this.webhooks = config.webhooks;
+		this.tls = config.tls;
+		this.corsOrigins = config.corsOrigins;
 	}
 
 	/** The primary store that receives consolidation writes. */
@@ -123,6 +141,14 @@ export class StoreRegistry {
 		return [...this.readable];
 	}
 
+	/**
+	 * All activation read stores with their IDs.
+	 * Used by activation's `store` filter.
+	 */
+	readStoreEntries(): Array<{ id: string; db: IKnowledgeStore }> {
+		return Array.from(this.stores, ([id, db]) => ({ id, db }));
+	}
+
 	/** Close all store connections including serverStateDb. */
 	async close(): Promise<void> {
 		await Promise.all([
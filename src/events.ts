@@ -0,0 +1,100 @@
+import type { IKnowledgeStore } from "./db/interface.js";
+import { logger } from "./logger.js";
+import type { KnowledgeEvent } from "./types.js";
+
+/**
+ * In-process publish/subscribe bus for knowledge changes — the source of the
+ * GET /events SSE stream.
+ *
+ * Emitters (ConsolidationEngine, Reconsolidator, ContradictionScanner and the
+ * entry routes) call emit() after a write has committed. Delivery is
+ * synchronous and best-effort: a throwing listener is logged and skipped, and
+ * nothing is buffered for subscribers that connect later. Each event gets a
+ * sequence number, used as the SSE event ID.
+ *
+ * Usage:
+ *   import { knowledgeEvents } from "./events.js";
+ *   const unsubscribe = knowledgeEvents.subscribe((event, id) => { ... });
+ *   knowledgeEvents.emit({ type: "entry.updated", entryId });
+ */
+
+type Listener = (event: KnowledgeEvent, id: number) => void;
+
+class KnowledgeEventBus {
+	private listeners = new Set<Listener>();
+	private nextId = 1;
+
+	emit(event: KnowledgeEvent): void {
+		const id = this.nextId++;
+		for (const listener of this.listeners) {
+			try {
+				listener(event, id);
+			} catch (e) {
+				logger.warn(
+					`[events] Listener failed for ${event.type}. Error: ${e instanceof Error ? e.message : String(e)}`,
+				);
+			}
+		}
+	}
+
+	/** Register a listener. Returns a function that removes it. */
+	subscribe(listener: Listener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/** Number of current subscribers (connected /events clients and tests). */
+	get subscriberCount(): number {
+		return this.listeners.size;
+	}
+}
+
+export const knowledgeEvents = new KnowledgeEventBus();
+
+/**
+ * Emit the events an applyContradictionResolution() call produces. As there,
+ * the resolution is stated from the new entry's point of view: `supersede_old`
+ * and `merge` supersede the existing entry, `supersede_new` the new one.
+ * `reason` is carried on the entry.conflicted event of an irresolvable pair.
+ */
+export function emitResolutionEvents(
+	resolution: Parameters<IKnowledgeStore["applyContradictionResolution"]>[0],
+	newEntryId: string,
+	existingEntryId: string,
+	reason?: string,
+): void {
+	switch (resolution) {
+		case "supersede_old":
+			knowledgeEvents.emit({
+				type: "entry.superseded",
+				entryId: existingEntryId,
+				supersededBy: newEntryId,
+			});
+			break;
+		case "supersede_new":
+			knowledgeEvents.emit({
+				type: "entry.superseded",
+				entryId: newEntryId,
+				supersededBy: existingEntryId,
+			});
+			break;
+		case "merge":
+			knowledgeEvents.emit({ type: "entry.updated", entryId: newEntryId });
+			knowledgeEvents.emit({
+				type: "entry.superseded",
+				entryId: existingEntryId,
+				supersededBy: newEntryId,
+			});
+			break;
+		case "irresolvable":
+			knowledgeEvents.emit({
+				type: "entry.conflicted",
+				entryId: newEntryId,
+				counterpartId: existingEntryId,
+				reason,
+			});
+			break;
+	}
+}
@@ -7,6 +7,8 @@ import { serve } from "bun";
 // @ts-ignore — Bun supports JSON imports natively
 import pkg from "../package.json" with { type: "json" };
 import { ActivationEngine } from "./activation/activate.js";
+import { EmbeddingCache } from "./activation/embedding-cache.js";
+import { unsafeExposureReasons } from "./api/exposure.js";
 import { createApp } from "./api/server.js";
 import { runActivate } from "./commands/activate.js";
 import { runCalibrate } from "./commands/calibrate.js";
@@ -26,7 +28,9 @@ import { errCode } from "./utils.js";
 import { main as mcpMain } from "./mcp/index.js";
 import { runSetupTool } from "./commands/setup-tool.js";
 import { runStop } from "./commands/stop.js";
+import { runToken } from "./commands/token.js";
 import { downloadAndInstallDaemon, runUpdate } from "./commands/update.js";
+import { WebhookDispatcher } from "./webhooks.js";
 
 // Bun normalises process.argv the same way for both compiled binaries and `bun run`:
 //   argv[0] = "bun"
@@ -164,6 +168,12 @@ async function main() {
 		process.exit(0);
 	}
 
+	// `knowledge-server token create|list|revoke`
+	if (subcommand === "token") {
+		await runToken(subcommandArgs);
+		process.exit(); // keeps the process.exitCode runToken sets on failure
+	}
+
 	// `knowledge-server --help` / `knowledge-server help`
 	if (subcommand === "--help" || subcommand === "-h" || subcommand === "help") {
 		console.log(`knowledge-server v${pkg.version}
@@ -181,6 +191,7 @@ Commands:
   review [--filter <f>]     Interactively review entries (filter: conflicted|stale|all)
   calibrate                 Recommend similarity thresholds for the active embedding model
   reinitialize              Reset daemon cursor, state, or store entries (see --reset-state, --reset-store)
+  token create|list|revoke  Manage named API tokens with scopes (see README)
   setup-tool <tool>         Set up integration (opencode|claude-code|cursor|codex|vscode)
   update [--version v1.2.3] Update to the latest (or specified) release
   mcp                       Start the MCP stdio proxy (used by tool integrations)
@@ -240,7 +251,16 @@ Run \`knowledge-server help-advanced\` for additional commands.
 		db,
 		registry.readStores(),
 		registry.writableStores(),
+		registry.projects,
+		registry.readStoreEntries(),
 	);
+	// The engine's EmbeddingClient is shared with reconsolidation, so both
+	// activation cues and re-embedded entries go through the cache.
+	if (config.embedding.cacheMaxEntries > 0) {
+		activation.embeddings.useCache(
+			new EmbeddingCache(serverStateDb, config.embedding.cacheMaxEntries),
+		);
+	}
 	const consolidation = new ConsolidationEngine(
 		db,
 		serverStateDb,
@@ -248,6 +268,13 @@ Run \`knowledge-server help-advanced\` for additional commands.
 		[new PendingEpisodesReader(serverStateDb)],
 		registry.domainRouter,
 	);
+	// Webhooks subscribe to the knowledge event bus, so they see changes from
+	// consolidation and the API alike.
+	const webhooks =
+		registry.webhooks.length > 0
+			? new WebhookDispatcher(registry.webhooks, serverStateDb)
+			: null;
+	webhooks?.start();
 
 	// Check if this is a first run (no knowledge yet, but episodes exist)
 	const stats = await db.getStats();
@@ -351,23 +378,44 @@ Run \`knowledge-server help-advanced\` for additional commands.
 		registry.unavailableStoreIds,
 		registry.readStores(),
 		registry.writableStores(),
+		registry.corsOrigins,
 	);
 
 	// port/host/daemonAutoSpawn come from the registry (config.jsonc with env var override)
 	// rather than config.ts, so they reflect the config file if one exists.
-	const { port, host, daemonAutoSpawn } = registry;
+	const { port, host, daemonAutoSpawn, tls } = registry;
 
-	// Loopback-host check runs post-registry so it covers values set via config.jsonc
+	// Exposure check runs post-registry so it covers values set via config.jsonc
 	// (not just KNOWLEDGE_HOST env var). Checked here rather than in validateConfig()
 	// which runs before the registry is created.
-	const loopbackHosts = ["127.0.0.1", "::1", "localhost"];
-	if (!loopbackHosts.includes(host)) {
-		logger.error(
-			`"host" is set to "${host}", which exposes the server on non-loopback interfaces with no authentication. Only use 127.0.0.1 unless you have added authentication and understand the security implications.`,
-		);
+	const exposureProblems = unsafeExposureReasons({
+		host,
+		requireAuth: config.requireAuth,
+		tls: tls !== null,
+		allowPlainHttp: config.allowPlainHttp,
+		corsOrigins: registry.corsOrigins,
+	});
+	if (exposureProblems.length > 0) {
+		for (const problem of exposureProblems) logger.error(problem);
 		process.exit(1);
 	}
 
+	let tlsFiles: { cert: string; key: string } | undefined;
+	if (tls) {
+		try {
+			tlsFiles = {
+				cert: readFileSync(tls.cert, "utf8"),
+				key: readFileSync(tls.key, "utf8"),
+			};
+		} catch (e) {
+			logger.error(
+				`Could not read the TLS certificate or key from config.jsonc "tls": ${e instanceof Error ? e.message : String(e)}`,
+			);
+			process.exit(1);
+		}
+	}
+	const scheme = tlsFiles ? "https" : "http";
+
 	// Start server — PID file written after this succeeds so it only exists
 	// when a port is truly bound.
 	let server: ReturnType<typeof serve>;
@@ -376,7 +424,8 @@ Run \`knowledge-server help-advanced\` for additional commands.
 			fetch: app.fetch,
 			port,
 			hostname: host,
-			idleTimeout: 255, // max allowed by Bun — consolidation can take a while
+			tls: tlsFiles,
+			idleTimeout: 255, // max allowed by Bun — LLM-backed requests (remember, POST /entries) can take a while
 		});
 	} catch (e) {
 		if (errCode(e) === "EADDRINUSE") {
@@ -395,23 +444,23 @@ Run \`knowledge-server help-advanced\` for additional commands.
 		writeFileSync(config.pidPath, String(process.pid), "utf8");
 	}
 
-	logger.raw(`\n✓ HTTP API listening on http://${host}:${port}`);
+	logger.raw(`\n✓ HTTP API listening on ${scheme}://${host}:${port}`);
 	logger.raw("  GET  /activate?q=...                  — Activate knowledge");
 	logger.raw(
-		"  POST /consolidate                      — Run consolidation   [admin token required]",
+		"  POST /consolidate                      — Start consolidation [consolidate scope required]",
 	);
 	logger.raw("  GET  /review                           — Review entries");
 	logger.raw("  GET  /status                           — Health check");
 	logger.raw("  GET  /entries                          — List entries");
 	logger.raw(
-		"  POST /hooks/claude-code/user-prompt    — Claude Code hook (unauthenticated)",
+		`  POST /hooks/claude-code/user-prompt    — Claude Code hook${config.requireAuth ? " [token required]" : " (unauthenticated)"}`,
 	);
 	logger.raw(
-		`  ALL  /mcp                              — MCP streamable-http${adminTokenIsStable ? " [admin token required]" : " (unauthenticated — local only)"}`,
+		`  ALL  /mcp                              — MCP streamable-http${adminTokenIsStable || config.requireAuth ? " [token required]" : " (unauthenticated — local only)"}`,
 	);
 	logger.rawStdoutOnly(`\n  Admin token (keep this private): ${adminToken}`);
 	logger.rawStdoutOnly(
-		`  curl -X POST -H "Authorization: Bearer <token>" http://${host}:${port}/consolidate`,
+		`  curl -X POST -H "Authorization: Bearer <token>" ${scheme}://${host}:${port}/consolidate`,
 	);
 	if (config.logPath) {
 		logger.raw(`\n  Logs: ${config.logPath}`);
@@ -729,6 +778,7 @@ Run \`knowledge-server help-advanced\` for additional commands.
 			}
 		}
 		consolidation.close();
+		await webhooks?.stop();
 		await registry.close();
 		// Clean up PID file on graceful shutdown — only if it still points to us.
 		// Guards against a race where a second instance already overwrote the file.
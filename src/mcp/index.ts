@@ -1,12 +1,38 @@
 import { spawn } from "node:child_process";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	McpServer,
+	ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import { z } from "zod";
 // @ts-ignore — Bun supports JSON imports natively
 import pkg from "../../package.json" with { type: "json" };
-import { contradictionTagBlock, staleTag } from "../activation/format.js";
+import {
+	formatActivationExplanation,
+	formatActivationResult,
+	formatCorrectResult,
+	formatEntryDetail,
+	formatEntryList,
+	formatForgetResult,
+	formatRememberResult,
+	formatTopicList,
+} from "../activation/format.js";
 import { config } from "../config.js";
-import type { ActivationResult } from "../types.js";
+import { ENTRY_SORTS, KNOWLEDGE_STATUSES, KNOWLEDGE_TYPES } from "../types.js";
+import type {
+	ActivationResult,
+	KnowledgeEntry,
+	KnowledgeRelation,
+	RememberResult,
+} from "../types.js";
+import {
+	CONSOLIDATE_PROMPT_DESCRIPTION,
+	KNOWLEDGE_REVIEW_PROMPT_DESCRIPTION,
+	consolidatePrompt,
+	knowledgeReviewPrompt,
+} from "./prompts.js";
+import type { ReviewData } from "./prompts.js";
 
 /**
  * Zod input schema for the `activate` MCP tool.
@@ -35,8 +61,371 @@ export const activateInputSchema = {
 		.describe(
 			`Minimum cosine similarity score to include an entry (default: ${config.activation.similarityThreshold}). Lower to cast a wider net (e.g. 0.25), raise to require a tighter match (e.g. 0.45).`,
 		),
+	excludeIds: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Entry IDs to leave out of the result — e.g. entries already returned earlier in this conversation.",
+		),
+	sessionId: z
+		.string()
+		.min(1)
+		.optional()
+		.describe(
+			"Stable ID of the current conversation. Entries already returned to the same session are skipped, so repeated calls only surface newly relevant knowledge.",
+		),
+	type: z
+		.array(z.enum(KNOWLEDGE_TYPES))
+		.optional()
+		.describe(
+			"Only return entries of these types — e.g. ['procedure'] for how-to knowledge.",
+		),
+	topic: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Only return entries tagged with at least one of these topics (case-insensitive).",
+		),
+	store: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Only search these knowledge stores, by their config ID (e.g. ['team']).",
+		),
+	minConfidence: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Only return entries with at least this confidence (0-1)."),
+	includeStatuses: z
+		.array(z.enum(KNOWLEDGE_STATUSES))
+		.optional()
+		.describe(
+			"Entry statuses to search (default: active and conflicted). Add 'superseded' or 'archived' to recall outdated knowledge.",
+		),
+};
+
+/** Description of the `activate` MCP tool. */
+export const ACTIVATE_TOOL_DESCRIPTION =
+	"Activate associated knowledge by providing cues. Returns knowledge entries that are semantically related to the provided cues. Use this when you need to recall what has been learned from prior sessions about a specific topic. Provide descriptive cues — topics, questions, or keywords — and receive relevant knowledge entries ranked by association strength.";
+
+/**
+ * Zod output schema for the `activate` MCP tool. The tool returns the same
+ * entries as structuredContent alongside the markdown text, for clients that
+ * consume results programmatically.
+ */
+export const activateOutputSchema = {
+	query: z.string(),
+	totalActive: z.number().describe("Active entries searched."),
+	entries: z.array(
+		z.object({
+			id: z.string(),
+			type: z.enum(KNOWLEDGE_TYPES),
+			status: z.enum(KNOWLEDGE_STATUSES),
+			content: z.string(),
+			topics: z.array(z.string()),
+			confidence: z.number(),
+			scores: z.object({
+				rawSimilarity: z
+					.number()
+					.describe("Cosine similarity between the cues and the entry."),
+				similarity: z
+					.number()
+					.describe("Ranking score: rawSimilarity weighted by strength."),
+				fusion: z
+					.number()
+					.optional()
+					.describe("Rank fusion score, when lexical retrieval ran."),
+			}),
+			staleness: z.object({
+				ageDays: z.number(),
+				strength: z.number(),
+				lastAccessedDaysAgo: z.number(),
+				mayBeStale: z.boolean(),
+			}),
+			contradiction: z
+				.object({
+					conflictingEntryId: z.string(),
+					conflictingContent: z.string(),
+					caveat: z.string(),
+				})
+				.optional()
+				.describe(
+					"Present when the entry's contradicting counterpart also activated — do not act on it without clarifying which version is correct.",
+				),
+			via: z
+				.object({ entryId: z.string(), relation: z.string() })
+				.optional()
+				.describe("Present on entries pulled in by a related activated entry."),
+		}),
+	),
+};
+
+/** structuredContent of the `activate` MCP tool for an activation result. */
+export function activationStructuredContent(
+	result: ActivationResult,
+): z.infer<z.ZodObject<typeof activateOutputSchema>> {
+	return {
+		query: result.query,
+		totalActive: result.totalActive,
+		entries: result.entries.map((r) => ({
+			id: r.entry.id,
+			type: r.entry.type,
+			status: r.entry.status,
+			content: r.entry.content,
+			topics: r.entry.topics,
+			confidence: r.entry.confidence,
+			scores: {
+				rawSimilarity: r.rawSimilarity,
+				similarity: r.similarity,
+				fusion: r.fusion?.score,
+			},
+			staleness: r.staleness,
+			contradiction: r.contradiction,
+			via: r.via,
+		})),
+	};
+}
+
+/** Zod input schema for the `get_entry` MCP tool. */
+export const getEntryInputSchema = {
+	id: z.string().min(1).describe("ID of the knowledge entry."),
+};
+
+/** Zod input schema for the `list_topics` MCP tool. */
+export const listTopicsInputSchema = {
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe("Maximum number of topics to list, most used first."),
+};
+
+/** Description of the `search_entries` MCP tool. */
+export const SEARCH_ENTRIES_TOOL_DESCRIPTION =
+	"Browse knowledge entries by filters instead of by meaning: type, status, topic, store and a case-insensitive substring of the content, most recently updated first (or by strength or access count). Results are paginated — pass the returned cursor to get the next page. Use `activate` for semantic recall.";
+
+/** Page size of the `search_entries` MCP tool when no limit is given. */
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+/** Zod input schema for the `search_entries` MCP tool. */
+export const searchEntriesInputSchema = {
+	query: z
+		.string()
+		.optional()
+		.describe("Case-insensitive substring the entry content must contain."),
+	type: z
+		.enum(KNOWLEDGE_TYPES)
+		.optional()
+		.describe("Only entries of this type."),
+	status: z
+		.enum(KNOWLEDGE_STATUSES)
+		.optional()
+		.describe("Only entries with this status (default: any status)."),
+	topic: z.string().optional().describe("Only entries tagged with this topic."),
+	store: z
+		.array(z.string())
+		.optional()
+		.describe("Only entries in these knowledge stores, by config ID."),
+	sort: z
+		.enum(ENTRY_SORTS)
+		.optional()
+		.describe(
+			"Order, highest first: updatedAt (default), strength or accessCount.",
+		),
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(100)
+		.optional()
+		.describe(`Page size (default: ${DEFAULT_SEARCH_LIMIT}).`),
+	cursor: z
+		.string()
+		.optional()
+		.describe("Cursor returned with the previous page, to fetch the next one."),
+};
+
+/**
+ * Zod input schema for the `explain_activation` MCP tool — the `activate`
+ * fields that shape ranking, without the session-level exclusions.
+ */
+export const explainActivationInputSchema = {
+	cues: z
+		.string()
+		.describe(
+			"Cues to explain, one per line. Each line is scored as a separate cue, so the breakdown shows which cue matched each entry.",
+		),
+	limit: activateInputSchema.limit,
+	threshold: activateInputSchema.threshold,
+	type: activateInputSchema.type,
+	topic: activateInputSchema.topic,
+	store: activateInputSchema.store,
+	minConfidence: activateInputSchema.minConfidence,
+	includeStatuses: activateInputSchema.includeStatuses,
+};
+
+/** Description of the `remember` MCP tool, shared by the stdio proxy and /mcp. */
+export const REMEMBER_TOOL_DESCRIPTION =
+	"Store a piece of knowledge now instead of waiting for the next consolidation of this session. Use it when you and the user have settled something worth knowing in future sessions — a decision, a convention, a non-obvious fact or a procedure. The entry is deduplicated against existing knowledge: it is inserted, merged into a near-identical entry, or dropped in favour of an entry that already says it, and checked for contradictions. Do not use it for task progress or anything only relevant to the current conversation.";
+
+/** Zod input schema for the `remember` MCP tool. */
+export const rememberInputSchema = {
+	type: z
+		.enum(KNOWLEDGE_TYPES)
+		.describe(
+			"Kind of knowledge: fact, principle, pattern, decision or procedure.",
+		),
+	content: z
+		.string()
+		.min(1)
+		.max(4000)
+		.describe(
+			"The knowledge itself, as one self-contained statement that will make sense in a future session without this conversation.",
+		),
+	topics: z
+		.array(z.string().min(1))
+		.min(1)
+		.max(10)
+		.describe("Topics the entry is about, e.g. ['deployment', 'ci']."),
+	confidence: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("How certain the knowledge is, 0–1 (default: 0.8)."),
+	cwd: z
+		.string()
+		.optional()
+		.describe(
+			"Your current working directory. Routes the entry to the project's domain and lets activation rank it higher in this project.",
+		),
+	domain: z
+		.string()
+		.optional()
+		.describe(
+			"Domain ID to store the entry in, overriding the project's default domain. Omit unless the user asked for a specific domain.",
+		),
+	sessionId: z
+		.string()
+		.optional()
+		.describe("Your conversation or session ID, recorded as provenance."),
 };
 
+/** Description of the `correct` MCP tool, shared by the stdio proxy and /mcp. */
+export const CORRECT_TOOL_DESCRIPTION =
+	"Replace an outdated or inaccurate knowledge entry with corrected content (e.g. a table or service was renamed). The original is kept as superseded and no longer activates. Requires the admin token. Use get_entry first to read the current content and write the full corrected statement, not a diff.";
+
+/** Description of the `forget` MCP tool, shared by the stdio proxy and /mcp. */
+export const FORGET_TOOL_DESCRIPTION =
+	"Flag a knowledge entry as wrong so it no longer activates. The entry is tombstoned (kept only for the audit trail). Requires the admin token. Prefer `correct` when you know what the right knowledge is.";
+
+/** Shared fields of the `correct` and `forget` tools — who reported it and why. */
+const feedbackInputSchema = {
+	reason: z
+		.string()
+		.max(500)
+		.optional()
+		.describe("Why the entry is wrong or outdated — recorded as provenance."),
+	sessionId: z
+		.string()
+		.optional()
+		.describe("Your conversation or session ID, recorded as provenance."),
+};
+
+/** Zod input schema for the `correct` MCP tool. */
+export const correctInputSchema = {
+	id: z.string().min(1).describe("ID of the entry to correct."),
+	content: z
+		.string()
+		.min(1)
+		.max(4000)
+		.describe("The corrected knowledge, as a complete statement."),
+	...feedbackInputSchema,
+};
+
+/** Zod input schema for the `forget` MCP tool. */
+export const forgetInputSchema = {
+	id: z.string().min(1).describe("ID of the entry to forget."),
+	...feedbackInputSchema,
+};
+
+/** Split explain_activation cues into one cue per non-empty line. */
+export function cueLines(cues: string): string[] {
+	return [
+		...new Set(
+			cues
+				.split("\n")
+				.map((line) => line.trim())
+				.filter(Boolean),
+		),
+	];
+}
+
+/** Entries listed by resources/list and read from a topic resource. */
+export const RESOURCE_LIST_LIMIT = 100;
+
+/** URI template of the per-entry MCP resources. */
+export const ENTRY_RESOURCE_TEMPLATE = "knowledge://entry/{id}";
+
+/** URI template of the per-topic MCP resources: active entries tagged with the topic. */
+export const TOPIC_RESOURCE_TEMPLATE = "knowledge://topic/{topic}";
+
+/** URI of the MCP resource listing all topics. */
+export const TOPICS_RESOURCE_URI = "knowledge://topics";
+
+export function entryResourceUri(id: string): string {
+	return `knowledge://entry/${encodeURIComponent(id)}`;
+}
+
+export function topicResourceUri(topic: string): string {
+	return `knowledge://topic/${encodeURIComponent(topic)}`;
+}
+
+/** Decoded value of a variable matched from a resource URI template. */
+export function resourceVariable(variables: Variables, name: string): string {
+	const value = variables[name];
+	return decodeURIComponent(Array.isArray(value) ? value.join(",") : value);
+}
+
+/** resources/list item for an entry: a short name from its content. */
+export function entryResource(entry: Omit<KnowledgeEntry, "embedding">) {
+	const name =
+		entry.content.length > 80
+			? `${entry.content.slice(0, 79)}…`
+			: entry.content;
+	return {
+		uri: entryResourceUri(entry.id),
+		name: `[${entry.type}] ${name}`,
+		mimeType: "text/markdown",
+	};
+}
+
+/** resources/list item for a topic. */
+export function topicResource({
+	topic,
+	count,
+}: { topic: string; count: number }) {
+	return {
+		uri: topicResourceUri(topic),
+		name: `${topic} (${count} entries)`,
+		mimeType: "text/markdown",
+	};
+}
+
+/** Topic names completing a partially typed topic resource URI. */
+export function completeTopic(
+	topics: Array<{ topic: string; count: number }>,
+	value: string,
+): string[] {
+	const prefix = value.toLowerCase();
+	return topics
+		.map(({ topic }) => topic)
+		.filter((topic) => topic.startsWith(prefix));
+}
+
 /** Base URL of the knowledge HTTP server, derived from KNOWLEDGE_HOST / KNOWLEDGE_PORT. */
 function serverBaseUrl(): string {
 	return `http://${config.host}:${config.port}`;
@@ -44,7 +433,8 @@ function serverBaseUrl(): string {
 
 /**
  * Check whether the knowledge HTTP server is reachable.
- * Returns true if it responds to GET /status within the given timeout.
+ * Returns true if it responds to GET /status within the given timeout. A 401
+ * counts: with KNOWLEDGE_REQUIRE_AUTH=true the server is up but wants a token.
  */
 async function isServerReachable(
 	baseUrl: string,
@@ -54,7 +444,7 @@ async function isServerReachable(
 		const res = await fetch(`${baseUrl}/status`, {
 			signal: AbortSignal.timeout(timeoutMs),
 		});
-		return res.ok;
+		return res.ok || res.status === 401;
 	} catch {
 		return false;
 	}
@@ -109,10 +499,75 @@ async function tryAutoStart(timeoutMs = 8000): Promise<boolean> {
 	return false;
 }
 
+/**
+ * Fetch JSON from the knowledge HTTP server on behalf of a tool call.
+ * Returns the parsed body, or an MCP error result for a non-2xx response or
+ * an unreachable server.
+ */
+async function fetchForTool<T>(
+	url: URL,
+	action: string,
+	init: RequestInit = {},
+	timeoutMs = 15_000,
+): Promise<
+	| { ok: true; body: T }
+	| {
+			ok: false;
+			result: { content: Array<{ type: "text"; text: string }>; isError: true };
+	  }
+> {
+	const fail = (text: string) => ({
+		ok: false as const,
+		result: {
+			content: [{ type: "text" as const, text }],
+			isError: true as const,
+		},
+	});
+	// Read endpoints need a token when the server runs with
+	// KNOWLEDGE_REQUIRE_AUTH=true; send the configured one everywhere.
+	const headers = new Headers(init.headers);
+	if (config.adminToken && !headers.has("Authorization")) {
+		headers.set("Authorization", `Bearer ${config.adminToken}`);
+	}
+	try {
+		const response = await fetch(url, {
+			...init,
+			headers,
+			signal: AbortSignal.timeout(timeoutMs),
+		});
+		if (!response.ok) {
+			return fail(
+				`Knowledge server error (${response.status}): ${await response.text()}`,
+			);
+		}
+		return { ok: true, body: (await response.json()) as T };
+	} catch (e) {
+		const isConnRefused =
+			String(e).includes("ECONNREFUSED") ||
+			String(e).includes("Connection refused");
+		return fail(
+			isConnRefused
+				? `Cannot reach knowledge server at ${url.origin}. Is it running? Start it with: knowledge-server`
+				: `Error ${action}: ${e}`,
+		);
+	}
+}
+
 /**
  * MCP server interface for the knowledge system.
  *
- * Exposes a single tool: `activate`
+ * Exposes tools:
+ *   - activate           — semantic recall by cues
+ *   - get_entry          — one entry by ID, with relations
+ *   - list_topics        — topics with entry counts
+ *   - search_entries     — filtered, paginated listing (GET /entries)
+ *   - explain_activation — per-cue similarity breakdown of an activation
+ *   - remember           — store an entry now (POST /remember)
+ *   - correct / forget   — supersede or tombstone an entry (admin token only;
+ *                          registered when KNOWLEDGE_ADMIN_TOKEN is set)
+ *
+ * Resources: knowledge://entry/{id}, knowledge://topics and
+ * knowledge://topic/{topic}. Prompts: knowledge-review and consolidate.
  *
  * Rather than embedding the ActivationEngine directly (which requires DB access
  * and LLM credentials for embedding), this server delegates to the already-running
@@ -146,19 +601,52 @@ export async function main() {
 		version: pkg.version,
 	});
 
-	server.tool(
+	server.registerTool(
 		"activate",
-		"Activate associated knowledge by providing cues. Returns knowledge entries that are semantically related to the provided cues. Use this when you need to recall what has been learned from prior sessions about a specific topic. Provide descriptive cues — topics, questions, or keywords — and receive relevant knowledge entries ranked by association strength.",
-		activateInputSchema,
-		async ({ cues, limit, threshold }) => {
+		{
+			description: ACTIVATE_TOOL_DESCRIPTION,
+			inputSchema: activateInputSchema,
+			outputSchema: activateOutputSchema,
+		},
+		async ({
+			cues,
+			limit,
+			threshold,
+			excludeIds,
+			sessionId,
+			type,
+			topic,
+			store,
+			minConfidence,
+			includeStatuses,
+		}) => {
 			try {
 				const url = new URL(`${baseUrl}/activate`);
 				url.searchParams.set("q", cues);
 				if (limit !== undefined) url.searchParams.set("limit", String(limit));
 				if (threshold !== undefined)
 					url.searchParams.set("threshold", String(threshold));
+				for (const id of excludeIds ?? []) {
+					url.searchParams.append("excludeIds", id);
+				}
+				if (sessionId) url.searchParams.set("sessionId", sessionId);
+				for (const [name, values] of [
+					["type", type],
+					["topic", topic],
+					["store", store],
+					["includeStatuses", includeStatuses],
+				] as const) {
+					for (const value of values ?? []) {
+						url.searchParams.append(name, value);
+					}
+				}
+				if (minConfidence !== undefined)
+					url.searchParams.set("minConfidence", String(minConfidence));
 
 				const response = await fetch(url, {
+					headers: config.adminToken
+						? { Authorization: `Bearer ${config.adminToken}` }
+						: undefined,
 					signal: AbortSignal.timeout(15_000),
 				});
 
@@ -176,42 +664,11 @@ export async function main() {
 				}
 
 				const result = (await response.json()) as ActivationResult;
-
-				if (result.entries.length === 0) {
-					return {
-						content: [
-							{
-								type: "text" as const,
-								text: "No relevant knowledge found for these cues.",
-							},
-						],
-					};
-				}
-
-				const formatted = result.entries
-					.map(
-						(r, i) =>
-							`${i + 1}. [${r.entry.type}] ${r.entry.content}${staleTag(r.staleness)}${contradictionTagBlock(r.contradiction)}\n` +
-							`   Topics: ${r.entry.topics.join(", ")}\n` +
-							`   Confidence: ${r.entry.confidence} | Semantic match: ${r.rawSimilarity.toFixed(3)} | Score: ${r.similarity.toFixed(3)}`,
-					)
-					.join("\n\n");
-
-				const conflictCount = result.entries.filter(
-					(r) => r.contradiction,
-				).length;
-				const conflictNote =
-					conflictCount > 0
-						? ` — ${conflictCount} conflicted, do not act on those without clarifying which version is correct`
-						: "";
-
 				return {
 					content: [
-						{
-							type: "text" as const,
-							text: `## Activated Knowledge (${result.entries.length} entries, ${result.totalActive} total active${conflictNote})\n\n${formatted}`,
-						},
+						{ type: "text" as const, text: formatActivationResult(result) },
 					],
+					structuredContent: activationStructuredContent(result),
 				};
 			} catch (e) {
 				const isConnRefused =
@@ -228,6 +685,377 @@ export async function main() {
 		},
 	);
 
+	server.tool(
+		"get_entry",
+		"Fetch one knowledge entry by ID, with its status, provenance and relations (supports / contradicts / supersedes). Use it to inspect an entry referenced by an activation result or a relation.",
+		getEntryInputSchema,
+		async ({ id }) => {
+			const res = await fetchForTool<{
+				entry: KnowledgeEntry;
+				relations: KnowledgeRelation[];
+			}>(
+				new URL(`${baseUrl}/entries/${encodeURIComponent(id)}`),
+				"fetching entry",
+			);
+			if (!res.ok) return res.result;
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: formatEntryDetail(res.body.entry, res.body.relations),
+					},
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"list_topics",
+		"List the topics of active knowledge with the number of entries tagged with each, most used first. Use it to discover what the knowledge base covers before searching or activating.",
+		listTopicsInputSchema,
+		async ({ limit }) => {
+			const res = await fetchForTool<{
+				topics: Array<{ topic: string; count: number }>;
+			}>(new URL(`${baseUrl}/topics`), "listing topics");
+			if (!res.ok) return res.result;
+			const { topics } = res.body;
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: formatTopicList(
+							limit !== undefined ? topics.slice(0, limit) : topics,
+						),
+					},
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"search_entries",
+		SEARCH_ENTRIES_TOOL_DESCRIPTION,
+		searchEntriesInputSchema,
+		async ({ query, type, status, topic, store, sort, limit, cursor }) => {
+			const url = new URL(`${baseUrl}/entries`);
+			if (query) url.searchParams.set("q", query);
+			if (type) url.searchParams.set("type", type);
+			if (status) url.searchParams.set("status", status);
+			if (topic) url.searchParams.set("topic", topic);
+			for (const id of store ?? []) url.searchParams.append("store", id);
+			if (sort) url.searchParams.set("sort", sort);
+			url.searchParams.set("limit", String(limit ?? DEFAULT_SEARCH_LIMIT));
+			if (cursor) url.searchParams.set("cursor", cursor);
+
+			const res = await fetchForTool<{
+				entries: KnowledgeEntry[];
+				total: number;
+				nextCursor: string | null;
+			}>(url, "searching entries");
+			if (!res.ok) return res.result;
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: formatEntryList(
+							res.body.entries,
+							res.body.total,
+							res.body.nextCursor,
+						),
+					},
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"explain_activation",
+		"Explain why entries activate for the given cues: for each result, its similarity to every cue, strength, rank fusion and graph links. Read-only — does not reinforce entries. Use it to debug unexpected or missing activations.",
+		explainActivationInputSchema,
+		async ({
+			cues,
+			limit,
+			threshold,
+			type,
+			topic,
+			store,
+			minConfidence,
+			includeStatuses,
+		}) => {
+			const url = new URL(`${baseUrl}/activate`);
+			for (const cue of cueLines(cues)) url.searchParams.append("q", cue);
+			url.searchParams.set("explain", "true");
+			if (limit !== undefined) url.searchParams.set("limit", String(limit));
+			if (threshold !== undefined)
+				url.searchParams.set("threshold", String(threshold));
+			for (const [name, values] of [
+				["type", type],
+				["topic", topic],
+				["store", store],
+				["includeStatuses", includeStatuses],
+			] as const) {
+				for (const value of values ?? []) {
+					url.searchParams.append(name, value);
+				}
+			}
+			if (minConfidence !== undefined)
+				url.searchParams.set("minConfidence", String(minConfidence));
+
+			const res = await fetchForTool<ActivationResult>(
+				url,
+				"explaining activation",
+			);
+			if (!res.ok) return res.result;
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: formatActivationExplanation(res.body),
+					},
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"remember",
+		REMEMBER_TOOL_DESCRIPTION,
+		rememberInputSchema,
+		async (request) => {
+			const headers: Record<string, string> = {
+				"Content-Type": "application/json",
+			};
+			// /remember requires the admin token when one is configured.
+			if (config.adminToken) {
+				headers.Authorization = `Bearer ${config.adminToken}`;
+			}
+			const res = await fetchForTool<RememberResult>(
+				new URL(`${baseUrl}/remember`),
+				"remembering knowledge",
+				{ method: "POST", headers, body: JSON.stringify(request) },
+				// Reconsolidation may ask the LLM for a merge decision and a
+				// contradiction check.
+				120_000,
+			);
+			if (!res.ok) return res.result;
+			return {
+				content: [
+					{ type: "text" as const, text: formatRememberResult(res.body) },
+				],
+			};
+		},
+	);
+
+	// Resources and prompts let clients browse and attach knowledge without
+	// tool calls. Unlike tools, a failed read surfaces as a protocol error.
+	const fetchJson = async <T>(url: URL, action: string): Promise<T> => {
+		const res = await fetchForTool<T>(url, action);
+		if (!res.ok) throw new Error(res.result.content[0].text);
+		return res.body;
+	};
+	const fetchTopics = async () =>
+		(
+			await fetchJson<{ topics: Array<{ topic: string; count: number }> }>(
+				new URL(`${baseUrl}/topics`),
+				"listing topics",
+			)
+		).topics;
+
+	server.resource(
+		"entry",
+		new ResourceTemplate(ENTRY_RESOURCE_TEMPLATE, {
+			list: async () => {
+				const url = new URL(`${baseUrl}/entries`);
+				url.searchParams.set("status", "active");
+				url.searchParams.set("limit", String(RESOURCE_LIST_LIMIT));
+				const { entries } = await fetchJson<{ entries: KnowledgeEntry[] }>(
+					url,
+					"listing entries",
+				);
+				return { resources: entries.map(entryResource) };
+			},
+		}),
+		{
+			description: "A knowledge entry with its metadata and relations.",
+			mimeType: "text/markdown",
+		},
+		async (uri, variables) => {
+			const id = resourceVariable(variables, "id");
+			const { entry, relations } = await fetchJson<{
+				entry: KnowledgeEntry;
+				relations: KnowledgeRelation[];
+			}>(
+				new URL(`${baseUrl}/entries/${encodeURIComponent(id)}`),
+				"fetching entry",
+			);
+			return {
+				contents: [
+					{
+						uri: uri.href,
+						mimeType: "text/markdown",
+						text: formatEntryDetail(entry, relations),
+					},
+				],
+			};
+		},
+	);
+
+	server.resource(
+		"topics",
+		TOPICS_RESOURCE_URI,
+		{
+			description: "Topics of active knowledge with entry counts.",
+			mimeType: "text/markdown",
+		},
+		async (uri) => ({
+			contents: [
+				{
+					uri: uri.href,
+					mimeType: "text/markdown",
+					text: formatTopicList(await fetchTopics()),
+				},
+			],
+		}),
+	);
+
+	server.resource(
+		"topic",
+		new ResourceTemplate(TOPIC_RESOURCE_TEMPLATE, {
+			list: async () => ({
+				resources: (await fetchTopics()).map(topicResource),
+			}),
+			complete: {
+				topic: async (value) => {
+					try {
+						return completeTopic(await fetchTopics(), value);
+					} catch {
+						return [];
+					}
+				},
+			},
+		}),
+		{
+			description: "Active knowledge entries tagged with a topic.",
+			mimeType: "text/markdown",
+		},
+		async (uri, variables) => {
+			const url = new URL(`${baseUrl}/entries`);
+			url.searchParams.set("status", "active");
+			url.searchParams.set("topic", resourceVariable(variables, "topic"));
+			url.searchParams.set("limit", String(RESOURCE_LIST_LIMIT));
+			const { entries, total } = await fetchJson<{
+				entries: KnowledgeEntry[];
+				total: number;
+			}>(url, "listing entries");
+			return {
+				contents: [
+					{
+						uri: uri.href,
+						mimeType: "text/markdown",
+						text: formatEntryList(entries, total, null),
+					},
+				],
+			};
+		},
+	);
+
+	server.prompt(
+		"knowledge-review",
+		KNOWLEDGE_REVIEW_PROMPT_DESCRIPTION,
+		async () => {
+			const review = await fetchJson<ReviewData>(
+				new URL(`${baseUrl}/review`),
+				"fetching review data",
+			);
+			return {
+				messages: [
+					{
+						role: "user" as const,
+						content: {
+							type: "text" as const,
+							text: knowledgeReviewPrompt(review, baseUrl),
+						},
+					},
+				],
+			};
+		},
+	);
+
+	server.prompt("consolidate", CONSOLIDATE_PROMPT_DESCRIPTION, () => ({
+		messages: [
+			{
+				role: "user" as const,
+				content: { type: "text" as const, text: consolidatePrompt(baseUrl) },
+			},
+		],
+	}));
+
+	// correct / forget are admin operations on the HTTP server. Without a
+	// configured token this process cannot authenticate, so they are not offered.
+	if (config.adminToken) {
+		const adminInit = (body: unknown): RequestInit => ({
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: `Bearer ${config.adminToken}`,
+			},
+			body: JSON.stringify(body),
+		});
+
+		server.tool(
+			"correct",
+			CORRECT_TOOL_DESCRIPTION,
+			correctInputSchema,
+			async ({ id, ...body }) => {
+				const res = await fetchForTool<{
+					entry: KnowledgeEntry;
+					superseded: string;
+				}>(
+					new URL(`${baseUrl}/entries/${encodeURIComponent(id)}/correct`),
+					"correcting entry",
+					adminInit(body),
+				);
+				if (!res.ok) return res.result;
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: formatCorrectResult(res.body.superseded, res.body.entry),
+						},
+					],
+				};
+			},
+		);
+
+		server.tool(
+			"forget",
+			FORGET_TOOL_DESCRIPTION,
+			forgetInputSchema,
+			async ({ id, ...body }) => {
+				const res = await fetchForTool<{
+					forgotten: string;
+					restoredCounterpart: string | null;
+				}>(
+					new URL(`${baseUrl}/entries/${encodeURIComponent(id)}/forget`),
+					"forgetting entry",
+					adminInit(body),
+				);
+				if (!res.ok) return res.result;
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: formatForgetResult(
+								res.body.forgotten,
+								res.body.restoredCounterpart,
+							),
+						},
+					],
+				};
+			},
+		);
+	}
+
 	const transport = new StdioServerTransport();
 	await server.connect(transport);
 }
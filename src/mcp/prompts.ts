@@ -0,0 +1,127 @@
+import type { KnowledgeEntry } from "../types.js";
+
+/**
+ * MCP prompts — the MCP counterparts of commands/knowledge-review.md and
+ * commands/consolidate.md, for clients (e.g. Claude Desktop) that have no
+ * slash-command files. Keep the workflows in sync with those files.
+ */
+
+type EntryView = Omit<KnowledgeEntry, "embedding">;
+
+/** Body of GET /review. */
+export interface ReviewData {
+	conflicted: EntryView[];
+	stale: EntryView[];
+}
+
+export const KNOWLEDGE_REVIEW_PROMPT_DESCRIPTION =
+	"Review and resolve knowledge entries needing attention — conflicts and stale entries.";
+
+export const CONSOLIDATE_PROMPT_DESCRIPTION =
+	"Run knowledge consolidation — process recent sessions into knowledge entries.";
+
+function reviewLine(entry: EntryView, detail: string): string {
+	return `- [${entry.type}] ${entry.content}\n  ID: ${entry.id} | ${detail} | Source: ${entry.source}`;
+}
+
+/**
+ * The knowledge-review prompt, with the current /review data inlined so the
+ * client does not need a shell to fetch it.
+ */
+export function knowledgeReviewPrompt(
+	review: ReviewData,
+	baseUrl: string,
+): string {
+	const conflicted =
+		review.conflicted.length > 0
+			? review.conflicted
+					.map((e) => reviewLine(e, `Confidence: ${e.confidence}`))
+					.join("\n")
+			: "None.";
+	const stale =
+		review.stale.length > 0
+			? review.stale
+					.map((e) => reviewLine(e, `Strength: ${e.strength.toFixed(2)}`))
+					.join("\n")
+			: "None.";
+
+	return `Review the knowledge graph and resolve entries that need human attention.
+
+## Step 1 — Review data
+
+### Conflicted entries (${review.conflicted.length})
+
+${conflicted}
+
+### Stale entries (${review.stale.length})
+
+${stale}
+
+## Step 2 — Work through each section
+
+All changes require the admin token (KNOWLEDGE_ADMIN_TOKEN) as \`Authorization: Bearer <token>\`.
+
+### Conflicts (highest priority)
+
+Conflicted entries come in pairs — use the get_entry tool (or GET ${baseUrl}/entries/:id) to find each entry's contradicting counterpart. For each pair, present both sides clearly:
+
+- Show entry A and entry B with their content, type, confidence, and source
+- Explain what the conflict is (what claims are mutually exclusive)
+- Ask the user to choose one of:
+  1. **Keep A** (supersede B) — entry A is correct, B is wrong or outdated
+  2. **Keep B** (supersede A) — entry B is correct, A is wrong or outdated
+  3. **Merge** — both contain useful information; ask the user to provide merged content
+  4. **Delete A** — entry A is noise or junk and should be removed entirely
+  5. **Delete B** — entry B is noise or junk and should be removed entirely
+  6. **Skip** — leave as-is for now
+
+To resolve, for the entry whose ID is :id:
+
+- Keep :id, supersede its counterpart: POST ${baseUrl}/entries/:id/resolve with \`{"resolution":"supersede_other"}\`
+- Supersede :id, keep its counterpart: POST ${baseUrl}/entries/:id/resolve with \`{"resolution":"supersede_this"}\`
+- Merge: POST ${baseUrl}/entries/:id/resolve with \`{"resolution":"merge","mergedContent":"<merged text>"}\`
+- Delete (noise or junk): DELETE ${baseUrl}/entries/:id
+
+### Stale entries
+
+Entries with low strength haven't been accessed recently. For each:
+
+- Show the content, type, and current strength
+- Ask: **keep** (no action), **archive** (set status to archived), or **delete**
+
+To archive: PATCH ${baseUrl}/entries/:id with \`{"status":"archived"}\`. To delete: DELETE ${baseUrl}/entries/:id.
+
+If the correct and forget tools are available, use them for corrections and removals the user asks for along the way.
+
+## Step 3 — Confirm and summarise
+
+After working through all sections, print a summary of actions taken:
+- N conflicts resolved (how each was resolved)
+- N stale entries archived/deleted
+
+If any were skipped, note them.`;
+}
+
+/** The consolidate prompt. */
+export function consolidatePrompt(baseUrl: string): string {
+	return `Run a knowledge consolidation cycle by calling the knowledge server:
+
+POST ${baseUrl}/consolidate with \`Authorization: Bearer <KNOWLEDGE_ADMIN_TOKEN>\`
+
+The admin token is printed to the server console at startup, or set as KNOWLEDGE_ADMIN_TOKEN in .env for a stable token. With a shell:
+
+\`\`\`bash
+curl -s -X POST -H "Authorization: Bearer $KNOWLEDGE_ADMIN_TOKEN" \\
+  ${baseUrl}/consolidate | python3 -m json.tool
+\`\`\`
+
+The server starts a consolidation job and returns it right away. Poll GET ${baseUrl}/jobs/<id> (same header) with the job's \`id\` until \`status\` is no longer \`running\` (every 10 seconds or so).
+
+This processes recent session logs from all configured sources (OpenCode, Claude Code,
+Cursor, Codex CLI, and VSCode) and extracts/updates knowledge entries (semantic knowledge).
+
+After the job finishes, show a brief summary from its \`result\`:
+- Sessions processed (per source)
+- Entries created/archived
+- Any conflicts detected`;
+}
@@ -1,24 +1,39 @@
+import { randomUUID } from "node:crypto";
 import {
 	EmbeddingClient,
 	formatEmbeddingText,
 } from "../activation/embeddings.js";
 import type { IKnowledgeStore } from "../db/interface.js";
-import type { KnowledgeEntry } from "../types.js";
+import type {
+	AgentFeedback,
+	EntryRevision,
+	KnowledgeEntry,
+	RevisionActor,
+} from "../types.js";
 
 /**
  * KnowledgeService — application-layer wrapper around IKnowledgeStore.
  *
  * Adds embedding-aware logic that belongs above the storage layer:
  *
- *   updateEntry(id, updates)
+ *   updateEntry(id, updates, actor)
  *     Works identically to IKnowledgeStore.updateEntry for non-semantic fields
  *     (status, strength, confidence, isSynthesized, etc.).
  *     When `content` or `topics` are included in the update, it automatically
  *     re-computes and stores the embedding — no caller needs to remember to do
  *     this manually.
  *
- * The service is intentionally narrow — only `updateEntry` and `close` are
- * exposed. All other DB operations go directly through `IKnowledgeStore`.
+ *   revertEntry(id, revision, actor)
+ *     Restores an entry's type, content, topics and status from its revision
+ *     history, re-embedding it. The revert is itself recorded as a revision.
+ *
+ *   correctEntry(id, content, feedback) / forgetEntry(id, feedback)
+ *     Agent-reported corrections (MCP `correct` / `forget` tools). A correction
+ *     inserts the replacement and supersedes the original through
+ *     applyContradictionResolution; forgetting tombstones the entry.
+ *
+ * The service is intentionally narrow. All other DB operations go directly
+ * through `IKnowledgeStore`.
  *
  * Backward compatibility: no schema changes, no migrations. Users who update
  * the binary automatically get the safer update path.
@@ -47,16 +62,19 @@ export class KnowledgeService {
 	 * before writing to the DB.
 	 *
 	 * For all other fields the update is passed through to the DB directly.
+	 * `actor` is recorded on the revision when the update changes the entry's
+	 * type, content, topics or status.
 	 */
 	async updateEntry(
 		id: string,
 		updates: Partial<KnowledgeEntry>,
+		actor?: RevisionActor,
 	): Promise<void> {
 		const needsReEmbed =
 			updates.content !== undefined || updates.topics !== undefined;
 
 		if (!needsReEmbed) {
-			return this.db.updateEntry(id, updates);
+			return this.db.updateEntry(id, updates, actor);
 		}
 
 		// Fetch the current entry to fill in whichever semantic field isn't changing.
@@ -69,13 +87,148 @@ export class KnowledgeService {
 		const nextTopics = updates.topics ?? current.topics;
 
 		const embeddingText = formatEmbeddingText(
-			current.type,
+			updates.type ?? current.type,
 			nextContent,
 			nextTopics,
 		);
 		const embedding = await this.embedder.embed(embeddingText);
 
-		return this.db.updateEntry(id, { ...updates, embedding });
+		return this.db.updateEntry(id, { ...updates, embedding }, actor);
+	}
+
+	/**
+	 * Restore an entry to one of its recorded revisions.
+	 *
+	 * Restoring any status other than `superseded` also clears `supersededBy`.
+	 * Relations are left as they are. Returns the restored revision, or null
+	 * when the entry has no such revision.
+	 */
+	async revertEntry(
+		id: string,
+		revision: number,
+		actor: RevisionActor,
+	): Promise<EntryRevision | null> {
+		const current = await this.db.getEntry(id);
+		if (!current) {
+			throw new Error(`KnowledgeService.revertEntry: entry not found: ${id}`);
+		}
+		const target = (await this.db.getRevisions(id)).find(
+			(r) => r.revision === revision,
+		);
+		if (!target) return null;
+
+		const embedding = await this.embedder.embed(
+			formatEmbeddingText(target.type, target.content, target.topics),
+		);
+		await this.db.updateEntry(
+			id,
+			{
+				type: target.type,
+				content: target.content,
+				topics: target.topics,
+				status: target.status,
+				...(target.status !== "superseded" && { supersededBy: null }),
+				embedding,
+			},
+			actor,
+		);
+		return target;
+	}
+
+	/**
+	 * Supersede an entry with corrected content.
+	 *
+	 * The replacement is a new entry (same type, topics and directory) so the
+	 * original stays on record as `superseded` with a `supersedes` relation.
+	 * Its provenance names the corrected entry and the agent's session.
+	 * Returns the replacement entry.
+	 */
+	async correctEntry(
+		id: string,
+		content: string,
+		feedback: AgentFeedback = {},
+	): Promise<KnowledgeEntry> {
+		const current = await this.db.getEntry(id);
+		if (!current) {
+			throw new Error(`KnowledgeService.correctEntry: entry not found: ${id}`);
+		}
+
+		const now = Date.now();
+		const replacement: KnowledgeEntry = {
+			id: randomUUID(),
+			type: current.type,
+			content,
+			topics: current.topics,
+			confidence: current.confidence,
+			source: feedbackSource("correction", now, feedback),
+			status: "active",
+			strength: 1.0,
+			createdAt: now,
+			updatedAt: now,
+			lastAccessedAt: now,
+			accessCount: 0,
+			observationCount: 1,
+			supersededBy: null,
+			derivedFrom: feedback.sessionId ? [id, feedback.sessionId] : [id],
+			isSynthesized: false,
+			directory: current.directory ?? null,
+			embedding: await this.embedder.embed(
+				formatEmbeddingText(current.type, content, current.topics),
+			),
+		};
+		await this.db.insertEntry(replacement, "api");
+		// supersede_old also settles any conflict the original was part of.
+		await this.db.applyContradictionResolution(
+			"supersede_old",
+			replacement.id,
+			id,
+			undefined,
+			"api",
+		);
+		const { embedding: _embedding, ...rest } = replacement;
+		return rest;
+	}
+
+	/**
+	 * Tombstone an entry reported as wrong. The entry is kept for the audit
+	 * trail, with the report appended to its provenance. When it was half of a
+	 * conflicted pair, the counterpart is restored to active.
+	 * Returns the ID of the restored counterpart, if any.
+	 */
+	async forgetEntry(
+		id: string,
+		feedback: AgentFeedback = {},
+	): Promise<string | null> {
+		const current = await this.db.getEntry(id);
+		if (!current) {
+			throw new Error(`KnowledgeService.forgetEntry: entry not found: ${id}`);
+		}
+
+		let restoredCounterpart: string | null = null;
+		if (current.status === "conflicted") {
+			const relations = await this.db.getRelationsFor(id);
+			const conflict = relations.find((r) => r.type === "contradicts");
+			const counterpartId =
+				conflict &&
+				(conflict.sourceId === id ? conflict.targetId : conflict.sourceId);
+			const counterpart = counterpartId
+				? await this.db.getEntry(counterpartId)
+				: null;
+			if (counterpart?.status === "conflicted") {
+				await this.db.updateEntry(counterpart.id, { status: "active" }, "api");
+				restoredCounterpart = counterpart.id;
+			}
+		}
+
+		await this.updateEntry(
+			id,
+			{
+				status: "tombstoned",
+				source: `${current.source}; ${feedbackSource("forgotten", Date.now(), feedback)}`,
+			},
+			"api",
+		);
+		return restoredCounterpart;
 	}
 
 	/**
@@ -85,3 +238,14 @@ export class KnowledgeService {
 		return this.db.close();
 	}
 }
+
+/** Human-readable provenance for an agent correction or forget. */
+function feedbackSource(
+	action: "correction" | "forgotten",
+	at: number,
+	feedback: AgentFeedback,
+): string {
+	const session = feedback.sessionId ? ` (session ${feedback.sessionId})` : "";
+	const reason = feedback.reason ? `: ${feedback.reason}` : "";
+	return `agent ${action} ${new Date(at).toISOString().split("T")[0]}${session}${reason}`;
+}
@@ -9,7 +9,7 @@
  * - procedure: A learned workflow or process ("to deploy to prod, first run X then Y")
  */
 /** Single source of truth for valid entry types — mirrors the SQLite CHECK constraint in schema.ts. */
-const KNOWLEDGE_TYPES = [
+export const KNOWLEDGE_TYPES = [
 	"fact",
 	"principle",
 	"pattern",
@@ -40,12 +40,15 @@ export function clampKnowledgeType(type: string): KnowledgeType {
  * - conflicted: Two entries contradict each other (needs human resolution)
  * - tombstoned: Effectively forgotten (kept only for audit trail)
  */
-export type KnowledgeStatus =
-	| "active"
-	| "archived"
-	| "superseded"
-	| "conflicted"
-	| "tombstoned";
+export const KNOWLEDGE_STATUSES = [
+	"active",
+	"archived",
+	"superseded",
+	"conflicted",
+	"tombstoned",
+] as const;
+
+export type KnowledgeStatus = (typeof KNOWLEDGE_STATUSES)[number];
 
 /**
  * A single knowledge entry in the graph.
@@ -71,6 +74,7 @@ export interface KnowledgeEntry {
 	supersededBy: string | null;
 	derivedFrom: string[]; // session IDs or entry IDs this was distilled from
 	isSynthesized: boolean; // true when produced by the synthesis pass (source starts with "synthesis:")
+	directory?: string | null; // working directory of the originating session(s); null when unknown or mixed
 
 	// Embedding (stored as binary blob in DB, represented as float array in memory)
 	embedding?: number[];
@@ -87,6 +91,63 @@ export interface KnowledgeRelation {
 	createdAt: number;
 }
 
+/**
+ * Who changed an entry, as recorded in its revision history:
+ * - consolidation — the consolidation engine (extraction, reconsolidation,
+ *                   contradiction resolution, decay — including the
+ *                   writes behind `remember` and POST /entries)
+ * - api           — an HTTP endpoint or MCP tool
+ * - review        — the `knowledge-server review` CLI
+ * - migration     — the baseline recorded for entries that predate history
+ */
+export type RevisionActor = "consolidation" | "api" | "review" | "migration";
+
+/**
+ * The state of an entry after one change to its type, content, topics or
+ * status. Revisions are numbered from 1 per entry; the highest is current.
+ */
+export interface EntryRevision {
+	entryId: string;
+	revision: number;
+	type: KnowledgeType;
+	content: string;
+	topics: string[];
+	status: KnowledgeStatus;
+	actor: RevisionActor;
+	createdAt: number;
+}
+
+/**
+ * Scopes of a named API token:
+ * - read           — entry listings, entries and their history, topics, review, events
+ * - activate       — /activate, the Claude Code hook and /mcp
+ * - write-entries  — create, remember, edit, resolve, correct, forget, revert, delete, bulk
+ * - consolidate    — start, poll and cancel consolidation jobs
+ * - admin          — everything, including /reinitialize (like the admin token)
+ */
+export const API_TOKEN_SCOPES = [
+	"read",
+	"activate",
+	"write-entries",
+	"consolidate",
+	"admin",
+] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * A named API token, as stored in state.db. Only a SHA-256 hash of the secret
+ * is kept; the secret itself is shown once, when the token is created.
+ */
+export interface ApiToken {
+	id: string;
+	name: string;
+	scopes: ApiTokenScope[];
+	/** Store IDs the token is restricted to; null for all stores. */
+	stores: string[] | null;
+	createdAt: number; // unix timestamp ms
+	lastUsedAt: number | null; // unix timestamp ms
+}
+
 /**
  * Consolidation state — global counters and last-run timestamp.
  */
@@ -97,6 +158,25 @@ export interface ConsolidationState {
 	totalEntriesUpdated: number;
 }
 
+/**
+ * One outbound webhook delivery, as logged in state.db. The row is updated
+ * after every attempt; `status` stays "pending" while retries remain.
+ */
+export interface WebhookDelivery {
+	id: string;
+	webhookId: string;
+	event: string;
+	/** The JSON request body, exactly as signed and sent. */
+	payload: string;
+	status: "pending" | "delivered" | "failed";
+	attempts: number;
+	/** HTTP status of the last attempt, or null if it never got a response. */
+	lastStatusCode: number | null;
+	lastError: string | null;
+	createdAt: number; // unix timestamp ms
+	updatedAt: number; // unix timestamp ms
+}
+
 /**
  * An episode is a segment of a session, bounded by compaction points or token limits.
  *
@@ -243,6 +323,137 @@ export interface ContradictionAnnotation {
 	caveat: string; // human-readable warning for the consuming agent
 }
 
+/**
+ * Per-entry activation filters a store can apply while searching.
+ * Every set field must match; list fields match any of their values.
+ */
+export interface EntryFilters {
+	/** Only entries of these types. */
+	type?: KnowledgeType[];
+	/** Only entries tagged with at least one of these topics (case-insensitive). */
+	topic?: string[];
+	/** Only entries with confidence ≥ this value. */
+	minConfidence?: number;
+}
+
+/** Sort keys of a paginated entry listing. Every sort is descending. */
+export const ENTRY_SORTS = ["updatedAt", "strength", "accessCount"] as const;
+export type EntrySort = (typeof ENTRY_SORTS)[number];
+
+/** Position in a paginated entry listing: the sort value and ID of the last entry seen. */
+export interface EntryCursor {
+	value: number;
+	id: string;
+}
+
+/**
+ * A page of IKnowledgeStore.listEntries(). Entries are ordered by the sort
+ * key, then by ID (both descending), so (value, id) is a stable position.
+ */
+export interface EntryListQuery {
+	status?: KnowledgeStatus;
+	type?: KnowledgeType;
+	/** Only entries tagged with at least one of these topics (case-insensitive). */
+	topic?: string[];
+	/** Only entries whose content contains this text (case-insensitive). */
+	q?: string;
+	sort: EntrySort;
+	/** Only entries after this position. */
+	after?: EntryCursor;
+	limit: number;
+}
+
+/**
+ * One write in IKnowledgeStore.applyEntryBatch(). `update` has the semantics
+ * of IKnowledgeStore.updateEntry; `delete` also removes the entry's relations.
+ * An `insert` with `revisions` (a move between stores) keeps that history
+ * instead of starting a new one.
+ */
+export type EntryBatchWrite =
+	| { kind: "insert"; entry: KnowledgeEntry; revisions?: EntryRevision[] }
+	| { kind: "update"; id: string; updates: Partial<KnowledgeEntry> }
+	| { kind: "delete"; id: string };
+
+/**
+ * Filters for ActivationEngine.activate(): the per-entry filters plus the
+ * stores to search and the statuses to include.
+ */
+export interface ActivationFilters extends EntryFilters {
+	/** Only search these stores (config.jsonc `stores[].id`). Unknown IDs match nothing. */
+	store?: string[];
+	/** Entry statuses to search. Default: active and conflicted. */
+	includeStatuses?: KnowledgeStatus[];
+}
+
+/**
+ * Reciprocal rank fusion breakdown for a hybrid (vector + lexical) activation.
+ *
+ * score = (1 − lexicalWeight) / (k + vectorRank) + lexicalWeight / (k + lexicalRank),
+ * where a missing rank contributes 0. Ranks are 1-based.
+ */
+export interface RankFusion {
+	/** Fused RRF score. Used for sorting when present. */
+	score: number;
+	/** Rank by decay-weighted similarity, or null when below the similarity threshold. */
+	vectorRank: number | null;
+	/** Rank by full-text relevance, or null when the entry had no lexical match. */
+	lexicalRank: number | null;
+	/** Lexical share of the fusion applied to this query. */
+	lexicalWeight: number;
+}
+
+/**
+ * Token budget accounting for an activation with maxTokens.
+ * Token counts are approximate (approxTokens: ~4 characters per token).
+ */
+export interface TokenBudget {
+	/** The requested budget. */
+	maxTokens: number;
+	/** Tokens used by the returned entries' content and contradiction notes. */
+	usedTokens: number;
+	/** Ranked entries left out because they did not fit. */
+	droppedEntries: number;
+	/** Returned entries whose content was truncated to fit (0 or 1). */
+	truncatedEntries: number;
+}
+
+/**
+ * Link from an entry pulled in by graph expansion to the activated entry that
+ * brought it in. Expanded entries are not ranked against the query directly.
+ */
+export interface ActivationVia {
+	/** The activated entry the link starts from (also in the result). */
+	entryId: string;
+	/** "supports": this entry is evidence the activated entry was synthesized from. */
+	relation: KnowledgeRelation["type"];
+}
+
+/**
+ * Similarity of an activated entry to one activation cue, reported when
+ * activate() runs with explain.
+ */
+export interface CueSimilarity {
+	/** The query text, or the hypothetical entry text for an expansion. */
+	cue: string;
+	/** Cosine similarity between the cue's vector and the entry's embedding. */
+	similarity: number;
+	/** True when the cue is a query expansion rather than a caller query. */
+	expansion?: boolean;
+}
+
+/**
+ * Outcome of the optional LLM re-ranking pass over activation candidates.
+ * On "timeout" or "error" the entries keep their retrieval order.
+ */
+export interface RerankOutcome {
+	status: "applied" | "timeout" | "error";
+	/** Number of candidates sent to the re-ranking model. */
+	candidates: number;
+	/** Candidates the model judged irrelevant and dropped (0 unless applied). */
+	dropped: number;
+	durationMs: number;
+}
+
 /**
  * Result of an activation query — knowledge entries ranked by relevance.
  */
@@ -251,7 +462,10 @@ export interface ActivationResult {
 		entry: KnowledgeEntry;
 		/** Pure cosine similarity between query and entry embedding. Reflects semantic match quality. */
 		rawSimilarity: number;
-		/** Decay-weighted ranking score: rawSimilarity × strength. Used for sorting. */
+		/**
+		 * Decay-weighted ranking score: rawSimilarity × strength. Used for sorting
+		 * unless `fusion` is present.
+		 */
 		similarity: number;
 		staleness: {
 			ageDays: number;
@@ -265,9 +479,119 @@ export interface ActivationResult {
 		 * treat this knowledge with caution and not act on it unilaterally.
 		 */
 		contradiction?: ContradictionAnnotation;
+		/**
+		 * Present when lexical retrieval ran for this query (lexicalWeight > 0 and
+		 * at least one store supports full-text search). Absent on entries pulled
+		 * in by graph expansion (`via`) — those are not ranked directly.
+		 */
+		fusion?: RankFusion;
+		/**
+		 * Whether the entry was recorded in the caller's project. Present only when
+		 * activate() was given a cwd and the entry has a recorded directory; true
+		 * entries had their `similarity` boosted by config.activation.projectBoost.
+		 */
+		sameProject?: boolean;
+		/** True when the content was cut to fit the requested token budget. */
+		truncated?: boolean;
+		/**
+		 * Present on entries added by graph expansion — names the activated entry
+		 * and relation that pulled this one in. Its rawSimilarity and similarity
+		 * are derived from that entry's scores.
+		 */
+		via?: ActivationVia;
+		/**
+		 * Present when activate() ran with explain and the entry has an
+		 * embedding: its cosine similarity to each query (and expansion) vector.
+		 * rawSimilarity is the maximum of these for vector candidates.
+		 */
+		cues?: CueSimilarity[];
 	}>;
 	query: string;
 	totalActive: number;
+	/** Present when LLM re-ranking ran for this query. */
+	rerank?: RerankOutcome;
+	/** Present when the caller set maxTokens and at least one entry activated. */
+	budget?: TokenBudget;
+	/**
+	 * Present when query expansion ran: the hypothetical entries embedded
+	 * alongside the queries (one per query whose expansion succeeded).
+	 */
+	expansions?: string[];
+}
+
+/**
+ * A knowledge entry submitted directly by an agent (MCP `remember` tool,
+ * POST /remember) instead of being extracted from a session.
+ */
+export interface RememberRequest {
+	type: KnowledgeType;
+	content: string;
+	topics: string[];
+	/** 0–1. Defaults to 0.8 — the agent and user settled it explicitly. */
+	confidence?: number;
+	/**
+	 * Working directory of the agent. Routes the entry to the domain of the
+	 * matching project and is recorded for project-scoped activation.
+	 */
+	cwd?: string;
+	/** Domain ID overriding the project's default domain (multi-store routing). */
+	domain?: string;
+	/** Session the entry came from — recorded in derivedFrom. */
+	sessionId?: string;
+}
+
+/** An entry created by an admin through the API (POST /entries). */
+export interface CreateEntryRequest extends RememberRequest {
+	/** Run reconsolidation (merge into a near-duplicate) first. Default: true. */
+	reconsolidate?: boolean;
+}
+
+/**
+ * Who asked for a correction or forget (MCP `correct` / `forget` tools), recorded
+ * in the affected entry's provenance.
+ */
+export interface AgentFeedback {
+	/** The agent's session — recorded as provenance. */
+	sessionId?: string;
+	/** Why the entry is wrong or outdated, in the agent's words. */
+	reason?: string;
+}
+
+/**
+ * How a remembered entry was reconciled with existing knowledge.
+ */
+export interface RememberResult {
+	/**
+	 * inserted — stored as a new entry.
+	 * merged   — folded into an existing entry, which was updated in place.
+	 * kept     — an existing entry already said the same; it was reinforced.
+	 */
+	action: "inserted" | "merged" | "kept";
+	/** The new entry, or the existing entry it was merged into / kept as. */
+	entryId: string;
+	conflictsDetected: number;
+	conflictsResolved: number;
+}
+
+/** One operation of POST /entries/bulk. */
+export type BulkEntryOperation =
+	| { op: "archive"; id: string }
+	| { op: "delete"; id: string }
+	| { op: "set-topics"; id: string; topics: string[] }
+	| { op: "set-status"; id: string; status: KnowledgeStatus }
+	| { op: "move-to-store"; id: string; store: string };
+
+/** Outcome of one POST /entries/bulk operation, in request order. */
+export interface BulkEntryResult {
+	op: BulkEntryOperation["op"];
+	id: string;
+	ok: boolean;
+	/** Store that held the entry (config.jsonc `stores[].id`), when found. */
+	store?: string;
+	/** Why the operation was rejected or failed. */
+	error?: string;
+	/** Counterpart of a conflicted entry, set back to active by a delete or archive. */
+	restoredCounterpart?: string;
 }
 
 /**
@@ -283,3 +607,54 @@ export interface ConsolidationResult {
 	conflictsResolved: number;
 	duration: number; // ms
 }
+
+/** Pipeline phase of a consolidation run, as reported by GET /jobs/:id. */
+export type ConsolidationPhase =
+	| "extract"
+	| "reconsolidate"
+	| "contradiction"
+	| "decay"
+	| "embed"
+	| "synthesis";
+
+/** Live progress of a consolidation run. */
+export interface ConsolidationProgress {
+	phase: ConsolidationPhase;
+	chunksDone: number;
+	/** Chunks found so far — grows as each source's episodes are read. */
+	chunksTotal: number;
+	entriesCreated: number;
+	entriesUpdated: number;
+}
+
+/**
+ * A change to the knowledge base, as streamed by GET /events. Entry events
+ * carry IDs only (plus the type and content of new entries) — fetch
+ * /entries/:id for the rest.
+ */
+export type KnowledgeEvent =
+	| {
+			type: "entry.created";
+			entryId: string;
+			entryType: KnowledgeType;
+			content: string;
+	  }
+	| { type: "entry.updated"; entryId: string }
+	| { type: "entry.superseded"; entryId: string; supersededBy: string }
+	| {
+			type: "entry.conflicted";
+			entryId: string;
+			counterpartId: string;
+			/** The contradiction scanner's explanation, when it flagged the pair. */
+			reason?: string;
+	  }
+	| { type: "entry.deleted"; entryId: string }
+	| { type: "consolidation.started" }
+	| { type: "consolidation.finished"; result: ConsolidationResult }
+	| { type: "consolidation.failed"; error: string }
+	| {
+			type: "synthesis.produced";
+			entryId: string;
+			clusterId: string;
+			sourceIds: string[];
+	  };
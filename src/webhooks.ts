@@ -0,0 +1,253 @@
+import { createHmac, randomUUID } from "node:crypto";
+import {
+	type WebhookConfig,
+	type WebhookEvent,
+	resolveWebhookSecret,
+} from "./config-file.js";
+import type { IServerStateDB } from "./db/interface.js";
+import { knowledgeEvents } from "./events.js";
+import { logger } from "./logger.js";
+import type { KnowledgeEvent, WebhookDelivery } from "./types.js";
+
+/**
+ * Outbound webhooks — POSTs a JSON payload to each configured webhook when one
+ * of its events happens:
+ *
+ *   - conflict.irresolvable: the contradiction scanner flagged a pair it could
+ *     not resolve (entry.conflicted on the event bus)
+ *   - decision.created: a new `decision` entry was inserted (entry.created)
+ *
+ * The body is `{ id, event, createdAt, data }`. When the webhook has a secret,
+ * X-Knowledge-Signature carries `sha256=<hex HMAC-SHA256 of the raw body>`.
+ * Network errors, timeouts, 408, 429 and 5xx responses are retried with
+ * exponential backoff; any other response ends the delivery. Every attempt is
+ * logged to the webhook_delivery table in state.db.
+ *
+ * Deliveries run in the background and never block the write that triggered
+ * them. stop() cancels retries still waiting and marks those deliveries failed.
+ */
+
+/** Per-attempt request timeout. */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WebhookDispatcherOptions {
+	/** Attempts per delivery, including the first. Default 5. */
+	maxAttempts?: number;
+	/** Delay before the first retry; doubles after each attempt. Default 1000. */
+	baseDelayMs?: number;
+}
+
+export class WebhookDispatcher {
+	private readonly webhooks: WebhookConfig[];
+	private readonly stateDb: IServerStateDB;
+	private readonly maxAttempts: number;
+	private readonly baseDelayMs: number;
+	private readonly inFlight = new Set<Promise<void>>();
+	private readonly abort = new AbortController();
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(
+		webhooks: WebhookConfig[],
+		stateDb: IServerStateDB,
+		options: WebhookDispatcherOptions = {},
+	) {
+		this.webhooks = webhooks;
+		this.stateDb = stateDb;
+		this.maxAttempts = options.maxAttempts ?? 5;
+		this.baseDelayMs = options.baseDelayMs ?? 1000;
+	}
+
+	/** Subscribe to the knowledge event bus. */
+	start(): void {
+		if (this.unsubscribe) return;
+		this.unsubscribe = knowledgeEvents.subscribe((event) => this.handle(event));
+		logger.log(
+			`[webhooks] Delivering to ${this.webhooks.length} webhook(s): ${this.webhooks.map((w) => w.id).join(", ")}`,
+		);
+	}
+
+	/**
+	 * Unsubscribe, cancel pending retries and wait for in-flight deliveries to
+	 * record their outcome.
+	 */
+	async stop(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.abort.abort();
+		await this.settled();
+	}
+
+	/** Resolves once every delivery started so far has finished. */
+	async settled(): Promise<void> {
+		while (this.inFlight.size > 0) {
+			await Promise.all(this.inFlight);
+		}
+	}
+
+	private handle(event: KnowledgeEvent): void {
+		const mapped = toWebhookEvent(event);
+		if (!mapped) return;
+		for (const webhook of this.webhooks) {
+			if (!webhook.events.includes(mapped.event)) continue;
+			const delivery = this.deliver(webhook, mapped.event, mapped.data).finally(
+				() => this.inFlight.delete(delivery),
+			);
+			this.inFlight.add(delivery);
+		}
+	}
+
+	private async deliver(
+		webhook: WebhookConfig,
+		event: WebhookEvent,
+		data: Record<string, unknown>,
+	): Promise<void> {
+		const now = Date.now();
+		const id = randomUUID();
+		const payload = JSON.stringify({
+			id,
+			event,
+			createdAt: new Date(now).toISOString(),
+			data,
+		});
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+			"User-Agent": "knowledge-server",
+			"X-Knowledge-Event": event,
+			"X-Knowledge-Delivery": id,
+		};
+		const secret = resolveWebhookSecret(webhook);
+		if (secret) {
+			headers["X-Knowledge-Signature"] = signPayload(payload, secret);
+		}
+
+		const delivery: WebhookDelivery = {
+			id,
+			webhookId: webhook.id,
+			event,
+			payload,
+			status: "pending",
+			attempts: 0,
+			lastStatusCode: null,
+			lastError: null,
+			createdAt: now,
+			updatedAt: now,
+		};
+
+		while (delivery.status === "pending") {
+			delivery.attempts++;
+			let retryable: boolean;
+			try {
+				const res = await fetch(webhook.url, {
+					method: "POST",
+					headers,
+					body: payload,
+					signal: AbortSignal.any([
+						this.abort.signal,
+						AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+					]),
+				});
+				// Drain the body so the connection can be reused.
+				await res.arrayBuffer().catch(() => undefined);
+				delivery.lastStatusCode = res.status;
+				delivery.lastError = res.ok ? null : `HTTP ${res.status}`;
+				if (res.ok) delivery.status = "delivered";
+				retryable =
+					res.status === 408 || res.status === 429 || res.status >= 500;
+			} catch (e) {
+				delivery.lastStatusCode = null;
+				delivery.lastError = e instanceof Error ? e.message : String(e);
+				retryable = true;
+			}
+
+			if (delivery.status === "pending") {
+				if (
+					!retryable ||
+					delivery.attempts >= this.maxAttempts ||
+					this.abort.signal.aborted
+				) {
+					delivery.status = "failed";
+				}
+			}
+			delivery.updatedAt = Date.now();
+			await this.record(delivery);
+
+			if (delivery.status === "pending") {
+				const delayMs = this.baseDelayMs * 2 ** (delivery.attempts - 1);
+				if (!(await this.sleep(delayMs))) {
+					delivery.status = "failed";
+					delivery.lastError = `${delivery.lastError} (retry cancelled at shutdown)`;
+					delivery.updatedAt = Date.now();
+					await this.record(delivery);
+				}
+			}
+		}
+
+		if (delivery.status === "delivered") {
+			logger.log(
+				`[webhooks] Delivered ${event} to "${webhook.id}" (attempt ${delivery.attempts}).`,
+			);
+		} else {
+			logger.warn(
+				`[webhooks] Giving up on ${event} to "${webhook.id}" after ${delivery.attempts} attempt(s). Error: ${delivery.lastError}`,
+			);
+		}
+	}
+
+	/** Log an attempt. Best-effort: a failing state DB never fails the delivery. */
+	private async record(delivery: WebhookDelivery): Promise<void> {
+		try {
+			await this.stateDb.recordWebhookDelivery(delivery);
+		} catch (e) {
+			logger.warn(
+				`[webhooks] Could not log delivery ${delivery.id}. Error: ${e instanceof Error ? e.message : String(e)}`,
+			);
+		}
+	}
+
+	/** Wait for `ms`, or until stop(). Returns false if interrupted. */
+	private sleep(ms: number): Promise<boolean> {
+		const signal = this.abort.signal;
+		if (signal.aborted) return Promise.resolve(false);
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(true);
+			}, ms);
+			const onAbort = () => {
+				clearTimeout(timer);
+				resolve(false);
+			};
+			signal.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+}
+
+/** The webhook event (and its payload data) a bus event maps to, if any. */
+function toWebhookEvent(
+	event: KnowledgeEvent,
+): { event: WebhookEvent; data: Record<string, unknown> } | null {
+	switch (event.type) {
+		case "entry.conflicted":
+			return {
+				event: "conflict.irresolvable",
+				data: {
+					entryId: event.entryId,
+					counterpartId: event.counterpartId,
+					...(event.reason !== undefined && { reason: event.reason }),
+				},
+			};
+		case "entry.created":
+			if (event.entryType !== "decision") return null;
+			return {
+				event: "decision.created",
+				data: { entryId: event.entryId, content: event.content },
+			};
+		default:
+			return null;
+	}
+}
+
+/** X-Knowledge-Signature value for a payload: `sha256=<hex HMAC>`. */
+export function signPayload(payload: string, secret: string): string {
+	return `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
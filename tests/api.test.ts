@@ -1,15 +1,32 @@
-import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	mock,
+	spyOn,
+} from "bun:test";
 import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 // @ts-ignore — Bun supports JSON imports natively
 import pkg from "../package.json" with { type: "json" };
 import { ActivationEngine } from "../src/activation/activate";
+import { EmbeddingCache } from "../src/activation/embedding-cache";
 import { createApp } from "../src/api/server";
-import type { ConsolidationEngine } from "../src/consolidation/consolidate";
+import { generateApiToken, hashApiToken } from "../src/auth/api-tokens";
+import { config } from "../src/config";
+import type {
+	ConsolidateOptions,
+	ConsolidationEngine,
+} from "../src/consolidation/consolidate";
 import type { KnowledgeDB } from "../src/db/sqlite/index";
 import { KnowledgeDB as KnowledgeDBImpl } from "../src/db/sqlite/index";
 import { ServerStateDB } from "../src/db/state/index";
+import { knowledgeEvents } from "../src/events";
+import type { ApiTokenScope } from "../src/types";
+import { makeEntry } from "./fixtures";
 
 // Intentionally static string — production uses a random token generated at startup.
 const TEST_ADMIN_TOKEN = "test-admin-token-abc123";
@@ -20,6 +37,8 @@ describe("HTTP API", () => {
 	let app: ReturnType<typeof createApp>;
 	let activation: ActivationEngine;
 	let embedSpy: ReturnType<typeof spyOn>;
+	let rememberMock: ReturnType<typeof mock>;
+	let createEntryMock: ReturnType<typeof mock>;
 
 	let serverStateDb: ServerStateDB;
 
@@ -34,8 +53,28 @@ describe("HTTP API", () => {
 		embedSpy = spyOn(activation.embeddings, "embed").mockResolvedValue([
 			0.11, 0.22, 0.33,
 		]);
+		rememberMock = mock(async () => ({
+			action: "inserted",
+			entryId: "remembered-1",
+			conflictsDetected: 0,
+			conflictsResolved: 0,
+		}));
+		// Stores a real entry so POST /entries can read it back.
+		createEntryMock = mock(async () => {
+			await db.insertEntry(
+				makeEntry({ id: "created-1", content: "Deploys need two approvals" }),
+			);
+			return {
+				action: "inserted",
+				entryId: "created-1",
+				conflictsDetected: 0,
+				conflictsResolved: 0,
+			};
+		});
 		// We pass a mock consolidation engine — not testing consolidation via API here
 		const consolidation = {
+			remember: rememberMock,
+			createEntry: createEntryMock,
 			consolidate: async () => ({
 				sessionsProcessed: 0,
 				segmentsProcessed: 0,
@@ -46,6 +85,7 @@ describe("HTTP API", () => {
 				conflictsResolved: 0,
 				duration: 0,
 			}),
+			runSynthesis: async () => 0,
 			get isConsolidating() {
 				return false;
 			},
@@ -94,6 +134,16 @@ describe("HTTP API", () => {
 		expect(typeof data.config.embeddingModel).toBe("string");
 	});
 
+	it("GET /status should report embedding cache counters", async () => {
+		const before = await (await app.request("/status")).json();
+		expect(before.embeddingCache).toBeNull();
+
+		activation.embeddings.useCache(new EmbeddingCache(serverStateDb, 100));
+		const res = await app.request("/status");
+		const data = await res.json();
+		expect(data.embeddingCache).toEqual({ hits: 0, misses: 0, entries: 0 });
+	});
+
 	it("GET /entries should return empty list initially", async () => {
 		const res = await app.request("/entries");
 		expect(res.status).toBe(200);
@@ -161,6 +211,86 @@ describe("HTTP API", () => {
 		expect(activeData.entries[0].id).toBe("f1");
 	});
 
+	it("GET /entries should filter by topic and substring and paginate", async () => {
+		for (let i = 1; i <= 5; i++) {
+			await db.insertEntry(
+				makeEntry({
+					id: `d${i}`,
+					content: `Deploy step ${i}`,
+					topics: ["Deployment"],
+				}),
+			);
+		}
+		await db.insertEntry(
+			makeEntry({ id: "o1", content: "Deploy freeze", topics: ["ops"] }),
+		);
+		await db.insertEntry(
+			makeEntry({ id: "o2", content: "Rotate keys", topics: ["deployment"] }),
+		);
+
+		const ids: string[] = [];
+		let cursor: string | null = null;
+		for (let page = 0; page < 3; page++) {
+			const res = await app.request(
+				`/entries?topic=deployment&q=DEPLOY&limit=2${cursor ? `&cursor=${cursor}` : ""}`,
+			);
+			expect(res.status).toBe(200);
+			const data = await res.json();
+			expect(data.total).toBe(5);
+			ids.push(...data.entries.map((e: { id: string }) => e.id));
+			cursor = data.nextCursor;
+		}
+		// Equal updatedAt ties break by ID, descending.
+		expect(ids).toEqual(["d5", "d4", "d3", "d2", "d1"]);
+		expect(cursor).toBeNull();
+	});
+
+	it("GET /entries should sort by strength", async () => {
+		await db.insertEntry(makeEntry({ id: "weak", strength: 0.2 }));
+		await db.insertEntry(makeEntry({ id: "strong", strength: 0.9 }));
+		await db.insertEntry(makeEntry({ id: "mid", strength: 0.5 }));
+
+		const res = await app.request("/entries?sort=strength");
+		const data = await res.json();
+		expect(data.entries.map((e: { id: string }) => e.id)).toEqual([
+			"strong",
+			"mid",
+			"weak",
+		]);
+	});
+
+	it("GET /entries should reject an unknown sort or a malformed cursor", async () => {
+		expect((await app.request("/entries?sort=content")).status).toBe(400);
+		expect((await app.request("/entries?cursor=not-a-cursor")).status).toBe(
+			400,
+		);
+	});
+
+	it("GET /entries should match no entries for an unknown store", async () => {
+		await db.insertEntry(makeEntry({ id: "a" }));
+
+		const data = await (await app.request("/entries?store=team")).json();
+		expect(data.entries).toEqual([]);
+		expect(data.total).toBe(0);
+	});
+
+	it("GET /topics should count topics of active entries", async () => {
+		await db.insertEntry(makeEntry({ id: "a", topics: ["ops", "CI"] }));
+		await db.insertEntry(makeEntry({ id: "b", topics: ["ci"] }));
+		await db.insertEntry(
+			makeEntry({ id: "c", topics: ["legacy"], status: "archived" }),
+		);
+
+		const res = await app.request("/topics");
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.topics).toEqual([
+			{ topic: "ci", count: 2 },
+			{ topic: "ops", count: 1 },
+		]);
+		expect(data.count).toBe(2);
+	});
+
 	it("GET /entries/:id should return a specific entry", async () => {
 		const now = Date.now();
 		await db.insertEntry({
@@ -219,6 +349,153 @@ describe("HTTP API", () => {
 		expect(res.status).not.toBe(400);
 	});
 
+	it("GET /activate passes cwd and excludeOtherProjects to the engine", async () => {
+		const activateSpy = spyOn(activation, "activate").mockResolvedValue({
+			entries: [],
+			query: "deploy",
+			totalActive: 0,
+		});
+
+		const res = await app.request(
+			"/activate?q=deploy&cwd=%2Frepos%2Fapp&excludeOtherProjects=true",
+		);
+
+		expect(res.status).toBe(200);
+		expect(activateSpy).toHaveBeenCalledWith("deploy", {
+			limit: undefined,
+			threshold: undefined,
+			cwd: "/repos/app",
+			excludeOtherProjects: true,
+			filters: {},
+		});
+	});
+
+	it("GET /activate passes maxTokens to the engine", async () => {
+		const activateSpy = spyOn(activation, "activate").mockResolvedValue({
+			entries: [],
+			query: "deploy",
+			totalActive: 0,
+		});
+
+		await app.request("/activate?q=deploy&maxTokens=500");
+
+		expect(activateSpy.mock.calls[0][1]?.maxTokens).toBe(500);
+	});
+
+	it("GET /activate passes excludeIds and sessionId to the engine", async () => {
+		const activateSpy = spyOn(activation, "activate").mockResolvedValue({
+			entries: [],
+			query: "deploy",
+			totalActive: 0,
+		});
+
+		await app.request(
+			"/activate?q=deploy&excludeIds=a,b&excludeIds=c&sessionId=s1",
+		);
+
+		const options = activateSpy.mock.calls[0][1];
+		expect(options?.excludeIds).toEqual(["a", "b", "c"]);
+		expect(options?.sessionId).toBe("s1");
+	});
+
+	it("GET /activate passes filters to the engine", async () => {
+		const activateSpy = spyOn(activation, "activate").mockResolvedValue({
+			entries: [],
+			query: "deploy",
+			totalActive: 0,
+		});
+
+		const res = await app.request(
+			"/activate?q=deploy&type=procedure&topic=deployment,ci&store=team&minConfidence=0.6&includeStatuses=active,superseded",
+		);
+
+		expect(res.status).toBe(200);
+		expect(activateSpy.mock.calls[0][1]?.filters).toEqual({
+			type: ["procedure"],
+			topic: ["deployment", "ci"],
+			store: ["team"],
+			minConfidence: 0.6,
+			includeStatuses: ["active", "superseded"],
+		});
+	});
+
+	it("GET /activate passes explain to the engine", async () => {
+		const activateSpy = spyOn(activation, "activate").mockResolvedValue({
+			entries: [],
+			query: "deploy",
+			totalActive: 0,
+		});
+
+		await app.request("/activate?q=deploy&explain=true");
+		await app.request("/activate?q=deploy");
+
+		expect(activateSpy.mock.calls[0][1]?.explain).toBe(true);
+		expect(activateSpy.mock.calls[1][1]?.explain).toBeUndefined();
+	});
+
+	it("GET /activate rejects unknown types and statuses", async () => {
+		const badType = await app.request("/activate?q=deploy&type=recipe");
+		const badStatus = await app.request(
+			"/activate?q=deploy&includeStatuses=deleted",
+		);
+
+		expect(badType.status).toBe(400);
+		expect(badStatus.status).toBe(400);
+	});
+
+	it("POST /hooks/claude-code/user-prompt passes the session cwd to the engine", async () => {
+		const activateSpy = spyOn(activation, "activate").mockResolvedValue({
+			entries: [],
+			query: "how do we deploy this service",
+			totalActive: 0,
+		});
+
+		const res = await app.request("/hooks/claude-code/user-prompt", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				prompt: "how do we deploy this service",
+				session_id: "s1",
+				cwd: "/repos/app",
+			}),
+		});
+
+		expect(res.status).toBe(200);
+		expect(activateSpy).toHaveBeenCalledWith(
+			["how do we deploy this service"],
+			{
+				limit: 8,
+				cwd: "/repos/app",
+				maxTokens: config.activation.passiveMaxTokens,
+				sessionId: "s1",
+			},
+		);
+	});
+
+	it("GET /events should stream knowledge changes until the client disconnects", async () => {
+		await db.insertEntry(makeEntry({ id: "ev-1" }));
+		const res = await app.request("/events");
+		expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+		expect(knowledgeEvents.subscriberCount).toBe(1);
+
+		await app.request("/entries/ev-1", {
+			method: "DELETE",
+			headers: { Authorization: `Bearer ${TEST_ADMIN_TOKEN}` },
+		});
+		const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+		const { value } = await reader.read();
+		const message = new TextDecoder().decode(value);
+		expect(message).toContain("event: entry.deleted\n");
+		expect(message).toContain(
+			'data: {"type":"entry.deleted","entryId":"ev-1"}',
+		);
+		expect(message).toMatch(/\nid: \d+\n\n$/);
+
+		await reader.cancel();
+		await Bun.sleep(0);
+		expect(knowledgeEvents.subscriberCount).toBe(0);
+	});
+
 	it("GET /review should return review data", async () => {
 		const res = await app.request("/review");
 		expect(res.status).toBe(200);
@@ -242,12 +519,128 @@ describe("HTTP API", () => {
 		expect(res.status).toBe(401);
 	});
 
-	it("POST /consolidate should succeed with correct token", async () => {
+	/** Poll GET /jobs/:id until the job is no longer running. */
+	async function waitForJob(id: string, target = app) {
+		for (let i = 0; i < 100; i++) {
+			const res = await target.request(`/jobs/${id}`, {
+				headers: { Authorization: `Bearer ${TEST_ADMIN_TOKEN}` },
+			});
+			const job = await res.json();
+			if (job.status !== "running") return job;
+			await Bun.sleep(5);
+		}
+		throw new Error(`Job ${id} did not finish`);
+	}
+
+	it("POST /consolidate should start a job that GET /jobs/:id reports", async () => {
+		const auth = { Authorization: `Bearer ${TEST_ADMIN_TOKEN}` };
 		const res = await app.request("/consolidate", {
 			method: "POST",
-			headers: { Authorization: `Bearer ${TEST_ADMIN_TOKEN}` },
+			headers: auth,
 		});
-		expect(res.status).toBe(200);
+		expect(res.status).toBe(202);
+		const job = await res.json();
+		expect(job.status).toBe("running");
+		expect(res.headers.get("Location")).toBe(`/jobs/${job.id}`);
+
+		const finished = await waitForJob(job.id);
+		expect(finished.status).toBe("succeeded");
+		expect(finished.phase).toBe("synthesis");
+		expect(finished.result.sessionsProcessed).toBe(0);
+		expect(finished.synthesized).toBe(0);
+		expect(finished.finishedAt).toBeGreaterThanOrEqual(finished.startedAt);
+
+		expect((await app.request(`/jobs/${job.id}`)).status).toBe(401);
+		const missing = await app.request("/jobs/nope", { headers: auth });
+		expect(missing.status).toBe(404);
+		const late = await app.request(`/jobs/${job.id}`, {
+			method: "DELETE",
+			headers: auth,
+		});
+		expect(late.status).toBe(409);
+	});
+
+	it("DELETE /jobs/:id should cancel a running job between chunks", async () => {
+		const jobDb = new KnowledgeDBImpl(
+			join(tempDir, "jobs.db"),
+			join(tempDir, "opencode-fake.db"),
+		);
+		const jobStateDb = new ServerStateDB(join(tempDir, "jobs-state.db"));
+		try {
+			let locked = false;
+			const runSynthesis = mock(async () => 0);
+			// Reports one chunk of two, then waits for cancellation.
+			const jobConsolidation = {
+				consolidate: async (options: ConsolidateOptions) => {
+					options.onProgress?.({
+						phase: "reconsolidate",
+						chunksDone: 1,
+						chunksTotal: 2,
+						entriesCreated: 3,
+						entriesUpdated: 0,
+					});
+					await new Promise((resolve) =>
+						options.signal?.addEventListener("abort", resolve),
+					);
+					return { sessionsProcessed: 1 };
+				},
+				runSynthesis,
+				tryLock: () => {
+					if (locked) return false;
+					locked = true;
+					return true;
+				},
+				unlock: () => {
+					locked = false;
+				},
+				close: () => {},
+			} as unknown as ConsolidationEngine;
+			const jobApp = createApp(
+				jobDb,
+				jobStateDb,
+				new ActivationEngine(jobDb),
+				jobConsolidation,
+				TEST_ADMIN_TOKEN,
+			);
+			const auth = { Authorization: `Bearer ${TEST_ADMIN_TOKEN}` };
+
+			const job = await (
+				await jobApp.request("/consolidate", { method: "POST", headers: auth })
+			).json();
+			const busy = await jobApp.request("/consolidate", {
+				method: "POST",
+				headers: auth,
+			});
+			expect(busy.status).toBe(409);
+			expect((await busy.json()).jobId).toBe(job.id);
+
+			const running = await (
+				await jobApp.request(`/jobs/${job.id}`, { headers: auth })
+			).json();
+			expect(running.phase).toBe("reconsolidate");
+			expect(running.progress).toEqual({
+				chunksDone: 1,
+				chunksTotal: 2,
+				entriesCreated: 3,
+				entriesUpdated: 0,
+			});
+
+			const cancel = await jobApp.request(`/jobs/${job.id}`, {
+				method: "DELETE",
+				headers: auth,
+			});
+			expect(cancel.status).toBe(202);
+			expect((await cancel.json()).cancelRequested).toBe(true);
+
+			const finished = await waitForJob(job.id, jobApp);
+			expect(finished.status).toBe("cancelled");
+			expect(finished.result).toEqual({ sessionsProcessed: 1 });
+			expect(runSynthesis).not.toHaveBeenCalled();
+			expect(locked).toBe(false);
+		} finally {
+			await jobDb.close();
+			await jobStateDb.close();
+		}
 	});
 
 	it("POST /consolidate should return 409 when consolidation lock is held", async () => {
@@ -285,6 +678,372 @@ describe("HTTP API", () => {
 		}
 	});
 
+	it("POST /remember passes a valid entry to the consolidation engine", async () => {
+		const res = await app.request("/remember", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				type: "decision",
+				content: "Releases are cut on Tuesdays",
+				topics: ["release"],
+				cwd: "/repo",
+			}),
+		});
+
+		expect(res.status).toBe(200);
+		expect((await res.json()).entryId).toBe("remembered-1");
+		expect(rememberMock).toHaveBeenCalledWith({
+			type: "decision",
+			content: "Releases are cut on Tuesdays",
+			topics: ["release"],
+			cwd: "/repo",
+		});
+	});
+
+	it("POST /remember rejects an invalid entry", async () => {
+		const res = await app.request("/remember", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ type: "recipe", content: "x", topics: ["a"] }),
+		});
+
+		expect(res.status).toBe(400);
+		expect((await res.json()).error).toStartWith("Invalid type");
+		expect(rememberMock).not.toHaveBeenCalled();
+	});
+
+	it("POST /entries requires the admin token", async () => {
+		const res = await app.request("/entries", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				type: "decision",
+				content: "Deploys need two approvals",
+				topics: ["deploy"],
+			}),
+		});
+
+		expect(res.status).toBe(401);
+		expect(createEntryMock).not.toHaveBeenCalled();
+	});
+
+	it("POST /entries creates an entry and returns it", async () => {
+		const res = await app.request("/entries", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+			},
+			body: JSON.stringify({
+				type: "decision",
+				content: "Deploys need two approvals",
+				topics: ["deploy"],
+				confidence: 0.9,
+				domain: "work",
+				reconsolidate: false,
+			}),
+		});
+
+		expect(res.status).toBe(201);
+		const data = await res.json();
+		expect(data.action).toBe("inserted");
+		expect(data.entry.id).toBe("created-1");
+		expect(data.entry.content).toBe("Deploys need two approvals");
+		expect(data.entry.embedding).toBeUndefined();
+		expect(createEntryMock).toHaveBeenCalledWith({
+			type: "decision",
+			content: "Deploys need two approvals",
+			topics: ["deploy"],
+			confidence: 0.9,
+			domain: "work",
+			reconsolidate: false,
+		});
+	});
+
+	it("POST /entries returns 200 with the existing entry when merged", async () => {
+		createEntryMock.mockImplementationOnce(async () => {
+			await db.insertEntry(makeEntry({ id: "existing-1" }));
+			return {
+				action: "merged",
+				entryId: "existing-1",
+				conflictsDetected: 0,
+				conflictsResolved: 0,
+			};
+		});
+		const res = await app.request("/entries", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+			},
+			body: JSON.stringify({
+				type: "fact",
+				content: "Deploys need two approvals",
+				topics: ["deploy"],
+			}),
+		});
+
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.action).toBe("merged");
+		expect(data.entry.id).toBe("existing-1");
+	});
+
+	it("POST /entries rejects an invalid entry", async () => {
+		const res = await app.request("/entries", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+			},
+			body: JSON.stringify({ type: "fact", content: "", topics: ["a"] }),
+		});
+
+		expect(res.status).toBe(400);
+		expect(createEntryMock).not.toHaveBeenCalled();
+	});
+
+	function bulkRequest(target: ReturnType<typeof createApp>, body: unknown) {
+		return target.request("/entries/bulk", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+			},
+			body: JSON.stringify(body),
+		});
+	}
+
+	it("POST /entries/bulk requires the admin token", async () => {
+		const res = await app.request("/entries/bulk", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ operations: [{ op: "delete", id: "x" }] }),
+		});
+		expect(res.status).toBe(401);
+	});
+
+	it("POST /entries/bulk applies operations with a result per item", async () => {
+		await db.insertEntry(makeEntry({ id: "b1" }));
+		await db.insertEntry(makeEntry({ id: "b2" }));
+		await db.insertEntry(makeEntry({ id: "b3" }));
+		await db.insertEntry(makeEntry({ id: "b4" }));
+
+		const res = await bulkRequest(app, {
+			operations: [
+				{ op: "archive", id: "b1" },
+				{ op: "delete", id: "b2" },
+				{ op: "set-topics", id: "b3", topics: ["ops"] },
+				{ op: "set-status", id: "b4", status: "conflicted" },
+				{ op: "archive", id: "missing" },
+				{ op: "delete", id: "b1" },
+			],
+		});
+
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.ok).toBe(false);
+		expect(data.results.map((r: { ok: boolean }) => r.ok)).toEqual([
+			true,
+			true,
+			true,
+			true,
+			false,
+			false,
+		]);
+		expect(data.results[4].error).toBe("Entry not found");
+		expect(data.results[5].error).toContain("already has an operation");
+		expect((await db.getEntry("b1"))?.status).toBe("archived");
+		expect(await db.getEntry("b2")).toBeNull();
+		const b3 = await db.getEntry("b3");
+		expect(b3?.topics).toEqual(["ops"]);
+		expect(b3?.embedding).toHaveLength(3);
+		expect((await db.getEntry("b4"))?.status).toBe("conflicted");
+	});
+
+	it("POST /entries/bulk writes nothing on a dry run", async () => {
+		await db.insertEntry(makeEntry({ id: "b1" }));
+
+		const res = await bulkRequest(app, {
+			operations: [
+				{ op: "delete", id: "b1" },
+				{ op: "set-topics", id: "missing", topics: ["ops"] },
+			],
+			dryRun: true,
+		});
+
+		const data = await res.json();
+		expect(data.dryRun).toBe(true);
+		expect(data.results[0].ok).toBe(true);
+		expect(data.results[1].ok).toBe(false);
+		expect(await db.getEntry("b1")).not.toBeNull();
+		expect(embedSpy).not.toHaveBeenCalled();
+	});
+
+	it("POST /entries/bulk rejects an invalid operation", async () => {
+		const res = await bulkRequest(app, {
+			operations: [{ op: "set-status", id: "b1", status: "gone" }],
+		});
+		expect(res.status).toBe(400);
+		expect((await res.json()).error).toStartWith("Invalid operations.0.status");
+	});
+
+	it("POST /entries/bulk restores the counterpart of a deleted or archived conflicted entry", async () => {
+		for (const id of ["c1", "c2", "c3", "c4"]) {
+			await db.insertEntry(makeEntry({ id, status: "conflicted" }));
+		}
+		for (const [sourceId, targetId] of [
+			["c1", "c2"],
+			["c3", "c4"],
+		]) {
+			await db.insertRelation({
+				id: `rel-${sourceId}`,
+				sourceId,
+				targetId,
+				type: "contradicts",
+				createdAt: Date.now(),
+			});
+		}
+
+		const res = await bulkRequest(app, {
+			operations: [
+				{ op: "delete", id: "c1" },
+				{ op: "archive", id: "c3" },
+			],
+		});
+
+		const data = await res.json();
+		expect(data.results.map((r: { ok: boolean }) => r.ok)).toEqual([
+			true,
+			true,
+		]);
+		expect(data.results[0].restoredCounterpart).toBe("c2");
+		expect(data.results[1].restoredCounterpart).toBe("c4");
+		expect(await db.getEntry("c1")).toBeNull();
+		expect((await db.getEntry("c2"))?.status).toBe("active");
+		expect((await db.getEntry("c3"))?.status).toBe("archived");
+		expect((await db.getEntry("c4"))?.status).toBe("active");
+	});
+
+	it("POST /entries/bulk restores a counterpart whose own operation leaves its status alone", async () => {
+		await db.insertEntry(makeEntry({ id: "c1", status: "conflicted" }));
+		await db.insertEntry(makeEntry({ id: "c2", status: "conflicted" }));
+		await db.insertRelation({
+			id: "rel-c1",
+			sourceId: "c1",
+			targetId: "c2",
+			type: "contradicts",
+			createdAt: Date.now(),
+		});
+
+		const res = await bulkRequest(app, {
+			operations: [
+				{ op: "archive", id: "c1" },
+				{ op: "set-topics", id: "c2", topics: ["ops"] },
+			],
+		});
+
+		const data = await res.json();
+		expect(data.ok).toBe(true);
+		expect(data.results[0].restoredCounterpart).toBe("c2");
+		const c2 = await db.getEntry("c2");
+		expect(c2?.status).toBe("active");
+		expect(c2?.topics).toEqual(["ops"]);
+	});
+
+	it("POST /entries/bulk leaves a counterpart to its own status operation", async () => {
+		await db.insertEntry(makeEntry({ id: "c1", status: "conflicted" }));
+		await db.insertEntry(makeEntry({ id: "c2", status: "conflicted" }));
+		await db.insertRelation({
+			id: "rel-c1",
+			sourceId: "c1",
+			targetId: "c2",
+			type: "contradicts",
+			createdAt: Date.now(),
+		});
+
+		const res = await bulkRequest(app, {
+			operations: [
+				{ op: "archive", id: "c1" },
+				{ op: "archive", id: "c2" },
+			],
+		});
+
+		const data = await res.json();
+		expect(data.ok).toBe(true);
+		expect(data.results[0].restoredCounterpart).toBeUndefined();
+		expect((await db.getEntry("c2"))?.status).toBe("archived");
+	});
+
+	it("POST /entries/bulk moves entries between stores", async () => {
+		const otherDb = new KnowledgeDBImpl(join(tempDir, "other.db"));
+		try {
+			const stores = [db, otherDb];
+			const storeEntries = [
+				{ id: "work", db },
+				{ id: "personal", db: otherDb },
+			];
+			const multiApp = createApp(
+				db,
+				serverStateDb,
+				new ActivationEngine(db, stores, stores, [], storeEntries),
+				{} as ConsolidationEngine,
+				TEST_ADMIN_TOKEN,
+				false,
+				new Set(),
+				stores,
+				stores,
+			);
+			await db.insertEntry(makeEntry({ id: "m1", content: "Draft" }));
+			await db.updateEntry("m1", { content: "Moved" }, "api");
+			await db.insertEntry(makeEntry({ id: "m2" }));
+			await db.insertEntry(makeEntry({ id: "m3" }));
+			await db.insertEntry(makeEntry({ id: "m4" }));
+			await db.insertEntry(makeEntry({ id: "m5", status: "conflicted" }));
+			await db.insertRelation({
+				id: "rel-m4",
+				sourceId: "m4",
+				targetId: "m2",
+				type: "supports",
+				createdAt: Date.now(),
+			});
+
+			const res = await bulkRequest(multiApp, {
+				operations: [
+					{ op: "move-to-store", id: "m1", store: "personal" },
+					{ op: "move-to-store", id: "m2", store: "work" },
+					{ op: "move-to-store", id: "m3", store: "nowhere" },
+					{ op: "move-to-store", id: "m4", store: "personal" },
+					{ op: "move-to-store", id: "m5", store: "personal" },
+				],
+			});
+
+			const data = await res.json();
+			expect(data.results[0]).toEqual({
+				op: "move-to-store",
+				id: "m1",
+				ok: true,
+				store: "work",
+			});
+			expect(data.results[1].error).toContain("already in store");
+			expect(data.results[2].error).toBe('Unknown store "nowhere"');
+			expect(data.results[3].error).toContain("has relations");
+			expect(data.results[4].error).toContain("conflicted");
+			expect(await db.getEntry("m1")).toBeNull();
+			expect((await otherDb.getEntry("m1"))?.content).toBe("Moved");
+			expect(
+				(await otherDb.getRevisions("m1")).map((r) => [r.content, r.actor]),
+			).toEqual([
+				["Draft", "consolidation"],
+				["Moved", "api"],
+			]);
+			expect(await db.getEntry("m4")).not.toBeNull();
+			expect(await otherDb.getEntry("m5")).toBeNull();
+		} finally {
+			await otherDb.close();
+		}
+	});
+
 	it("POST /reinitialize should return 401 without token", async () => {
 		const res = await app.request("/reinitialize?confirm=yes", {
 			method: "POST",
@@ -434,6 +1193,276 @@ describe("HTTP API", () => {
 			body: JSON.stringify({ embedding: [1, 2, 3] }),
 		});
 		expect(res.status).toBe(400);
+		expect((await res.json()).error).toStartWith(
+			"Invalid body: No updatable fields provided.",
+		);
+	});
+
+	// -- GET /entries/:id/history and POST /entries/:id/revert/:revision --
+
+	function revertRequest(path: string) {
+		return app.request(path, {
+			method: "POST",
+			headers: { Authorization: `Bearer ${TEST_ADMIN_TOKEN}` },
+		});
+	}
+
+	it("GET /entries/:id/history should list revisions with their actors", async () => {
+		await db.insertEntry(makeEntry({ id: "hist-1", content: "Original" }));
+		await app.request("/entries/hist-1", {
+			method: "PATCH",
+			headers: {
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ content: "Garbled" }),
+		});
+
+		const res = await app.request("/entries/hist-1/history");
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.entryId).toBe("hist-1");
+		expect(
+			data.revisions.map((r: { actor: string; content: string }) => [
+				r.actor,
+				r.content,
+			]),
+		).toEqual([
+			["consolidation", "Original"],
+			["api", "Garbled"],
+		]);
+
+		const missing = await app.request("/entries/nonexistent/history");
+		expect(missing.status).toBe(404);
+	});
+
+	it("POST /entries/:id/revert/:revision should restore and re-embed the entry", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "rev-1", content: "Original", topics: ["a"] }),
+		);
+		await db.mergeEntry("rev-1", {
+			content: "Garbled",
+			type: "fact",
+			topics: ["b"],
+			confidence: 0.8,
+			additionalSources: [],
+		});
+		embedSpy.mockResolvedValue([0.44, 0.55, 0.66]);
+
+		const res = await revertRequest("/entries/rev-1/revert/1");
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.ok).toBe(true);
+		expect(data.revertedTo).toBe(1);
+		expect(data.entry.content).toBe("Original");
+		expect(data.entry.topics).toEqual(["a"]);
+		expect((await db.getEntry("rev-1"))?.embedding?.[0]).toBeCloseTo(0.44);
+
+		// The revert is itself a revision.
+		const revisions = await db.getRevisions("rev-1");
+		expect(revisions.map((r) => [r.revision, r.actor])).toEqual([
+			[1, "consolidation"],
+			[2, "consolidation"],
+			[3, "api"],
+		]);
+	});
+
+	it("POST /entries/:id/revert/:revision should reject bad requests", async () => {
+		await db.insertEntry(makeEntry({ id: "rev-2" }));
+
+		const unauthorized = await app.request("/entries/rev-2/revert/1", {
+			method: "POST",
+		});
+		expect(unauthorized.status).toBe(401);
+		for (const [path, status] of [
+			["/entries/rev-2/revert/abc", 400],
+			["/entries/rev-2/revert/0", 400],
+			["/entries/rev-2/revert/5", 404],
+			["/entries/nonexistent/revert/1", 404],
+		] as const) {
+			expect((await revertRequest(path)).status).toBe(status);
+		}
+	});
+
+	// -- POST /entries/:id/correct and /entries/:id/forget --
+
+	it("POST /entries/:id/correct should return 401 without token", async () => {
+		const res = await app.request("/entries/nonexistent/correct", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ content: "new" }),
+		});
+		expect(res.status).toBe(401);
+	});
+
+	it("POST /entries/:id/correct should return 404 for unknown entry", async () => {
+		const res = await app.request("/entries/nonexistent/correct", {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ content: "new" }),
+		});
+		expect(res.status).toBe(404);
+	});
+
+	it("POST /entries/:id/correct should supersede the entry with a corrected one", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "wrong", content: "Deploys run on Fridays" }),
+		);
+
+		const res = await app.request("/entries/wrong/correct", {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				content: "Deploys run on Tuesdays",
+				reason: "Schedule changed",
+			}),
+		});
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.superseded).toBe("wrong");
+		expect(data.entry.content).toBe("Deploys run on Tuesdays");
+		expect(data.entry.source).toContain("Schedule changed");
+
+		const old = await db.getEntry("wrong");
+		expect(old?.status).toBe("superseded");
+		expect(old?.supersededBy).toBe(data.entry.id);
+	});
+
+	it("POST /entries/:id/forget should tombstone the entry", async () => {
+		await db.insertEntry(makeEntry({ id: "stale" }));
+
+		const unauthorized = await app.request("/entries/stale/forget", {
+			method: "POST",
+		});
+		expect(unauthorized.status).toBe(401);
+
+		const res = await app.request("/entries/stale/forget", {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ reason: "No longer true" }),
+		});
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({
+			ok: true,
+			forgotten: "stale",
+			restoredCounterpart: null,
+		});
+		expect((await db.getEntry("stale"))?.status).toBe("tombstoned");
+	});
+
+	// -- POST /mcp --
+
+	const mcpRequest = (method: string, params: object, token?: string) =>
+		app.request("/mcp", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				...(token ? { Authorization: `Bearer ${token}` } : {}),
+			},
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+		});
+
+	const callTool = (name: string, args: object, token?: string) =>
+		mcpRequest("tools/call", { name, arguments: args }, token);
+
+	it("POST /mcp should refuse admin tools to callers without the admin token", async () => {
+		await db.insertEntry(makeEntry({ id: "keep-me" }));
+
+		const res = await callTool("forget", { id: "keep-me" });
+		expect(res.status).toBe(200);
+		const text = await res.text();
+		expect(text).toContain('"isError":true');
+		expect(text).toContain("requires the admin token");
+		expect((await db.getEntry("keep-me"))?.status).toBe("active");
+	});
+
+	it("POST /mcp should run admin tools for callers with the admin token", async () => {
+		await db.insertEntry(makeEntry({ id: "drop-me" }));
+
+		const res = await callTool("forget", { id: "drop-me" }, TEST_ADMIN_TOKEN);
+		expect(res.status).toBe(200);
+		expect(await res.text()).not.toContain('"isError":true');
+		expect((await db.getEntry("drop-me"))?.status).toBe("tombstoned");
+	});
+
+	it("POST /mcp activate should return structured content", async () => {
+		spyOn(activation, "activate").mockResolvedValue({
+			entries: [
+				{
+					entry: makeEntry({ id: "act-1" }),
+					rawSimilarity: 0.8,
+					similarity: 0.72,
+					staleness: {
+						ageDays: 1,
+						strength: 0.9,
+						lastAccessedDaysAgo: 1,
+						mayBeStale: false,
+					},
+				},
+			],
+			query: "test",
+			totalActive: 1,
+		});
+
+		const text = await (await callTool("activate", { cues: "test" })).text();
+		const data = text.slice(text.indexOf("{"));
+		const { result } = JSON.parse(data.slice(0, data.lastIndexOf("}") + 1));
+		expect(result.content[0].text).toContain("## Activated Knowledge");
+		expect(result.structuredContent.entries[0]).toMatchObject({
+			id: "act-1",
+			type: "fact",
+			scores: { rawSimilarity: 0.8, similarity: 0.72 },
+		});
+	});
+
+	it("POST /mcp should list and read entry and topic resources", async () => {
+		await db.insertEntry(
+			makeEntry({
+				id: "res-1",
+				content: "Deploys run on Tuesdays",
+				topics: ["Deploy"],
+			}),
+		);
+
+		const list = await (await mcpRequest("resources/list", {})).text();
+		expect(list).toContain("knowledge://entry/res-1");
+		expect(list).toContain("knowledge://topics");
+
+		const entry = await (
+			await mcpRequest("resources/read", { uri: "knowledge://entry/res-1" })
+		).text();
+		expect(entry).toContain("Deploys run on Tuesdays");
+
+		const topic = await (
+			await mcpRequest("resources/read", { uri: "knowledge://topic/deploy" })
+		).text();
+		expect(topic).toContain("ID: res-1");
+	});
+
+	it("POST /mcp should inline review data in the knowledge-review prompt", async () => {
+		await db.insertEntry(
+			makeEntry({
+				id: "conflict-1",
+				content: "Use tabs",
+				status: "conflicted",
+			}),
+		);
+
+		const res = await mcpRequest("prompts/get", { name: "knowledge-review" });
+		const text = await res.text();
+		expect(text).toContain("Conflicted entries (1)");
+		expect(text).toContain("ID: conflict-1");
+		expect(text).toContain("http://localhost/entries/:id/resolve");
 	});
 
 	// -- DELETE /entries/:id --
@@ -600,6 +1629,26 @@ describe("HTTP API", () => {
 		expect(res.status).toBe(400);
 	});
 
+	it("POST /entries/:id/resolve rejects merge without mergedContent", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "conflicted-merge", status: "conflicted" }),
+		);
+
+		const res = await app.request("/entries/conflicted-merge/resolve", {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${TEST_ADMIN_TOKEN}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ resolution: "merge", mergedContent: "  " }),
+		});
+		expect(res.status).toBe(400);
+		expect((await res.json()).error).toBe(
+			"Invalid mergedContent: is required for merge resolution",
+		);
+		expect((await db.getEntry("conflicted-merge"))?.status).toBe("conflicted");
+	});
+
 	it("POST /entries/:id/resolve returns 422 and leaves entry untouched when counterpart is in a different store", async () => {
 		// Simulate a cross-store conflict: entry + contradicts relation in primary db,
 		// counterpart ONLY in a secondary store. The resolve handler finds the entry in
@@ -737,4 +1786,308 @@ describe("HTTP API", () => {
 			await db2?.close();
 		}
 	});
+
+	// -- GET /openapi.json --
+
+	it("GET /openapi.json describes every route", async () => {
+		const res = await app.request("/openapi.json");
+		expect(res.status).toBe(200);
+		const doc = await res.json();
+		expect(doc.openapi).toBe("3.1.0");
+		expect(doc.info.version).toBe(pkg.version);
+
+		const documented = new Set(
+			Object.entries(doc.paths).flatMap(([path, ops]) =>
+				Object.keys(ops as object).map((m) => `${m.toUpperCase()} ${path}`),
+			),
+		);
+		for (const route of app.routes) {
+			const path = route.path.replace(/:(\w+)/g, "{$1}");
+			const method = route.method === "ALL" ? "POST" : route.method;
+			expect(documented).toContain(`${method} ${path}`);
+		}
+	});
+
+	it("GET /openapi.json documents the PATCH and resolve bodies", async () => {
+		const doc = await (await app.request("/openapi.json")).json();
+
+		const patch = doc.paths["/entries/{id}"].patch;
+		expect(patch.security).toEqual([{ apiToken: [] }]);
+		expect(patch.parameters).toEqual([
+			{ name: "id", in: "path", required: true, schema: { type: "string" } },
+		]);
+		const patchBody = patch.requestBody.content["application/json"].schema;
+		expect(Object.keys(patchBody.properties)).toEqual([
+			"content",
+			"topics",
+			"confidence",
+			"status",
+		]);
+
+		const resolveBody =
+			doc.paths["/entries/{id}/resolve"].post.requestBody.content[
+				"application/json"
+			].schema;
+		const merge = resolveBody.anyOf.find(
+			(s: { properties: { resolution: { const: string } } }) =>
+				s.properties.resolution.const === "merge",
+		);
+		expect(merge.required).toEqual(["resolution", "mergedContent"]);
+
+		const activate = doc.paths["/activate"].get;
+		expect(
+			activate.parameters.find((p: { name: string }) => p.name === "q")
+				.required,
+		).toBe(true);
+	});
+
+	it("answers CORS preflights only for configured origins", async () => {
+		const corsApp = createApp(
+			db,
+			serverStateDb,
+			activation,
+			{} as ConsolidationEngine,
+			TEST_ADMIN_TOKEN,
+			false,
+			new Set(),
+			[db],
+			[db],
+			["https://app.example.com"],
+		);
+		const preflight = (origin: string) =>
+			corsApp.request("/entries", {
+				method: "OPTIONS",
+				headers: {
+					Origin: origin,
+					"Access-Control-Request-Method": "GET",
+					"Access-Control-Request-Headers": "Authorization",
+				},
+			});
+
+		const allowed = await preflight("https://app.example.com");
+		expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe(
+			"https://app.example.com",
+		);
+		expect(allowed.headers.get("Access-Control-Allow-Headers")).toContain(
+			"Authorization",
+		);
+		const other = await preflight("https://evil.example.com");
+		expect(other.headers.get("Access-Control-Allow-Origin")).toBeNull();
+
+		const noCors = await app.request("/entries", {
+			headers: { Origin: "https://app.example.com" },
+		});
+		expect(noCors.headers.get("Access-Control-Allow-Origin")).toBeNull();
+	});
+
+	describe("API tokens", () => {
+		let nextTokenId = 0;
+
+		/** Store a named token and return its secret. */
+		async function createToken(
+			name: string,
+			scopes: ApiTokenScope[],
+			stores: string[] | null = null,
+		): Promise<string> {
+			const secret = generateApiToken();
+			await serverStateDb.createApiToken(
+				{
+					id: `token-${++nextTokenId}`,
+					name,
+					scopes,
+					stores,
+					createdAt: Date.now(),
+					lastUsedAt: null,
+				},
+				hashApiToken(secret),
+			);
+			return secret;
+		}
+
+		const bearer = (secret: string) => ({ Authorization: `Bearer ${secret}` });
+
+		it("lets a token use the endpoints its scopes cover", async () => {
+			await db.insertEntry(makeEntry({ id: "t1", content: "Before" }));
+			const writer = await createToken("writer", ["write-entries"]);
+
+			const res = await app.request("/entries/t1", {
+				method: "PATCH",
+				headers: { ...bearer(writer), "Content-Type": "application/json" },
+				body: JSON.stringify({ content: "After" }),
+			});
+			expect(res.status).toBe(200);
+			expect((await db.getEntry("t1"))?.content).toBe("After");
+
+			const [token] = await serverStateDb.listApiTokens();
+			expect(token.lastUsedAt).not.toBeNull();
+		});
+
+		it("returns 403 when the token lacks the scope", async () => {
+			await db.insertEntry(makeEntry({ id: "t1" }));
+			const reader = await createToken("reader", ["read"]);
+
+			const patch = await app.request("/entries/t1", {
+				method: "PATCH",
+				headers: { ...bearer(reader), "Content-Type": "application/json" },
+				body: JSON.stringify({ content: "After" }),
+			});
+			expect(patch.status).toBe(403);
+			expect((await patch.json()).error).toBe(
+				'Token "reader" lacks the write-entries scope',
+			);
+
+			const consolidate = await app.request("/consolidate", {
+				method: "POST",
+				headers: bearer(reader),
+			});
+			expect(consolidate.status).toBe(403);
+		});
+
+		it("returns 401 for unknown and revoked tokens", async () => {
+			const secret = await createToken("ci", ["consolidate"]);
+			expect(await serverStateDb.revokeApiToken("ci")).toBe(true);
+
+			const res = await app.request("/jobs/some-job", {
+				headers: bearer(secret),
+			});
+			expect(res.status).toBe(401);
+		});
+
+		it("refuses an unknown or revoked token on open endpoints instead of treating it as anonymous", async () => {
+			const secret = await createToken("scoped", ["read"], ["work"]);
+			expect(await serverStateDb.revokeApiToken("scoped")).toBe(true);
+
+			expect(
+				(await app.request("/entries", { headers: bearer(secret) })).status,
+			).toBe(401);
+			expect((await mcpRequest("tools/list", {}, secret)).status).toBe(401);
+			expect((await mcpRequest("tools/list", {}, "mistyped")).status).toBe(401);
+
+			expect((await app.request("/entries")).status).toBe(200);
+			expect((await mcpRequest("tools/list", {})).status).toBe(200);
+		});
+
+		it("requires a read token for reads when KNOWLEDGE_REQUIRE_AUTH is set", async () => {
+			const original = config.requireAuth;
+			config.requireAuth = true;
+			try {
+				const secureApp = createApp(
+					db,
+					serverStateDb,
+					activation,
+					{} as ConsolidationEngine,
+					TEST_ADMIN_TOKEN,
+				);
+				const reader = await createToken("reader", ["read"]);
+				const activator = await createToken("activator", ["activate"]);
+
+				expect((await secureApp.request("/entries")).status).toBe(401);
+				expect(
+					(await secureApp.request("/entries", { headers: bearer(reader) }))
+						.status,
+				).toBe(200);
+				expect(
+					(await secureApp.request("/topics", { headers: bearer(activator) }))
+						.status,
+				).toBe(403);
+				expect(
+					(
+						await secureApp.request("/entries", {
+							headers: bearer(TEST_ADMIN_TOKEN),
+						})
+					).status,
+				).toBe(200);
+			} finally {
+				config.requireAuth = original;
+			}
+		});
+
+		it("requires a read token for /status and /openapi.json when KNOWLEDGE_REQUIRE_AUTH is set", async () => {
+			const original = config.requireAuth;
+			config.requireAuth = true;
+			try {
+				const secureApp = createApp(
+					db,
+					serverStateDb,
+					activation,
+					{} as ConsolidationEngine,
+					TEST_ADMIN_TOKEN,
+				);
+				const reader = await createToken("reader", ["read"]);
+
+				expect((await secureApp.request("/status")).status).toBe(401);
+				expect((await secureApp.request("/openapi.json")).status).toBe(401);
+
+				const status = await secureApp.request("/status", {
+					headers: bearer(reader),
+				});
+				expect(status.status).toBe(200);
+				expect((await status.json()).config).toBeUndefined();
+				expect(
+					(
+						await secureApp.request("/openapi.json", {
+							headers: bearer(reader),
+						})
+					).status,
+				).toBe(200);
+			} finally {
+				config.requireAuth = original;
+			}
+		});
+
+		it("limits a store-restricted token to its stores", async () => {
+			const otherDb = new KnowledgeDBImpl(join(tempDir, "other.db"));
+			try {
+				const stores = [db, otherDb];
+				const storeEntries = [
+					{ id: "work", db },
+					{ id: "personal", db: otherDb },
+				];
+				const multiApp = createApp(
+					db,
+					serverStateDb,
+					new ActivationEngine(db, stores, stores, [], storeEntries),
+					{} as ConsolidationEngine,
+					TEST_ADMIN_TOKEN,
+					false,
+					new Set(),
+					stores,
+					stores,
+				);
+				await db.insertEntry(makeEntry({ id: "w1" }));
+				await otherDb.insertEntry(makeEntry({ id: "p1" }));
+				const secret = await createToken(
+					"personal-only",
+					["read", "write-entries"],
+					["personal"],
+				);
+
+				const list = await multiApp.request("/entries?store=work,personal", {
+					headers: bearer(secret),
+				});
+				const { entries } = await list.json();
+				expect(entries.map((e: { id: string }) => e.id)).toEqual(["p1"]);
+
+				const other = await multiApp.request("/entries/w1", {
+					method: "DELETE",
+					headers: bearer(secret),
+				});
+				expect(other.status).toBe(404);
+				expect(await db.getEntry("w1")).not.toBeNull();
+
+				const own = await multiApp.request("/entries/p1", {
+					method: "DELETE",
+					headers: bearer(secret),
+				});
+				expect(own.status).toBe(200);
+
+				const events = await multiApp.request("/events", {
+					headers: bearer(secret),
+				});
+				expect(events.status).toBe(403);
+			} finally {
+				await otherDb.close();
+			}
+		});
+	});
 });
@@ -7,6 +7,7 @@ import {
 	loadConfigFile,
 	resolvePostgresUri,
 	resolveSqlitePath,
+	resolveWebhookSecret,
 } from "../src/config-file";
 
 describe("loadConfigFile", () => {
@@ -559,3 +560,175 @@ describe("loadConfigFile — domain and project validation", () => {
 		}
 	});
 });
+
+describe("loadConfigFile — webhooks", () => {
+	let tempDir: string;
+	let configPath: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "ks-webhook-config-test-"));
+		configPath = join(tempDir, "config.jsonc");
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function writeWebhooks(webhooks: unknown): void {
+		writeFileSync(
+			configPath,
+			JSON.stringify({
+				stores: [{ id: "main", kind: "sqlite", writable: true }],
+				webhooks,
+			}),
+		);
+	}
+
+	it("defaults to no webhooks when omitted", () => {
+		writeFileSync(
+			configPath,
+			JSON.stringify({
+				stores: [{ id: "main", kind: "sqlite", writable: true }],
+			}),
+		);
+		expect(loadConfigFile(configPath)?.webhooks).toEqual([]);
+	});
+
+	it("parses webhooks and de-duplicates events", () => {
+		writeWebhooks([
+			{
+				id: "slack",
+				url: "https://hooks.example.com/abc",
+				events: [
+					"decision.created",
+					"conflict.irresolvable",
+					"decision.created",
+				],
+				secret: "s3cret",
+			},
+		]);
+		expect(loadConfigFile(configPath)?.webhooks).toEqual([
+			{
+				id: "slack",
+				url: "https://hooks.example.com/abc",
+				events: ["decision.created", "conflict.irresolvable"],
+				secret: "s3cret",
+			},
+		]);
+	});
+
+	it("throws on unknown events", () => {
+		writeWebhooks([
+			{ id: "slack", url: "https://x.test", events: ["entry.created"] },
+		]);
+		expect(() => loadConfigFile(configPath)).toThrow(
+			/"events" must be a non-empty array of/,
+		);
+	});
+
+	it("throws on a non-http url", () => {
+		writeWebhooks([
+			{ id: "slack", url: "ftp://x.test", events: ["decision.created"] },
+		]);
+		expect(() => loadConfigFile(configPath)).toThrow(/http\(s\) URL/);
+	});
+
+	it("throws on duplicate webhook ids", () => {
+		const hook = {
+			id: "slack",
+			url: "https://x.test",
+			events: ["decision.created"],
+		};
+		writeWebhooks([hook, hook]);
+		expect(() => loadConfigFile(configPath)).toThrow(/duplicate ids: slack/);
+	});
+});
+
+describe("loadConfigFile — tls and corsOrigins", () => {
+	let tempDir: string;
+	let configPath: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "ks-serving-config-test-"));
+		configPath = join(tempDir, "config.jsonc");
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function writeConfig(extra: Record<string, unknown>): void {
+		writeFileSync(
+			configPath,
+			JSON.stringify({
+				stores: [{ id: "main", kind: "sqlite", writable: true }],
+				...extra,
+			}),
+		);
+	}
+
+	it("defaults to plain HTTP without CORS", () => {
+		writeConfig({});
+		const result = loadConfigFile(configPath);
+		expect(result?.tls).toBeNull();
+		expect(result?.corsOrigins).toEqual([]);
+	});
+
+	it("parses tls paths and expands ~", () => {
+		writeConfig({
+			tls: { cert: "~/certs/server.pem", key: "/etc/ks/key.pem" },
+		});
+		expect(loadConfigFile(configPath)?.tls).toEqual({
+			cert: join(homedir(), "certs/server.pem"),
+			key: "/etc/ks/key.pem",
+		});
+	});
+
+	it("throws when tls lacks a key", () => {
+		writeConfig({ tls: { cert: "/etc/ks/cert.pem" } });
+		expect(() => loadConfigFile(configPath)).toThrow(
+			/"tls" must be an object with non-empty "cert" and "key"/,
+		);
+	});
+
+	it("parses corsOrigins", () => {
+		writeConfig({
+			corsOrigins: ["https://app.example.com", "http://localhost:5173"],
+		});
+		expect(loadConfigFile(configPath)?.corsOrigins).toEqual([
+			"https://app.example.com",
+			"http://localhost:5173",
+		]);
+	});
+
+	it("throws on origins with a path", () => {
+		writeConfig({ corsOrigins: ["https://app.example.com/dashboard"] });
+		expect(() => loadConfigFile(configPath)).toThrow(/"corsOrigins" must be/);
+	});
+
+	it("throws when * is combined with specific origins", () => {
+		writeConfig({ corsOrigins: ["*", "https://app.example.com"] });
+		expect(() => loadConfigFile(configPath)).toThrow(/cannot combine "\*"/);
+	});
+});
+
+describe("resolveWebhookSecret", () => {
+	const envKey = "WEBHOOK_TEAM_SLACK_SECRET";
+
+	afterEach(() => {
+		delete process.env[envKey];
+	});
+
+	it("prefers the env var over the config secret", () => {
+		process.env[envKey] = "from-env";
+		const webhook = {
+			id: "team-slack",
+			url: "https://x.test",
+			events: ["decision.created" as const],
+			secret: "from-config",
+		};
+		expect(resolveWebhookSecret(webhook)).toBe("from-env");
+		delete process.env[envKey];
+		expect(resolveWebhookSecret(webhook)).toBe("from-config");
+	});
+});
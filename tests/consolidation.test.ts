@@ -18,9 +18,16 @@ import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { ActivationEngine } from "../src/activation/activate";
+import { config } from "../src/config";
 import { ConsolidationEngine } from "../src/consolidation/consolidate";
 import { ConsolidationLLM } from "../src/consolidation/llm";
-import type { Episode, IEpisodeReader } from "../src/types";
+import { knowledgeEvents } from "../src/events";
+import type {
+	ConsolidationProgress,
+	Episode,
+	IEpisodeReader,
+	KnowledgeEvent,
+} from "../src/types";
 import { KnowledgeDB } from "../src/db/sqlite/index";
 import { ServerStateDB } from "../src/db/state/index";
 
@@ -399,6 +406,19 @@ describe("KnowledgeDB — conflicted entries included in similarity queries", ()
 		expect(ids).toContain("ae-conflicted");
 		expect(ids).not.toContain("ae-archived");
 	});
+
+	it("getActiveEntriesWithEmbeddings honours an explicit status list", async () => {
+		const emb = fakeEmbedding("abc");
+		await db.insertEntry(
+			makeEntry({ id: "ae-active", status: "active", embedding: emb }),
+		);
+		await db.insertEntry(
+			makeEntry({ id: "ae-archived", status: "archived", embedding: emb }),
+		);
+
+		const results = await db.getActiveEntriesWithEmbeddings(["archived"]);
+		expect(results.map((r) => r.id)).toEqual(["ae-archived"]);
+	});
 });
 
 describe("KnowledgeDB — applyContradictionResolution clears conflicted status on winner", () => {
@@ -614,6 +634,8 @@ describe("ConsolidationEngine.reconsolidate() — novel entry (below threshold)"
 		expect(entries.length).toBe(1);
 		expect(entries[0].content).toBe("TypeScript is statically typed.");
 		expect(entries[0].status).toBe("active");
+		// Stamped from the episode's working directory for project-scoped activation
+		expect(entries[0].directory).toBe("/tmp/test");
 	});
 
 	it("inserts a new entry when nearest neighbour is below RECONSOLIDATION_SIMILARITY_THRESHOLD", async () => {
@@ -1018,6 +1040,195 @@ describe("ConsolidationEngine.reconsolidate() — 'insert' decision (above thres
 
 // ── ConsolidationEngine.runContradictionScan() edge cases ─────────────────────
 
+describe("ConsolidationEngine.remember()", () => {
+	const request = {
+		type: "fact" as const,
+		content: "TypeScript uses static types.",
+		topics: ["typescript"],
+	};
+
+	it("inserts a novel entry without an LLM call", async () => {
+		spyOn(activation.embeddings, "embed").mockResolvedValue(
+			fakeEmbedding("TypeScript static"),
+		);
+		const decideMergeSpy = spyOn(ConsolidationLLM.prototype, "decideMerge");
+
+		const result = await engine.remember({ ...request, sessionId: "s-1" });
+
+		expect(result.action).toBe("inserted");
+		expect(decideMergeSpy).not.toHaveBeenCalled();
+		const entry = await db.getEntry(result.entryId);
+		expect(entry?.content).toBe("TypeScript uses static types.");
+		expect(entry?.confidence).toBeCloseTo(0.8);
+		expect(entry?.source).toStartWith("remember ");
+		expect(entry?.derivedFrom).toEqual(["s-1"]);
+	});
+
+	it("reports the existing entry on 'keep' and reinforces it", async () => {
+		const existingEmb = fakeEmbedding("TypeScript static");
+		await db.insertEntry(
+			makeEntry({
+				id: "existing-ts",
+				content: "TypeScript is statically typed.",
+				topics: ["typescript"],
+				embedding: existingEmb,
+			}),
+		);
+		spyOn(activation.embeddings, "embed").mockResolvedValue(existingEmb);
+		spyOn(ConsolidationLLM.prototype, "decideMerge").mockResolvedValue({
+			action: "keep",
+		});
+
+		const result = await engine.remember(request);
+
+		expect(result).toEqual({
+			action: "kept",
+			entryId: "existing-ts",
+			conflictsDetected: 0,
+			conflictsResolved: 0,
+		});
+		expect((await db.getEntry("existing-ts"))?.observationCount).toBe(2);
+		expect(await db.getEntries({})).toHaveLength(1);
+	});
+
+	it("reports the merged entry on 'update'", async () => {
+		const existingEmb = fakeEmbedding("TypeScript static");
+		await db.insertEntry(
+			makeEntry({
+				id: "existing-ts",
+				content: "TypeScript is statically typed.",
+				topics: ["typescript"],
+				embedding: existingEmb,
+			}),
+		);
+		spyOn(activation.embeddings, "embed").mockResolvedValue(existingEmb);
+		spyOn(ConsolidationLLM.prototype, "decideMerge").mockResolvedValue({
+			action: "update",
+			content: "TypeScript is statically typed with structural types.",
+			type: "fact",
+			topics: ["typescript"],
+			confidence: 0.9,
+		});
+
+		const result = await engine.remember(request);
+
+		expect(result.action).toBe("merged");
+		expect(result.entryId).toBe("existing-ts");
+		expect((await db.getEntry("existing-ts"))?.content).toBe(
+			"TypeScript is statically typed with structural types.",
+		);
+	});
+
+	it("records its revisions as made through the API", async () => {
+		const existingEmb = fakeEmbedding("TypeScript static");
+		spyOn(activation.embeddings, "embed").mockResolvedValue(existingEmb);
+		spyOn(ConsolidationLLM.prototype, "decideMerge").mockResolvedValue({
+			action: "update",
+			content: "TypeScript is statically typed with structural types.",
+			type: "fact",
+			topics: ["typescript"],
+			confidence: 0.9,
+		});
+
+		const inserted = await engine.remember(request);
+		const merged = await engine.remember(request);
+
+		expect(merged).toMatchObject({
+			action: "merged",
+			entryId: inserted.entryId,
+		});
+		expect(
+			(await db.getRevisions(inserted.entryId)).map((r) => [
+				r.actor,
+				r.content,
+			]),
+		).toEqual([
+			["api", "TypeScript uses static types."],
+			["api", "TypeScript is statically typed with structural types."],
+		]);
+	});
+
+	it("serializes concurrent remembers to the same store", async () => {
+		spyOn(activation.embeddings, "embed").mockResolvedValue(
+			fakeEmbedding("TypeScript static"),
+		);
+		spyOn(ConsolidationLLM.prototype, "decideMerge").mockResolvedValue({
+			action: "keep",
+		});
+		// Behave like the Postgres advisory lock, which throws when this
+		// process asks for it while already holding it.
+		let held = false;
+		spyOn(db, "tryAcquireConsolidationLock").mockImplementation(async () => {
+			if (held) throw new Error("called while lock already held");
+			held = true;
+			return true;
+		});
+		spyOn(db, "releaseConsolidationLock").mockImplementation(async () => {
+			held = false;
+		});
+
+		const [first, second] = await Promise.all([
+			engine.remember(request),
+			engine.remember(request),
+		]);
+
+		expect(first.action).toBe("inserted");
+		expect(second).toMatchObject({ action: "kept", entryId: first.entryId });
+		expect(await db.getEntries({})).toHaveLength(1);
+	});
+});
+
+describe("ConsolidationEngine.createEntry()", () => {
+	const request = {
+		type: "fact" as const,
+		content: "TypeScript uses static types.",
+		topics: ["typescript"],
+	};
+
+	it("reconsolidates by default and labels the source 'manual'", async () => {
+		spyOn(activation.embeddings, "embed").mockResolvedValue(
+			fakeEmbedding("TypeScript static"),
+		);
+
+		const result = await engine.createEntry(request);
+
+		expect(result.action).toBe("inserted");
+		expect((await db.getEntry(result.entryId))?.source).toStartWith("manual ");
+	});
+
+	it("inserts next to a near-duplicate when reconsolidation is bypassed", async () => {
+		const existingEmb = fakeEmbedding("TypeScript static");
+		await db.insertEntry(
+			makeEntry({
+				id: "existing-ts",
+				content: "TypeScript is statically typed.",
+				topics: ["typescript"],
+				embedding: existingEmb,
+			}),
+		);
+		spyOn(activation.embeddings, "embed").mockResolvedValue(existingEmb);
+		const decideMergeSpy = spyOn(ConsolidationLLM.prototype, "decideMerge");
+		spyOn(
+			ConsolidationLLM.prototype,
+			"detectAndResolveContradiction",
+		).mockResolvedValue([]);
+
+		const result = await engine.createEntry({
+			...request,
+			reconsolidate: false,
+		});
+
+		expect(result.action).toBe("inserted");
+		expect(result.entryId).not.toBe("existing-ts");
+		expect(decideMergeSpy).not.toHaveBeenCalled();
+		const entry = await db.getEntry(result.entryId);
+		expect(entry?.embedding).toHaveLength(existingEmb.length);
+		expect(await db.getEntries({})).toHaveLength(2);
+		const revisions = await db.getRevisions(result.entryId);
+		expect(revisions.map((r) => r.actor)).toEqual(["api"]);
+	});
+});
+
 describe("ConsolidationEngine.runContradictionScan() — hallucinated candidateId guard", () => {
 	it("ignores a candidateId the LLM invented that was not in the candidate list", async () => {
 		const existingEmb = fakeEmbedding("server port");
@@ -1300,12 +1511,22 @@ describe("ConsolidationEngine.consolidate() — full pipeline with mocked LLM +
 			},
 		]);
 
+		const events: KnowledgeEvent[] = [];
+		const unsubscribe = knowledgeEvents.subscribe((e) => events.push(e));
 		const result = await engine.consolidate();
+		unsubscribe();
 
 		expect(result.sessionsProcessed).toBe(1);
 		expect(result.entriesCreated).toBe(1);
 		expect(result.conflictsDetected).toBe(1);
 		expect(result.conflictsResolved).toBe(0); // irresolvable doesn't count as resolved
+		expect(events.map((e) => e.type)).toEqual([
+			"consolidation.started",
+			"entry.created",
+			"entry.conflicted",
+			"consolidation.finished",
+		]);
+		expect(events[3]).toEqual({ type: "consolidation.finished", result });
 
 		// The new entry must be in the DB as conflicted
 		const newEntry = (await db.getEntries({ type: "fact" })).find((e) =>
@@ -1347,6 +1568,56 @@ describe("ConsolidationEngine.consolidate() — full pipeline with mocked LLM +
 		);
 		expect(recorded).toBeDefined();
 	});
+
+	it("reports progress and stops between chunks when cancelled", async () => {
+		const now = Date.now();
+		mockReader._sessions = [
+			{ id: "session-1", maxMessageTime: now },
+			{ id: "session-2", maxMessageTime: now },
+		];
+		mockReader._episodes = [
+			makeEpisode({ sessionId: "session-1" }),
+			makeEpisode({ sessionId: "session-2" }),
+		];
+		const afterConsolidated = mock(async (_ids: string[]) => {});
+		(mockReader as IEpisodeReader).afterConsolidated = afterConsolidated;
+		spyOn(activation, "ensureEmbeddings").mockResolvedValue(0);
+
+		// Cancel while the first chunk is being extracted.
+		const controller = new AbortController();
+		const extract = spyOn(
+			ConsolidationLLM.prototype,
+			"extractKnowledge",
+		).mockImplementation(async () => {
+			controller.abort();
+			return [];
+		});
+
+		const progress: ConsolidationProgress[] = [];
+		const chunkSize = config.consolidation.chunkSize;
+		config.consolidation.chunkSize = 1;
+		try {
+			const result = await engine.consolidate({
+				signal: controller.signal,
+				onProgress: (p) => progress.push(p),
+			});
+			expect(result.sessionsProcessed).toBe(1);
+			expect(result.segmentsProcessed).toBe(1);
+		} finally {
+			config.consolidation.chunkSize = chunkSize;
+		}
+
+		expect(extract).toHaveBeenCalledTimes(1);
+		// Unprocessed episodes stay pending for the next run.
+		expect(afterConsolidated).not.toHaveBeenCalled();
+		expect([...new Set(progress.map((p) => p.phase))]).toEqual([
+			"extract",
+			"reconsolidate",
+			"decay",
+			"embed",
+		]);
+		expect(progress.at(-1)).toMatchObject({ chunksDone: 1, chunksTotal: 2 });
+	});
 });
 
 describe("ActivationEngine — contradiction annotation on activated conflicted entries", () => {
@@ -1,11 +1,12 @@
 import { Database } from "bun:sqlite";
-import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
 import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { KnowledgeDB } from "../src/db/sqlite/index";
 import { ServerStateDB } from "../src/db/state/index";
 import { CREATE_TABLES, EXPECTED_TABLE_COLUMNS } from "../src/db/sqlite/schema";
+import { makeEntry } from "./fixtures";
 
 describe("KnowledgeDB", () => {
 	let db: KnowledgeDB;
@@ -56,6 +57,16 @@ describe("KnowledgeDB", () => {
 		expect(entry?.derivedFrom).toEqual(["session-123"]);
 	});
 
+	it("should persist the originating directory", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "with-dir", directory: "/repos/app" }),
+		);
+		await db.insertEntry(makeEntry({ id: "without-dir" }));
+
+		expect((await db.getEntry("with-dir"))?.directory).toBe("/repos/app");
+		expect((await db.getEntry("without-dir"))?.directory).toBeNull();
+	});
+
 	it("should update entry fields", async () => {
 		const now = Date.now();
 		await db.insertEntry({
@@ -736,6 +747,417 @@ describe("KnowledgeDB — cluster CRUD", () => {
 	});
 });
 
+describe("KnowledgeDB — entry listing", () => {
+	let db: KnowledgeDB;
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-list-test-"));
+		db = new KnowledgeDB(join(tempDir, "test.db"));
+		await db.insertEntry(
+			makeEntry({ id: "a", content: "100% coverage", strength: 0.9 }),
+		);
+		await db.insertEntry(
+			makeEntry({ id: "b", content: "Deploy on Tuesdays", strength: 0.5 }),
+		);
+		await db.insertEntry(
+			makeEntry({
+				id: "c",
+				content: "deploy_key rotation",
+				topics: ["Security"],
+				strength: 0.5,
+			}),
+		);
+		await db.insertEntry(
+			makeEntry({ id: "d", content: "Old note", status: "archived" }),
+		);
+	});
+
+	afterEach(async () => {
+		await db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("pages by sort value, breaking ties by ID", async () => {
+		const first = await db.listEntries({
+			status: "active",
+			sort: "strength",
+			limit: 2,
+		});
+		expect(first.map((e) => e.id)).toEqual(["a", "c"]);
+
+		const last = first[first.length - 1];
+		const second = await db.listEntries({
+			status: "active",
+			sort: "strength",
+			after: { value: last.strength, id: last.id },
+			limit: 2,
+		});
+		expect(second.map((e) => e.id)).toEqual(["b"]);
+	});
+
+	it("filters by topic and content substring in SQL", async () => {
+		const bySubstring = await db.listEntries({
+			q: "DEPLOY",
+			sort: "updatedAt",
+			limit: 10,
+		});
+		expect(bySubstring.map((e) => e.id).sort()).toEqual(["b", "c"]);
+
+		// LIKE wildcards in the query match literally.
+		const literal = await db.listEntries({
+			q: "_",
+			sort: "updatedAt",
+			limit: 10,
+		});
+		expect(literal.map((e) => e.id)).toEqual(["c"]);
+		expect(
+			(await db.listEntries({ q: "%", sort: "updatedAt", limit: 10 })).map(
+				(e) => e.id,
+			),
+		).toEqual(["a"]);
+
+		const byTopic = await db.listEntries({
+			topic: ["security"],
+			sort: "updatedAt",
+			limit: 10,
+		});
+		expect(byTopic.map((e) => e.id)).toEqual(["c"]);
+	});
+
+	it("counts matches regardless of paging", async () => {
+		expect(await db.countEntries({})).toBe(4);
+		expect(await db.countEntries({ status: "active", q: "deploy" })).toBe(2);
+	});
+});
+
+describe("KnowledgeDB — entry batches", () => {
+	let db: KnowledgeDB;
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-batch-test-"));
+		db = new KnowledgeDB(join(tempDir, "test.db"));
+		await db.insertEntry(makeEntry({ id: "a" }));
+		await db.insertEntry(makeEntry({ id: "b" }));
+		await db.insertRelation({
+			id: "rel-1",
+			sourceId: "a",
+			targetId: "b",
+			type: "supports",
+			createdAt: Date.now(),
+		});
+	});
+
+	afterEach(async () => {
+		await db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("applies inserts, updates and deletes in order", async () => {
+		await db.applyEntryBatch([
+			{ kind: "update", id: "a", updates: { status: "archived" } },
+			{ kind: "delete", id: "b" },
+			{ kind: "insert", entry: makeEntry({ id: "c" }) },
+		]);
+
+		expect((await db.getEntry("a"))?.status).toBe("archived");
+		expect(await db.getEntry("b")).toBeNull();
+		expect(await db.getRelationsFor("a")).toHaveLength(0);
+		expect(await db.getEntry("c")).not.toBeNull();
+	});
+
+	it("rolls back every write when one fails", async () => {
+		await expect(
+			db.applyEntryBatch([
+				{ kind: "update", id: "a", updates: { status: "archived" } },
+				{ kind: "delete", id: "b" },
+				// Duplicate primary key.
+				{ kind: "insert", entry: makeEntry({ id: "a" }) },
+			]),
+		).rejects.toThrow();
+
+		expect((await db.getEntry("a"))?.status).toBe("active");
+		expect(await db.getEntry("b")).not.toBeNull();
+		expect(await db.getRelationsFor("a")).toHaveLength(1);
+	});
+});
+
+describe("KnowledgeDB — revision history", () => {
+	let db: KnowledgeDB;
+	let tempDir: string;
+	let dbPath: string;
+
+	beforeEach(async () => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-revision-test-"));
+		dbPath = join(tempDir, "test.db");
+		db = new KnowledgeDB(dbPath);
+		await db.insertEntry(makeEntry({ id: "a", content: "Original" }));
+	});
+
+	afterEach(async () => {
+		await db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("records one revision per tracked change, with its actor", async () => {
+		await db.updateEntry("a", { content: "Edited" }, "api");
+		// Strength and confidence are not tracked — no revision.
+		await db.updateEntry("a", { strength: 0.5, confidence: 0.4 });
+		// A status write that leaves the status as it is — no revision.
+		await db.updateEntry("a", { status: "active" }, "review");
+		await db.updateEntry("a", { status: "archived" }, "review");
+
+		const revisions = await db.getRevisions("a");
+		expect(
+			revisions.map((r) => [r.revision, r.actor, r.content, r.status]),
+		).toEqual([
+			[1, "consolidation", "Original", "active"],
+			[2, "api", "Edited", "active"],
+			[3, "review", "Edited", "archived"],
+		]);
+	});
+
+	it("records merges and contradiction resolutions", async () => {
+		await db.mergeEntry("a", {
+			content: "Merged",
+			type: "fact",
+			topics: ["merged"],
+			confidence: 0.8,
+			additionalSources: [],
+		});
+		await db.insertEntry(makeEntry({ id: "b" }));
+		await db.applyContradictionResolution(
+			"supersede_old",
+			"b",
+			"a",
+			undefined,
+			"api",
+		);
+
+		const revisions = await db.getRevisions("a");
+		expect(revisions.map((r) => [r.actor, r.content, r.status])).toEqual([
+			["consolidation", "Original", "active"],
+			["consolidation", "Merged", "active"],
+			["api", "Merged", "superseded"],
+		]);
+		expect(revisions[1].topics).toEqual(["merged"]);
+		// The winner did not change, so it has only its insert revision.
+		expect(await db.getRevisions("b")).toHaveLength(1);
+	});
+
+	it("deletes an entry's history with the entry", async () => {
+		await db.deleteEntry("a");
+		expect(await db.getRevisions("a")).toEqual([]);
+	});
+
+	it("v20 migration records a baseline revision for existing entries", async () => {
+		await db.close();
+
+		// Roll the DB back to a v19 shape: no history table.
+		const raw = new Database(dbPath);
+		raw.exec("DROP TABLE entry_revision");
+		raw.exec("DELETE FROM schema_version WHERE version > 19");
+		raw.close();
+
+		db = new KnowledgeDB(dbPath);
+		const revisions = await db.getRevisions("a");
+		expect(revisions.map((r) => [r.revision, r.actor, r.content])).toEqual([
+			[1, "migration", "Original"],
+		]);
+	});
+});
+
+describe("KnowledgeDB — lexical search", () => {
+	let db: KnowledgeDB;
+	let tempDir: string;
+	let dbPath: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-fts-test-"));
+		dbPath = join(tempDir, "test.db");
+		db = new KnowledgeDB(dbPath);
+	});
+
+	afterEach(async () => {
+		await db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("matches identifiers in content and ranks the best match first", async () => {
+		await db.insertEntry(
+			makeEntry({
+				id: "jira",
+				content: "Story points live in Jira field customfield_10234",
+				topics: ["jira"],
+			}),
+		);
+		await db.insertEntry(
+			makeEntry({
+				id: "other",
+				content: "Sprint planning happens on Mondays",
+				topics: ["jira", "process"],
+			}),
+		);
+
+		const hits = await db.searchLexical(
+			"where is customfield_10234 stored?",
+			10,
+		);
+		expect(hits.map((h) => h.entry.id)).toEqual(["jira"]);
+		expect(hits[0].score).toBeGreaterThan(0);
+	});
+
+	it("matches topics", async () => {
+		await db.insertEntry(
+			makeEntry({
+				id: "t1",
+				content: "Uses a read replica",
+				topics: ["postgres"],
+			}),
+		);
+		const hits = await db.searchLexical("postgres", 10);
+		expect(hits.map((h) => h.entry.id)).toEqual(["t1"]);
+	});
+
+	it("tracks content updates and deletes", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "u1", content: "Old table name orders_v1" }),
+		);
+		await db.updateEntry("u1", { content: "New table name orders_v2" });
+
+		expect(await db.searchLexical("orders_v1", 10)).toEqual([]);
+		expect(
+			(await db.searchLexical("orders_v2", 10)).map((h) => h.entry.id),
+		).toEqual(["u1"]);
+
+		await db.deleteEntry("u1");
+		expect(await db.searchLexical("orders_v2", 10)).toEqual([]);
+	});
+
+	it("filters by status (active + conflicted by default)", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "a", content: "DATABASE_URL points at prod" }),
+		);
+		await db.insertEntry(
+			makeEntry({
+				id: "b",
+				content: "DATABASE_URL was renamed",
+				status: "archived",
+			}),
+		);
+
+		expect(
+			(await db.searchLexical("DATABASE_URL", 10)).map((h) => h.entry.id),
+		).toEqual(["a"]);
+		expect(
+			(await db.searchLexical("DATABASE_URL", 10, ["archived"])).map(
+				(h) => h.entry.id,
+			),
+		).toEqual(["b"]);
+	});
+
+	it("applies entry filters before the limit", async () => {
+		await db.insertEntry(
+			makeEntry({
+				id: "fact",
+				type: "fact",
+				content: "DATABASE_URL DATABASE_URL points at prod",
+				topics: ["config"],
+			}),
+		);
+		await db.insertEntry(
+			makeEntry({
+				id: "procedure",
+				type: "procedure",
+				content: "Rotate DATABASE_URL quarterly",
+				topics: ["Security"],
+				confidence: 0.9,
+			}),
+		);
+
+		const ids = async (filters: Parameters<typeof db.searchLexical>[3]) =>
+			(await db.searchLexical("DATABASE_URL", 1, undefined, filters)).map(
+				(h) => h.entry.id,
+			);
+		expect(await ids({ type: ["procedure"] })).toEqual(["procedure"]);
+		expect(await ids({ topic: ["security"] })).toEqual(["procedure"]);
+		expect(await ids({ minConfidence: 0.85 })).toEqual(["procedure"]);
+	});
+
+	it("returns [] when the query has only stopwords", async () => {
+		await db.insertEntry(makeEntry({ id: "s", content: "What is the plan" }));
+		expect(await db.searchLexical("what is the", 10)).toEqual([]);
+	});
+
+	it("v18 migration backfills the index for existing entries", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "legacy", content: "Legacy entry about kafka" }),
+		);
+		await db.close();
+
+		// Roll the DB back to a v17 shape: no FTS table, no triggers.
+		const raw = new Database(dbPath);
+		raw.exec("DROP TABLE knowledge_entry_fts");
+		raw.exec("DROP TRIGGER knowledge_entry_fts_insert");
+		raw.exec("DROP TRIGGER knowledge_entry_fts_update");
+		raw.exec("DROP TRIGGER knowledge_entry_fts_delete");
+		raw.exec("DELETE FROM schema_version WHERE version > 17");
+		raw.close();
+
+		db = new KnowledgeDB(dbPath);
+		expect(
+			(await db.searchLexical("kafka", 10)).map((h) => h.entry.id),
+		).toEqual(["legacy"]);
+	});
+
+	it("v21 migration maps existing FTS rows so updates and deletes hit by rowid", async () => {
+		await db.insertEntry(
+			makeEntry({ id: "keep", content: "Queue name is orders_v1" }),
+		);
+		await db.insertEntry(
+			makeEntry({ id: "drop", content: "Queue name is payments_v1" }),
+		);
+		await db.close();
+
+		// Roll the DB back to a v20 shape: no mapping table, no rowid triggers.
+		const raw = new Database(dbPath);
+		raw.exec("DROP TABLE knowledge_entry_fts_rowid");
+		raw.exec("DROP TRIGGER knowledge_entry_fts_insert");
+		raw.exec("DROP TRIGGER knowledge_entry_fts_update");
+		raw.exec("DROP TRIGGER knowledge_entry_fts_delete");
+		raw.exec(`
+			CREATE TRIGGER knowledge_entry_fts_insert AFTER INSERT ON knowledge_entry BEGIN
+				INSERT INTO knowledge_entry_fts (entry_id, content, topics) VALUES (new.id, new.content, new.topics);
+			END;
+		`);
+		raw.exec("DELETE FROM schema_version WHERE version > 20");
+		raw.close();
+
+		db = new KnowledgeDB(dbPath);
+		await db.updateEntry("keep", { content: "Queue name is orders_v2" });
+		await db.deleteEntry("drop");
+
+		expect(await db.searchLexical("orders_v1 payments_v1", 10)).toEqual([]);
+		expect(
+			(await db.searchLexical("orders_v2", 10)).map((h) => h.entry.id),
+		).toEqual(["keep"]);
+
+		await db.close();
+		const check = new Database(dbPath, { readonly: true });
+		const rows = check
+			.prepare(
+				`SELECT f.entry_id, f.rowid = m.fts_rowid AS mapped
+				 FROM knowledge_entry_fts f
+				 LEFT JOIN knowledge_entry_fts_rowid m ON m.entry_id = f.entry_id`,
+			)
+			.all();
+		check.close();
+		expect(rows).toEqual([{ entry_id: "keep", mapped: 1 }]);
+		db = new KnowledgeDB(dbPath);
+	});
+});
+
 describe("EXPECTED_TABLE_COLUMNS sync with CREATE_TABLES DDL", () => {
 	it("every column in EXPECTED_TABLE_COLUMNS exists in the DDL schema", () => {
 		// Spin up an in-memory DB, apply CREATE_TABLES, then PRAGMA each table.
@@ -797,3 +1219,69 @@ describe("EXPECTED_TABLE_COLUMNS sync with CREATE_TABLES DDL", () => {
 		expect(extra).toEqual([]); // empty = no DDL columns missing from EXPECTED_TABLE_COLUMNS
 	});
 });
+
+describe("ServerStateDB — embedding cache", () => {
+	let stateDb: ServerStateDB;
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-embcache-test-"));
+		stateDb = new ServerStateDB(join(tempDir, "state.db"));
+	});
+
+	afterEach(async () => {
+		await stateDb.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("round-trips embeddings keyed by model and dimensions", async () => {
+		await stateDb.putCachedEmbeddings(
+			"model-a",
+			0,
+			new Map([["h1", [0.5, -0.25, 1]]]),
+			100,
+		);
+
+		const hit = await stateDb.getCachedEmbeddings("model-a", 0, ["h1", "h2"]);
+		expect([...hit.keys()]).toEqual(["h1"]);
+		expect(hit.get("h1")).toEqual([0.5, -0.25, 1]);
+
+		// Same hash under another model or dimensions is a different key.
+		const otherModel = await stateDb.getCachedEmbeddings("model-b", 0, ["h1"]);
+		const otherDims = await stateDb.getCachedEmbeddings("model-a", 256, ["h1"]);
+		expect(otherModel.size).toBe(0);
+		expect(otherDims.size).toBe(0);
+	});
+
+	it("evicts the least recently used rows beyond maxEntries", async () => {
+		const now = Date.now();
+		const nowSpy = spyOn(Date, "now");
+		try {
+			nowSpy.mockReturnValue(now);
+			await stateDb.putCachedEmbeddings(
+				"m",
+				0,
+				new Map([
+					["old", [1]],
+					["used", [2]],
+				]),
+				2,
+			);
+			// Touch "used" so "old" becomes the least recently used row.
+			nowSpy.mockReturnValue(now + 1000);
+			await stateDb.getCachedEmbeddings("m", 0, ["used"]);
+			nowSpy.mockReturnValue(now + 2000);
+			await stateDb.putCachedEmbeddings("m", 0, new Map([["new", [3]]]), 2);
+		} finally {
+			nowSpy.mockRestore();
+		}
+
+		expect(await stateDb.countCachedEmbeddings()).toBe(2);
+		const rows = await stateDb.getCachedEmbeddings("m", 0, [
+			"old",
+			"used",
+			"new",
+		]);
+		expect([...rows.keys()].sort()).toEqual(["new", "used"]);
+	});
+});
@@ -4,7 +4,11 @@ import { homedir, tmpdir } from "node:os";
 import { join } from "node:path";
 import type { KnowledgeServerConfig } from "../src/config-file";
 import { KnowledgeDB } from "../src/db/sqlite/index";
-import { DomainRouter } from "../src/consolidation/domain-router";
+import {
+	DomainRouter,
+	bestProjectMatch,
+	normalizeDirectory,
+} from "../src/consolidation/domain-router";
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -270,3 +274,41 @@ describe("DomainRouter.resolveStore", () => {
 		expect(router.resolveStore(undefined)).toBeUndefined();
 	});
 });
+
+describe("bestProjectMatch", () => {
+	const projects = [
+		{ path: "/work", normalizedPath: "/work" },
+		{ path: "/work/project-a", normalizedPath: "/work/project-a" },
+	];
+
+	it("picks the longest matching prefix", () => {
+		expect(bestProjectMatch(projects, "/work/project-a/src")?.path).toBe(
+			"/work/project-a",
+		);
+		expect(bestProjectMatch(projects, "/work/other")?.path).toBe("/work");
+	});
+
+	it("does not match partial directory names", () => {
+		expect(bestProjectMatch(projects, "/workshop")).toBeNull();
+		expect(bestProjectMatch(projects, "/work/project-ab")?.path).toBe("/work");
+	});
+
+	it("returns null for an empty directory", () => {
+		expect(bestProjectMatch(projects, "")).toBeNull();
+	});
+});
+
+describe("normalizeDirectory", () => {
+	it("expands ~, normalizes the path and drops the trailing separator", () => {
+		expect(normalizeDirectory("~/work/./project-a/")).toBe(
+			`${homedir()}/work/project-a`,
+		);
+		expect(normalizeDirectory("/")).toBe("/");
+	});
+
+	it("returns an empty string for missing input", () => {
+		expect(normalizeDirectory(undefined)).toBe("");
+		expect(normalizeDirectory(null)).toBe("");
+		expect(normalizeDirectory("")).toBe("");
+	});
+});
@@ -7,6 +7,7 @@
  * - When the LLM assigns a domain that differs from the project default,
  *   the entry lands in the LLM-assigned domain's store
  * - Single-store mode (no DomainRouter) still works correctly
+ * - remember() routes agent-submitted entries the same way
  *
  * Uses real KnowledgeDB instances but mocks the LLM and embedding clients.
  */
@@ -300,4 +301,48 @@ describe("Domain routing via DomainRouter + ConsolidationEngine", () => {
 		expect(entries.length).toBe(1);
 		expect(entries[0].content).toBe("Single store entry");
 	});
+
+	it("remember() routes by cwd and honors an explicit domain", async () => {
+		const config = makeMultiStoreConfig("personal", "work");
+		const storeMap = new Map([
+			["personal", personalDb],
+			["work", workDb],
+		]);
+		const router = new DomainRouter(config, storeMap, personalDb);
+		const activation = new ActivationEngine(personalDb, [personalDb, workDb]);
+		const engine = new ConsolidationEngine(
+			personalDb,
+			serverStateDb,
+			activation,
+			[],
+			router,
+		);
+		spyOn(activation.embeddings, "embed").mockImplementation(async (text) =>
+			fakeEmbedding(text.slice(text.indexOf("]") + 2)),
+		);
+
+		await engine.remember({
+			type: "decision",
+			content: "Deploys go through the release train",
+			topics: ["deployment"],
+			cwd: `${homedir()}/work/my-project/api`,
+		});
+		await engine.remember({
+			type: "fact",
+			content: "I keep dotfiles in a bare git repo",
+			topics: ["dotfiles"],
+			cwd: `${homedir()}/work/my-project`,
+			domain: "personal",
+		});
+
+		const workEntries = await workDb.getActiveEntries();
+		const personalEntries = await personalDb.getActiveEntries();
+		expect(workEntries.map((e) => e.content)).toEqual([
+			"Deploys go through the release train",
+		]);
+		expect(workEntries[0].directory).toBe(`${homedir()}/work/my-project/api`);
+		expect(personalEntries.map((e) => e.content)).toEqual([
+			"I keep dotfiles in a bare git repo",
+		]);
+	});
 });
@@ -1,5 +1,13 @@
-import { describe, expect, it } from "bun:test";
-import { cosineSimilarity } from "../src/activation/embeddings";
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EmbeddingCache } from "../src/activation/embedding-cache";
+import {
+	EmbeddingClient,
+	cosineSimilarity,
+} from "../src/activation/embeddings";
+import { ServerStateDB } from "../src/db/state/index";
 
 describe("cosineSimilarity", () => {
 	it("should return 1 for identical vectors", () => {
@@ -46,3 +54,85 @@ describe("cosineSimilarity", () => {
 		expect(simAB).toBeGreaterThan(simAC);
 	});
 });
+
+describe("EmbeddingClient with EmbeddingCache", () => {
+	let stateDb: ServerStateDB;
+	let tempDir: string;
+	let fetchSpy: ReturnType<typeof spyOn>;
+	let requested: string[][];
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-embeddings-test-"));
+		stateDb = new ServerStateDB(join(tempDir, "state.db"));
+		requested = [];
+		// Fake embeddings API: the vector encodes the text length.
+		fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (
+			_url: string,
+			init: RequestInit,
+		) => {
+			const { input } = JSON.parse(init.body as string) as {
+				input: string[];
+			};
+			requested.push(input);
+			return Response.json({
+				data: input.map((t, index) => ({ embedding: [t.length, 1], index })),
+			});
+		}) as unknown as typeof fetch);
+	});
+
+	afterEach(async () => {
+		fetchSpy.mockRestore();
+		await stateDb.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("only sends cache misses to the API and keeps input order", async () => {
+		const client = new EmbeddingClient();
+		client.useCache(new EmbeddingCache(stateDb, 100));
+
+		expect(await client.embedBatch(["a", "bb"])).toEqual([
+			[1, 1],
+			[2, 1],
+		]);
+		expect(await client.embedBatch(["ccc", "a", "ccc", "bb"])).toEqual([
+			[3, 1],
+			[1, 1],
+			[3, 1],
+			[2, 1],
+		]);
+
+		// Second call: only the new text, deduplicated.
+		expect(requested).toEqual([["a", "bb"], ["ccc"]]);
+		expect(await client.cacheStats()).toEqual({
+			hits: 2,
+			misses: 3,
+			entries: 3,
+		});
+	});
+
+	it("survives a new client over the same state DB", async () => {
+		const first = new EmbeddingClient();
+		first.useCache(new EmbeddingCache(stateDb, 100));
+		await first.embed("deploy?");
+
+		const second = new EmbeddingClient();
+		second.useCache(new EmbeddingCache(stateDb, 100));
+		expect(await second.embed("deploy?")).toEqual([7, 1]);
+		expect(requested).toHaveLength(1);
+	});
+
+	it("falls back to the API when the cache fails", async () => {
+		spyOn(stateDb, "getCachedEmbeddings").mockRejectedValue(
+			new Error("database is locked"),
+		);
+		const client = new EmbeddingClient();
+		client.useCache(new EmbeddingCache(stateDb, 100));
+
+		expect(await client.embed("abc")).toEqual([3, 1]);
+		expect(requested).toEqual([["abc"]]);
+	});
+
+	it("has no cache stats without a cache", async () => {
+		expect(await new EmbeddingClient().cacheStats()).toBeNull();
+	});
+});
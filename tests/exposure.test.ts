@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import { isLoopbackHost, unsafeExposureReasons } from "../src/api/exposure";
+
+const safeDefaults = {
+	host: "127.0.0.1",
+	requireAuth: false,
+	tls: false,
+	allowPlainHttp: false,
+	corsOrigins: [],
+};
+
+describe("isLoopbackHost", () => {
+	it("accepts loopback addresses only", () => {
+		expect(isLoopbackHost("127.0.0.1")).toBe(true);
+		expect(isLoopbackHost("::1")).toBe(true);
+		expect(isLoopbackHost("localhost")).toBe(true);
+		expect(isLoopbackHost("0.0.0.0")).toBe(false);
+		expect(isLoopbackHost("10.0.0.5")).toBe(false);
+	});
+});
+
+describe("unsafeExposureReasons", () => {
+	it("allows the default loopback setup", () => {
+		expect(unsafeExposureReasons(safeDefaults)).toEqual([]);
+	});
+
+	it("refuses a non-loopback host without KNOWLEDGE_REQUIRE_AUTH or TLS", () => {
+		const reasons = unsafeExposureReasons({ ...safeDefaults, host: "0.0.0.0" });
+		expect(reasons).toHaveLength(2);
+		expect(reasons[0]).toContain("KNOWLEDGE_REQUIRE_AUTH=true");
+		expect(reasons[1]).toContain('Set "tls" in config.jsonc');
+	});
+
+	it("allows a non-loopback host with auth and TLS", () => {
+		expect(
+			unsafeExposureReasons({
+				...safeDefaults,
+				host: "0.0.0.0",
+				requireAuth: true,
+				tls: true,
+			}),
+		).toEqual([]);
+	});
+
+	it("allows plain HTTP behind a TLS-terminating proxy when opted in", () => {
+		expect(
+			unsafeExposureReasons({
+				...safeDefaults,
+				host: "0.0.0.0",
+				requireAuth: true,
+				allowPlainHttp: true,
+			}),
+		).toEqual([]);
+	});
+
+	it("refuses CORS for any origin while reads are open", () => {
+		expect(
+			unsafeExposureReasons({ ...safeDefaults, corsOrigins: ["*"] }),
+		).toHaveLength(1);
+		expect(
+			unsafeExposureReasons({
+				...safeDefaults,
+				corsOrigins: ["*"],
+				requireAuth: true,
+			}),
+		).toEqual([]);
+		expect(
+			unsafeExposureReasons({
+				...safeDefaults,
+				corsOrigins: ["https://app.example.com"],
+			}),
+		).toEqual([]);
+	});
+});
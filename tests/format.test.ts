@@ -2,8 +2,18 @@ import { describe, expect, it } from "bun:test";
 import {
 	contradictionTagBlock,
 	contradictionTagInline,
+	formatActivationExplanation,
+	formatActivationResult,
+	formatCorrectResult,
+	formatEntryDetail,
+	formatEntryList,
+	formatForgetResult,
+	formatRememberResult,
+	formatTopicList,
 	staleTag,
+	viaTagBlock,
 } from "../src/activation/format.js";
+import { makeEntry } from "./fixtures";
 
 /**
  * Tests for src/activation/format.ts.
@@ -83,6 +93,247 @@ describe("contradictionTagBlock", () => {
 	});
 });
 
+describe("viaTagBlock", () => {
+	it("returns empty string for undefined", () => {
+		expect(viaTagBlock(undefined, ["a"])).toBe("");
+	});
+
+	it("refers to the linked result by its position", () => {
+		expect(viaTagBlock({ entryId: "b" }, ["a", "b"])).toBe(
+			"\n   Via: supporting evidence for #2",
+		);
+	});
+
+	it("falls back to the entry ID when the linked result is absent", () => {
+		expect(viaTagBlock({ entryId: "z" }, ["a"])).toBe(
+			"\n   Via: supporting evidence for z",
+		);
+	});
+});
+
+describe("formatEntryDetail", () => {
+	it("renders metadata and relations in both directions", () => {
+		const text = formatEntryDetail(
+			makeEntry({
+				id: "a",
+				content: "Deploys run on Fridays",
+				topics: ["ops"],
+			}),
+			[
+				{
+					id: "r1",
+					sourceId: "a",
+					targetId: "b",
+					type: "supports",
+					createdAt: 0,
+				},
+				{
+					id: "r2",
+					sourceId: "c",
+					targetId: "a",
+					type: "contradicts",
+					createdAt: 0,
+				},
+			],
+		);
+		expect(text).toStartWith("## [fact] a\n\nDeploys run on Fridays");
+		expect(text).toContain("Topics: ops");
+		expect(text).toContain("- supports → b");
+		expect(text).toContain("- contradicts ← c");
+	});
+
+	it("omits the relations section when there are none", () => {
+		expect(formatEntryDetail(makeEntry(), [])).not.toContain("Relations:");
+	});
+});
+
+describe("formatEntryList", () => {
+	it("numbers the page's entries and points at the next page", () => {
+		const text = formatEntryList(
+			[makeEntry({ id: "x" }), makeEntry({ id: "y" })],
+			5,
+			"abc",
+		);
+		expect(text).toStartWith("## 2 of 5 entries");
+		expect(text).toContain("2. [fact] Test content");
+		expect(text).toContain('More results: call again with cursor "abc".');
+	});
+
+	it("omits the next-page hint on the last page", () => {
+		expect(formatEntryList([makeEntry()], 1, null)).not.toContain(
+			"More results",
+		);
+	});
+
+	it("distinguishes no matches from a page past the end", () => {
+		expect(formatEntryList([], 0, null)).toBe(
+			"No entries match these filters.",
+		);
+		expect(formatEntryList([], 3, null)).toBe("No more entries (3 matching).");
+	});
+});
+
+describe("formatTopicList", () => {
+	it("lists topics with counts", () => {
+		expect(
+			formatTopicList([
+				{ topic: "ops", count: 3 },
+				{ topic: "db", count: 1 },
+			]),
+		).toBe("## Topics (2)\n\n- ops (3)\n- db (1)");
+	});
+
+	it("handles an empty knowledge base", () => {
+		expect(formatTopicList([])).toBe("No topics yet.");
+	});
+});
+
+describe("formatActivationResult", () => {
+	const staleness = {
+		ageDays: 1,
+		strength: 0.9,
+		lastAccessedDaysAgo: 1,
+		mayBeStale: false,
+	};
+
+	it("numbers entries and warns about conflicted results", () => {
+		const text = formatActivationResult({
+			query: "deploy",
+			totalActive: 10,
+			entries: [
+				{
+					entry: makeEntry({ id: "a", content: "Deploy on Tuesdays" }),
+					rawSimilarity: 0.8,
+					similarity: 0.72,
+					staleness,
+					contradiction: {
+						conflictingEntryId: "b",
+						conflictingContent: "Deploy on Fridays",
+						caveat: "Ask which is current.",
+					},
+				},
+			],
+		});
+		expect(text).toStartWith(
+			"## Activated Knowledge (1 entries, 10 total active — 1 conflicted",
+		);
+		expect(text).toContain("1. [fact] Deploy on Tuesdays");
+		expect(text).toContain("Semantic match: 0.800 | Score: 0.720");
+	});
+
+	it("says so when nothing activated", () => {
+		expect(
+			formatActivationResult({ query: "x", totalActive: 0, entries: [] }),
+		).toBe("No relevant knowledge found for these cues.");
+	});
+});
+
+describe("formatActivationExplanation", () => {
+	const staleness = {
+		ageDays: 1,
+		strength: 0.9,
+		lastAccessedDaysAgo: 1,
+		mayBeStale: false,
+	};
+
+	it("lists cue similarities best first", () => {
+		const text = formatActivationExplanation({
+			query: "deploy",
+			totalActive: 10,
+			entries: [
+				{
+					entry: makeEntry({ id: "a" }),
+					rawSimilarity: 0.8,
+					similarity: 0.72,
+					staleness,
+					cues: [
+						{ cue: "friday", similarity: 0.4 },
+						{ cue: "deploy", similarity: 0.8 },
+						{ cue: "[fact] Deploys…", similarity: 0.6, expansion: true },
+					],
+				},
+			],
+		});
+		expect(text).toContain("Semantic match: 0.800 × strength 0.900");
+		const deploy = text.indexOf('0.800 cue: "deploy"');
+		const expansion = text.indexOf("0.600 expansion:");
+		const friday = text.indexOf('0.400 cue: "friday"');
+		expect(deploy).toBeGreaterThan(-1);
+		expect(expansion).toBeGreaterThan(deploy);
+		expect(friday).toBeGreaterThan(expansion);
+	});
+
+	it("flags lexical-only entries and empty results", () => {
+		const text = formatActivationExplanation({
+			query: "deploy",
+			totalActive: 10,
+			entries: [
+				{
+					entry: makeEntry(),
+					rawSimilarity: 0,
+					similarity: 0,
+					staleness,
+					fusion: {
+						score: 0.016,
+						vectorRank: null,
+						lexicalRank: 1,
+						lexicalWeight: 0.3,
+					},
+				},
+			],
+		});
+		expect(text).toContain("vector rank —, lexical rank 1");
+		expect(text).toContain("(lexical match only — no embedding)");
+		expect(
+			formatActivationExplanation({ query: "x", totalActive: 0, entries: [] }),
+		).toStartWith("Nothing activated");
+	});
+});
+
+describe("formatRememberResult", () => {
+	it("names the outcome and the entry", () => {
+		const base = { entryId: "e1", conflictsDetected: 0, conflictsResolved: 0 };
+		expect(formatRememberResult({ ...base, action: "inserted" })).toBe(
+			"Remembered as new entry e1.",
+		);
+		expect(formatRememberResult({ ...base, action: "merged" })).toBe(
+			"Merged into existing entry e1.",
+		);
+		expect(formatRememberResult({ ...base, action: "kept" })).toStartWith(
+			"Already known",
+		);
+	});
+
+	it("reports detected contradictions", () => {
+		expect(
+			formatRememberResult({
+				action: "inserted",
+				entryId: "e1",
+				conflictsDetected: 1,
+				conflictsResolved: 0,
+			}),
+		).toContain("1 conflict(s) detected, 0 resolved");
+	});
+});
+
+describe("formatCorrectResult / formatForgetResult", () => {
+	it("names the superseded entry and its replacement", () => {
+		const replacement = makeEntry({ id: "e2", content: "Deploys on Tuesdays" });
+		expect(formatCorrectResult("e1", replacement)).toBe(
+			"Entry e1 is now superseded by e2:\n\n[fact] Deploys on Tuesdays",
+		);
+	});
+
+	it("mentions a restored counterpart only when there is one", () => {
+		expect(formatForgetResult("e1", null)).toBe(
+			"Entry e1 is forgotten and will no longer activate.",
+		);
+		expect(formatForgetResult("e1", "e2")).toContain(
+			"counterpart e2 is active again",
+		);
+	});
+});
+
 // ---------------------------------------------------------------------------
 // Plugin parity tests — replicate the plugin's local copy verbatim
 // so that any drift between format.ts and plugin/knowledge.ts is caught here.
@@ -120,3 +120,103 @@ describe("KnowledgeService.updateEntry", () => {
 		);
 	});
 });
+
+describe("KnowledgeService.correctEntry / forgetEntry", () => {
+	let db: KnowledgeDB;
+	let service: KnowledgeService;
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-service-test-"));
+		db = new KnowledgeDB(
+			join(tempDir, "test.db"),
+			join(tempDir, "opencode-fake.db"),
+		);
+		const embedder = new EmbeddingClient();
+		spyOn(embedder, "embed").mockResolvedValue([0.1, 0.2, 0.3]);
+		service = new KnowledgeService(db, embedder);
+	});
+
+	afterEach(async () => {
+		await db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("supersedes the entry with a corrected replacement", async () => {
+		await db.insertEntry(
+			makeEntry({
+				id: "old",
+				type: "fact",
+				content: "Orders live in the orders table",
+				topics: ["database"],
+			}),
+		);
+
+		const replacement = await service.correctEntry(
+			"old",
+			"Orders live in the purchase_orders table",
+			{ sessionId: "s-9", reason: "table was renamed" },
+		);
+
+		expect(replacement.embedding).toBeUndefined();
+		const stored = await db.getEntry(replacement.id);
+		expect(stored?.status).toBe("active");
+		expect(stored?.topics).toEqual(["database"]);
+		expect(stored?.derivedFrom).toEqual(["old", "s-9"]);
+		expect(stored?.source).toMatch(
+			/^agent correction \d{4}-\d{2}-\d{2} \(session s-9\): table was renamed$/,
+		);
+		expect(stored?.embedding?.[0]).toBeCloseTo(0.1);
+
+		const old = await db.getEntry("old");
+		expect(old?.status).toBe("superseded");
+		expect(old?.supersededBy).toBe(replacement.id);
+	});
+
+	it("tombstones a forgotten entry and records the report", async () => {
+		await db.insertEntry(makeEntry({ id: "wrong", source: "consolidation" }));
+
+		const restored = await service.forgetEntry("wrong", { sessionId: "s-1" });
+
+		expect(restored).toBeNull();
+		const entry = await db.getEntry("wrong");
+		expect(entry?.status).toBe("tombstoned");
+		expect(entry?.source).toMatch(
+			/^consolidation; agent forgotten \d{4}-\d{2}-\d{2} \(session s-1\)$/,
+		);
+	});
+
+	it("restores the counterpart when forgetting a conflicted entry", async () => {
+		await db.insertEntry(makeEntry({ id: "a", status: "conflicted" }));
+		await db.insertEntry(makeEntry({ id: "b", status: "conflicted" }));
+		await db.insertRelation({
+			id: "r1",
+			sourceId: "a",
+			targetId: "b",
+			type: "contradicts",
+			createdAt: Date.now(),
+		});
+
+		expect(await service.forgetEntry("a")).toBe("b");
+		expect((await db.getEntry("b"))?.status).toBe("active");
+	});
+
+	it("revertEntry restores a superseded entry to an earlier revision", async () => {
+		await db.insertEntry(makeEntry({ id: "old", content: "Original" }));
+		await service.correctEntry("old", "Wrong correction");
+		expect((await db.getEntry("old"))?.status).toBe("superseded");
+
+		const restored = await service.revertEntry("old", 1, "review");
+
+		expect(restored?.content).toBe("Original");
+		const entry = await db.getEntry("old");
+		expect(entry?.status).toBe("active");
+		expect(entry?.supersededBy).toBeNull();
+		expect((await db.getRevisions("old")).map((r) => r.actor)).toEqual([
+			"consolidation",
+			"api",
+			"review",
+		]);
+		expect(await service.revertEntry("old", 9, "review")).toBeNull();
+	});
+});
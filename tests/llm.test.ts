@@ -577,3 +577,98 @@ describe("ConsolidationLLM.synthesizePrinciple", () => {
 		expect(results[1].type).toBe("pattern");
 	});
 });
+
+// ── ConsolidationLLM.rerank ───────────────────────────────────────────────────
+
+describe("ConsolidationLLM.rerank", () => {
+	let llm: ConsolidationLLM;
+	const candidates = [
+		{
+			type: "fact",
+			content: "Deploys run via GitHub Actions.",
+			topics: ["ci"],
+		},
+		{ type: "fact", content: "The office is in Berlin.", topics: ["company"] },
+		{ type: "procedure", content: "Tag a release to deploy.", topics: ["ci"] },
+	];
+
+	beforeEach(() => {
+		llm = new ConsolidationLLM();
+	});
+
+	it("returns 0-based indices in the model's order", async () => {
+		mockGenerateText("[3, 1]");
+		const order = await llm.rerank("how do we deploy?", candidates, 1000);
+		expect(order).toEqual([2, 0]);
+	});
+
+	it("ignores out-of-range, duplicate and non-integer numbers", async () => {
+		mockGenerateText('[1, 7, 1, "2", 0, 2.5, 3]');
+		const order = await llm.rerank("how do we deploy?", candidates, 1000);
+		expect(order).toEqual([0, 2]);
+	});
+
+	it("returns an empty array when nothing is relevant", async () => {
+		mockGenerateText("[]");
+		const order = await llm.rerank("unrelated", candidates, 1000);
+		expect(order).toEqual([]);
+	});
+
+	it("returns null when the response is unparseable", async () => {
+		mockGenerateText("The first one, probably.");
+		const order = await llm.rerank("how do we deploy?", candidates, 1000);
+		expect(order).toBeNull();
+	});
+
+	it("does not retry a failed call", async () => {
+		const spy = mockGenerateText("[]");
+		spy.mockRejectedValue(new Error("upstream 503"));
+		await expect(
+			llm.rerank("how do we deploy?", candidates, 1000),
+		).rejects.toThrow("upstream 503");
+		expect(spy).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("ConsolidationLLM.expandQuery", () => {
+	let llm: ConsolidationLLM;
+
+	beforeEach(() => {
+		llm = new ConsolidationLLM();
+	});
+
+	it("returns the hypothetical entry", async () => {
+		mockGenerateText(
+			'{"type": "procedure", "content": "Deploy by tagging a release.", "topics": ["deploy", "ci"]}',
+		);
+		const entry = await llm.expandQuery("deploy?", 1000);
+		expect(entry).toEqual({
+			type: "procedure",
+			content: "Deploy by tagging a release.",
+			topics: ["deploy", "ci"],
+		});
+	});
+
+	it("clamps the type and drops non-string topics", async () => {
+		mockGenerateText(
+			'{"type": "Procedure/fact", "content": "Deploy by tagging a release.", "topics": ["deploy", 3]}',
+		);
+		const entry = await llm.expandQuery("deploy?", 1000);
+		expect(entry?.type).toBe("fact");
+		expect(entry?.topics).toEqual(["deploy"]);
+	});
+
+	it("returns null when the response has no content", async () => {
+		mockGenerateText("Deploy by tagging a release.");
+		expect(await llm.expandQuery("deploy?", 1000)).toBeNull();
+	});
+
+	it("does not retry a failed call", async () => {
+		const spy = mockGenerateText("{}");
+		spy.mockRejectedValue(new Error("upstream 503"));
+		await expect(llm.expandQuery("deploy?", 1000)).rejects.toThrow(
+			"upstream 503",
+		);
+		expect(spy).toHaveBeenCalledTimes(1);
+	});
+});
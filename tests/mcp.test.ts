@@ -1,5 +1,5 @@
 /**
- * Tests for the MCP server's `activate` tool input schema.
+ * Tests for the MCP server's tool input schemas.
  *
  * We validate the Zod schema directly — no MCP transport is started.
  * This catches regressions where schema constraints (min/max, optionality,
@@ -11,7 +11,24 @@
  */
 import { describe, expect, it } from "bun:test";
 import { z } from "zod";
-import { activateInputSchema } from "../src/mcp/index";
+import {
+	activateInputSchema,
+	activateOutputSchema,
+	activationStructuredContent,
+	completeTopic,
+	correctInputSchema,
+	cueLines,
+	entryResource,
+	entryResourceUri,
+	explainActivationInputSchema,
+	forgetInputSchema,
+	getEntryInputSchema,
+	rememberInputSchema,
+	resourceVariable,
+	searchEntriesInputSchema,
+	topicResourceUri,
+} from "../src/mcp/index";
+import { makeEntry } from "./fixtures";
 
 const activateSchema = z.object(activateInputSchema);
 
@@ -123,6 +140,66 @@ describe("MCP activate schema — threshold", () => {
 	});
 });
 
+// ── excludeIds / sessionId ────────────────────────────────────────────────────
+
+describe("MCP activate schema — excludeIds and sessionId", () => {
+	it("accepts a list of entry IDs and a session ID", () => {
+		const result = activateSchema.safeParse({
+			cues: "test",
+			excludeIds: ["a", "b"],
+			sessionId: "conversation-1",
+		});
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects a non-array excludeIds", () => {
+		expect(
+			activateSchema.safeParse({ cues: "test", excludeIds: "a,b" }).success,
+		).toBe(false);
+	});
+
+	it("rejects an empty sessionId", () => {
+		expect(
+			activateSchema.safeParse({ cues: "test", sessionId: "" }).success,
+		).toBe(false);
+	});
+});
+
+// ── filters ───────────────────────────────────────────────────────────────────
+
+describe("MCP activate schema — filters", () => {
+	it("accepts type, topic, store, minConfidence and includeStatuses", () => {
+		const result = activateSchema.safeParse({
+			cues: "deployment",
+			type: ["procedure", "decision"],
+			topic: ["deployment"],
+			store: ["team"],
+			minConfidence: 0.5,
+			includeStatuses: ["active", "superseded"],
+		});
+		expect(result.success).toBe(true);
+	});
+
+	it("rejects an unknown type", () => {
+		expect(
+			activateSchema.safeParse({ cues: "test", type: ["recipe"] }).success,
+		).toBe(false);
+	});
+
+	it("rejects an unknown status", () => {
+		expect(
+			activateSchema.safeParse({ cues: "test", includeStatuses: ["deleted"] })
+				.success,
+		).toBe(false);
+	});
+
+	it("rejects minConfidence outside [0, 1]", () => {
+		expect(
+			activateSchema.safeParse({ cues: "test", minConfidence: 1.5 }).success,
+		).toBe(false);
+	});
+});
+
 // ── combined ──────────────────────────────────────────────────────────────────
 
 describe("MCP activate schema — combined valid inputs", () => {
@@ -140,3 +217,207 @@ describe("MCP activate schema — combined valid inputs", () => {
 		}
 	});
 });
+
+// ── browse / explain tools ────────────────────────────────────────────────────
+
+describe("MCP get_entry and search_entries schemas", () => {
+	it("requires a non-empty entry ID", () => {
+		const schema = z.object(getEntryInputSchema);
+		expect(schema.safeParse({ id: "abc" }).success).toBe(true);
+		expect(schema.safeParse({ id: "" }).success).toBe(false);
+		expect(schema.safeParse({}).success).toBe(false);
+	});
+
+	it("accepts filters and pagination, all optional", () => {
+		const schema = z.object(searchEntriesInputSchema);
+		expect(schema.safeParse({}).success).toBe(true);
+		expect(
+			schema.safeParse({
+				query: "deploy",
+				type: "procedure",
+				status: "conflicted",
+				topic: "ops",
+				store: ["team"],
+				sort: "strength",
+				limit: 50,
+				cursor: "eyJ2YWx1ZSI6MX0",
+			}).success,
+		).toBe(true);
+	});
+
+	it("rejects out-of-range pagination and unknown enums", () => {
+		const schema = z.object(searchEntriesInputSchema);
+		expect(schema.safeParse({ limit: 0 }).success).toBe(false);
+		expect(schema.safeParse({ limit: 101 }).success).toBe(false);
+		expect(schema.safeParse({ sort: "content" }).success).toBe(false);
+		expect(schema.safeParse({ type: "recipe" }).success).toBe(false);
+		expect(schema.safeParse({ status: "deleted" }).success).toBe(false);
+	});
+});
+
+describe("MCP explain_activation schema", () => {
+	const schema = z.object(explainActivationInputSchema);
+
+	it("shares the activate constraints", () => {
+		expect(
+			schema.safeParse({ cues: "deploy", limit: 5, type: ["fact"] }).success,
+		).toBe(true);
+		expect(schema.safeParse({ cues: "deploy", limit: 51 }).success).toBe(false);
+		expect(schema.safeParse({}).success).toBe(false);
+	});
+});
+
+describe("cueLines", () => {
+	it("splits on newlines, trimming blanks and duplicates", () => {
+		expect(cueLines("deploy\n  friday  \n\ndeploy\n")).toEqual([
+			"deploy",
+			"friday",
+		]);
+	});
+
+	it("keeps a single-line cue whole", () => {
+		expect(cueLines("deploy on friday, rollback")).toEqual([
+			"deploy on friday, rollback",
+		]);
+	});
+});
+
+describe("MCP remember schema", () => {
+	const schema = z.object(rememberInputSchema);
+
+	it("requires type, content and at least one topic", () => {
+		expect(
+			schema.safeParse({
+				type: "decision",
+				content: "Releases are cut on Tuesdays",
+				topics: ["release"],
+			}).success,
+		).toBe(true);
+		expect(
+			schema.safeParse({ type: "decision", content: "x", topics: [] }).success,
+		).toBe(false);
+		expect(
+			schema.safeParse({ type: "decision", content: "", topics: ["a"] })
+				.success,
+		).toBe(false);
+		expect(schema.safeParse({ content: "x", topics: ["a"] }).success).toBe(
+			false,
+		);
+	});
+
+	it("rejects confidence outside [0, 1]", () => {
+		expect(
+			schema.safeParse({
+				type: "fact",
+				content: "x",
+				topics: ["a"],
+				confidence: 1.2,
+			}).success,
+		).toBe(false);
+	});
+});
+
+describe("MCP correct and forget schemas", () => {
+	it("correct requires an id and replacement content", () => {
+		const schema = z.object(correctInputSchema);
+		expect(
+			schema.safeParse({ id: "e1", content: "Corrected", reason: "typo" })
+				.success,
+		).toBe(true);
+		expect(schema.safeParse({ id: "e1", content: "" }).success).toBe(false);
+		expect(schema.safeParse({ content: "Corrected" }).success).toBe(false);
+	});
+
+	it("forget requires an id and caps the reason", () => {
+		const schema = z.object(forgetInputSchema);
+		expect(schema.safeParse({ id: "e1", sessionId: "s1" }).success).toBe(true);
+		expect(schema.safeParse({}).success).toBe(false);
+		expect(
+			schema.safeParse({ id: "e1", reason: "x".repeat(501) }).success,
+		).toBe(false);
+	});
+});
+
+describe("MCP resource URIs", () => {
+	it("encodes IDs and topics so they round-trip through the URI template", () => {
+		expect(entryResourceUri("abc-123")).toBe("knowledge://entry/abc-123");
+		const uri = topicResourceUri("ci/cd pipeline");
+		expect(uri).toBe("knowledge://topic/ci%2Fcd%20pipeline");
+		const encoded = uri.slice("knowledge://topic/".length);
+		expect(resourceVariable({ topic: encoded }, "topic")).toBe(
+			"ci/cd pipeline",
+		);
+	});
+
+	it("names entry resources after their (truncated) content", () => {
+		const resource = entryResource(
+			makeEntry({ id: "e1", type: "procedure", content: "x".repeat(100) }),
+		);
+		expect(resource.uri).toBe("knowledge://entry/e1");
+		expect(resource.name).toBe(`[procedure] ${"x".repeat(79)}…`);
+	});
+
+	it("completes topics by prefix", () => {
+		const topics = [
+			{ topic: "deploy", count: 3 },
+			{ topic: "database", count: 2 },
+			{ topic: "testing", count: 1 },
+		];
+		expect(completeTopic(topics, "De")).toEqual(["deploy"]);
+		expect(completeTopic(topics, "")).toHaveLength(3);
+	});
+});
+
+describe("MCP activate structured output", () => {
+	const staleness = {
+		ageDays: 3,
+		strength: 0.8,
+		lastAccessedDaysAgo: 2,
+		mayBeStale: false,
+	};
+
+	it("matches the output schema, with scores and annotations per entry", () => {
+		const structured = activationStructuredContent({
+			query: "deploy",
+			totalActive: 5,
+			entries: [
+				{
+					entry: makeEntry({ id: "a", embedding: [0.1, 0.2] }),
+					rawSimilarity: 0.8,
+					similarity: 0.64,
+					staleness,
+					fusion: {
+						score: 0.03,
+						vectorRank: 1,
+						lexicalRank: 2,
+						lexicalWeight: 0.3,
+					},
+				},
+				{
+					entry: makeEntry({ id: "b", status: "conflicted" }),
+					rawSimilarity: 0.7,
+					similarity: 0.56,
+					staleness,
+					contradiction: {
+						conflictingEntryId: "a",
+						conflictingContent: "Test content",
+						caveat: "Clarify first.",
+					},
+					via: { entryId: "a", relation: "supports" },
+				},
+			],
+		});
+
+		expect(z.object(activateOutputSchema).safeParse(structured).success).toBe(
+			true,
+		);
+		expect(structured.entries[0].scores).toEqual({
+			rawSimilarity: 0.8,
+			similarity: 0.64,
+			fusion: 0.03,
+		});
+		expect(structured.entries[0]).not.toHaveProperty("embedding");
+		expect(structured.entries[1].contradiction?.conflictingEntryId).toBe("a");
+		expect(structured.entries[1].via?.relation).toBe("supports");
+	});
+});
@@ -1,5 +1,5 @@
 /**
- * Tests for the SQLite migration chain from v10 → v17.
+ * Tests for the SQLite migration chain from v10 → v20.
  *
  * Creates a v10-schema database (source_cursor and consolidated_episode
  * without user_id), opens it with KnowledgeDB (which triggers migrations
@@ -8,7 +8,9 @@
  * v11 added user_id to both tables; v13 removed source_cursor entirely and
  * removed user_id from consolidated_episode; v14 is a no-op for knowledge.db
  * (staging tables moved to state.db); v15 drops the scope column; v16/v17 are
- * Postgres-only pgvector migrations and no-op for SQLite.
+ * Postgres-only pgvector migrations and no-op for SQLite; v18 adds the FTS5
+ * index, v19 the directory column and v20 the entry_revision table (all
+ * skipped here — the v10 fixture has no knowledge_entry table yet).
  * This test verifies the full migration chain produces the correct final schema version.
  */
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
@@ -87,7 +89,7 @@ function createV10Fixture(dbPath: string): void {
 
 // ── Tests ─────────────────────────────────────────────────────────────────────
 
-describe("v11 SQLite migration chain (v10 → v17)", () => {
+describe("v11 SQLite migration chain (v10 → v20)", () => {
 	let tempDir: string;
 	let dbPath: string;
 	let db: KnowledgeDB;
@@ -157,7 +159,7 @@ describe("v11 SQLite migration chain (v10 → v17)", () => {
 		await serverStateDb.close();
 	});
 
-	it("stamps schema version 17 after full migration chain", async () => {
+	it("stamps schema version 21 after full migration chain", async () => {
 		db = new KnowledgeDB(dbPath);
 
 		const raw = new Database(dbPath, { readonly: true });
@@ -166,7 +168,7 @@ describe("v11 SQLite migration chain (v10 → v17)", () => {
 			.get() as { v: number };
 		raw.close();
 
-		expect(row.v).toBe(17);
+		expect(row.v).toBe(21);
 	});
 
 	it("v3 data migration runs automatically on ServerStateDB init (uses DEFAULT_SQLITE_PATH)", async () => {
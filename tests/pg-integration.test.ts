@@ -246,6 +246,82 @@ describe.skipIf(!PG_URI)("PostgresKnowledgeDB integration", () => {
 		expect(combined[0].id).toBe("f1");
 	});
 
+	it("listEntries pages with a cursor and filters in SQL", async () => {
+		await db.insertEntry(
+			makeEntry("l1", { strength: 0.9, content: "Deploy A" }),
+		);
+		await db.insertEntry(
+			makeEntry("l2", { strength: 0.5, content: "deploy_b" }),
+		);
+		await db.insertEntry(
+			makeEntry("l3", { strength: 0.5, content: "Other", topics: ["Ops"] }),
+		);
+
+		const first = await db.listEntries({ sort: "strength", limit: 2 });
+		expect(first.map((e) => e.id)).toEqual(["l1", "l3"]);
+		const second = await db.listEntries({
+			sort: "strength",
+			after: { value: 0.5, id: "l3" },
+			limit: 2,
+		});
+		expect(second.map((e) => e.id)).toEqual(["l2"]);
+
+		const bySubstring = await db.listEntries({
+			q: "_",
+			sort: "updatedAt",
+			limit: 10,
+		});
+		expect(bySubstring.map((e) => e.id)).toEqual(["l2"]);
+		const byTopic = await db.listEntries({
+			topic: ["ops"],
+			sort: "updatedAt",
+			limit: 10,
+		});
+		expect(byTopic.map((e) => e.id)).toEqual(["l3"]);
+		expect(await db.countEntries({ q: "DEPLOY" })).toBe(2);
+	});
+
+	it("applyEntryBatch commits all writes or none", async () => {
+		await db.insertEntry(makeEntry("bt-1"));
+		await db.insertEntry(makeEntry("bt-2"));
+
+		await expect(
+			db.applyEntryBatch([
+				{ kind: "update", id: "bt-1", updates: { status: "archived" } },
+				{ kind: "insert", entry: makeEntry("bt-2") },
+			]),
+		).rejects.toThrow();
+		expect((await db.getEntry("bt-1"))?.status).toBe("active");
+
+		await db.applyEntryBatch([
+			{ kind: "update", id: "bt-1", updates: { status: "archived" } },
+			{ kind: "delete", id: "bt-2" },
+			{ kind: "insert", entry: makeEntry("bt-3") },
+		]);
+		expect((await db.getEntry("bt-1"))?.status).toBe("archived");
+		expect(await db.getEntry("bt-2")).toBeNull();
+		expect(await db.getEntry("bt-3")).not.toBeNull();
+	});
+
+	it("records revisions for tracked changes only", async () => {
+		await db.insertEntry(makeEntry("rev-1"));
+		await db.updateEntry("rev-1", { content: "Edited", topics: ["x"] }, "api");
+		await db.updateEntry("rev-1", { strength: 0.5 });
+		await db.updateEntry("rev-1", { status: "archived" }, "review");
+
+		const revisions = await db.getRevisions("rev-1");
+		expect(revisions.map((r) => [r.revision, r.actor, r.status])).toEqual([
+			[1, "consolidation", "active"],
+			[2, "api", "active"],
+			[3, "review", "archived"],
+		]);
+		expect(revisions[1].content).toBe("Edited");
+		expect(revisions[1].topics).toEqual(["x"]);
+
+		await db.deleteEntry("rev-1");
+		expect(await db.getRevisions("rev-1")).toEqual([]);
+	});
+
 	it("deleteEntry removes entry and returns true", async () => {
 		await db.insertEntry(makeEntry("del-1"));
 		const deleted = await db.deleteEntry("del-1");
@@ -751,6 +827,52 @@ describe.skipIf(!PG_URI)("PostgresKnowledgeDB integration", () => {
 		expect(result.every((r) => r.entry.status === "active")).toBe(true);
 	});
 
+	it("findSimilarEntries applies type, topic and minConfidence filters", async () => {
+		const pg = db as PostgresKnowledgeDB;
+		await pg.setEmbeddingMetadata("text-embedding-3-large", 3072);
+
+		const q = Array.from({ length: 3072 }, (_, i) => (i === 0 ? 1 : 0));
+		await pg.insertEntry(
+			makeEntry("ann-filter-match", {
+				type: "procedure",
+				topics: ["Deployment"],
+				confidence: 0.9,
+				embedding: q,
+			}),
+		);
+		await pg.insertEntry(
+			makeEntry("ann-filter-type", {
+				type: "fact",
+				topics: ["deployment"],
+				confidence: 0.9,
+				embedding: q,
+			}),
+		);
+		await pg.insertEntry(
+			makeEntry("ann-filter-topic", {
+				type: "procedure",
+				topics: ["billing"],
+				confidence: 0.9,
+				embedding: q,
+			}),
+		);
+		await pg.insertEntry(
+			makeEntry("ann-filter-confidence", {
+				type: "procedure",
+				topics: ["deployment"],
+				confidence: 0.2,
+				embedding: q,
+			}),
+		);
+
+		const result = await pg.findSimilarEntries(q, 5, 0.5, undefined, {
+			type: ["procedure"],
+			topic: ["deployment"],
+			minConfidence: 0.5,
+		});
+		expect(result.map((r) => r.entry.id)).toEqual(["ann-filter-match"]);
+	});
+
 	it("degrades gracefully when dimensions exceed halfvec HNSW limit", async () => {
 		const pg = db as PostgresKnowledgeDB;
 		await pg.setEmbeddingMetadata("oversized-model", 4096);
@@ -9,6 +9,26 @@
  *     intermediate versions were skipped.
  *  3. ContradictionScanner — uses findContradictionCandidates when the store
  *     exposes it; falls back to getEntriesWithOverlappingTopics otherwise.
+ *  4. Hybrid retrieval — lexical hits from searchLexical are fused with the
+ *     vector ranking via reciprocal rank fusion.
+ *  5. Project scoping — entries recorded in the caller's project (cwd) are
+ *     boosted; other projects can be filtered out.
+ *  6. LLM re-ranking — the rerank model drops and reorders candidates; failures
+ *     fall back to the retrieval order.
+ *  7. Token budget — maxTokens packs ranked entries, dropping or truncating
+ *     lower-ranked ones.
+ *  8. Session memory — excludeIds and entries already returned to the same
+ *     sessionId are left out, and the freed slots are refilled.
+ *  9. Graph expansion — strong results pull in their supports sources with a
+ *     decayed score and a `via` link.
+ * 10. Filters — type, topic, store, minConfidence and includeStatuses restrict
+ *     candidates on both paths.
+ * 11. Query expansion — a hypothetical entry per cue is embedded alongside the
+ *     cue; expansions are cached and failures fall back to the raw cue.
+ * 12. MMR diversification — near-duplicates give way to distinct entries,
+ *     weighted by mmrLambda.
+ * 13. Explain — per-cue similarities are attached and the activation records
+ *     no access or session state.
  */
 import {
 	afterEach,
@@ -24,7 +44,11 @@ import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { ActivationEngine } from "../src/activation/activate";
-import { cosineSimilarity } from "../src/activation/embeddings";
+import {
+	cosineSimilarity,
+	formatEmbeddingText,
+} from "../src/activation/embeddings";
+import { SessionMemory } from "../src/activation/session-memory";
 import { config } from "../src/config";
 import type { IKnowledgeStore } from "../src/db/interface";
 import { KnowledgeDB } from "../src/db/sqlite/index";
@@ -46,6 +70,8 @@ function makeStoreStub(
 	opts: {
 		/** If true, the stub exposes findSimilarEntries (ANN path). */
 		supportAnn?: boolean;
+		/** If set, the stub exposes searchLexical returning these entries, best first. */
+		lexicalHits?: KnowledgeEntry[];
 	} = {},
 ): IKnowledgeStore {
 	const base: IKnowledgeStore = {
@@ -103,6 +129,15 @@ function makeStoreStub(
 		);
 	}
 
+	if (opts.lexicalHits) {
+		const hits = opts.lexicalHits;
+		base.searchLexical = mock(() =>
+			Promise.resolve(
+				hits.map((entry, i) => ({ entry, score: hits.length - i })),
+			),
+		);
+	}
+
 	return base;
 }
 
@@ -458,3 +493,971 @@ describe("ContradictionScanner — findContradictionCandidates", () => {
 		expect(maxSim).toBe(config.consolidation.reconsolidationThreshold);
 	});
 });
+
+// ── 4. Hybrid lexical + vector retrieval ─────────────────────────────────────
+
+describe("ActivationEngine.activate — hybrid lexical + vector (RRF)", () => {
+	const queryContent = "customfield_10234 story points";
+	const queryEmb = fakeEmbedding(queryContent);
+
+	// Vector hits: both share the query's first 3 chars → similarity ~1.0.
+	const vectorTop = makeEntry({
+		id: "vector-top",
+		content: `${queryContent} (vector top)`,
+		embedding: queryEmb,
+	});
+	const vectorSecond = makeEntry({
+		id: "vector-second",
+		content: `${queryContent} (vector second)`,
+		embedding: queryEmb,
+		strength: 0.5,
+	});
+	// Lexical-only hit: embedding is orthogonal to the query (fakeEmbedding only
+	// populates the first 3 dimensions), so it never passes the threshold.
+	const lexicalOnly = makeEntry({
+		id: "lexical-only",
+		content: "Jira field customfield_10234 holds story points",
+		embedding: [0, 0, 0, 1, 0, 0, 0, 0],
+	});
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("activates a lexical-only match that is below the similarity threshold", async () => {
+		const store = makeStoreStub(
+			[vectorTop, lexicalOnly] as Array<KnowledgeEntry & { embedding: number[] }>,
+			{ lexicalHits: [lexicalOnly] },
+		);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			threshold: 0.99,
+			lexicalWeight: 0.5,
+		});
+
+		const hit = result.entries.find((e) => e.entry.id === "lexical-only");
+		expect(hit).toBeDefined();
+		expect(hit?.rawSimilarity).toBe(0);
+		expect(hit?.fusion).toEqual({
+			score: 0.5 / (config.activation.rrfK + 1),
+			vectorRank: null,
+			lexicalRank: 1,
+			lexicalWeight: 0.5,
+		});
+	});
+
+	it("drops an under-threshold lexical-only match sharing only common words", async () => {
+		const unrelated = makeEntry({
+			id: "unrelated",
+			content: "Story points are estimated in planning poker",
+			embedding: [0, 0, 0, 1, 0, 0, 0, 0],
+		});
+		const store = makeStoreStub(
+			[vectorTop, unrelated] as Array<KnowledgeEntry & { embedding: number[] }>,
+			{ lexicalHits: [unrelated] },
+		);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			threshold: 0.5,
+			lexicalWeight: 0.5,
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["vector-top"]);
+	});
+
+	it("ranks an entry found by both retrievers above vector-only entries", async () => {
+		const store = makeStoreStub(
+			[vectorTop, vectorSecond] as Array<KnowledgeEntry & { embedding: number[] }>,
+			{ lexicalHits: [vectorSecond] },
+		);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, { lexicalWeight: 0.5 });
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"vector-second",
+			"vector-top",
+		]);
+		expect(result.entries[0].fusion?.vectorRank).toBe(2);
+		expect(result.entries[0].fusion?.lexicalRank).toBe(1);
+		expect(result.entries[1].fusion?.lexicalRank).toBeNull();
+	});
+
+	it("skips lexical search entirely when lexicalWeight is 0", async () => {
+		const store = makeStoreStub(
+			[vectorTop] as Array<KnowledgeEntry & { embedding: number[] }>,
+			{ lexicalHits: [lexicalOnly] },
+		);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, { lexicalWeight: 0 });
+
+		expect(store.searchLexical).not.toHaveBeenCalled();
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["vector-top"]);
+		expect(result.entries[0].fusion).toBeUndefined();
+	});
+
+	it("queries searchLexical once per cue and store", async () => {
+		const storeA = makeStoreStub([], { lexicalHits: [lexicalOnly] });
+		const storeB = makeStoreStub([], { lexicalHits: [] });
+		const activation = new ActivationEngine(storeA, [storeA, storeB]);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([
+			queryEmb,
+			queryEmb,
+		]);
+
+		const result = await activation.activate(
+			["customfield_10234 first cue", "second cue here"],
+			{ lexicalWeight: 0.5 },
+		);
+
+		expect(storeA.searchLexical).toHaveBeenCalledTimes(2);
+		expect(storeB.searchLexical).toHaveBeenCalledTimes(2);
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["lexical-only"]);
+	});
+
+	it("merges lexical hits from several stores by rank, not raw score", async () => {
+		const hit = (id: string) =>
+			makeEntry({
+				id,
+				content: `customfield_10234 in ${id}`,
+				embedding: [0, 0, 0, 1, 0, 0, 0, 0],
+			});
+		const [a1, a2, b1] = [hit("a1"), hit("a2"), hit("b1")];
+		const storeA = makeStoreStub([], { lexicalHits: [a1, a2] });
+		storeA.searchLexical = mock(() =>
+			Promise.resolve([
+				{ entry: a1, score: 40 },
+				{ entry: a2, score: 30 },
+			]),
+		);
+		// Postgres ts_rank_cd scores are far smaller than BM25 scores.
+		const storeB = makeStoreStub([], { lexicalHits: [b1] });
+		storeB.searchLexical = mock(() =>
+			Promise.resolve([{ entry: b1, score: 0.1 }]),
+		);
+		const activation = new ActivationEngine(storeA, [storeA, storeB]);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			lexicalWeight: 0.5,
+			mmr: false,
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["a1", "b1", "a2"]);
+	});
+
+	it("leaves results unfused when no store supports lexical search", async () => {
+		const store = makeStoreStub(
+			[vectorTop] as Array<KnowledgeEntry & { embedding: number[] }>,
+		);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, { lexicalWeight: 0.5 });
+
+		expect(result.entries[0].fusion).toBeUndefined();
+	});
+});
+
+// ── 5. Project scoping ────────────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — project scoping (cwd)", () => {
+	const queryContent = "how do we deploy the service";
+	const queryEmb = fakeEmbedding(queryContent);
+
+	// Same embedding for all entries; the other-project entry has higher strength
+	// so it ranks first unless the project boost applies.
+	const otherProject = makeEntry({
+		id: "other-project",
+		content: `${queryContent} (other)`,
+		embedding: queryEmb,
+		directory: "/repos/other-app",
+	});
+	const sameProject = makeEntry({
+		id: "same-project",
+		content: `${queryContent} (same)`,
+		embedding: queryEmb,
+		strength: 0.9,
+		directory: "/repos/app/packages/api",
+	});
+	const noDirectory = makeEntry({
+		id: "no-directory",
+		content: `${queryContent} (unknown)`,
+		embedding: queryEmb,
+		strength: 0.5,
+		directory: null,
+	});
+	const entries = [otherProject, sameProject, noDirectory] as Array<
+		KnowledgeEntry & { embedding: number[] }
+	>;
+	const projects = [{ path: "/repos/app", default_domain: "work" }];
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("boosts entries recorded in the caller's project", async () => {
+		const activation = new ActivationEngine(
+			makeStoreStub(entries),
+			undefined,
+			undefined,
+			projects,
+		);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			cwd: "/repos/app/packages/web",
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"same-project",
+			"other-project",
+			"no-directory",
+		]);
+		const same = result.entries[0];
+		expect(same.sameProject).toBe(true);
+		expect(same.similarity).toBeCloseTo(
+			same.rawSimilarity *
+				same.staleness.strength *
+				(1 + config.activation.projectBoost),
+		);
+		expect(result.entries[1].sameProject).toBe(false);
+		expect(result.entries[2].sameProject).toBeUndefined();
+	});
+
+	it("drops other projects with excludeOtherProjects but keeps entries without a directory", async () => {
+		const activation = new ActivationEngine(
+			makeStoreStub(entries),
+			undefined,
+			undefined,
+			projects,
+		);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			cwd: "/repos/app",
+			excludeOtherProjects: true,
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"same-project",
+			"no-directory",
+		]);
+	});
+
+	it("compares exact directories when no configured project matches", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			cwd: "/repos/other-app/",
+			excludeOtherProjects: true,
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"other-project",
+			"no-directory",
+		]);
+		expect(result.entries[0].sameProject).toBe(true);
+	});
+
+	it("leaves ranking untouched without a cwd", async () => {
+		const activation = new ActivationEngine(
+			makeStoreStub(entries),
+			undefined,
+			undefined,
+			projects,
+		);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			excludeOtherProjects: true,
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"other-project",
+			"same-project",
+			"no-directory",
+		]);
+		expect(result.entries.every((e) => e.sameProject === undefined)).toBe(true);
+	});
+});
+
+// ── 6. LLM re-ranking ─────────────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — LLM re-ranking", () => {
+	const queryContent = "how do we deploy the service";
+	const queryEmb = fakeEmbedding(queryContent);
+	const entries = ["first", "second", "third"].map((id, i) =>
+		makeEntry({
+			id,
+			content: `${queryContent} (${id})`,
+			embedding: queryEmb,
+			strength: 1 - i * 0.1,
+		}),
+	) as Array<KnowledgeEntry & { embedding: number[] }>;
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("drops and reorders candidates per the rerank model", async () => {
+		const store = makeStoreStub(entries);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+		const rerankSpy = spyOn(activation.llm, "rerank").mockResolvedValue([2, 0]);
+
+		const result = await activation.activate(queryContent, { rerank: true });
+
+		expect(rerankSpy).toHaveBeenCalledTimes(1);
+		expect(rerankSpy.mock.calls[0][1].map((e) => e.content)).toEqual(
+			entries.map((e) => e.content),
+		);
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["third", "first"]);
+		expect(result.rerank).toMatchObject({
+			status: "applied",
+			candidates: 3,
+			dropped: 1,
+		});
+		// Dropped entries are not reinforced
+		expect(store.recordAccess).not.toHaveBeenCalledWith("second");
+	});
+
+	it("keeps the retrieval order when the rerank call fails", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+		spyOn(activation.llm, "rerank").mockRejectedValue(new Error("503"));
+
+		const result = await activation.activate(queryContent, { rerank: true });
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"first",
+			"second",
+			"third",
+		]);
+		expect(result.rerank).toMatchObject({ status: "error", dropped: 0 });
+	});
+
+	it("keeps the retrieval order when the rerank response is unparseable", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+		spyOn(activation.llm, "rerank").mockResolvedValue(null);
+
+		const result = await activation.activate(queryContent, { rerank: true });
+
+		expect(result.entries).toHaveLength(3);
+		expect(result.rerank?.status).toBe("error");
+	});
+
+	it("skips re-ranking when disabled", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+		const rerankSpy = spyOn(activation.llm, "rerank");
+
+		const result = await activation.activate(queryContent, { rerank: false });
+
+		expect(rerankSpy).not.toHaveBeenCalled();
+		expect(result.rerank).toBeUndefined();
+	});
+});
+
+// ── 7. Token budget ───────────────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — maxTokens packing", () => {
+	const queryContent = "how do we deploy the service";
+	const queryEmb = fakeEmbedding(queryContent);
+	// approxTokens = ceil(chars / 4): 400 chars = 100 tokens, 40 chars = 10 tokens.
+	const long = (id: string, chars: number, strength: number) =>
+		makeEntry({
+			id,
+			content: `${queryContent} `.repeat(20).slice(0, chars),
+			embedding: queryEmb,
+			strength,
+		});
+	const entries = [
+		long("a", 400, 1.0),
+		long("b", 400, 0.9),
+		long("c", 40, 0.8),
+	] as Array<KnowledgeEntry & { embedding: number[] }>;
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("truncates the first overflowing entry and keeps packing smaller ones", async () => {
+		const store = makeStoreStub(entries);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, { maxTokens: 150 });
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["a", "b"]);
+		expect(result.entries[0].truncated).toBeUndefined();
+		expect(result.entries[1].truncated).toBe(true);
+		expect(result.entries[1].entry.content.endsWith("…")).toBe(true);
+		expect(result.entries[1].entry.content.length).toBe(200);
+		expect(result.budget).toEqual({
+			maxTokens: 150,
+			usedTokens: 150,
+			droppedEntries: 1,
+			truncatedEntries: 1,
+		});
+		// Entries that did not fit are not reinforced
+		expect(store.recordAccess).not.toHaveBeenCalledWith("c");
+	});
+
+	it("drops an overflowing entry when too little room is left to truncate it", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, { maxTokens: 115 });
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["a", "c"]);
+		expect(result.budget).toEqual({
+			maxTokens: 115,
+			usedTokens: 110,
+			droppedEntries: 1,
+			truncatedEntries: 0,
+		});
+	});
+
+	it("omits budget accounting without maxTokens", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent);
+
+		expect(result.entries).toHaveLength(3);
+		expect(result.budget).toBeUndefined();
+	});
+});
+
+// ── 8. Session memory ─────────────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — excludeIds and sessionId", () => {
+	const queryContent = "how do we deploy the service";
+	const queryEmb = fakeEmbedding(queryContent);
+	const entries = [
+		makeEntry({ id: "a", content: queryContent, embedding: queryEmb }),
+		makeEntry({
+			id: "b",
+			content: queryContent,
+			embedding: queryEmb,
+			strength: 0.9,
+		}),
+		makeEntry({
+			id: "c",
+			content: queryContent,
+			embedding: queryEmb,
+			strength: 0.8,
+		}),
+	] as Array<KnowledgeEntry & { embedding: number[] }>;
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("leaves out excludeIds and fills the limit with the next entries", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			limit: 2,
+			excludeIds: ["a"],
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["b", "c"]);
+	});
+
+	it("skips entries already returned to the same session", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const first = await activation.activate(queryContent, {
+			limit: 2,
+			sessionId: "s1",
+		});
+		const second = await activation.activate(queryContent, {
+			limit: 2,
+			sessionId: "s1",
+		});
+		const third = await activation.activate(queryContent, {
+			limit: 2,
+			sessionId: "s1",
+		});
+		const otherSession = await activation.activate(queryContent, {
+			limit: 2,
+			sessionId: "s2",
+		});
+
+		expect(first.entries.map((e) => e.entry.id)).toEqual(["a", "b"]);
+		expect(second.entries.map((e) => e.entry.id)).toEqual(["c"]);
+		expect(third.entries).toHaveLength(0);
+		expect(otherSession.entries.map((e) => e.entry.id)).toEqual(["a", "b"]);
+	});
+
+	it("does not remember entries without a sessionId", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		await activation.activate(queryContent, { limit: 2 });
+		const result = await activation.activate(queryContent, { limit: 2 });
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["a", "b"]);
+	});
+});
+
+describe("SessionMemory", () => {
+	it("forgets a session after the TTL without activity", () => {
+		const memory = new SessionMemory(1000);
+		memory.record("s1", ["a"], 0);
+		memory.record("s1", ["b"], 800); // activity extends the lifetime
+
+		expect([...memory.injected("s1", 1700)]).toEqual(["a", "b"]);
+		expect(memory.injected("s1", 2800).size).toBe(0);
+	});
+});
+
+// ── 9. Graph expansion ────────────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — graph expansion via supports", () => {
+	const queryContent = "how do we deploy the service";
+	const queryEmb = fakeEmbedding(queryContent);
+	const principle = makeEntry({
+		id: "principle",
+		type: "principle",
+		content: queryContent,
+		embedding: queryEmb,
+		isSynthesized: true,
+	});
+	const fact = makeEntry({
+		id: "fact",
+		content: queryContent,
+		embedding: queryEmb,
+		strength: 0.8,
+	});
+	const weak = makeEntry({
+		id: "weak",
+		content: queryContent,
+		embedding: queryEmb,
+		strength: 0.5,
+	});
+	// Source of the principle — unrelated embedding, so it never activates directly.
+	const evidence = makeEntry({
+		id: "evidence",
+		content: "zzz deploy runbook step",
+		embedding: fakeEmbedding("zzz deploy runbook step"),
+	});
+	const entries = [principle, fact, weak] as Array<
+		KnowledgeEntry & { embedding: number[] }
+	>;
+
+	function storeWithSources(): IKnowledgeStore {
+		const store = makeStoreStub(entries);
+		store.getSupportSourcesForIds = mock(() =>
+			Promise.resolve(new Map([["principle", [evidence]]])),
+		);
+		return store;
+	}
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("places supporting entries after their principle with a via link", async () => {
+		const store = storeWithSources();
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			limit: 3,
+			expand: true,
+		});
+
+		// The expanded entry displaces the lowest-ranked result within the limit.
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"principle",
+			"evidence",
+			"fact",
+		]);
+		const [seed, expanded] = result.entries;
+		expect(expanded.via).toEqual({
+			entryId: "principle",
+			relation: "supports",
+		});
+		expect(expanded.similarity).toBeCloseTo(
+			seed.similarity *
+				config.activation.expansionDecay *
+				expanded.staleness.strength,
+		);
+		expect(seed.via).toBeUndefined();
+		expect(store.getSupportSourcesForIds).toHaveBeenCalledWith([
+			"principle",
+			"fact",
+			"weak",
+		]);
+	});
+
+	it("is off by default, leaving the direct results unchanged", async () => {
+		const store = storeWithSources();
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, { limit: 3 });
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual([
+			"principle",
+			"fact",
+			"weak",
+		]);
+		expect(store.getSupportSourcesForIds).not.toHaveBeenCalled();
+	});
+
+	it("only expands results above expansionMinSimilarity", async () => {
+		const originalMinSimilarity = config.activation.expansionMinSimilarity;
+		config.activation.expansionMinSimilarity = 1.01; // no result qualifies
+		try {
+			const store = storeWithSources();
+			const activation = new ActivationEngine(store);
+			spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+			const result = await activation.activate(queryContent, {
+				limit: 3,
+				expand: true,
+			});
+
+			expect(result.entries.some((e) => e.via)).toBe(false);
+			expect(store.getSupportSourcesForIds).not.toHaveBeenCalled();
+		} finally {
+			config.activation.expansionMinSimilarity = originalMinSimilarity;
+		}
+	});
+});
+
+// ── 10. Filters ───────────────────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — filters", () => {
+	const queryContent = "how do we deploy the service";
+	const queryEmb = fakeEmbedding(queryContent);
+	const procedure = makeEntry({
+		id: "procedure",
+		type: "procedure",
+		content: queryContent,
+		topics: ["Deployment"],
+		confidence: 0.9,
+		embedding: queryEmb,
+	});
+	const fact = makeEntry({
+		id: "fact",
+		type: "fact",
+		content: queryContent,
+		topics: ["deployment"],
+		confidence: 0.4,
+		embedding: queryEmb,
+	});
+	const billing = makeEntry({
+		id: "billing",
+		type: "procedure",
+		content: queryContent,
+		topics: ["billing"],
+		confidence: 0.9,
+		embedding: queryEmb,
+	});
+	const entries = [procedure, fact, billing] as Array<
+		KnowledgeEntry & { embedding: number[] }
+	>;
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("filters the full scan by type, topic and minConfidence", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const byType = await activation.activate(queryContent, {
+			filters: { type: ["procedure"] },
+		});
+		const byTopic = await activation.activate(queryContent, {
+			filters: { topic: ["DEPLOYMENT"] },
+		});
+		const byConfidence = await activation.activate(queryContent, {
+			filters: { minConfidence: 0.5 },
+		});
+		const combined = await activation.activate(queryContent, {
+			filters: { type: ["procedure"], topic: ["deployment"] },
+		});
+
+		const ids = (r: { entries: Array<{ entry: KnowledgeEntry }> }) =>
+			r.entries.map((e) => e.entry.id).sort();
+		expect(ids(byType)).toEqual(["billing", "procedure"]);
+		expect(ids(byTopic)).toEqual(["fact", "procedure"]);
+		expect(ids(byConfidence)).toEqual(["billing", "procedure"]);
+		expect(ids(combined)).toEqual(["procedure"]);
+	});
+
+	it("filters lexical hits before fusion", async () => {
+		const activation = new ActivationEngine(
+			makeStoreStub([], { lexicalHits: [fact, procedure] }),
+		);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const result = await activation.activate(queryContent, {
+			filters: { type: ["procedure"] },
+		});
+
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["procedure"]);
+		expect(result.entries[0].fusion?.lexicalRank).toBe(1);
+	});
+
+	it("passes includeStatuses to the store scan", async () => {
+		const store = makeStoreStub(entries);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		await activation.activate(queryContent, {
+			filters: { includeStatuses: ["active", "superseded"] },
+		});
+
+		expect(store.getActiveEntriesWithEmbeddings).toHaveBeenCalledWith([
+			"active",
+			"superseded",
+		]);
+	});
+
+	it("pushes filters down into findSimilarEntries on the ANN path", async () => {
+		const store = makeStoreStub(entries, { supportAnn: true });
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+		const filters = { type: ["procedure" as const], minConfidence: 0.5 };
+
+		await activation.activate(queryContent, { filters });
+
+		expect(store.findSimilarEntries).toHaveBeenCalledWith(
+			queryEmb,
+			config.activation.maxResults,
+			config.activation.similarityThreshold,
+			undefined,
+			filters,
+		);
+	});
+
+	it("only searches the requested stores", async () => {
+		const personal = makeStoreStub([fact]);
+		const team = makeStoreStub([procedure]);
+		const activation = new ActivationEngine(
+			personal,
+			[personal, team],
+			undefined,
+			[],
+			[
+				{ id: "personal", db: personal },
+				{ id: "team", db: team },
+			],
+		);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+
+		const teamOnly = await activation.activate(queryContent, {
+			filters: { store: ["team"] },
+		});
+		const unknown = await activation.activate(queryContent, {
+			filters: { store: ["nope"] },
+		});
+
+		expect(teamOnly.entries.map((e) => e.entry.id)).toEqual(["procedure"]);
+		expect(personal.getActiveEntriesWithEmbeddings).not.toHaveBeenCalled();
+		expect(unknown.entries).toHaveLength(0);
+	});
+});
+
+// ── 11. Query expansion (HyDE) ────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — query expansion", () => {
+	const cue = "deploy?";
+	const hypothetical = {
+		type: "procedure" as const,
+		content: "Deploy by tagging a release",
+		topics: ["deploy"],
+	};
+	const expansionText = formatEmbeddingText(
+		hypothetical.type,
+		hypothetical.content,
+		hypothetical.topics,
+	);
+	// Orthogonal unit vectors: the stored entry only matches the expansion's
+	// vector, not the raw cue's.
+	const cueEmb = [1, 0, 0, 0, 0, 0, 0, 0];
+	const entryEmb = [0, 1, 0, 0, 0, 0, 0, 0];
+	const entry = makeEntry({
+		id: "deploy-procedure",
+		content: "zzz tag a release to deploy",
+		embedding: entryEmb,
+	});
+	const entries = [entry] as Array<KnowledgeEntry & { embedding: number[] }>;
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("embeds the hypothetical entry alongside the cue", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.llm, "expandQuery").mockResolvedValue(hypothetical);
+		const embedSpy = spyOn(
+			activation.embeddings,
+			"embedBatch",
+		).mockResolvedValue([cueEmb, entryEmb]);
+
+		const result = await activation.activate(cue, { queryExpansion: true });
+
+		expect(embedSpy).toHaveBeenCalledWith([cue, expansionText]);
+		expect(result.expansions).toEqual([expansionText]);
+		expect(result.entries.map((e) => e.entry.id)).toEqual(["deploy-procedure"]);
+		expect(result.query).toBe(cue);
+	});
+
+	it("caches expansions across activations", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		const expandSpy = spyOn(activation.llm, "expandQuery").mockResolvedValue(
+			hypothetical,
+		);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([
+			cueEmb,
+			entryEmb,
+		]);
+
+		await activation.activate(cue, { queryExpansion: true });
+		await activation.activate(` ${cue.toUpperCase()} `, {
+			queryExpansion: true,
+		});
+
+		expect(expandSpy).toHaveBeenCalledTimes(1);
+	});
+
+	it("falls back to the raw cue when expansion fails", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.llm, "expandQuery").mockRejectedValue(
+			new Error("timeout"),
+		);
+		const embedSpy = spyOn(
+			activation.embeddings,
+			"embedBatch",
+		).mockResolvedValue([cueEmb]);
+
+		const result = await activation.activate(cue, { queryExpansion: true });
+
+		expect(embedSpy).toHaveBeenCalledWith([cue]);
+		expect(result.expansions).toEqual([]);
+	});
+
+	it("does not call the LLM when expansion is off", async () => {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		const expandSpy = spyOn(activation.llm, "expandQuery");
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([cueEmb]);
+
+		const result = await activation.activate(cue, { queryExpansion: false });
+
+		expect(expandSpy).not.toHaveBeenCalled();
+		expect(result.expansions).toBeUndefined();
+	});
+});
+
+// ── 12. MMR diversification ───────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — MMR diversification", () => {
+	const normalize = (v: number[]) => {
+		const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+		return v.map((x) => x / norm);
+	};
+	const queryEmb = [1, 0, 0];
+	// Two near-identical variants of one fact, and a less similar but distinct
+	// entry that ranks third by relevance alone.
+	const entries = [
+		makeEntry({ id: "variant-a", embedding: normalize([1, 0.5, 0]) }),
+		makeEntry({ id: "variant-b", embedding: normalize([1, 0.5, 0.01]) }),
+		makeEntry({ id: "distinct", embedding: normalize([1, -0.6, 0]) }),
+	] as Array<KnowledgeEntry & { embedding: number[] }>;
+
+	afterEach(() => {
+		mock.restore();
+	});
+
+	async function activateIds(options: {
+		mmr?: boolean;
+		mmrLambda?: number;
+	}): Promise<string[]> {
+		const activation = new ActivationEngine(makeStoreStub(entries));
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([queryEmb]);
+		const result = await activation.activate("the fact", {
+			limit: 2,
+			threshold: 0.5,
+			...options,
+		});
+		return result.entries.map((e) => e.entry.id);
+	}
+
+	it("replaces a near-duplicate with a distinct entry", async () => {
+		expect(await activateIds({ mmr: false })).toEqual([
+			"variant-a",
+			"variant-b",
+		]);
+		expect(await activateIds({ mmr: true, mmrLambda: 0.7 })).toEqual([
+			"variant-a",
+			"distinct",
+		]);
+	});
+
+	it("keeps the relevance order with lambda 1", async () => {
+		expect(await activateIds({ mmr: true, mmrLambda: 1 })).toEqual([
+			"variant-a",
+			"variant-b",
+		]);
+	});
+});
+
+// ── 13. Explain ───────────────────────────────────────────────────────────────
+
+describe("ActivationEngine.activate — explain", () => {
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("attaches the similarity to each cue without side effects", async () => {
+		const store = makeStoreStub([
+			makeEntry({ id: "deploy", embedding: [1, 0, 0] }),
+		] as Array<KnowledgeEntry & { embedding: number[] }>);
+		const activation = new ActivationEngine(store);
+		spyOn(activation.embeddings, "embedBatch").mockResolvedValue([
+			[1, 0, 0],
+			[0.6, 0.8, 0],
+		]);
+
+		const result = await activation.activate(["deploy", "friday"], {
+			threshold: 0.5,
+			sessionId: "s1",
+			explain: true,
+		});
+
+		expect(result.entries).toHaveLength(1);
+		const cues = result.entries[0].cues ?? [];
+		expect(cues.map((c) => c.cue)).toEqual(["deploy", "friday"]);
+		expect(cues[0].similarity).toBeCloseTo(1);
+		expect(cues[1].similarity).toBeCloseTo(0.6);
+		expect(store.recordAccess).not.toHaveBeenCalled();
+
+		// The session did not remember the explained entry.
+		const again = await activation.activate("deploy", {
+			threshold: 0.5,
+			sessionId: "s1",
+		});
+		expect(again.entries.map((e) => e.entry.id)).toEqual(["deploy"]);
+		expect(again.entries[0].cues).toBeUndefined();
+		expect(store.recordAccess).toHaveBeenCalledWith("deploy");
+	});
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Server } from "bun";
+import type { WebhookConfig } from "../src/config-file";
+import { ServerStateDB } from "../src/db/state/index";
+import { emitResolutionEvents, knowledgeEvents } from "../src/events";
+import { WebhookDispatcher, signPayload } from "../src/webhooks";
+
+interface Received {
+	headers: Headers;
+	body: string;
+}
+
+describe("WebhookDispatcher", () => {
+	let tempDir: string;
+	let stateDb: ServerStateDB;
+	let receiver: Server;
+	let received: Received[];
+	/** Status codes the receiver answers with, in order; 200 once exhausted. */
+	let responses: number[];
+	let dispatcher: WebhookDispatcher | null;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "knowledge-webhooks-test-"));
+		stateDb = new ServerStateDB(join(tempDir, "state.db"));
+		received = [];
+		responses = [];
+		dispatcher = null;
+		// Local stand-in for a Slack-style incoming webhook.
+		receiver = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				received.push({ headers: req.headers, body: await req.text() });
+				return new Response("ok", { status: responses.shift() ?? 200 });
+			},
+		});
+	});
+
+	afterEach(async () => {
+		await dispatcher?.stop();
+		receiver.stop(true);
+		await stateDb.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function start(
+		webhook: Partial<WebhookConfig>,
+		maxAttempts = 3,
+	): WebhookDispatcher {
+		dispatcher = new WebhookDispatcher(
+			[
+				{
+					id: "team",
+					url: `http://127.0.0.1:${receiver.port}/hook`,
+					events: ["conflict.irresolvable", "decision.created"],
+					...webhook,
+				},
+			],
+			stateDb,
+			{ maxAttempts, baseDelayMs: 5 },
+		);
+		dispatcher.start();
+		return dispatcher;
+	}
+
+	it("posts a signed payload for an irresolvable conflict", async () => {
+		const d = start({ secret: "s3cret" });
+		emitResolutionEvents("irresolvable", "new-1", "old-1", "Both can't hold");
+		await d.settled();
+
+		expect(received).toHaveLength(1);
+		const [req] = received;
+		expect(req.headers.get("x-knowledge-event")).toBe("conflict.irresolvable");
+		expect(req.headers.get("x-knowledge-signature")).toBe(
+			signPayload(req.body, "s3cret"),
+		);
+		const body = JSON.parse(req.body);
+		expect(body.event).toBe("conflict.irresolvable");
+		expect(body.id).toBe(req.headers.get("x-knowledge-delivery"));
+		expect(body.data).toEqual({
+			entryId: "new-1",
+			counterpartId: "old-1",
+			reason: "Both can't hold",
+		});
+	});
+
+	it("only delivers subscribed events, and only new decisions", async () => {
+		const d = start({ events: ["decision.created"] });
+		emitResolutionEvents("irresolvable", "new-1", "old-1");
+		knowledgeEvents.emit({
+			type: "entry.created",
+			entryId: "f-1",
+			entryType: "fact",
+			content: "A fact",
+		});
+		knowledgeEvents.emit({
+			type: "entry.created",
+			entryId: "d-1",
+			entryType: "decision",
+			content: "We use Postgres",
+		});
+		await d.settled();
+
+		expect(received).toHaveLength(1);
+		expect(received[0].headers.get("x-knowledge-signature")).toBeNull();
+		expect(JSON.parse(received[0].body).data).toEqual({
+			entryId: "d-1",
+			content: "We use Postgres",
+		});
+	});
+
+	it("retries 5xx responses with backoff and logs each delivery", async () => {
+		responses = [503, 500];
+		const d = start({});
+		knowledgeEvents.emit({
+			type: "entry.created",
+			entryId: "d-1",
+			entryType: "decision",
+			content: "We use Postgres",
+		});
+		await d.settled();
+
+		expect(received).toHaveLength(3);
+		// Every attempt sends the same delivery.
+		expect(new Set(received.map((r) => r.body)).size).toBe(1);
+		const [delivery] = await stateDb.getWebhookDeliveries(10);
+		expect(delivery).toMatchObject({
+			webhookId: "team",
+			event: "decision.created",
+			payload: received[0].body,
+			status: "delivered",
+			attempts: 3,
+			lastStatusCode: 200,
+			lastError: null,
+		});
+	});
+
+	it("gives up on 4xx responses and after maxAttempts", async () => {
+		responses = [404, 502, 502];
+		const d = start({}, 2);
+		emitResolutionEvents("irresolvable", "new-1", "old-1");
+		await d.settled();
+		emitResolutionEvents("irresolvable", "new-2", "old-2");
+		await d.settled();
+
+		expect(received).toHaveLength(3);
+		const deliveries = await stateDb.getWebhookDeliveries(10);
+		expect(
+			deliveries.map((x) => [x.status, x.attempts, x.lastStatusCode]),
+		).toEqual([
+			["failed", 2, 502],
+			["failed", 1, 404],
+		]);
+	});
+});